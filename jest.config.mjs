@@ -0,0 +1,15 @@
+import nextJest from 'next/jest.js';
+
+// Loads next.config.ts and .env files and compiles TypeScript with SWC, like the app
+const createJestConfig = nextJest({ dir: './' });
+
+const config = {
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/src/**/__tests__/**/*.test.ts'],
+  // Same alias as the paths in tsconfig.json
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+};
+
+export default createJestConfig(config);
@@ -27,6 +27,25 @@ const app = next({
 
 const handle = app.getRequestHandler();
 
+// Start the flow scheduler through its API route, which runs inside the Next.js server
+function startScheduler() {
+  if (process.env.FLUJO_DISABLE_SCHEDULER === '1' || process.env.FLUJO_DISABLE_SCHEDULER === 'true') {
+    console.log('> Scheduler disabled');
+    return;
+  }
+  const schedulerHost = networkMode ? '127.0.0.1' : hostname;
+  fetch(`http://${schedulerHost}:${port}/api/scheduler`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'start' })
+  })
+    .then(response => {
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      console.log('> Scheduler started');
+    })
+    .catch(error => console.error('> Failed to start scheduler:', error.message));
+}
+
 app.prepare().then(() => {
   createServer((req, res) => {
     const parsedUrl = parse(req.url, true);
@@ -40,6 +59,8 @@ app.prepare().then(() => {
     
     console.log(`> Ready on ${addressInfo}`);
     
+    startScheduler();
+    
     if (networkMode) {
       // Log the actual IP addresses for network access
       const { networkInterfaces } = require('os');
@@ -4,7 +4,12 @@ import {
   FlowServiceResponse, 
   FlowOperationResponse, 
   FlowListResponse,
-  FlowExecutionResponse
+  FlowExecutionResponse,
+  FlowValidationResponse,
+  FlowVersionMeta,
+  FlowVersionListResponse,
+  FlowVersionResponse,
+  FlowDiffResponse
 } from '@/shared/types/flow';
 import { flowService } from '@/backend/services/flow';
 
@@ -54,14 +59,14 @@ export async function getFlow(flowId: string): Promise<FlowOperationResponse> {
  * Save a flow (create new or update existing)
  * This adapter delegates to the backend service
  */
-export async function saveFlow(flow: Flow): Promise<FlowOperationResponse> {
+export async function saveFlow(flow: Flow, meta?: FlowVersionMeta): Promise<FlowOperationResponse> {
   log.debug(`saveFlow: Delegating to backend service for flow ID: ${flow.id}`);
   try {
-    const result = await flowService.saveFlow(flow);
+    const result = await flowService.saveFlow(flow, meta);
     if (!result.success) {
       return result;
     }
-    return { success: true, flow };
+    return { success: true, flow, validation: result.validation, version: result.version };
   } catch (error) {
     log.error('saveFlow: Error saving flow:', error);
     return {
@@ -71,6 +76,24 @@ export async function saveFlow(flow: Flow): Promise<FlowOperationResponse> {
   }
 }
 
+/**
+ * Validate a flow without saving it
+ * This adapter delegates to the backend service
+ */
+export async function validateFlow(flow: Flow): Promise<FlowValidationResponse> {
+  log.debug(`validateFlow: Delegating to backend service for flow ID: ${flow.id}`);
+  try {
+    const validation = await flowService.validateFlow(flow);
+    return { success: true, validation };
+  } catch (error) {
+    log.error('validateFlow: Error validating flow:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to validate flow'
+    };
+  }
+}
+
 /**
  * Delete a flow by ID
  * This adapter delegates to the backend service
@@ -88,6 +111,80 @@ export async function deleteFlow(flowId: string): Promise<FlowServiceResponse> {
   }
 }
 
+/**
+ * List the version history of a flow
+ * This adapter delegates to the backend service
+ */
+export async function listVersions(flowId: string): Promise<FlowVersionListResponse> {
+  log.debug(`listVersions: Delegating to backend service for flow ID: ${flowId}`);
+  try {
+    const versions = await flowService.listVersions(flowId);
+    return { success: true, versions };
+  } catch (error) {
+    log.error(`listVersions: Error listing versions of flow ${flowId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list flow versions'
+    };
+  }
+}
+
+/**
+ * Get a version of a flow
+ * This adapter delegates to the backend service
+ */
+export async function getVersion(flowId: string, version: number): Promise<FlowVersionResponse> {
+  log.debug(`getVersion: Delegating to backend service for flow ID: ${flowId}, version: ${version}`);
+  try {
+    const flowVersion = await flowService.getVersion(flowId, version);
+    if (!flowVersion) {
+      return { success: false, error: `Version ${version} of flow ${flowId} not found` };
+    }
+    return { success: true, version: flowVersion };
+  } catch (error) {
+    log.error(`getVersion: Error getting version ${version} of flow ${flowId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get flow version'
+    };
+  }
+}
+
+/**
+ * Compare two versions of a flow
+ * This adapter delegates to the backend service
+ */
+export async function diffVersions(flowId: string, fromVersion: number, toVersion?: number): Promise<FlowDiffResponse> {
+  log.debug(`diffVersions: Delegating to backend service for flow ID: ${flowId}`, { fromVersion, toVersion });
+  try {
+    const diff = await flowService.diffVersions(flowId, fromVersion, toVersion);
+    return { success: true, diff };
+  } catch (error) {
+    log.error(`diffVersions: Error comparing versions of flow ${flowId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare flow versions'
+    };
+  }
+}
+
+/**
+ * Restore a flow to an earlier version
+ * This adapter delegates to the backend service
+ */
+export async function restoreVersion(flowId: string, version: number, author?: string): Promise<FlowOperationResponse> {
+  log.debug(`restoreVersion: Delegating to backend service for flow ID: ${flowId}, version: ${version}`);
+  try {
+    return await flowService.restoreVersion(flowId, version, author);
+  } catch (error) {
+    log.error(`restoreVersion: Error restoring version ${version} of flow ${flowId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore flow version'
+    };
+  }
+}
+
 /**
  * Create a new flow with default nodes
  * This adapter delegates to the backend service
@@ -6,6 +6,12 @@ import { Flow } from '@/shared/types/flow';
 // Create a logger instance for this file
 const log = createLogger('app/api/flow/handlers');
 
+// Version numbers arrive as query strings or JSON values; returns null unless a positive integer
+function parseVersion(value: unknown): number | null {
+  const version = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : null;
+}
+
 /**
  * Handle GET requests
  */
@@ -66,6 +72,97 @@ export async function GET(req: NextRequest) {
           error: `Error getting flow: ${error instanceof Error ? error.message : 'Unknown error'}` 
         }, { status: 500 });
       }
+    }
+    // List the version history of a flow
+    else if (action === 'listVersions') {
+      const flowId = searchParams.get('id');
+      
+      if (!flowId) {
+        return NextResponse.json({ error: 'Flow ID is required' }, { status: 400 });
+      }
+      
+      log.debug(`GET: Listing versions of flow with ID: ${flowId}`);
+      
+      try {
+        const result = await flowAdapter.listVersions(flowId);
+        if (!result.success) {
+          return NextResponse.json({ error: result.error }, { status: 500 });
+        }
+        
+        return NextResponse.json({
+          success: true,
+          versions: result.versions
+        });
+      } catch (error) {
+        log.error(`GET: Error listing versions of flow ${flowId}:`, error);
+        return NextResponse.json({ 
+          error: `Error listing flow versions: ${error instanceof Error ? error.message : 'Unknown error'}` 
+        }, { status: 500 });
+      }
+    }
+    // Get a version of a flow
+    else if (action === 'getVersion') {
+      const flowId = searchParams.get('id');
+      const version = parseVersion(searchParams.get('version'));
+      
+      if (!flowId) {
+        return NextResponse.json({ error: 'Flow ID is required' }, { status: 400 });
+      }
+      if (version === null) {
+        return NextResponse.json({ error: 'A valid version number is required' }, { status: 400 });
+      }
+      
+      log.debug(`GET: Getting version ${version} of flow with ID: ${flowId}`);
+      
+      try {
+        const result = await flowAdapter.getVersion(flowId, version);
+        if (!result.success) {
+          return NextResponse.json({ error: result.error }, { status: 404 });
+        }
+        
+        return NextResponse.json({
+          success: true,
+          version: result.version
+        });
+      } catch (error) {
+        log.error(`GET: Error getting version ${version} of flow ${flowId}:`, error);
+        return NextResponse.json({ 
+          error: `Error getting flow version: ${error instanceof Error ? error.message : 'Unknown error'}` 
+        }, { status: 500 });
+      }
+    }
+    // Compare two versions of a flow (`to` defaults to the latest version)
+    else if (action === 'diffVersions') {
+      const flowId = searchParams.get('id');
+      const fromVersion = parseVersion(searchParams.get('from'));
+      const toParam = searchParams.get('to');
+      const toVersion = toParam === null ? undefined : parseVersion(toParam);
+      
+      if (!flowId) {
+        return NextResponse.json({ error: 'Flow ID is required' }, { status: 400 });
+      }
+      if (fromVersion === null || toVersion === null) {
+        return NextResponse.json({ error: 'Valid version numbers are required' }, { status: 400 });
+      }
+      
+      log.debug(`GET: Comparing versions of flow with ID: ${flowId}`, { fromVersion, toVersion });
+      
+      try {
+        const result = await flowAdapter.diffVersions(flowId, fromVersion, toVersion);
+        if (!result.success) {
+          return NextResponse.json({ error: result.error }, { status: 404 });
+        }
+        
+        return NextResponse.json({
+          success: true,
+          diff: result.diff
+        });
+      } catch (error) {
+        log.error(`GET: Error comparing versions of flow ${flowId}:`, error);
+        return NextResponse.json({ 
+          error: `Error comparing flow versions: ${error instanceof Error ? error.message : 'Unknown error'}` 
+        }, { status: 500 });
+      }
     } else {
       return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     }
@@ -92,7 +189,7 @@ export async function POST(req: NextRequest) {
 
     // Handle different actions
     if (action === 'addFlow' || action === 'updateFlow') {
-      const { flow } = body;
+      const { flow, author, message } = body;
       
       if (!flow) {
         return NextResponse.json({ error: 'Flow data is required' }, { status: 400 });
@@ -101,7 +198,7 @@ export async function POST(req: NextRequest) {
       log.debug(`POST: ${action === 'addFlow' ? 'Adding' : 'Updating'} flow with ID: ${flow.id}`);
       
       try {
-        const result = await flowAdapter.saveFlow(flow as Flow);
+        const result = await flowAdapter.saveFlow(flow as Flow, { author, message });
         
         if (!result.success) {
           return NextResponse.json({ error: result.error }, { status: 400 });
@@ -109,7 +206,9 @@ export async function POST(req: NextRequest) {
         
         return NextResponse.json({
           success: true,
-          flow: result.flow
+          flow: result.flow,
+          validation: result.validation,
+          version: result.version
         });
       } catch (error) {
         log.error(`POST: Error ${action === 'addFlow' ? 'adding' : 'updating'} flow:`, error);
@@ -118,6 +217,34 @@ export async function POST(req: NextRequest) {
         }, { status: 500 });
       }
     }
+    // Validate a flow (the current editor state, saved or not)
+    else if (action === 'validateFlow') {
+      const { flow } = body;
+      
+      if (!flow) {
+        return NextResponse.json({ error: 'Flow data is required' }, { status: 400 });
+      }
+      
+      log.debug(`POST: Validating flow with ID: ${flow.id}`);
+      
+      try {
+        const result = await flowAdapter.validateFlow(flow as Flow);
+        
+        if (!result.success) {
+          return NextResponse.json({ error: result.error }, { status: 500 });
+        }
+        
+        return NextResponse.json({
+          success: true,
+          validation: result.validation
+        });
+      } catch (error) {
+        log.error('POST: Error validating flow:', error);
+        return NextResponse.json({ 
+          error: `Error validating flow: ${error instanceof Error ? error.message : 'Unknown error'}` 
+        }, { status: 500 });
+      }
+    }
     // Delete a flow
     else if (action === 'deleteFlow') {
       const { id } = body;
@@ -145,6 +272,40 @@ export async function POST(req: NextRequest) {
         }, { status: 500 });
       }
     }
+    // Restore a flow to an earlier version
+    else if (action === 'restoreVersion') {
+      const { id, author } = body;
+      const version = parseVersion(body.version);
+      
+      if (!id) {
+        return NextResponse.json({ error: 'Flow ID is required' }, { status: 400 });
+      }
+      if (version === null) {
+        return NextResponse.json({ error: 'A valid version number is required' }, { status: 400 });
+      }
+      
+      log.debug(`POST: Restoring flow with ID: ${id} to version ${version}`);
+      
+      try {
+        const result = await flowAdapter.restoreVersion(id, version, author);
+        
+        if (!result.success) {
+          return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+        
+        return NextResponse.json({
+          success: true,
+          flow: result.flow,
+          validation: result.validation,
+          version: result.version
+        });
+      } catch (error) {
+        log.error('POST: Error restoring flow version:', error);
+        return NextResponse.json({ 
+          error: `Error restoring flow version: ${error instanceof Error ? error.message : 'Unknown error'}` 
+        }, { status: 500 });
+      }
+    }
     // Create a new flow
     else if (action === 'createNewFlow') {
       const { name } = body;
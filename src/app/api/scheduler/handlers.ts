@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/utils/logger';
+import * as schedulerAdapter from './scheduler-adapter';
+import { ScheduleTriggerInput } from '@/shared/types/scheduler';
+
+// Create a logger instance for this file
+const log = createLogger('app/api/scheduler/handlers');
+
+/**
+ * Handle GET requests
+ */
+export async function GET(req: NextRequest) {
+  log.debug('GET: Entering method');
+  try {
+    const { searchParams } = new URL(req.url);
+    const action = searchParams.get('action');
+
+    if (!action) {
+      return NextResponse.json({ error: 'Action is required' }, { status: 400 });
+    }
+
+    // The scheduler starts with the server; this also starts it when running without server.js
+    await schedulerAdapter.startScheduler();
+
+    // List all triggers
+    if (action === 'listTriggers') {
+      log.debug('GET: Listing all triggers');
+      const result = await schedulerAdapter.listTriggers();
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 500 });
+      }
+      return NextResponse.json({
+        success: true,
+        triggers: result.triggers
+      });
+    }
+    // Get a specific trigger
+    else if (action === 'getTrigger') {
+      const triggerId = searchParams.get('id');
+
+      if (!triggerId) {
+        return NextResponse.json({ error: 'Trigger ID is required' }, { status: 400 });
+      }
+
+      log.debug(`GET: Getting trigger with ID: ${triggerId}`);
+      const result = await schedulerAdapter.getTrigger(triggerId);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 404 });
+      }
+      return NextResponse.json({
+        success: true,
+        trigger: result.trigger
+      });
+    } else {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    log.error('GET: Scheduler API error:', error);
+    return NextResponse.json({ 
+      error: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}` 
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Handle POST requests
+ */
+export async function POST(req: NextRequest) {
+  log.debug('POST: Entering method');
+  try {
+    const body = await req.json();
+    const { action } = body;
+
+    if (!action) {
+      return NextResponse.json({ error: 'Action is required' }, { status: 400 });
+    }
+
+    const startResult = await schedulerAdapter.startScheduler();
+
+    // Start the scheduler (called by server.js once the server is listening)
+    if (action === 'start') {
+      if (!startResult.success) {
+        return NextResponse.json({ error: startResult.error }, { status: 500 });
+      }
+      return NextResponse.json({ success: true });
+    }
+    // Create or update a trigger
+    else if (action === 'saveTrigger') {
+      const { trigger } = body;
+
+      if (!trigger) {
+        return NextResponse.json({ error: 'Trigger data is required' }, { status: 400 });
+      }
+
+      log.debug(`POST: Saving trigger with ID: ${trigger.id || '(new)'}`);
+      const result = await schedulerAdapter.saveTrigger(trigger as ScheduleTriggerInput);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({
+        success: true,
+        trigger: result.trigger
+      });
+    }
+    // Delete a trigger
+    else if (action === 'deleteTrigger') {
+      const { id } = body;
+
+      if (!id) {
+        return NextResponse.json({ error: 'Trigger ID is required' }, { status: 400 });
+      }
+
+      log.debug(`POST: Deleting trigger with ID: ${id}`);
+      const result = await schedulerAdapter.deleteTrigger(id);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true });
+    }
+    // Run a trigger now; responds when the run has finished
+    else if (action === 'runTrigger') {
+      const { id } = body;
+
+      if (!id) {
+        return NextResponse.json({ error: 'Trigger ID is required' }, { status: 400 });
+      }
+
+      log.debug(`POST: Running trigger with ID: ${id}`);
+      const result = await schedulerAdapter.runTrigger(id);
+      if (!result.run) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({
+        success: result.success,
+        run: result.run,
+        error: result.error
+      });
+    } else {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    log.error('POST: Scheduler API error:', error);
+    return NextResponse.json({ 
+      error: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}` 
+    }, { status: 500 });
+  }
+}
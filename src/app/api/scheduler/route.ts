@@ -0,0 +1,2 @@
+// Export the handlers
+export { GET, POST } from './handlers';
@@ -0,0 +1,130 @@
+import { createLogger } from '@/utils/logger';
+import {
+  ScheduleTriggerInput,
+  ScheduleTriggerListResponse,
+  ScheduleTriggerResponse,
+  ScheduleRunResponse,
+  SchedulerServiceResponse
+} from '@/shared/types/scheduler';
+import { schedulerService, ScheduleRunner } from '@/backend/services/scheduler';
+import { runFlowConversation } from '@/app/v1/chat/completions/runFlowConversation';
+
+// Create a logger instance for this file
+const log = createLogger('app/api/scheduler/scheduler-adapter');
+
+/**
+ * Runs a trigger's flow as a new conversation through the chat completion service
+ */
+const runScheduledFlow: ScheduleRunner = async (trigger, message) => {
+  const { conversationId, status, error } = await runFlowConversation(trigger.flowId, message, {
+    requireApproval: trigger.approvalMode === 'require_approval'
+  });
+  return { conversationId, status, error };
+};
+
+/**
+ * Start the scheduler with the chat completion runner. Safe to call more than once.
+ */
+export async function startScheduler(): Promise<SchedulerServiceResponse> {
+  try {
+    await schedulerService.start(runScheduledFlow);
+    return { success: true };
+  } catch (error) {
+    log.error('startScheduler: Error starting scheduler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start scheduler'
+    };
+  }
+}
+
+/**
+ * List all triggers with their next run
+ * This adapter delegates to the backend service
+ */
+export async function listTriggers(): Promise<ScheduleTriggerListResponse> {
+  log.debug('listTriggers: Delegating to backend service');
+  try {
+    const triggers = await schedulerService.listTriggers();
+    return { success: true, triggers };
+  } catch (error) {
+    log.error('listTriggers: Error listing triggers:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list triggers'
+    };
+  }
+}
+
+/**
+ * Get a trigger by ID
+ * This adapter delegates to the backend service
+ */
+export async function getTrigger(triggerId: string): Promise<ScheduleTriggerResponse> {
+  log.debug(`getTrigger: Delegating to backend service for trigger ID: ${triggerId}`);
+  try {
+    const triggers = await schedulerService.listTriggers();
+    const trigger = triggers.find(t => t.id === triggerId);
+    if (!trigger) {
+      return { success: false, error: `Trigger not found: ${triggerId}` };
+    }
+    return { success: true, trigger };
+  } catch (error) {
+    log.error(`getTrigger: Error getting trigger ${triggerId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get trigger'
+    };
+  }
+}
+
+/**
+ * Create or update a trigger
+ * This adapter delegates to the backend service
+ */
+export async function saveTrigger(trigger: ScheduleTriggerInput): Promise<ScheduleTriggerResponse> {
+  log.debug(`saveTrigger: Delegating to backend service for trigger ID: ${trigger.id || '(new)'}`);
+  try {
+    return await schedulerService.saveTrigger(trigger);
+  } catch (error) {
+    log.error('saveTrigger: Error saving trigger:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save trigger'
+    };
+  }
+}
+
+/**
+ * Delete a trigger by ID
+ * This adapter delegates to the backend service
+ */
+export async function deleteTrigger(triggerId: string): Promise<SchedulerServiceResponse> {
+  log.debug(`deleteTrigger: Delegating to backend service for trigger ID: ${triggerId}`);
+  try {
+    return await schedulerService.deleteTrigger(triggerId);
+  } catch (error) {
+    log.error(`deleteTrigger: Error deleting trigger ${triggerId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete trigger'
+    };
+  }
+}
+
+/**
+ * Run a trigger now
+ * This adapter delegates to the backend service
+ */
+export async function runTrigger(triggerId: string): Promise<ScheduleRunResponse> {
+  log.debug(`runTrigger: Delegating to backend service for trigger ID: ${triggerId}`);
+  try {
+    return await schedulerService.runTrigger(triggerId);
+  } catch (error) {
+    log.error(`runTrigger: Error running trigger ${triggerId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to run trigger'
+    };
+  }
+}
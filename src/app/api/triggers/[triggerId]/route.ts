@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/utils/logger';
+import { invokeTrigger } from '../triggers-adapter';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER } from '@/backend/services/webhook';
+
+const log = createLogger('app/api/triggers/[triggerId]/route');
+
+/**
+ * Inbound webhook: accepts any JSON body signed with the trigger's secret and starts a
+ * conversation for the trigger's flow
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { triggerId: string } }
+) {
+  const { triggerId } = params;
+  log.info('Handling inbound webhook request', { triggerId });
+
+  try {
+    // The signature covers the exact bytes sent, so the body is read as text before parsing
+    const rawBody = await request.text();
+    const result = await invokeTrigger(triggerId, rawBody, request.headers.get(SIGNATURE_HEADER), request.headers.get(TIMESTAMP_HEADER));
+    return NextResponse.json(result.body, { status: result.httpStatus });
+  } catch (error) {
+    log.error('Inbound webhook request failed', { triggerId, error });
+    return NextResponse.json({
+      error: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/utils/logger';
+import * as triggersAdapter from './triggers-adapter';
+import { WebhookTriggerInput } from '@/shared/types/webhook';
+
+// Create a logger instance for this file
+const log = createLogger('app/api/triggers/handlers');
+
+/**
+ * Handle GET requests
+ */
+export async function GET(req: NextRequest) {
+  log.debug('GET: Entering method');
+  try {
+    const { searchParams } = new URL(req.url);
+    const action = searchParams.get('action');
+
+    if (!action) {
+      return NextResponse.json({ error: 'Action is required' }, { status: 400 });
+    }
+
+    // List all triggers
+    if (action === 'listTriggers') {
+      log.debug('GET: Listing all triggers');
+      const result = await triggersAdapter.listTriggers();
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 500 });
+      }
+      return NextResponse.json({
+        success: true,
+        triggers: result.triggers
+      });
+    }
+
+    const triggerId = searchParams.get('id');
+    if (!triggerId) {
+      return NextResponse.json({ error: 'Trigger ID is required' }, { status: 400 });
+    }
+
+    // Get a specific trigger, including its secret
+    if (action === 'getTrigger') {
+      log.debug(`GET: Getting trigger with ID: ${triggerId}`);
+      const result = await triggersAdapter.getTrigger(triggerId);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 404 });
+      }
+      return NextResponse.json({
+        success: true,
+        trigger: result.trigger
+      });
+    }
+    // List the recent invocations of a trigger
+    else if (action === 'listInvocations') {
+      log.debug(`GET: Listing invocations of trigger with ID: ${triggerId}`);
+      const result = await triggersAdapter.listInvocations(triggerId);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 500 });
+      }
+      return NextResponse.json({
+        success: true,
+        invocations: result.invocations
+      });
+    } else {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    log.error('GET: Triggers API error:', error);
+    return NextResponse.json({
+      error: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Handle POST requests
+ */
+export async function POST(req: NextRequest) {
+  log.debug('POST: Entering method');
+  try {
+    const body = await req.json();
+    const { action } = body;
+
+    if (!action) {
+      return NextResponse.json({ error: 'Action is required' }, { status: 400 });
+    }
+
+    // Create or update a trigger
+    if (action === 'saveTrigger') {
+      const { trigger } = body;
+
+      if (!trigger) {
+        return NextResponse.json({ error: 'Trigger data is required' }, { status: 400 });
+      }
+
+      log.debug(`POST: Saving trigger with ID: ${trigger.id || '(new)'}`);
+      const result = await triggersAdapter.saveTrigger(trigger as WebhookTriggerInput);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({
+        success: true,
+        trigger: result.trigger
+      });
+    }
+
+    const { id } = body;
+    if (!id) {
+      return NextResponse.json({ error: 'Trigger ID is required' }, { status: 400 });
+    }
+
+    // Delete a trigger
+    if (action === 'deleteTrigger') {
+      log.debug(`POST: Deleting trigger with ID: ${id}`);
+      const result = await triggersAdapter.deleteTrigger(id);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true });
+    }
+    // Replace the secret of a trigger
+    else if (action === 'regenerateSecret') {
+      log.debug(`POST: Regenerating secret of trigger with ID: ${id}`);
+      const result = await triggersAdapter.regenerateSecret(id);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({
+        success: true,
+        trigger: result.trigger
+      });
+    } else {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    log.error('POST: Triggers API error:', error);
+    return NextResponse.json({
+      error: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
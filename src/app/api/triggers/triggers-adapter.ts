@@ -0,0 +1,210 @@
+import { createLogger } from '@/utils/logger';
+import {
+  WebhookInvocationStatus,
+  WebhookTriggerInput,
+  WebhookTriggerListResponse,
+  WebhookTriggerResponse,
+  WebhookInvocationListResponse,
+  WebhookServiceResponse
+} from '@/shared/types/webhook';
+import { webhookService } from '@/backend/services/webhook';
+import { runFlowConversation } from '@/app/v1/chat/completions/runFlowConversation';
+
+// Create a logger instance for this file
+const log = createLogger('app/api/triggers/triggers-adapter');
+
+/**
+ * Outcome of an inbound webhook request: the HTTP status and JSON body to answer with
+ */
+export interface InvokeTriggerResult {
+  httpStatus: number;
+  body: Record<string, unknown>;
+}
+
+/**
+ * List all triggers without their secrets
+ * This adapter delegates to the backend service
+ */
+export async function listTriggers(): Promise<WebhookTriggerListResponse> {
+  log.debug('listTriggers: Delegating to backend service');
+  try {
+    const triggers = await webhookService.listTriggers();
+    return { success: true, triggers };
+  } catch (error) {
+    log.error('listTriggers: Error listing triggers:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list triggers'
+    };
+  }
+}
+
+/**
+ * Get a trigger by ID, including its secret
+ * This adapter delegates to the backend service
+ */
+export async function getTrigger(triggerId: string): Promise<WebhookTriggerResponse> {
+  log.debug(`getTrigger: Delegating to backend service for trigger ID: ${triggerId}`);
+  try {
+    const trigger = await webhookService.getTrigger(triggerId);
+    if (!trigger) {
+      return { success: false, error: `Trigger not found: ${triggerId}` };
+    }
+    return { success: true, trigger };
+  } catch (error) {
+    log.error(`getTrigger: Error getting trigger ${triggerId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get trigger'
+    };
+  }
+}
+
+/**
+ * Create or update a trigger
+ * This adapter delegates to the backend service
+ */
+export async function saveTrigger(trigger: WebhookTriggerInput): Promise<WebhookTriggerResponse> {
+  log.debug(`saveTrigger: Delegating to backend service for trigger ID: ${trigger.id || '(new)'}`);
+  try {
+    return await webhookService.saveTrigger(trigger);
+  } catch (error) {
+    log.error('saveTrigger: Error saving trigger:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save trigger'
+    };
+  }
+}
+
+/**
+ * Delete a trigger by ID
+ * This adapter delegates to the backend service
+ */
+export async function deleteTrigger(triggerId: string): Promise<WebhookServiceResponse> {
+  log.debug(`deleteTrigger: Delegating to backend service for trigger ID: ${triggerId}`);
+  try {
+    return await webhookService.deleteTrigger(triggerId);
+  } catch (error) {
+    log.error(`deleteTrigger: Error deleting trigger ${triggerId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete trigger'
+    };
+  }
+}
+
+/**
+ * Replace a trigger's secret
+ * This adapter delegates to the backend service
+ */
+export async function regenerateSecret(triggerId: string): Promise<WebhookTriggerResponse> {
+  log.debug(`regenerateSecret: Delegating to backend service for trigger ID: ${triggerId}`);
+  try {
+    return await webhookService.regenerateSecret(triggerId);
+  } catch (error) {
+    log.error(`regenerateSecret: Error regenerating secret of trigger ${triggerId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to regenerate secret'
+    };
+  }
+}
+
+/**
+ * List the recent invocations of a trigger, newest first
+ * This adapter delegates to the backend service
+ */
+export async function listInvocations(triggerId: string): Promise<WebhookInvocationListResponse> {
+  log.debug(`listInvocations: Delegating to backend service for trigger ID: ${triggerId}`);
+  try {
+    const invocations = await webhookService.listInvocations(triggerId);
+    return { success: true, invocations };
+  } catch (error) {
+    log.error(`listInvocations: Error listing invocations of trigger ${triggerId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list invocations'
+    };
+  }
+}
+
+/**
+ * Handle an inbound webhook request: verify its signature, map the payload into the initial
+ * message and flow variables, and start a conversation for the trigger's flow.
+ * In sync mode the result is returned once the flow stops; in async mode right away.
+ */
+export async function invokeTrigger(triggerId: string, rawBody: string, signature: string | null, timestamp: string | null): Promise<InvokeTriggerResult> {
+  const trigger = await webhookService.getTrigger(triggerId);
+  if (!trigger) {
+    return { httpStatus: 404, body: { error: 'Trigger not found' } };
+  }
+
+  const reject = async (httpStatus: number, error: string): Promise<InvokeTriggerResult> => {
+    log.warn(`invokeTrigger: Rejected request for trigger ${triggerId}: ${error}`);
+    await webhookService.recordInvocation(triggerId, { status: 'rejected', httpStatus, error, rawBody });
+    return { httpStatus, body: { error } };
+  };
+
+  // The signature is checked first so that unsigned callers learn nothing about the trigger
+  const verification = webhookService.verifySignature(trigger, rawBody, signature, timestamp);
+  if (!verification.valid) {
+    return reject(401, verification.error);
+  }
+  if (!trigger.enabled) {
+    return reject(403, 'Trigger is disabled');
+  }
+
+  let payload: unknown;
+  try {
+    payload = rawBody.trim() ? JSON.parse(rawBody) : {};
+  } catch {
+    return reject(400, 'Request body is not valid JSON');
+  }
+
+  const message = webhookService.renderMessage(trigger, payload);
+  const variables = webhookService.mapVariables(trigger, payload);
+  const conversationId = crypto.randomUUID();
+  const invocation = await webhookService.recordInvocation(triggerId, {
+    status: 'running',
+    httpStatus: trigger.mode === 'sync' ? 200 : 202,
+    conversationId,
+    rawBody
+  });
+  log.info(`invokeTrigger: Starting conversation ${conversationId} for trigger ${trigger.name}`, { mode: trigger.mode });
+
+  const run = runFlowConversation(trigger.flowId, message, {
+    requireApproval: trigger.approvalMode === 'require_approval',
+    variables,
+    conversationId
+  })
+    .catch(error => ({
+      conversationId,
+      status: 'error' as const,
+      error: error instanceof Error ? error.message : String(error),
+      httpStatus: 500,
+      answer: undefined
+    }))
+    .then(async result => {
+      await webhookService.updateInvocation(triggerId, invocation.id, {
+        status: result.status as WebhookInvocationStatus,
+        finishedAt: Date.now(),
+        error: result.error,
+        ...(trigger.mode === 'sync' ? { httpStatus: result.httpStatus } : {})
+      });
+      return result;
+    });
+
+  if (trigger.mode === 'async') {
+    return { httpStatus: 202, body: { conversation_id: conversationId, status: 'running' } };
+  }
+
+  const result = await run;
+  if (result.status === 'error') {
+    return { httpStatus: result.httpStatus, body: { conversation_id: conversationId, status: 'error', error: result.error } };
+  }
+  return {
+    httpStatus: 200,
+    body: { conversation_id: result.conversationId, status: result.status, answer: result.answer ?? null }
+  };
+}
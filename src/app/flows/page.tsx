@@ -145,7 +145,12 @@ const FlowsPage = () => {
   const handleSaveFlow = async (flow: Flow) => {
     log.info('Saving flow', { flowId: flow.id, flowName: flow.name });
     try {
-      await flowService.saveFlow(flow);
+      const result = await flowService.saveFlow(flow);
+      if (!result.success) {
+        log.warn('Flow was not saved', { error: result.error });
+        showSnackbar(result.error || 'Failed to save flow', 'error');
+        return;
+      }
       log.debug('Flow saved successfully');
       
       // Update local state
@@ -165,13 +170,34 @@ const FlowsPage = () => {
       });
       
       setSelectedFlow(flow.id);
-      showSnackbar('Flow saved successfully', 'success');
+      const errorCount = result.validation?.errors.length || 0;
+      const warningCount = result.validation?.warnings.length || 0;
+      if (errorCount > 0 || warningCount > 0) {
+        showSnackbar(`Flow saved with ${errorCount} error(s) and ${warningCount} warning(s)`, errorCount > 0 ? 'error' : 'warning');
+      } else {
+        showSnackbar('Flow saved successfully', 'success');
+      }
     } catch (error) {
       log.error('Error saving flow', error);
       showSnackbar('Failed to save flow', 'error');
     }
   };
 
+  // Show a flow restored from its version history; the restore was already saved
+  const handleRestoreFlow = (flow: Flow, version: number) => {
+    log.info('Flow restored', { flowId: flow.id, version });
+    setFlows(prevFlows => {
+      const existingFlowIndex = prevFlows.findIndex(f => f.id === flow.id);
+      if (existingFlowIndex >= 0) {
+        const updatedFlows = [...prevFlows];
+        updatedFlows[existingFlowIndex] = flow;
+        return updatedFlows;
+      }
+      return [...prevFlows, flow];
+    });
+    showSnackbar(`Restored version ${version} of "${flow.name}"`, 'success');
+  };
+
   const handleDeleteFlow = async (flowId: string) => {
     log.info('Deleting flow', { flowId });
     try {
@@ -323,6 +349,7 @@ const FlowsPage = () => {
               key={selectedFlow}
               initialFlow={selectedFlowData}
               onSave={handleSaveFlow}
+              onRestore={handleRestoreFlow}
               onDelete={handleDeleteFlow}
               allFlows={flows}
               onSelectFlow={setSelectedFlow}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createLogger } from '@/utils/logger';
 import { FlowExecutor } from '@/backend/execution/flow/FlowExecutor';
+import { ConversationStateStore } from '@/backend/execution/flow/ConversationStateStore';
 import { ChatCompletionRequest } from './requestParser';
 import { FlowExecutionResponse, ErrorResult, SuccessResult } from '@/shared/types/flow/response';
 import OpenAI from 'openai';
@@ -81,7 +82,7 @@ export async function processChatCompletion(
         log.info(`Loaded conversation state from storage: ${conversationId}`);
         stateSource = 'storage';
         // Update the in-memory map as well
-        FlowExecutor.conversationStates.set(conversationId, sharedState); 
+        ConversationStateStore.put(conversationId, sharedState); 
       } else {
         log.info(`No state found in storage for conversation: ${conversationId}. Will check memory.`);
       }
@@ -92,9 +93,9 @@ export async function processChatCompletion(
   }
 
   // If not loaded from storage, check in-memory map
-  if (!sharedState && conversationId && FlowExecutor.conversationStates.has(conversationId)) {
+  if (!sharedState && conversationId && ConversationStateStore.peek(conversationId)) {
     // Resume existing conversation from memory
-    sharedState = FlowExecutor.conversationStates.get(conversationId)!;
+    sharedState = ConversationStateStore.peek(conversationId)!;
     log.info(`Resuming conversation ${conversationId} from memory`, { currentNodeId: sharedState.currentNodeId });
     stateSource = 'memory';
   } 
@@ -126,7 +127,7 @@ export async function processChatCompletion(
       log.error(`Failed to save initial state for new conversation ${convId}:`, error);
       // Decide if this is a critical error - maybe return 500? For now, log and continue.
     }
-    FlowExecutor.conversationStates.set(convId, sharedState); // Also keep in memory
+    ConversationStateStore.put(convId, sharedState); // Also keep in memory
   }
 
   // If state was loaded or resumed, handle potential updates (like adding new messages)
@@ -223,7 +224,7 @@ export async function processChatCompletion(
             // Add tool results to messages
             log.info(`Adding ${toolProcessingResult.value.toolCallMessages.length} tool result messages for conv ${convId}`);
             sharedState.messages.push(...toolProcessingResult.value.toolCallMessages);
-            FlowExecutor.conversationStates.set(convId, sharedState); // Update state map
+            ConversationStateStore.put(convId, sharedState); // Update state map
             // State is updated, continue to the next iteration of the while loop
             log.info(`Continuing loop for conv ${convId} after internal tool processing.`);
             continue;
@@ -254,7 +255,7 @@ export async function processChatCompletion(
                 sharedState.currentNodeId = nextNodeId; // Update state to the next node's ID
                 sharedState.handoffRequested = undefined; // Clear handoff request flag
                 log.info(`Transitioning conv ${convId} to node ${sharedState.currentNodeId}`);
-                FlowExecutor.conversationStates.set(convId, sharedState); // Update state map
+                ConversationStateStore.put(convId, sharedState); // Update state map
                 // State updated, continue loop for the next step (automatic handoff)
                 log.info(`Continuing loop for conv ${convId} after handoff.`);
                 continue;
@@ -315,7 +316,7 @@ export async function processChatCompletion(
     log.error(`Failed to save final state for conversation ${convId}:`, error);
   }
   // Update state map one last time before returning (optional, depending on strategy)
-  FlowExecutor.conversationStates.set(convId, sharedState); 
+  ConversationStateStore.put(convId, sharedState); 
 
   // Handle Error Response
   if (currentAction === ERROR_ACTION) {
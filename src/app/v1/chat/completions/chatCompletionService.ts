@@ -3,41 +3,31 @@ import { createLogger } from '@/utils/logger';
 import { FlowExecutor } from '@/backend/execution/flow/FlowExecutor';
 import { ChatCompletionRequest } from './requestParser';
 import OpenAI from 'openai';
-import { SharedState, TOOL_CALL_ACTION, FINAL_RESPONSE_ACTION, ERROR_ACTION, STAY_ON_NODE_ACTION, ErrorDetails } from '@/backend/execution/flow/types'; // Import types and actions
+import { SharedState, TOOL_CALL_ACTION, FINAL_RESPONSE_ACTION, ERROR_ACTION, STAY_ON_NODE_ACTION, GOTO_NODE_ACTION, ErrorDetails, FlowVariables } from '@/backend/execution/flow/types'; // Import types and actions
 import { FlujoChatMessage } from '@/shared/types/chat'; // Import FlujoChatMessage from shared types
-import { ModelHandler } from '@/backend/execution/flow/handlers/ModelHandler'; // Import ModelHandler
+import { FlowRecorder } from '@/backend/execution/flow/FlowRecorder';
+import { ExecutionEvents } from '@/backend/execution/flow/ExecutionEvents';
+import { ConversationLock } from '@/backend/execution/flow/ConversationLock';
+import { ConversationStateStore } from '@/backend/execution/flow/ConversationStateStore';
+import { UsageTracker } from '@/backend/execution/flow/UsageTracker';
 import { toolNameInternalRegex } from '@/utils/shared/common'; // Import the regex
+import { countTokens as countTextTokens } from '@/backend/utils/TokenCounter';
 // Import the flowService instance and the FlowService class type directly
 import { flowService } from '@/backend/services/flow/index';
 import type { FlowService as FlowServiceType } from '@/backend/services/flow/index'; // Use 'type' import for the class
-import { Flow } from '@/shared/types/flow'; // Import Flow type
-// Import backend storage functions directly
-import { loadItem as loadItemBackend, saveItem as saveItemBackend } from '@/utils/storage/backend'; 
-import { StorageKey } from '@/shared/types/storage'; // Import StorageKey
+import { Flow, FlowExecutionEvent, ExecutionUsage } from '@/shared/types/flow'; // Import Flow type
 import { FEATURES } from '@/config/features'; // Import feature flags
 
 const log = createLogger('app/v1/chat/completions/chatCompletionService');
 
-// Simple token counter (approximation) - Keep as is
-export function countTokens(text: string): number {
-  const tokenCount = Math.ceil((text || '').length / 4);
-  return tokenCount;
+// Token count of a text, with the tokenizer of the model where it is known
+export function countTokens(text: string, modelName?: string): number {
+  return countTextTokens(text || '', modelName);
 }
 
 // Using OpenAI's type for token usage - Keep as is
 export type TokenUsage = OpenAI.CompletionUsage;
 
-// isRetryableError - Keep as is
-export function isRetryableError(error: any): boolean {
-  log.verbose('Checking if error is retryable', { errorType: typeof error, status: error.status, code: error.code, message: error.message }); // Changed to verbose
-  if (error.status === 429) return true;
-  if (error.status >= 500 && error.status < 600) return true;
-  if (error.message?.includes('timeout') || error.code === 'ETIMEDOUT') return true;
-  if (error.code === 'ECONNREFUSED' || error.code === 'ECONNRESET') return true;
-  log.verbose('Error is not retryable', { error }); // Changed to verbose
-  return false;
-}
-
 // --- Add getFlowByName to flowService if it doesn't exist ---
 // Use a simpler approach by directly assigning to the service object (accepting 'any' temporarily)
 if (!(flowService as any).getFlowByName) {
@@ -74,7 +64,6 @@ async function processChatCompletionInternal(
 
   // --- 1. Initialize or Retrieve State ---
   const effectiveConvId = conversationId || crypto.randomUUID();
-  const storageKey = `conversations/${effectiveConvId}` as StorageKey;
   let stateSource: 'storage' | 'memory' | 'new' = 'new'; // Assume new initially
   let loadedState: SharedState | undefined = undefined;
 
@@ -82,20 +71,18 @@ async function processChatCompletionInternal(
 
   // Try loading state using the effectiveConvId
   // Prioritize in-memory state
-  if (FlowExecutor.conversationStates.has(effectiveConvId)) {
-    loadedState = FlowExecutor.conversationStates.get(effectiveConvId)!;
+  if (ConversationStateStore.peek(effectiveConvId)) {
+    loadedState = (await ConversationStateStore.get(effectiveConvId))!;
     log.info(`Resuming conversation ${effectiveConvId} from memory`, { currentNodeId: loadedState.currentNodeId });
     stateSource = 'memory';
   }
-  // If not in memory, try storage
+  // If not in memory, try storage; the store keeps the loaded state in memory
   else {
     try {
-      loadedState = await loadItemBackend<SharedState>(storageKey, undefined as any);
+      loadedState = await ConversationStateStore.get(effectiveConvId);
       if (loadedState) {
         log.info(`Loaded conversation state from storage: ${effectiveConvId}`);
         stateSource = 'storage';
-        // Ensure it's in the memory map as well
-        FlowExecutor.conversationStates.set(effectiveConvId, loadedState);
       } else {
         log.info(`No state found in storage for conversation: ${effectiveConvId}. Will create new state.`);
         // stateSource remains 'new'
@@ -119,14 +106,16 @@ async function processChatCompletionInternal(
 
      // --- Reset status if resuming a completed/errored conversation ---
      // This handles both resuming after completion and retrying after error
-     if (stateSource !== 'new' && (sharedState.status === 'completed' || sharedState.status === 'error')) {
+     if (stateSource !== 'new' && (sharedState.status === 'completed' || sharedState.status === 'budget_exceeded' || sharedState.status === 'error')) {
         log.info(`Resuming completed/errored conversation ${effectiveConvId}. Resetting status to 'running'.`);
         sharedState.status = 'running';
         sharedState.lastResponse = undefined; // Clear previous final/error response
+        sharedState.budgetExceeded = undefined; // The budget is checked again before the next node
+        sharedState.structuredOutput = undefined; // Clear the validated output of the previous run
         sharedState.isCancelled = false; // Reset cancellation flag to prevent immediate error
-        // Ensure it's updated in memory immediately if loaded from storage
+        // Ensure it's updated in the store immediately if loaded from storage
         if (stateSource === 'storage') {
-            FlowExecutor.conversationStates.set(effectiveConvId, sharedState);
+            ConversationStateStore.put(effectiveConvId, sharedState);
         }
      }
 
@@ -139,14 +128,18 @@ async function processChatCompletionInternal(
       sharedState.status = 'running'; // Reset status if it was completed/error
       sharedState.lastResponse = undefined; // Clear previous final response
       sharedState.pendingToolCalls = undefined; // Clear any pending calls from previous run
+      sharedState.pendingHumanInput = undefined; // Clear any form still waiting for input
+      sharedState.structuredOutput = undefined; // Clear the validated output of the previous run
       sharedState.handoffRequested = undefined; // Clear any pending handoff
+      sharedState.budgetExceeded = undefined; // The budget is checked again before the next node
       sharedState.isCancelled = false; // Reset cancellation flag to prevent immediate error
       
       // Reset tracking info to start fresh from this node
       sharedState.trackingInfo = {
         executionId: crypto.randomUUID(), // New execution ID for the edited flow
         startTime: Date.now(), // Reset start time
-        nodeExecutionTracker: [] // Always include the array, but it will only be used if the feature is enabled
+        nodeExecutionTracker: [], // Always include the array, but it will only be used if the feature is enabled
+        usage: sharedState.trackingInfo?.usage // Tokens already spent stay on the conversation
       };
       
       // Clear execution trace if it exists (only if feature is enabled)
@@ -154,8 +147,8 @@ async function processChatCompletionInternal(
       sharedState.executionTrace = [];
     }
 
-    // Update the state in memory immediately
-    FlowExecutor.conversationStates.set(effectiveConvId, sharedState);
+    // Update the state in the store immediately
+    ConversationStateStore.put(effectiveConvId, sharedState);
     log.verbose(`State updated in memory with reset currentNodeId: ${sharedState.currentNodeId}`); // Changed to verbose
   }
 } else {
@@ -182,11 +175,31 @@ async function processChatCompletionInternal(
     // stateSource is already 'new'
   }
 
+  // Every request gets the full flow deadline; FlowExecutor starts it on the first step
+  sharedState.deadline = undefined;
+  // The usage in the response is that of this request
+  UsageTracker.startRun(sharedState);
+
+  // Seed flow variables from request metadata; values from the request win over stored ones
+  if (data.variables) {
+    sharedState.variables = { ...sharedState.variables, ...(data.variables as FlowVariables) };
+    log.info(`Seeded ${Object.keys(data.variables).length} flow variable(s) from request metadata for conv ${effectiveConvId}`);
+  }
+
+  // Budget limits from request metadata; they apply to the conversation from now on
+  if (data.budget) {
+    sharedState.budget = { ...sharedState.budget, ...data.budget };
+    log.info(`Budget for conv ${effectiveConvId} set from request metadata`, sharedState.budget);
+  }
+
   // --- Configure State Based on Source ---
   if (stateSource === 'new') {
     // Get flow and set initial messages for the newly created state
-    const flowName = data.model.substring(5); // Assumes "flow-FlowName" format
-    const reactFlow = await flowServiceWithGetByName.getFlowByName(flowName);
+    // Server-side callers bind to the flow ID, which survives renames and duplicate names
+    const flowName = data.flowId || data.model.substring(5); // Assumes "flow-FlowName" format
+    const reactFlow = data.flowId
+      ? await flowService.getFlow(data.flowId)
+      : await flowServiceWithGetByName.getFlowByName(flowName);
     if (!reactFlow) {
       log.error(`Flow not found: ${flowName}`);
       return NextResponse.json({ error: { message: `Flow not found: ${flowName}`, type: 'invalid_request_error', code: 'flow_not_found' } }, { status: 400 });
@@ -213,14 +226,12 @@ async function processChatCompletionInternal(
             log.verbose(`Updated conversation title for ${effectiveConvId} during init to: ${sharedState.title}`); // Changed to verbose
         }
       }
-      await saveItemBackend(storageKey, sharedState);
+      await ConversationStateStore.save(effectiveConvId, sharedState);
       log.debug(`Saved initial state for new conversation ${effectiveConvId} to storage.`); // Changed to debug
     } catch (error) {
       log.error(`Failed to save initial state for new conversation ${effectiveConvId}:`, error);
       // Decide if this is a critical error - maybe return 500? For now, log and continue.
     }
-    // Ensure the state is in the memory map
-    FlowExecutor.conversationStates.set(effectiveConvId, sharedState);
 
   } else { // stateSource is 'storage' or 'memory'
     // State was loaded, replace messages with what the frontend sent
@@ -253,6 +264,28 @@ async function processChatCompletionInternal(
     }
   }
 
+  // Start recording or replaying when the request asks for it; requests that repeat the
+  // conversation's settings continue the running session instead of starting over
+  if (data.recording && (sharedState.recording?.mode !== data.recording.mode || sharedState.recording.fixture !== data.recording.fixture)) {
+    const recording = { ...data.recording, conversationId: effectiveConvId };
+    try {
+      await FlowRecorder.start(recording, sharedState.flowId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error(`Failed to start ${data.recording.mode} of fixture ${data.recording.fixture} for conv ${effectiveConvId}: ${message}`);
+      return NextResponse.json({ error: { message, type: 'invalid_request_error', code: 'recording_unavailable' } }, { status: 400 });
+    }
+    sharedState.recording = recording;
+    log.info(`Conversation ${effectiveConvId} ${data.recording.mode === 'record' ? 'records into' : 'replays'} fixture ${data.recording.fixture}`);
+  }
+
+  // Record the flow version this request runs against; the flow may have been edited since the last one
+  try {
+    await FlowExecutor.syncFlowVersion(sharedState);
+  } catch (error) {
+    log.warn(`Failed to determine the flow version for conv ${effectiveConvId}:`, error);
+  }
+
   // --- 2. Main Execution Logic ---
   let currentAction: string | undefined = undefined;
   const MAX_INTERNAL_ITERATIONS = 150; // Safety break for non-debug flujo=true loop
@@ -274,11 +307,13 @@ async function processChatCompletionInternal(
         const stepResult = await FlowExecutor.executeStep(sharedState);
         sharedState = stepResult.sharedState; // Update state
         currentAction = stepResult.action;
-        // Set status to paused_debug unless it's an error or final response
-        if (currentAction !== ERROR_ACTION && currentAction !== FINAL_RESPONSE_ACTION) {
+        // Set status to paused_debug unless it's an error or final response, or the node waits for human input
+        if (sharedState.status === 'awaiting_human_input' && currentAction === STAY_ON_NODE_ACTION) {
+          log.info(`[Debug Mode] Node is waiting for human input for conv ${effectiveConvId}`);
+        } else if (currentAction !== ERROR_ACTION && currentAction !== FINAL_RESPONSE_ACTION) {
           sharedState.status = 'paused_debug';
         } else if (currentAction === FINAL_RESPONSE_ACTION) {
-          sharedState.status = 'completed'; // Mark as completed if the single step finished
+          sharedState.status = sharedState.budgetExceeded ? 'budget_exceeded' : 'completed'; // Mark as completed if the single step finished
         } else {
           sharedState.status = 'error'; // Mark as error if the single step errored
         }
@@ -293,7 +328,7 @@ async function processChatCompletionInternal(
                 sharedState.title = firstUserMessage.content.split(' ').slice(0, 5).join(' ') + '...';
         }
       }
-      await saveItemBackend(storageKey, sharedState);
+      await ConversationStateStore.save(effectiveConvId, sharedState);
       log.verbose(`[Debug Mode] Saved state after single step for conv ${effectiveConvId}`); // Changed to verbose
     } catch (error) {
       log.error(`[Debug Mode] Failed to save state after single step for conv ${effectiveConvId}:`, error);
@@ -341,7 +376,7 @@ async function processChatCompletionInternal(
       sharedState = stepResult.sharedState; // Update state with results from the step
       currentAction = stepResult.action;
       
-      // Save state after each step (using the correct storageKey based on effectiveConvId)
+      // Save state after each step
       try {
         // --- Update timestamps and title before saving ---
         sharedState.updatedAt = Date.now();
@@ -352,7 +387,7 @@ async function processChatCompletionInternal(
                 log.verbose(`Updated conversation title for ${effectiveConvId} after step ${internalIterations} to: ${sharedState.title}`); // Changed to verbose
             }
         }
-        await saveItemBackend(storageKey, sharedState);
+        await ConversationStateStore.save(effectiveConvId, sharedState);
         log.verbose(`Saved state after step ${internalIterations} for conv ${effectiveConvId}`); // Changed to verbose
       } catch (error) {
         log.error(`Failed to save state after step ${internalIterations} for conv ${effectiveConvId}:`, error);
@@ -374,9 +409,9 @@ async function processChatCompletionInternal(
       if (currentAction === FINAL_RESPONSE_ACTION) {
         log.info(`[Action Handling] Step ${internalIterations}: Handling FINAL_RESPONSE_ACTION for conv ${effectiveConvId}`);
         log.info(`Final response action received at step ${internalIterations} for conv ${effectiveConvId}`);
-        // Set status to completed when final response is received
-        sharedState.status = 'completed';
-        log.info(`Setting conversation status to 'completed' for conv ${effectiveConvId}`);
+        // Set status to completed when final response is received, unless the budget stopped the run
+        sharedState.status = sharedState.budgetExceeded ? 'budget_exceeded' : 'completed';
+        log.info(`Setting conversation status to '${sharedState.status}' for conv ${effectiveConvId}`);
         break; // Exit loop to return final response
       }
 
@@ -394,8 +429,10 @@ async function processChatCompletionInternal(
               sharedState.status = 'awaiting_tool_approval';
               sharedState.pendingToolCalls = lastAssistantMsg.tool_calls; // Assign the actual tool calls
               sharedState.lastResponse = undefined; // Clear last response
-              // Update state map before breaking
-              FlowExecutor.conversationStates.set(effectiveConvId, sharedState);
+              ExecutionEvents.emit(effectiveConvId, {
+                type: 'approval_required',
+                toolCalls: lastAssistantMsg.tool_calls.map(tc => ({ id: tc.id, name: tc.function.name, arguments: tc.function.arguments }))
+              });
               // Save state before breaking
               try {
                 // --- Update timestamps and title before saving ---
@@ -407,7 +444,7 @@ async function processChatCompletionInternal(
                         log.verbose(`Updated conversation title for ${effectiveConvId} before pausing to: ${sharedState.title}`); // Changed to verbose
                     }
                 }
-                await saveItemBackend(storageKey, sharedState);
+                await ConversationStateStore.save(effectiveConvId, sharedState);
                 log.verbose(`Saved state before pausing for approval for conv ${effectiveConvId}`); // Changed to verbose
               } catch (error) {
                 log.error(`Failed to save state before pausing for approval for conv ${effectiveConvId}:`, error);
@@ -416,7 +453,7 @@ async function processChatCompletionInternal(
             } else {
               // Process tools internally without approval and continue loop
               log.info(`[flujo=true, requireApproval=false] Processing ${lastAssistantMsg.tool_calls.length} tools internally for conv ${effectiveConvId}`);
-              const toolProcessingResult = await ModelHandler.processToolCalls({ toolCalls: lastAssistantMsg.tool_calls });
+              const toolProcessingResult = await FlowExecutor.processToolCalls(sharedState, lastAssistantMsg.tool_calls);
 
               if (!toolProcessingResult.success) {
                log.error(`Internal tool processing failed for conv ${effectiveConvId}`, { error: toolProcessingResult.error });
@@ -434,7 +471,7 @@ async function processChatCompletionInternal(
                 processNodeId: sharedState.currentNodeId // Add current node ID
             }));
             sharedState.messages.push(...toolResultMessagesWithTimestamp);
-            FlowExecutor.conversationStates.set(effectiveConvId, sharedState); // Update state map
+            ConversationStateStore.put(effectiveConvId, sharedState); // Update state store
               // State is updated, continue to the next iteration of the while loop
               log.info(`Continuing loop for conv ${effectiveConvId} after internal tool processing (no approval needed).`);
               continue; // Continue loop
@@ -462,7 +499,7 @@ async function processChatCompletionInternal(
             if (internalTools.length > 0) {
               // Process internal tools and continue the loop
               log.info(`[flujo=false] Processing ${internalTools.length} internal tools for conv ${effectiveConvId}. External tools (${externalTools.length}) will be ignored this step.`);
-              const toolProcessingResult = await ModelHandler.processToolCalls({ toolCalls: internalTools });
+              const toolProcessingResult = await FlowExecutor.processToolCalls(sharedState, internalTools);
 
               if (!toolProcessingResult.success) {
                  log.error(`[flujo=false] Internal tool processing failed for conv ${effectiveConvId}`, { error: toolProcessingResult.error });
@@ -480,7 +517,7 @@ async function processChatCompletionInternal(
                 processNodeId: sharedState.currentNodeId // Add current node ID
             }));
             sharedState.messages.push(...internalToolResultMessagesWithTimestamp);
-            FlowExecutor.conversationStates.set(effectiveConvId, sharedState); // Update state map
+            ConversationStateStore.put(effectiveConvId, sharedState); // Update state store
             // State is updated, continue to the next iteration of the while loop
               log.info(`Continuing loop for conv ${effectiveConvId} after internal tool processing (flujo=false).`);
               continue; // Go to next loop iteration
@@ -535,10 +572,16 @@ async function processChatCompletionInternal(
         }
       }
 
+      if (currentAction === GOTO_NODE_ACTION) {
+        // The node already moved currentNodeId (e.g. parallel node jumping to its join node)
+        log.info(`[Action Handling] Step ${internalIterations}: Handling GOTO_NODE_ACTION for conv ${effectiveConvId}, next node ${sharedState.currentNodeId}`);
+        continue;
+      }
+
       // Check if action is an edgeId (Handoff)
       // We need the PocketFlow instance to find the current node and its successors
       // Accessing private methods directly is not ideal, consider refactoring FlowExecutor if possible
-      const pocketFlow = await FlowExecutor['loadAndConvertFlow'](sharedState.flowId);
+      const pocketFlow = await FlowExecutor['loadAndConvertFlow'](sharedState.flowId, sharedState.flowVersion);
       const currentNode = sharedState.currentNodeId ? await FlowExecutor['findNodeById'](pocketFlow, sharedState.currentNodeId) : undefined;
 
       if (currentNode && currentAction && currentNode.successors.has(currentAction)) {
@@ -555,7 +598,10 @@ async function processChatCompletionInternal(
                 const lastAssistantMsg = sharedState.messages.length > 0 ? sharedState.messages[sharedState.messages.length - 1] : null;
                 let handoffToolCallId: string | undefined = undefined;
 
-                if (lastAssistantMsg?.role === 'assistant' && lastAssistantMsg.tool_calls) {
+                if (currentNode.node_params?.type !== 'process') {
+                    // Only process nodes hand off through a tool call; other nodes (start, condition, subflow) route directly
+                    log.info(`Node ${sharedState.currentNodeId} (${currentNode.node_params?.type}) routed via edge ${currentAction}`);
+                } else if (lastAssistantMsg?.role === 'assistant' && lastAssistantMsg.tool_calls) {
                     // Find the tool call that corresponds to this handoff action.
                     // Assume the first/only handoff tool call is the relevant one for now.
                     const handoffToolCall = lastAssistantMsg.tool_calls.find(tc =>
@@ -606,7 +652,7 @@ async function processChatCompletionInternal(
                 sharedState.currentNodeId = nextNodeId;
                 sharedState.handoffRequested = undefined; // Clear the request flag if it was set
                 log.info(`Transitioning conv ${effectiveConvId} to node ${sharedState.currentNodeId}`);
-                FlowExecutor.conversationStates.set(effectiveConvId, sharedState);
+                ConversationStateStore.put(effectiveConvId, sharedState);
                 log.info(`Continuing loop for conv ${effectiveConvId} after handoff.`);
                 continue; // Continue loop for the next step
             } else {
@@ -666,13 +712,11 @@ async function processChatCompletionInternal(
             log.verbose(`Updated conversation title for ${effectiveConvId} before final return to: ${sharedState.title}`); // Changed to verbose
         }
     }
-    await saveItemBackend(storageKey, sharedState);
+    await ConversationStateStore.save(effectiveConvId, sharedState);
     log.debug(`Saved final state for conversation ${effectiveConvId} before returning response.`); // Changed to debug
   } catch (error) {
     log.error(`Failed to save final state for conversation ${effectiveConvId}:`, error);
   }
-  // Update state map one last time before returning
-  FlowExecutor.conversationStates.set(effectiveConvId, sharedState);
 
   // --- Handle Debug Paused Response ---
   if (sharedState.status === 'paused_debug') {
@@ -800,11 +844,11 @@ async function processChatCompletionInternal(
 
   // Determine finish reason
   let finish_reason: OpenAI.ChatCompletion.Choice['finish_reason'] = 'stop'; // Default to stop
-  if (sharedState.status === 'awaiting_tool_approval') {
+  if (sharedState.status === 'awaiting_tool_approval' || sharedState.status === 'awaiting_human_input') {
       // Although we paused, from the API perspective, it stopped to wait.
       // The frontend relies on polling status, not this reason.
       finish_reason = 'stop';
-      log.verbose(`Setting finish_reason to 'stop' for awaiting_tool_approval status`); // Changed to verbose
+      log.verbose(`Setting finish_reason to 'stop' for ${sharedState.status} status`); // Changed to verbose
   } else if (externalToolsXml) {
       finish_reason = 'stop'; // We wrapped tools in content, so it's a stop from the API's perspective
   } else if (currentAction === TOOL_CALL_ACTION && responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
@@ -815,13 +859,13 @@ async function processChatCompletionInternal(
   }
   // Add other reasons if needed (e.g., 'content_filter')
 
-  // Calculate usage (simplified)
-  const promptTokens = countTokens(sharedState.messages.map(m => m.content || '').join('\n')); // Rough estimate
-  const completionTokens = countTokens(responseContent);
-  const usage: TokenUsage = {
-    prompt_tokens: promptTokens,
-    completion_tokens: completionTokens,
-    total_tokens: promptTokens + completionTokens
+  // Usage of all model calls of this request, across nodes, subflows and branches
+  const runUsage = sharedState.trackingInfo.usage?.run;
+  const usage: TokenUsage & { cost?: number } = {
+    prompt_tokens: runUsage?.prompt_tokens ?? 0,
+    completion_tokens: runUsage?.completion_tokens ?? 0,
+    total_tokens: runUsage?.total_tokens ?? 0,
+    ...(runUsage && runUsage.calls > runUsage.unpricedCalls ? { cost: runUsage.cost } : {})
   };
 
   // Construct the final response data object
@@ -844,6 +888,9 @@ async function processChatCompletionInternal(
     // Include final status and pending calls if relevant
     status: sharedState.status || (currentAction === FINAL_RESPONSE_ACTION ? 'completed' : 'running'), // Use finalStatus determined earlier
     pendingToolCalls: sharedState.pendingToolCalls,
+    pendingHumanInput: sharedState.pendingHumanInput,
+    // Validated answer of a process node with an output schema
+    structuredOutput: sharedState.structuredOutput,
     // Optionally include trace even in non-debug final responses? For now, exclude.
     // executionTrace: sharedState.executionTrace
   };
@@ -854,6 +901,42 @@ async function processChatCompletionInternal(
   return NextResponse.json(responseData);
 }
 
+// Statuses a run can stop with besides an error
+const RUN_END_STATUSES = ['completed', 'budget_exceeded', 'awaiting_tool_approval', 'awaiting_human_input', 'paused_debug'];
+
+// Emit the event that ends a run, from the response the run produced
+async function emitRunEnd(conversationId: string, response: Response): Promise<void> {
+  try {
+    const body = await response.clone().json();
+    if (!response.ok || body.error) {
+      ExecutionEvents.emit(conversationId, {
+        type: 'error',
+        message: body.error?.message || `Request failed with status ${response.status}`,
+        code: body.error?.code
+      });
+      return;
+    }
+    const status = RUN_END_STATUSES.includes(body.status) ? body.status : 'completed';
+    const choice = body.choices?.[0];
+    const toolCalls = (choice?.message?.tool_calls as OpenAI.ChatCompletionMessageToolCall[] | undefined)?.map(toolCall => ({
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments
+    }));
+    ExecutionEvents.emit(conversationId, {
+      type: 'completed',
+      status,
+      content: choice?.message?.content ?? null,
+      finishReason: choice?.finish_reason,
+      toolCalls,
+      usage: body.usage
+    });
+  } catch (error) {
+    log.warn(`Failed to emit the end of the run for conversation ${conversationId}:`, error);
+  }
+}
+
+
 // Main entry point for chat completion processing
 export async function processChatCompletion(
   data: ChatCompletionRequest,
@@ -862,289 +945,228 @@ export async function processChatCompletion(
   flujodebug: boolean,
   conversationId?: string
 ) {
+  // Generate a conversation ID if not provided, so that the run's events and the response use the same one
+  const effectiveConvId = conversationId || crypto.randomUUID();
+  // Events of earlier runs of the conversation are not part of this response's stream
+  const startSeq = ExecutionEvents.getLastSeq(effectiveConvId);
+
+  // Only one run per conversation; the lock is held until the run stops, also for streams
+  const release = ConversationLock.tryAcquire(effectiveConvId, 'chat completion');
+  if (!release) {
+    return NextResponse.json({
+      error: { message: ConversationLock.busyMessage(effectiveConvId), type: 'conflict_error', code: 'conversation_busy' }
+    }, { status: 409 });
+  }
+
+  const run = processChatCompletionInternal(data, flujo, requireApproval, flujodebug, effectiveConvId).finally(async () => {
+    // The recording session ends with the run; the next run continues from the conversation's state
+    try {
+      await FlowRecorder.release(effectiveConvId);
+    } finally {
+      release();
+    }
+  }).then(
+    async response => {
+      await emitRunEnd(effectiveConvId, response);
+      return response;
+    },
+    error => {
+      ExecutionEvents.emit(effectiveConvId, { type: 'error', message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  );
+
   // Handle streaming requests differently
   if (data.stream === true) {
-    // Generate a conversation ID if not provided
-    const effectiveConvId = conversationId || crypto.randomUUID();
     log.info(`Streaming requested for conversation ${effectiveConvId}. Starting async processing.`);
     
-    // Start processing asynchronously (don't await)
-    // The reference in FlowExecutor.conversationStates will prevent garbage collection
-    processChatCompletionInternal(data, flujo, requireApproval, flujodebug, effectiveConvId)
-      .catch(error => {
+    // Process asynchronously (don't await)
+    // The conversation state store keeps the state of the running conversation in memory
+    run.catch(error => {
         // Log any errors that occur during processing
         log.error(`Error in background processing for conversation ${effectiveConvId}:`, error);
         
         // Ensure the conversation state reflects the error
-        const errorState = FlowExecutor.conversationStates.get(effectiveConvId);
+        const errorState = ConversationStateStore.peek(effectiveConvId);
         if (errorState) {
           errorState.status = 'error';
           errorState.lastResponse = { 
             success: false, 
             error: error instanceof Error ? error.message : String(error) 
           };
-          FlowExecutor.conversationStates.set(effectiveConvId, errorState);
-          
+
           // Also save to storage
-          const storageKey = `conversations/${effectiveConvId}` as StorageKey;
-          saveItemBackend(storageKey, errorState).catch(storageError => {
+          ConversationStateStore.save(effectiveConvId, errorState).catch(storageError => {
             log.error(`Failed to save error state for conversation ${effectiveConvId}:`, storageError);
           });
         }
       });
     
     // Return streaming response immediately
-    return createStreamingResponse(data.model, effectiveConvId);
+    return createStreamingResponse(data.model, effectiveConvId, startSeq);
   } else {
-    // Non-streaming path - use the internal function directly
-    return processChatCompletionInternal(data, flujo, requireApproval, flujodebug, conversationId);
+    // Non-streaming path - wait for the run
+    return run;
+  }
+}
+
+// Time the executor gets to record a flow timeout before the stream gives up on its own
+const STREAM_DEADLINE_GRACE_MS = 5000;
+
+// The finish_reason values of the OpenAI chunk schema; anything else is sent as 'stop'
+const STREAM_FINISH_REASONS = ['stop', 'length', 'tool_calls', 'content_filter'];
+
+// Conversation state sent with the last chunk of a stream
+function getConversationSnapshot(conversationId: string) {
+  const state = ConversationStateStore.peek(conversationId);
+  if (!state) {
+    return { id: conversationId };
   }
+  return {
+    id: conversationId,
+    title: state.title,
+    flowId: state.flowId,
+    status: state.status,
+    messages: state.messages,
+    pendingToolCalls: state.pendingToolCalls,
+    pendingHumanInput: state.pendingHumanInput
+  };
 }
 
-// Create a streaming response using Server-Sent Events (SSE)
+/**
+ * Create a streaming response using Server-Sent Events (SSE) in the OpenAI chunk format.
+ * Driven by the conversation's execution events: assistant text is sent as it is produced,
+ * and the stream ends when the run completes, stops for approval or input, or fails.
+ */
 export function createStreamingResponse(
   model: string,
-  conversationId: string
+  conversationId: string,
+  afterSeq?: number
 ) {
   const encoder = new TextEncoder();
   const chunkId = `chatcmpl-${Date.now()}`; // Use the same ID for all chunks in this stream
   const createdTimestamp = Math.floor(Date.now() / 1000);
   log.debug(`create streaming response`)
-  // Create a ReadableStream for SSE
+
+  let unsubscribe: (() => void) | undefined;
+  let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+  // Characters of content sent per assistant message, so the text of a discarded message can be retracted
+  const sentLengths = new Map<string, number>();
+
+  const createChunk = (delta: Record<string, unknown>, finishReason: string | null) => JSON.stringify({
+    id: chunkId,
+    object: "chat.completion.chunk",
+    created: createdTimestamp,
+    model: model,
+    choices: [{
+      index: 0,
+      delta,
+      finish_reason: finishReason
+    }]
+  });
+
+  // Like OpenAI's include_usage chunk: no choices, only the usage of the whole response
+  const createUsageChunk = (usage: ExecutionUsage) => JSON.stringify({
+    id: chunkId,
+    object: "chat.completion.chunk",
+    created: createdTimestamp,
+    model: model,
+    choices: [],
+    usage
+  });
+
+  const cleanup = () => {
+    closed = true;
+    unsubscribe?.();
+    if (deadlineTimer) {
+      clearTimeout(deadlineTimer);
+    }
+  };
+
   const stream = new ReadableStream({
-    async start(controller) {
-      let lastState: any = null;
-      let lastAssistantContent: string = '';
-      let lastAssistantId: string | undefined = undefined;
-      let retryCount = 0;
-      
-      // Send initial response with role
-      const initialChunk = JSON.stringify({
-        id: chunkId,
-        object: "chat.completion.chunk",
-        created: createdTimestamp,
-        model: model,
-        choices: [{
-          index: 0,
-          delta: { role: "assistant", content: "" },
-          finish_reason: null
-        }]
-      });
-      controller.enqueue(encoder.encode(`data: ${initialChunk}\n\n`));
-      
-      // Poll until processing is complete
-      while (true) {
-        try {
-          // Fetch current conversation state
-          const response = await fetch(`http://localhost:4200/v1/chat/conversations/${conversationId}`);
-          
-          if (!response.ok) {
-            log.error(`Failed to fetch conversation: ${response.status}`)
-            throw new Error(`Failed to fetch conversation: ${response.status}`);
-          }
-          
-          const currentState = await response.json();
-          
-          // Calculate and send delta if we have a previous state
-          if (lastState) {
-            // Check if the state has changed
-            if (JSON.stringify(lastState) !== JSON.stringify(currentState)) {
-              // Find the last assistant message to extract content
-              const messages = currentState.messages || [];
-              const lastAssistantMsg = [...messages].reverse().find(m => m.role === 'assistant');
-              
-              if (lastAssistantMsg && typeof lastAssistantMsg.content === 'string') {
-                const currentContent = lastAssistantMsg.content;
-                const currentAssistantId = lastAssistantMsg.id;
-                
-                // Check if this is a new message or an update to an existing one
-                const isNewMessage = currentAssistantId !== lastAssistantId;
-                
-                // If it's a new message, send the entire content
-                // If it's an existing message with changed content, send only the delta
-                if (isNewMessage) {
-                  log.debug(`New assistant message detected with ID: ${currentAssistantId}`);
-                  lastAssistantId = currentAssistantId;
-                  lastAssistantContent = currentContent;
-                  
-                  // For a new message, send the entire content as the delta
-                  // This ensures we don't miss any content
-                  const newContent = currentContent;
-                  
-                  // Send a unified chunk with both content and conversation state
-                  const unifiedChunk = JSON.stringify({
-                    id: chunkId,
-                    object: "chat.completion.chunk",
-                    created: createdTimestamp,
-                    model: model,
-                    choices: [{
-                      index: 0,
-                      delta: {
-                        content: newContent,
-                        conversation: currentState
-                      },
-                      finish_reason: null
-                    }]
-                  });
-                  controller.enqueue(encoder.encode(`data: ${unifiedChunk}\n\n`));
-                } 
-                // If content has changed and it's longer than before, calculate the delta
-                else if (currentContent !== lastAssistantContent && currentContent.length > lastAssistantContent.length) {
-                  // Get the new content that was added
-                  const newContent = currentContent.slice(lastAssistantContent.length);
-                  
-                  // Send a unified chunk with both content delta and conversation state
-                  const unifiedChunk = JSON.stringify({
-                    id: chunkId,
-                    object: "chat.completion.chunk",
-                    created: createdTimestamp,
-                    model: model,
-                    choices: [{
-                      index: 0,
-                      delta: {
-                        content: newContent,
-                        conversation: currentState
-                      },
-                      finish_reason: null
-                    }]
-                  });
-                  controller.enqueue(encoder.encode(`data: ${unifiedChunk}\n\n`));
-                  
-                  // Update the last assistant content
-                  lastAssistantContent = currentContent;
-                }
-                // If the state changed but the content didn't, still send the state update
-                else if (currentContent === lastAssistantContent) {
-                  // Send a unified chunk with empty content delta but updated conversation state
-                  const stateOnlyChunk = JSON.stringify({
-                    id: chunkId,
-                    object: "chat.completion.chunk",
-                    created: createdTimestamp,
-                    model: model,
-                    choices: [{
-                      index: 0,
-                      delta: {
-                        content: "",
-                        conversation: currentState
-                      },
-                      finish_reason: null
-                    }]
-                  });
-                  controller.enqueue(encoder.encode(`data: ${stateOnlyChunk}\n\n`));
-                }
-              } else {
-                // No assistant message found, but state changed - send state update only
-                const stateOnlyChunk = JSON.stringify({
-                  id: chunkId,
-                  object: "chat.completion.chunk",
-                  created: createdTimestamp,
-                  model: model,
-                  choices: [{
-                    index: 0,
-                    delta: {
-                      content: "",
-                      conversation: currentState
-                    },
-                    finish_reason: null
-                  }]
-                });
-                controller.enqueue(encoder.encode(`data: ${stateOnlyChunk}\n\n`));
-              }
-            }
-            
-            // Check if processing is complete by checking the status in FlowExecutor.conversationStates
-            // This is more reliable than checking the conversation endpoint which might not have the latest status
-            const memoryState = FlowExecutor.conversationStates.get(conversationId);
-            const status = memoryState?.status || 'running';
-            
-            if (status === 'completed' || status === 'error') {
-              // Send final chunk with both empty delta and the final conversation state
-              const finalChunk = JSON.stringify({
-                id: chunkId,
-                object: "chat.completion.chunk",
-                created: createdTimestamp,
-                model: model,
-                choices: [{
-                  index: 0,
-                  delta: {
-                    content: "",
-                    conversation: currentState
-                  },
-                  finish_reason: status === 'error' ? "error" : "stop"
-                }]
-              });
-              controller.enqueue(encoder.encode(`data: ${finalChunk}\n\n`));
-              
-              // Send standard OpenAI empty delta chunk
-              const openAiFinalChunk = JSON.stringify({
-                id: chunkId,
-                object: "chat.completion.chunk",
-                created: createdTimestamp,
-                model: model,
-                choices: [{
-                  index: 0,
-                  delta: {},
-                  finish_reason: status === 'error' ? "error" : "stop"
-                }]
-              });
-              controller.enqueue(encoder.encode(`data: ${openAiFinalChunk}\n\n`));
-              
-              // Send [DONE] to indicate end of stream
-              controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-              break;
+    start(controller) {
+      const send = (data: string) => controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+
+      const end = () => {
+        send('[DONE]');
+        cleanup();
+        controller.close();
+      };
+
+      const complete = (completed: FlowExecutionEvent & { type: 'completed' }) => {
+        if (closed) return;
+        // The one chunk with a finish_reason, with the final conversation state and the tool calls the response ends with
+        const delta: Record<string, unknown> = { conversation: getConversationSnapshot(conversationId) };
+        if (completed.toolCalls?.length) {
+          delta.tool_calls = completed.toolCalls.map((toolCall, index) => ({
+            index,
+            id: toolCall.id,
+            type: 'function',
+            function: { name: toolCall.name, arguments: toolCall.arguments }
+          }));
+        }
+        const finishReason = completed.finishReason && STREAM_FINISH_REASONS.includes(completed.finishReason) ? completed.finishReason : 'stop';
+        send(createChunk(delta, finishReason));
+        if (completed.usage) {
+          send(createUsageChunk(completed.usage));
+        }
+        end();
+      };
+
+      // Failures are only reported as an OpenAI style error chunk, the response has no finish_reason
+      const fail = (message: string, type: string, code: string) => {
+        if (closed) return;
+        send(JSON.stringify({ error: { message, type, code } }));
+        end();
+      };
+
+      // Stop waiting once the flow deadline has passed without the run ending; the executor
+      // normally records the timeout itself, this covers a request stuck outside of a node
+      const armDeadline = () => {
+        const deadline = ConversationStateStore.peek(conversationId)?.deadline;
+        if (!deadline || deadlineTimer) return;
+        deadlineTimer = setTimeout(() => {
+          log.warn(`Flow deadline passed for conversation ${conversationId}, ending stream`);
+          fail(`Flow deadline of ${deadline.timeoutMs} ms exceeded`, "timeout_error", "flow_deadline_exceeded");
+        }, Math.max(0, deadline.expiresAt + STREAM_DEADLINE_GRACE_MS - Date.now()));
+        deadlineTimer.unref?.();
+      };
+
+      const onEvent = (event: FlowExecutionEvent) => {
+        if (closed) return;
+        switch (event.type) {
+          case 'node_started':
+            armDeadline();
+            break;
+          case 'message_delta':
+            sentLengths.set(event.messageId, (sentLengths.get(event.messageId) ?? 0) + event.delta.length);
+            send(createChunk({ content: event.delta }, null));
+            break;
+          case 'message_discarded': {
+            // The model failed and a fallback answers instead: the client drops the last `length` characters it received
+            const length = sentLengths.get(event.messageId);
+            if (length) {
+              send(createChunk({ content: '', discarded: { messageId: event.messageId, length } }, null));
             }
-          }
-          
-          // Update last state and reset retry count
-          lastState = currentState;
-          retryCount = 0;
-          
-          // Wait 1 second before next poll
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } catch (error) {
-          log.error(`Error during streaming for conversation ${conversationId}:`, error);
-          
-          // Handle error with retry
-          if (retryCount < 1) {
-            retryCount++;
-            log.info(`Retrying after error (attempt ${retryCount}) for conversation ${conversationId}`);
-            // Wait 5 seconds before retry
-            await new Promise(resolve => setTimeout(resolve, 5000));
-          } else {
-            // Send error with unified format
-            const errorChunk = JSON.stringify({
-              id: chunkId,
-              object: "chat.completion.chunk",
-              created: createdTimestamp,
-              model: model,
-              choices: [{
-                index: 0,
-                delta: {
-                  content: "Error during streaming: " + (error instanceof Error ? error.message : "Unknown error"),
-                  conversation: { error: error instanceof Error ? error.message : "Unknown error" }
-                },
-                finish_reason: "error"
-              }]
-            });
-            controller.enqueue(encoder.encode(`data: ${errorChunk}\n\n`));
-            
-            // Also send standard OpenAI error format for compatibility
-            const openAiErrorChunk = JSON.stringify({
-              error: {
-                message: error instanceof Error ? error.message : "Unknown error during streaming",
-                type: "streaming_error",
-                code: "streaming_failed"
-              }
-            });
-            controller.enqueue(encoder.encode(`data: ${openAiErrorChunk}\n\n`));
-            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
             break;
           }
+          case 'completed':
+            complete(event);
+            break;
+          case 'error':
+            fail(event.message, "execution_error", event.code || "flow_execution_failed");
+            break;
         }
-      }
-      
-      // Close the stream
-      controller.close();
+      };
+
+      // Send initial response with role
+      send(createChunk({ role: "assistant", content: "" }, null));
+      unsubscribe = ExecutionEvents.subscribe(conversationId, onEvent, afterSeq);
+    },
+    cancel() {
+      log.debug(`Client closed the stream for conversation ${conversationId}`);
+      cleanup();
     }
   });
   
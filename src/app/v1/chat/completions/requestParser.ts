@@ -2,6 +2,8 @@ import { NextRequest } from 'next/server';
 import { createLogger } from '@/utils/logger';
 import OpenAI from 'openai';
 import { ChatCompletionMetadata } from '@/shared/types'; // Import the new shared type
+import { ConversationBudget, RecordingSettings } from '@/backend/execution/flow/types';
+import { FlowRecorder } from '@/backend/execution/flow/FlowRecorder';
 
 const log = createLogger('app/v1/chat/completions/requestParser');
 
@@ -22,6 +24,14 @@ export interface ChatCompletionRequest {
   metadata?: ChatCompletionMetadata;
   // Node ID to start processing from (for message edits)
   processNodeId?: string;
+  // Flow variables, filled by the request parser from metadata.variables
+  variables?: Record<string, unknown>;
+  // Spending limits, filled by the request parser from metadata.budget
+  budget?: ConversationBudget;
+  // Fixture to record into or replay from, filled by the request parser from metadata.flujorecord / flujoreplay
+  recording?: RecordingSettings;
+  // Flow to run by ID instead of by the name in model; set by server-side callers only
+  flowId?: string;
 }
 
 // Define a new interface for the parsed result including the extracted flags
@@ -105,6 +115,9 @@ export async function parseRequestParameters(request: NextRequest): Promise<Pars
       const conversationId = data.metadata?.conversationId || data.conversation_id;
       const requireApproval = data.metadata?.requireApproval === "true";
       const flujodebug = data.metadata?.flujodebug === "true"; // Extract flujodebug
+      const variables = parseVariables(data.metadata?.variables);
+      const budget = parseBudget(data.metadata?.budget);
+      const recording = parseRecording(data.metadata?.flujorecord, data.metadata?.flujoreplay);
 
       const duration = Date.now() - startTime;
       log.info('POST request body parsed successfully', {
@@ -118,11 +131,14 @@ export async function parseRequestParameters(request: NextRequest): Promise<Pars
         flujo,
         conversationId,
         requireApproval,
-        flujodebug // Log the new flag
+        flujodebug, // Log the new flag
+        variableCount: variables ? Object.keys(variables).length : 0,
+        budget,
+        recording
       });
 
-      // Remove metadata and deprecated conversation_id before returning
-      const { metadata, conversation_id: deprecated_conv_id, ...restData } = data;
+      // Remove metadata, deprecated conversation_id and the server-side flowId before returning
+      const { metadata, conversation_id: deprecated_conv_id, flowId: serverFlowId, ...restData } = data;
 
       // Return the rest of the data object along with the extracted flags and processNodeId
       return { 
@@ -131,7 +147,10 @@ export async function parseRequestParameters(request: NextRequest): Promise<Pars
         conversation_id: conversationId, 
         requireApproval, 
         flujodebug,
-        processNodeId: data.processNodeId // Pass through processNodeId if provided
+        processNodeId: data.processNodeId, // Pass through processNodeId if provided
+        variables,
+        budget,
+        recording
       };
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -146,6 +165,64 @@ export async function parseRequestParameters(request: NextRequest): Promise<Pars
   }
 }
 
+// Parse the JSON-encoded variables from request metadata
+function parseVariables(raw?: string): Record<string, unknown> | undefined {
+  if (!raw) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`metadata.variables is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('metadata.variables must be a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+const BUDGET_LIMITS: Array<keyof ConversationBudget> = ['maxTokens', 'maxCost', 'maxToolCalls', 'maxModelCalls'];
+
+// Parse the JSON-encoded spending limits from request metadata
+function parseBudget(raw?: string): ConversationBudget | undefined {
+  if (!raw) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`metadata.budget is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('metadata.budget must be a JSON object');
+  }
+  const budget: ConversationBudget = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (!BUDGET_LIMITS.includes(key as keyof ConversationBudget)) {
+      throw new Error(`Unknown budget limit "${key}": use ${BUDGET_LIMITS.join(', ')}`);
+    }
+    if (typeof value !== 'number' || !(value > 0)) {
+      throw new Error(`Budget limit ${key} must be a positive number`);
+    }
+    budget[key as keyof ConversationBudget] = value;
+  }
+  return budget;
+}
+
+// Parse the fixture names from request metadata; a conversation either records or replays
+function parseRecording(record?: string, replay?: string): RecordingSettings | undefined {
+  if (record && replay) {
+    throw new Error('metadata.flujorecord and metadata.flujoreplay cannot be used together');
+  }
+  const fixture = record || replay;
+  if (!fixture) return undefined;
+
+  if (!FlowRecorder.isValidFixtureName(fixture)) {
+    throw new Error(`Invalid fixture name "${fixture}": use letters, digits, "_" and "-"`);
+  }
+  return { mode: record ? 'record' : 'replay', fixture };
+}
+
 // Helper function to log detailed request information
 // Currently disabled but kept for future use
 export async function _logRequestDetails(request: NextRequest) {
@@ -0,0 +1,67 @@
+import { createLogger } from '@/utils/logger';
+import { flowService } from '@/backend/services/flow';
+import { processChatCompletion } from './chatCompletionService';
+
+const log = createLogger('app/v1/chat/completions/runFlowConversation');
+
+export interface FlowConversationOptions {
+  // Stop at the first tool call until it is approved in the chat
+  requireApproval: boolean;
+  variables?: Record<string, unknown>;
+  // Defaults to a new random ID
+  conversationId?: string;
+}
+
+export interface FlowConversationResult {
+  conversationId: string;
+  // Conversation status when the request returned, or 'error'
+  status: 'completed' | 'budget_exceeded' | 'awaiting_tool_approval' | 'awaiting_human_input' | 'running' | 'error';
+  // Content of the last assistant message
+  answer?: string | null;
+  error?: string;
+  httpStatus: number;
+}
+
+/**
+ * Start a new conversation for a flow from a single user message, the same way a client
+ * calling /v1/chat/completions with flujo=true would, and wait until the flow stops.
+ * Used by server-side triggers (schedules, webhooks).
+ */
+export async function runFlowConversation(flowId: string, message: string, options: FlowConversationOptions): Promise<FlowConversationResult> {
+  const conversationId = options.conversationId || crypto.randomUUID();
+  const flow = await flowService.getFlow(flowId);
+  if (!flow) {
+    return { conversationId, status: 'error', error: `Flow not found: ${flowId}`, httpStatus: 404 };
+  }
+
+  log.info(`Starting conversation ${conversationId} for flow ${flow.name}`, { requireApproval: options.requireApproval });
+  const response = await processChatCompletion(
+    {
+      model: `flow-${flow.name}`,
+      flowId,
+      messages: [{ role: 'user', content: message }],
+      stream: false,
+      variables: options.variables
+    },
+    true,
+    options.requireApproval,
+    false,
+    conversationId
+  );
+
+  const body = await response.json();
+  if (!response.ok || body.error) {
+    return {
+      conversationId,
+      status: 'error',
+      error: body.error?.message || `Run failed with HTTP status ${response.status}`,
+      httpStatus: response.ok ? 500 : response.status
+    };
+  }
+  return {
+    conversationId: body.conversation_id || conversationId,
+    status: body.status || 'completed',
+    answer: body.choices?.[0]?.message?.content,
+    httpStatus: response.status
+  };
+}
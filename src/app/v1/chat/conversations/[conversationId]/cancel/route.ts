@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createLogger } from '@/utils/logger';
-import { FlowExecutor } from '@/backend/execution/flow/FlowExecutor';
+import { ConversationLock } from '@/backend/execution/flow/ConversationLock';
+import { ConversationStateStore } from '@/backend/execution/flow/ConversationStateStore';
 import { SharedState } from '@/backend/execution/flow/types';
-import { loadItem as loadItemBackend, saveItem as saveItemBackend } from '@/utils/storage/backend';
-import { StorageKey } from '@/shared/types/storage';
 
 const log = createLogger('app/v1/chat/conversations/[conversationId]/cancel/route');
 
@@ -22,26 +21,15 @@ export async function POST(
 
   try {
     let sharedState: SharedState | undefined = undefined;
-    const storageKey = `conversations/${conversationId}` as StorageKey;
 
-    // 1. Load state (prefer memory, fallback to storage)
-    if (FlowExecutor.conversationStates.has(conversationId)) {
-      sharedState = FlowExecutor.conversationStates.get(conversationId);
-      log.debug(`Loaded state from memory`, { requestId, conversationId });
-    } else {
-      try {
-        sharedState = await loadItemBackend<SharedState>(storageKey, undefined as any);
-        if (sharedState) {
-          log.debug(`Loaded state from storage`, { requestId, conversationId });
-          // Add to memory map if loaded from storage, so the flag is checked
-          FlowExecutor.conversationStates.set(conversationId, sharedState);
-        }
-      } catch (storageError) {
-        log.warn(`Error loading state from storage for cancellation`, { requestId, conversationId, error: storageError });
-        // If we can't load state, we can't cancel, but maybe return success anyway?
-        // Let's return an error for clarity.
-        return NextResponse.json({ error: 'Failed to load conversation state for cancellation' }, { status: 500 });
-      }
+    // 1. Load state (from memory, or rehydrated from storage so the flag is checked)
+    try {
+      sharedState = await ConversationStateStore.get(conversationId);
+    } catch (storageError) {
+      log.warn(`Error loading state from storage for cancellation`, { requestId, conversationId, error: storageError });
+      // If we can't load state, we can't cancel, but maybe return success anyway?
+      // Let's return an error for clarity.
+      return NextResponse.json({ error: 'Failed to load conversation state for cancellation' }, { status: 500 });
     }
 
     // 2. Check if state exists
@@ -56,15 +44,22 @@ export async function POST(
     sharedState.isCancelled = true;
     // Optionally update status if needed, e.g., sharedState.status = 'error'; sharedState.lastResponse = { success: false, error: 'Cancelled by user' };
 
-    // 4. Save updated state (both memory and storage)
-    FlowExecutor.conversationStates.set(conversationId, sharedState); // Update memory map
+    // 4. Save updated state. A running execution checks the flag between steps and saves the
+    // state itself; saving it here as well would race with that save
+    const release = ConversationLock.tryAcquire(conversationId, 'cancellation');
+    if (!release) {
+      log.info(`Conversation is busy, leaving the cancel flag to the running execution`, { requestId, conversationId, lock: ConversationLock.getLock(conversationId) });
+      return NextResponse.json({ success: true, message: 'Cancellation requested, the running execution stops after its current step.' });
+    }
     try {
-      await saveItemBackend(storageKey, sharedState); // Save to storage
+      await ConversationStateStore.save(conversationId, sharedState);
       log.info(`Saved updated state after setting cancel flag`, { requestId, conversationId });
     } catch (saveError) {
        log.error(`Failed to save cancelled state`, { requestId, conversationId, saveError });
        // Return error as saving failed, cancellation might not persist
        return NextResponse.json({ error: 'Failed to save cancellation state' }, { status: 500 });
+    } finally {
+      release();
     }
 
     // 5. Return success
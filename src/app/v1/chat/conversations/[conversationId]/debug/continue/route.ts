@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createLogger } from '@/utils/logger';
-import { FlowExecutor } from '@/backend/execution/flow/FlowExecutor';
+import { ConversationStateStore } from '@/backend/execution/flow/ConversationStateStore';
+import { ConversationLock } from '@/backend/execution/flow/ConversationLock';
 import { SharedState } from '@/backend/execution/flow/types';
-import { loadItem as loadItemBackend, saveItem as saveItemBackend } from '@/utils/storage/backend';
-import { StorageKey } from '@/shared/types/storage';
 import { processChatCompletion } from '@/app/v1/chat/completions/chatCompletionService'; // Import the main service
 import { ChatCompletionRequest } from '@/app/v1/chat/completions/requestParser'; // Import request type
 import { flowService } from '@/backend/services/flow/index'; // Import flowService
@@ -23,21 +22,9 @@ export async function POST(
     return NextResponse.json({ error: 'Missing conversationId parameter' }, { status: 400 });
   }
 
-  const storageKey = `conversations/${conversationId}` as StorageKey;
-
   try {
-    // 1. Load state (prioritize memory, then storage)
-    let sharedState: SharedState | undefined = undefined;
-    if (FlowExecutor.conversationStates.has(conversationId)) {
-      sharedState = FlowExecutor.conversationStates.get(conversationId)!;
-      log.debug(`Loaded state from memory`, { requestId, conversationId });
-    } else {
-      sharedState = await loadItemBackend<SharedState>(storageKey, undefined as any);
-      if (sharedState) {
-        log.debug(`Loaded state from storage`, { requestId, conversationId });
-        FlowExecutor.conversationStates.set(conversationId, sharedState); // Add to memory map
-      }
-    }
+    // 1. Load state (from memory, or rehydrated from storage)
+    const sharedState: SharedState | undefined = await ConversationStateStore.get(conversationId);
 
     if (!sharedState) {
       log.warn(`Conversation state not found for debug continue`, { requestId, conversationId });
@@ -102,14 +89,24 @@ export async function POST(
       conversationId,
       error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : String(error)
     });
-    // Attempt to update state with error status if possible
-     if (FlowExecutor.conversationStates.has(conversationId)) {
-        const state = FlowExecutor.conversationStates.get(conversationId)!;
-        state.status = 'error';
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error during debug continue processing';
-        state.lastResponse = { success: false, error: errorMessage };
-        FlowExecutor.conversationStates.set(conversationId, state);
-        try { await saveItemBackend(storageKey, state); } catch { /* ignore save error */ }
+    // Attempt to update state with error status if possible, unless another request works on the conversation by now
+    const release = ConversationLock.tryAcquire(conversationId, 'debug continue error handling');
+    if (!release) {
+      log.warn(`Not recording the error, the conversation is locked by another request`, { requestId, conversationId });
+    } else {
+      try {
+        const state = ConversationStateStore.peek(conversationId);
+        if (state) {
+          state.status = 'error';
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error during debug continue processing';
+          state.lastResponse = { success: false, error: errorMessage };
+          await ConversationStateStore.save(conversationId, state);
+        }
+      } catch (saveError) {
+        log.error('Failed to save the error state after debug continue failed', { requestId, conversationId, error: saveError });
+      } finally {
+        release();
+      }
     }
     return NextResponse.json({ error: 'Internal server error during debug continue' }, { status: 500 });
   }
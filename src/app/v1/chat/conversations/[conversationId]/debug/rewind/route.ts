@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/utils/logger';
+import { FlowExecutor } from '@/backend/execution/flow/FlowExecutor';
+import { ConversationLock } from '@/backend/execution/flow/ConversationLock';
+import { ConversationStateStore } from '@/backend/execution/flow/ConversationStateStore';
+import { SharedState, FlowVariables, ERROR_ACTION, FINAL_RESPONSE_ACTION } from '@/backend/execution/flow/types';
+import { FlowVariableUtility } from '@/backend/execution/flow/nodes/util/FlowVariableUtility';
+import { FlujoChatMessage } from '@/shared/types/chat';
+
+const log = createLogger('app/v1/chat/conversations/[conversationId]/debug/rewind/route');
+
+/**
+ * Rewinds a debug session to the state before a recorded trace step.
+ * Body: { stepIndex, messages?, variables?, mode? }. With mode 'step' (default) the step
+ * runs again right away; with 'pause' the conversation waits at the step for the next command.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  const conversationId = params.conversationId;
+  const requestId = `debug-rewind-${Date.now()}`;
+  log.info('Handling POST request for debug rewind', { requestId, conversationId });
+
+  if (!conversationId) {
+    log.warn('Missing conversationId parameter', { requestId });
+    return NextResponse.json({ error: 'Missing conversationId parameter' }, { status: 400 });
+  }
+
+  let body: { stepIndex?: unknown; messages?: unknown; variables?: unknown; mode?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { stepIndex, messages, variables } = body;
+  const mode = body.mode ?? 'step';
+  if (typeof stepIndex !== 'number' || !Number.isInteger(stepIndex) || stepIndex < 0) {
+    return NextResponse.json({ error: 'stepIndex must be a non-negative integer' }, { status: 400 });
+  }
+  if (mode !== 'step' && mode !== 'pause') {
+    return NextResponse.json({ error: "mode must be 'step' or 'pause'" }, { status: 400 });
+  }
+  if (messages !== undefined && (!Array.isArray(messages) || messages.some(msg => typeof msg !== 'object' || msg === null || typeof msg.role !== 'string'))) {
+    return NextResponse.json({ error: 'messages must be an array of chat messages' }, { status: 400 });
+  }
+  if (variables !== undefined) {
+    if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) {
+      return NextResponse.json({ error: 'variables must be a JSON object' }, { status: 400 });
+    }
+    const invalidNames = Object.keys(variables).filter(name => !FlowVariableUtility.isValidName(name));
+    if (invalidNames.length > 0) {
+      return NextResponse.json({ error: `Invalid variable names: ${invalidNames.join(', ')}` }, { status: 400 });
+    }
+  }
+
+  const release = ConversationLock.tryAcquire(conversationId, 'debug rewind');
+  if (!release) {
+    return NextResponse.json({ error: ConversationLock.busyMessage(conversationId), code: 'conversation_busy' }, { status: 409 });
+  }
+
+  try {
+    // 1. Load state (from memory, or rehydrated from storage)
+    let sharedState: SharedState | undefined = await ConversationStateStore.get(conversationId);
+
+    if (!sharedState) {
+      log.warn(`Conversation state not found for debug rewind`, { requestId, conversationId });
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    // 2. Only a settled debug session can be rewound; a running one would overwrite the result
+    if (sharedState.status === 'running') {
+      log.warn(`Debug rewind requested while the conversation is running`, { requestId, conversationId });
+      return NextResponse.json({ error: 'Cannot rewind while the conversation is running' }, { status: 409 });
+    }
+    if (!sharedState.executionTrace?.[stepIndex]) {
+      log.warn(`Debug rewind requested for unknown step`, { requestId, conversationId, stepIndex, traceLength: sharedState.executionTrace?.length || 0 });
+      return NextResponse.json({ error: `Step ${stepIndex} not found in the execution trace` }, { status: 404 });
+    }
+
+    // 3. Restore the snapshot, applying the edits
+    const editedMessages = (messages as FlujoChatMessage[] | undefined)?.map(msg => ({
+      ...msg,
+      id: msg.id || crypto.randomUUID(),
+      timestamp: msg.timestamp || Date.now()
+    }));
+    sharedState = FlowExecutor.rewindToStep(sharedState, stepIndex, {
+      messages: editedMessages,
+      variables: variables as FlowVariables | undefined
+    });
+
+    // 4. Run the step again unless the caller only wants to pause there
+    if (mode === 'step') {
+      log.info(`Re-executing step ${stepIndex} after rewind`, { requestId, conversationId, currentNodeId: sharedState.currentNodeId });
+      const stepResult = await FlowExecutor.executeStep(sharedState);
+      sharedState = stepResult.sharedState;
+      const currentAction = stepResult.action;
+
+      if (currentAction !== ERROR_ACTION && currentAction !== FINAL_RESPONSE_ACTION) {
+        sharedState.status = 'paused_debug';
+      } else if (currentAction === FINAL_RESPONSE_ACTION) {
+        sharedState.status = sharedState.budgetExceeded ? 'budget_exceeded' : 'completed';
+      } else {
+        sharedState.status = 'error';
+      }
+      log.info(`Step re-executed after rewind. Action: ${currentAction}, New Status: ${sharedState.status}`, { requestId, conversationId });
+    }
+
+    // 5. Save the rewound state
+    try {
+      sharedState.updatedAt = Date.now();
+      await ConversationStateStore.save(conversationId, sharedState);
+      log.debug(`Saved state after debug rewind`, { requestId, conversationId });
+    } catch (saveError) {
+      log.error(`Failed to save state after debug rewind`, { requestId, conversationId, saveError });
+    }
+
+    return NextResponse.json({
+      status: sharedState.status,
+      conversation_id: sharedState.conversationId,
+      debugState: sharedState
+    });
+
+  } catch (error) {
+    log.error('Error during debug rewind', {
+      requestId,
+      conversationId,
+      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : String(error)
+    });
+    return NextResponse.json({ error: 'Internal server error during debug rewind' }, { status: 500 });
+  } finally {
+    release();
+  }
+}
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createLogger } from '@/utils/logger';
 import { FlowExecutor } from '@/backend/execution/flow/FlowExecutor';
+import { ConversationLock } from '@/backend/execution/flow/ConversationLock';
+import { ConversationStateStore } from '@/backend/execution/flow/ConversationStateStore';
 import { SharedState, ERROR_ACTION, FINAL_RESPONSE_ACTION } from '@/backend/execution/flow/types';
-import { loadItem as loadItemBackend, saveItem as saveItemBackend } from '@/utils/storage/backend';
-import { StorageKey } from '@/shared/types/storage';
 import { FEATURES } from '@/config/features'; // Import feature flags
 
 const log = createLogger('app/v1/chat/conversations/[conversationId]/debug/step/route');
@@ -21,35 +21,23 @@ export async function POST(
     return NextResponse.json({ error: 'Missing conversationId parameter' }, { status: 400 });
   }
 
-  const storageKey = `conversations/${conversationId}` as StorageKey;
+  const release = ConversationLock.tryAcquire(conversationId, 'debug step');
+  if (!release) {
+    return NextResponse.json({ error: ConversationLock.busyMessage(conversationId), code: 'conversation_busy' }, { status: 409 });
+  }
 
   try {
-    // 1. Load state (prioritize memory, then storage)
+    // 1. Load state (from memory, or rehydrated from storage)
     let sharedState: SharedState | undefined = undefined;
-    let stateSource: 'memory' | 'storage' | 'not_found' = 'not_found'; // Track source
-
-    if (FlowExecutor.conversationStates.has(conversationId)) {
-      sharedState = FlowExecutor.conversationStates.get(conversationId)!;
-      stateSource = 'memory';
-      log.debug(`Loaded state from memory`, { requestId, conversationId });
-    } else {
-      try {
-          sharedState = await loadItemBackend<SharedState>(storageKey, undefined as any);
-          if (sharedState) {
-            stateSource = 'storage';
-            log.debug(`Loaded state from storage`, { requestId, conversationId });
-            FlowExecutor.conversationStates.set(conversationId, sharedState); // Add to memory map
-          } else {
-             log.info(`State not found in storage`, { requestId, conversationId });
-          }
-      } catch (loadError) {
-          log.error(`Error loading state from storage for debug step`, { requestId, conversationId, loadError });
-          // Proceed to check if state is undefined below
-      }
+    try {
+        sharedState = await ConversationStateStore.get(conversationId);
+    } catch (loadError) {
+        log.error(`Error loading state from storage for debug step`, { requestId, conversationId, loadError });
+        // Proceed to check if state is undefined below
     }
 
     if (!sharedState) {
-      log.warn(`Conversation state not found for debug step (source: ${stateSource})`, { requestId, conversationId }); // Keep the primary check
+      log.warn(`Conversation state not found for debug step`, { requestId, conversationId }); // Keep the primary check
       return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
     }
 
@@ -80,13 +68,13 @@ export async function POST(
     if (currentAction !== ERROR_ACTION && currentAction !== FINAL_RESPONSE_ACTION) {
       sharedState.status = 'paused_debug'; // Remain paused
     } else if (currentAction === FINAL_RESPONSE_ACTION) {
-      sharedState.status = 'completed'; // Flow finished
+      sharedState.status = sharedState.budgetExceeded ? 'budget_exceeded' : 'completed'; // Flow finished
     } else {
       sharedState.status = 'error'; // Step resulted in error
     }
     log.info(`Debug step executed. Action: ${currentAction}, New Status: ${sharedState.status}`, { requestId, conversationId });
 
-    // 5. Save updated state (memory map already updated by executeStep)
+    // 5. Save updated state
     try {
       sharedState.updatedAt = Date.now();
       // Title update logic (optional, but good practice)
@@ -96,7 +84,7 @@ export async function POST(
               sharedState.title = firstUserMessage.content.split(' ').slice(0, 5).join(' ') + '...';
           }
       }
-      await saveItemBackend(storageKey, sharedState);
+      await ConversationStateStore.save(conversationId, sharedState);
       log.debug(`Saved state after debug step`, { requestId, conversationId });
     } catch (saveError) {
       log.error(`Failed to save state after debug step`, { requestId, conversationId, saveError });
@@ -117,14 +105,15 @@ export async function POST(
       error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : String(error)
     });
     // Attempt to update state with error status if possible
-    if (FlowExecutor.conversationStates.has(conversationId)) {
-        const state = FlowExecutor.conversationStates.get(conversationId)!;
+    const state = ConversationStateStore.peek(conversationId);
+    if (state) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error during debug step processing';
         state.status = 'error';
         state.lastResponse = { success: false, error: errorMessage };
-        FlowExecutor.conversationStates.set(conversationId, state);
-        try { await saveItemBackend(storageKey, state); } catch { /* ignore save error */ }
+        try { await ConversationStateStore.save(conversationId, state); } catch { /* ignore save error */ }
     }
     return NextResponse.json({ error: 'Internal server error during debug step' }, { status: 500 });
+  } finally {
+    release();
   }
 }
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/utils/logger';
+import { ExecutionEvents } from '@/backend/execution/flow/ExecutionEvents';
+import { FlowExecutionEvent } from '@/shared/types/flow';
+
+const log = createLogger('app/v1/chat/conversations/[conversationId]/events/route');
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream of a conversation's execution events (node_started, tool_result,
+ * message_delta, completed, ...). Each event carries its `seq` as the SSE id; a client that
+ * reconnects with Last-Event-ID (or ?after=<seq>) first receives the buffered events it missed.
+ * The stream stays open across runs until the client closes it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  const { conversationId } = await params;
+  if (!conversationId) {
+    return NextResponse.json({ error: 'Missing conversationId parameter' }, { status: 400 });
+  }
+
+  const lastEventId = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('after');
+  const afterSeq = lastEventId !== null && /^\d+$/.test(lastEventId) ? parseInt(lastEventId, 10) : undefined;
+  log.info('Opening execution event stream', { conversationId, afterSeq });
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const cleanup = () => {
+    unsubscribe?.();
+    unsubscribe = undefined;
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = undefined;
+    }
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // The stream was closed in the meantime
+          cleanup();
+        }
+      };
+
+      write(`: connected to ${conversationId}\n\n`);
+      unsubscribe = ExecutionEvents.subscribe(conversationId, (event: FlowExecutionEvent) => {
+        write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }, afterSeq);
+      heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      request.signal.addEventListener('abort', () => {
+        log.debug('Client disconnected from execution event stream', { conversationId });
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -1,17 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createLogger } from '@/utils/logger';
-import { FlowExecutor } from '@/backend/execution/flow/FlowExecutor';
+import { ConversationLock } from '@/backend/execution/flow/ConversationLock';
+import { ConversationStateStore } from '@/backend/execution/flow/ConversationStateStore';
 import { SharedState, TOOL_CALL_ACTION } from '@/backend/execution/flow/types';
-import { loadItem as loadItemBackend, saveItem as saveItemBackend } from '@/utils/storage/backend';
-import { StorageKey } from '@/shared/types/storage';
-import { ModelHandler } from '@/backend/execution/flow/handlers/ModelHandler';
+import { FlowExecutor } from '@/backend/execution/flow/FlowExecutor';
+import { HumanInputNodeUtility } from '@/backend/execution/flow/nodes/util/HumanInputNodeUtility';
 import OpenAI from 'openai';
 
 const log = createLogger('app/v1/chat/conversations/[conversationId]/respond/route');
 
 interface RespondRequestBody {
-  action: 'approve' | 'reject';
-  toolCallId: string;
+  action: 'approve' | 'reject' | 'submit_input';
+  // Required for 'approve' and 'reject'
+  toolCallId?: string;
+  // Form values, required for 'submit_input'
+  values?: Record<string, unknown>;
 }
 
 export async function POST(
@@ -20,7 +23,7 @@ export async function POST(
 ) {
   const { conversationId } = params;
   const requestId = `conv-respond-${Date.now()}`;
-  log.info('Handling POST request for conversation response (Approve/Reject)', { requestId, conversationId });
+  log.info('Handling POST request for conversation response (Approve/Reject/Submit input)', { requestId, conversationId });
 
   if (!conversationId) {
     log.warn('Missing conversationId parameter', { requestId });
@@ -30,36 +33,37 @@ export async function POST(
   let requestBody: RespondRequestBody;
   try {
     requestBody = await request.json();
-    if (!requestBody.action || !requestBody.toolCallId || (requestBody.action !== 'approve' && requestBody.action !== 'reject')) {
-      throw new Error('Invalid request body. Required fields: action ("approve" or "reject"), toolCallId (string)');
+    if (requestBody.action === 'submit_input') {
+      if (!requestBody.values || typeof requestBody.values !== 'object' || Array.isArray(requestBody.values)) {
+        throw new Error('Invalid request body. Required fields for "submit_input": values (object)');
+      }
+    } else if (!requestBody.action || !requestBody.toolCallId || (requestBody.action !== 'approve' && requestBody.action !== 'reject')) {
+      throw new Error('Invalid request body. Required fields: action ("approve", "reject" or "submit_input"), toolCallId (string) or values (object)');
     }
   } catch (error) {
     log.warn('Invalid request body', { requestId, error: error instanceof Error ? error.message : error });
     return NextResponse.json({ error: 'Invalid request body', details: error instanceof Error ? error.message : 'Unknown error' }, { status: 400 });
   }
 
-  const { action, toolCallId } = requestBody;
+  const { action } = requestBody;
+  const toolCallId = requestBody.toolCallId!;
   log.info(`Processing response action`, { requestId, conversationId, action, toolCallId });
 
+  // A run of the conversation must not change the state while the response is applied
+  const release = ConversationLock.tryAcquire(conversationId, action === 'submit_input' ? 'human input submission' : 'tool call response');
+  if (!release) {
+    return NextResponse.json({ error: ConversationLock.busyMessage(conversationId), code: 'conversation_busy' }, { status: 409 });
+  }
+
   try {
     let sharedState: SharedState | undefined = undefined;
-    const storageKey = `conversations/${conversationId}` as StorageKey;
 
-    // 1. Load state (prefer memory, fallback to storage)
-    if (FlowExecutor.conversationStates.has(conversationId)) {
-      sharedState = FlowExecutor.conversationStates.get(conversationId);
-      log.debug(`Loaded state from memory`, { requestId, conversationId });
-    } else {
-      try {
-        sharedState = await loadItemBackend<SharedState>(storageKey, undefined as any);
-        if (sharedState) {
-          log.debug(`Loaded state from storage`, { requestId, conversationId });
-          FlowExecutor.conversationStates.set(conversationId, sharedState); // Add to memory map
-        }
-      } catch (storageError) {
-        log.warn(`Error loading state from storage`, { requestId, conversationId, error: storageError });
-        // Proceed, maybe state just doesn't exist
-      }
+    // 1. Load state (from memory, or rehydrated from storage)
+    try {
+      sharedState = await ConversationStateStore.get(conversationId);
+    } catch (storageError) {
+      log.warn(`Error loading state from storage`, { requestId, conversationId, error: storageError });
+      // Proceed, maybe state just doesn't exist
     }
 
     // 2. Validate state
@@ -68,6 +72,10 @@ export async function POST(
       return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
     }
 
+    if (action === 'submit_input') {
+      return await submitHumanInput(conversationId, sharedState, requestBody.values!, requestId);
+    }
+
     if (sharedState.status !== 'awaiting_tool_approval' || !sharedState.pendingToolCalls) {
       log.warn(`Conversation is not awaiting tool approval`, { requestId, conversationId, status: sharedState.status });
       return NextResponse.json({ error: 'Conversation is not awaiting tool approval' }, { status: 400 });
@@ -82,8 +90,8 @@ export async function POST(
     // 3. Process action
     if (action === 'approve') {
       log.info(`Approving tool call`, { requestId, conversationId, toolCallId });
-      // Process *only* the approved tool call
-      const toolProcessingResult = await ModelHandler.processToolCalls({ toolCalls: [toolCallToProcess] });
+      // Process *only* the approved tool call, with the node's retry policy, timeout and recording like any other
+      const toolProcessingResult = await FlowExecutor.processToolCalls(sharedState, [toolCallToProcess]);
 
       if (!toolProcessingResult.success) {
         log.error(`Internal tool processing failed after approval`, { requestId, conversationId, toolCallId, error: toolProcessingResult.error });
@@ -134,8 +142,7 @@ export async function POST(
 
     // 5. Save updated state
     sharedState.lastResponse = undefined; // Clear last response before potentially resuming
-    FlowExecutor.conversationStates.set(conversationId, sharedState); // Update memory map
-    await saveItemBackend(storageKey, sharedState); // Save to storage
+    await ConversationStateStore.save(conversationId, sharedState);
     log.info(`Saved updated state after processing tool response`, { requestId, conversationId, newStatus: sharedState.status });
 
     // 6. Return success
@@ -151,5 +158,43 @@ export async function POST(
       error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
     });
     return NextResponse.json({ error: 'Internal server error processing tool response' }, { status: 500 });
+  } finally {
+    release();
   }
 }
+
+/**
+ * Store the values submitted for a human input form. The human input node picks
+ * them up on the next step, once the client resumes the conversation.
+ */
+async function submitHumanInput(
+  conversationId: string,
+  sharedState: SharedState,
+  submittedValues: Record<string, unknown>,
+  requestId: string
+) {
+  const pending = sharedState.pendingHumanInput;
+
+  if (sharedState.status !== 'awaiting_human_input' || !pending) {
+    log.warn(`Conversation is not awaiting human input`, { requestId, conversationId, status: sharedState.status });
+    return NextResponse.json({ error: 'Conversation is not awaiting human input' }, { status: 400 });
+  }
+
+  const { values, errors } = HumanInputNodeUtility.validateValues(pending.schema, submittedValues);
+  if (errors.length > 0) {
+    log.warn(`Submitted human input is invalid`, { requestId, conversationId, errors });
+    return NextResponse.json({ error: 'Invalid input', details: errors }, { status: 400 });
+  }
+
+  log.info(`Accepted human input, resuming execution`, { requestId, conversationId, nodeId: pending.nodeId });
+  sharedState.pendingHumanInput = { ...pending, values, submittedAt: Date.now() };
+  sharedState.status = 'running';
+  sharedState.lastResponse = undefined; // Clear last response before resuming
+  sharedState.updatedAt = Date.now();
+
+  await ConversationStateStore.save(conversationId, sharedState);
+  log.info(`Saved updated state after human input`, { requestId, conversationId, newStatus: sharedState.status });
+
+  // The client resumes the conversation with a new chat completion request
+  return NextResponse.json({ success: true, status: sharedState.status });
+}
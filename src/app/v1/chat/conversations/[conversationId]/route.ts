@@ -1,11 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs'; // Import fs promises
-import path from 'path'; // Import path
 import { createLogger } from '@/utils/logger';
-import { FlowExecutor } from '@/backend/execution/flow/FlowExecutor';
+import { ConversationStateStore } from '@/backend/execution/flow/ConversationStateStore';
+import { ConversationLock } from '@/backend/execution/flow/ConversationLock';
+import { ExecutionEvents } from '@/backend/execution/flow/ExecutionEvents';
 import { SharedState } from '@/backend/execution/flow/types';
-import { loadItem as loadItemBackend, saveItem } from '@/utils/storage/backend'; // Import saveItem
-import { StorageKey } from '@/shared/types/storage';
 import { ConversationListItem } from '@/frontend/components/Chat'; // Import for response type
 
 const log = createLogger('app/v1/chat/conversations/[conversationId]/route');
@@ -26,33 +24,16 @@ export async function GET(
 
   try {
     let sharedState: SharedState | undefined = undefined;
-    let stateSource: 'memory' | 'storage' | 'not_found' = 'not_found';
-
-    // 1. Check in-memory state first (most up-to-date during execution)
-    // Use variable
-    if (FlowExecutor.conversationStates.has(conversationId)) {
-      sharedState = FlowExecutor.conversationStates.get(conversationId);
-      stateSource = 'memory';
-      log.debug(`Found conversation state in memory`, { requestId, conversationId });
-    } else {
-      // 2. If not in memory, try loading from storage
-      log.debug(`Conversation state not in memory, trying storage`, { requestId, conversationId });
-      // Use variable
-      const storageKey = `conversations/${conversationId}` as StorageKey;
-      try {
-        sharedState = await loadItemBackend<SharedState>(storageKey, undefined as any);
-        if (sharedState) {
-          stateSource = 'storage';
-          log.debug(`Found conversation state in storage`, { requestId, conversationId });
-          // Optional: Add to in-memory map if loaded from storage?
-          // FlowExecutor.conversationStates.set(conversationId, sharedState);
-        } else {
-          log.info(`Conversation state not found in storage`, { requestId, conversationId });
-        }
-      } catch (storageError) {
-        log.warn(`Error loading conversation state from storage`, { requestId, conversationId, error: storageError });
-        // Continue, maybe it's just not created yet or error is transient
+
+    // 1. Load the state from memory, or rehydrate it from storage
+    try {
+      sharedState = await ConversationStateStore.get(conversationId);
+      if (!sharedState) {
+        log.info(`Conversation state not found in storage`, { requestId, conversationId });
       }
+    } catch (storageError) {
+      log.warn(`Error loading conversation state from storage`, { requestId, conversationId, error: storageError });
+      // Continue, maybe it's just not created yet or error is transient
     }
 
     // 3. Handle based on whether state was found
@@ -64,8 +45,21 @@ export async function GET(
       }));
       // --- End ID check ---
 
+      // Answers still streaming in from the model are shown as they are so far
+      if (sharedState.status === 'running') {
+        ExecutionEvents.getDrafts(conversationId)
+          .filter(draft => !messagesWithIds.some(msg => msg.id === draft.messageId))
+          .forEach(draft => messagesWithIds.push({
+            id: draft.messageId,
+            role: 'assistant',
+            content: draft.content,
+            processNodeId: draft.nodeId,
+            timestamp: Date.now()
+          }));
+      }
+
       // Use variable for logging
-      log.info(`Returning conversation state`, { requestId, conversationId, stateSource, messageCount: messagesWithIds.length, status: sharedState.status });
+      log.info(`Returning conversation state`, { requestId, conversationId, messageCount: messagesWithIds.length, status: sharedState.status });
 
       // Construct the response object matching the structure expected by the frontend's Conversation type
       // Note: We are not explicitly typing with the frontend 'Conversation' type here to avoid backend importing frontend types.
@@ -76,6 +70,8 @@ export async function GET(
         flowId: sharedState.flowId || null, // Ensure flowId is included
         createdAt: sharedState.createdAt || 0,
         updatedAt: sharedState.updatedAt || Date.now(), // Use current time if missing
+        pendingHumanInput: sharedState.pendingHumanInput, // Form the conversation is waiting on, if any
+        usage: sharedState.trackingInfo?.usage, // Tokens and cost, in total, of the latest run and per node and model
         // Include other relevant fields if the frontend Conversation type needs them
         // status: sharedState.status || (stateSource === 'memory' ? 'running' : 'completed'), // Status is part of ConversationListItem, not Conversation
         // currentNodeId: sharedState.currentNodeId, // Not part of frontend Conversation type
@@ -141,39 +137,26 @@ export async function PATCH(
   };
 
 
-  const storageKey = `conversations/${conversationId}` as StorageKey;
-
   try {
-    // 1. Load existing state from storage
-    const existingState = await loadItemBackend<SharedState>(storageKey, undefined as any);
+    // 1. Load existing state
+    const existingState = await ConversationStateStore.get(conversationId);
 
     if (!existingState) {
       log.warn(`Conversation state not found for PATCH`, { requestId, conversationId });
       return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
     }
 
-    // 2. Update the state
-    const updatedState: SharedState = {
-      ...existingState,
+    // 2. Update the state in place, so a run holding it sees the change
+    const updatedState: SharedState = Object.assign(existingState, {
       ...allowedUpdates, // Apply validated updates
       updatedAt: Date.now(), // Always update the timestamp
-    };
+    });
 
-    // 3. Save updated state back to storage
-    await saveItem(storageKey, updatedState);
+    // 3. Save updated state (memory and storage)
+    await ConversationStateStore.save(conversationId, updatedState);
     log.info(`Successfully updated and saved conversation state`, { requestId, conversationId, updatedFields: Object.keys(allowedUpdates) });
 
-    // 4. Update in-memory state if it exists
-    if (FlowExecutor.conversationStates.has(conversationId)) {
-      const inMemoryState = FlowExecutor.conversationStates.get(conversationId);
-      if (inMemoryState) {
-         const updatedInMemoryState = { ...inMemoryState, ...allowedUpdates, updatedAt: updatedState.updatedAt };
-         FlowExecutor.conversationStates.set(conversationId, updatedInMemoryState);
-         log.debug(`Updated conversation state in memory`, { requestId, conversationId });
-      }
-    }
-
-    // 5. Return updated summary
+    // 4. Return updated summary
     const updatedSummary: ConversationListItem = {
       id: conversationId, // Use the conversationId from params
       title: updatedState.title,
@@ -188,7 +171,6 @@ export async function PATCH(
     log.error('Error updating conversation state', {
       requestId,
       conversationId,
-      storageKey,
       error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
     });
     return NextResponse.json({ error: 'Internal server error during update' }, { status: 500 });
@@ -210,42 +192,27 @@ export async function DELETE(
     return NextResponse.json({ error: 'Missing conversationId parameter' }, { status: 400 });
   }
 
-  const conversationsDir = path.join(process.cwd(), 'db', 'conversations');
-  const filePath = path.join(conversationsDir, `${conversationId}.json`);
-  log.debug('Target file path for deletion', { requestId, filePath });
+  // A running execution would write the state back
+  const release = ConversationLock.tryAcquire(conversationId, 'deletion');
+  if (!release) {
+    return NextResponse.json({ error: ConversationLock.busyMessage(conversationId), code: 'conversation_busy' }, { status: 409 });
+  }
 
   try {
-    // Attempt to delete the file from storage
-    await fs.unlink(filePath);
-    log.info(`Successfully deleted conversation file from storage`, { requestId, conversationId });
-
-    // Also remove from in-memory state if it exists
-    if (FlowExecutor.conversationStates.has(conversationId)) {
-      FlowExecutor.conversationStates.delete(conversationId);
-      log.debug(`Removed conversation state from memory`, { requestId, conversationId });
-    }
+    // Remove the conversation from memory and storage; a file that is already gone counts as deleted
+    await ConversationStateStore.remove(conversationId);
+    log.info(`Successfully deleted conversation`, { requestId, conversationId });
 
     return new Response(null, { status: 204 }); // Success, No Content
 
-  } catch (error: any) {
+  } catch (error) {
     log.error('Error deleting conversation', {
       requestId,
       conversationId,
-      filePath,
-      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack, code: (error as NodeJS.ErrnoException).code } : error
+      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
     });
-
-    // If the error is file not found, it's arguably successful from the client's perspective
-    if (error.code === 'ENOENT') {
-      log.warn('Conversation file not found during delete, treating as success (already deleted).', { requestId, conversationId });
-       // Also remove from in-memory state just in case
-      if (FlowExecutor.conversationStates.has(conversationId)) {
-        FlowExecutor.conversationStates.delete(conversationId);
-        log.debug(`Removed potentially orphaned conversation state from memory`, { requestId, conversationId });
-      }
-      return new Response(null, { status: 204 }); // Success, No Content
-    }
-
     return NextResponse.json({ error: 'Failed to delete conversation' }, { status: 500 });
+  } finally {
+    release();
   }
 }
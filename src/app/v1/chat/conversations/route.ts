@@ -3,7 +3,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { createLogger } from '@/utils/logger';
 import { SharedState } from '@/backend/execution/flow/types';
-import { saveItem } from '@/utils/storage/backend'; // Import saveItem directly
+import { ConversationStateStore } from '@/backend/execution/flow/ConversationStateStore';
 // Use frontend type for response structure, maybe rename for clarity?
 import { ConversationListItem as FrontendConversationListItem } from '@/frontend/components/Chat';
 
@@ -54,6 +54,7 @@ export async function GET() {
         const updatedAt = state.updatedAt || 0; // Fallback timestamp
         const flowId = state.flowId || null; // Use null if missing
         const status = state.status;
+        const usage = state.trackingInfo?.usage?.total;
 
         // Ensure ID consistency if possible
         if (state.conversationId && state.conversationId !== conversationIdFromFile) {
@@ -67,7 +68,8 @@ export async function GET() {
           flowId,
           createdAt,
           updatedAt,
-          status
+          status,
+          usage
         };
       } catch (parseError) {
         log.error(`Error reading or parsing conversation file: ${file}`, { requestId, filePath, error: parseError });
@@ -198,12 +200,8 @@ export async function POST(req: NextRequest) {
       // Removed 'variables: {}' as it's not in SharedState type
     };
 
-    // Save the initial state using the imported saveItem function
-    // Note: saveItem expects StorageKey enum, but we are saving to a dynamic path.
-    // This suggests the storage utility might need adjustment or we bypass type safety here.
-    // Let's assume for now saveItem can handle this path structure, potentially needing a cast.
-    // TODO: Review storageService.saveItem signature and usage for dynamic paths.
-    await saveItem(`conversations/${conversationId}` as any, initialState); // Using 'as any' to bypass StorageKey type for now
+    // Save the initial state to memory and storage
+    await ConversationStateStore.save(conversationId, initialState);
     log.info(`Successfully saved initial state for conversation`, { requestId, conversationId, filePath });
 
     // Prepare the response body (matching ConversationListItem)
@@ -0,0 +1,75 @@
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('backend/flow/execution/ConversationLock');
+
+export interface ConversationLockInfo {
+  // What holds the lock, e.g. 'chat completion' or 'debug step'
+  holder: string;
+  acquiredAt: number;
+}
+
+// Locks live on the global object so that all routes share them across bundles
+declare global {
+  var __flujo_conversation_locks: Map<string, ConversationLockInfo> | undefined;
+}
+
+function getLocks(): Map<string, ConversationLockInfo> {
+  if (!global.__flujo_conversation_locks) {
+    global.__flujo_conversation_locks = new Map();
+  }
+  return global.__flujo_conversation_locks;
+}
+
+/**
+ * Lets one execution path at a time operate on a conversation's state. A request that finds
+ * the conversation locked is rejected instead of queued, so that a double submit or a retry
+ * does not run the flow twice.
+ */
+export class ConversationLock {
+  /**
+   * Lock a conversation. Returns the function that releases the lock, or undefined when
+   * the conversation is already locked.
+   */
+  static tryAcquire(conversationId: string, holder: string): (() => void) | undefined {
+    const locks = getLocks();
+    const current = locks.get(conversationId);
+    if (current) {
+      log.warn(`Conversation ${conversationId} is locked by ${current.holder}, rejecting ${holder}`);
+      return undefined;
+    }
+
+    const lock: ConversationLockInfo = { holder, acquiredAt: Date.now() };
+    locks.set(conversationId, lock);
+    log.debug(`Conversation ${conversationId} locked by ${holder}`);
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      // Only remove our own lock
+      if (locks.get(conversationId) === lock) {
+        locks.delete(conversationId);
+        log.debug(`Conversation ${conversationId} released by ${holder}`);
+      }
+    };
+  }
+
+  /**
+   * The current lock of a conversation, if any
+   */
+  static getLock(conversationId: string): ConversationLockInfo | undefined {
+    return getLocks().get(conversationId);
+  }
+
+  /**
+   * Error message for a request rejected because the conversation is locked
+   */
+  static busyMessage(conversationId: string): string {
+    const lock = getLocks().get(conversationId);
+    return lock
+      ? `Conversation ${conversationId} is busy with a ${lock.holder} started at ${new Date(lock.acquiredAt).toISOString()}, try again when it has finished`
+      : `Conversation ${conversationId} is busy, try again when it has finished`;
+  }
+}
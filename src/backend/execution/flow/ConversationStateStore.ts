@@ -0,0 +1,174 @@
+import { createLogger } from '@/utils/logger';
+import { loadItem, saveItem, clearItem } from '@/utils/storage/backend';
+import { StorageKey } from '@/shared/types/storage';
+import { SharedState } from './types';
+import { ConversationLock } from './ConversationLock';
+
+const log = createLogger('backend/flow/execution/ConversationStateStore');
+
+// Conversations kept in memory; the least recently used ones beyond this are evicted
+const MAX_CACHED_CONVERSATIONS = 100;
+
+interface PendingWrite {
+  state: SharedState;
+  // False once the write has started; changes made after that need another write
+  queued: boolean;
+  promise: Promise<void>;
+}
+
+interface StateStore {
+  // Map iteration order is insertion order, so the first entry is the least recently used one
+  states: Map<string, SharedState>;
+  loads: Map<string, Promise<SharedState | undefined>>;
+  writes: Map<string, PendingWrite>;
+}
+
+// The store lives on the global object so that the executor and all routes share it across bundles
+declare global {
+  var __flujo_conversation_states: StateStore | undefined;
+}
+
+function getStore(): StateStore {
+  if (!global.__flujo_conversation_states) {
+    global.__flujo_conversation_states = { states: new Map(), loads: new Map(), writes: new Map() };
+  }
+  return global.__flujo_conversation_states;
+}
+
+const getStorageKey = (conversationId: string) => `conversations/${conversationId}` as StorageKey;
+
+/**
+ * Conversation states shared by the executor and the conversation routes. Recently used
+ * conversations stay in memory, every change is written through to `conversations/<id>`,
+ * and evicted conversations are loaded again from storage when they are needed.
+ *
+ * States of nested runs (subflows, parallel branches) are marked `transient`; they are
+ * kept in memory only and never evicted, until their run removes them.
+ */
+export class ConversationStateStore {
+  /**
+   * The state of a conversation, loaded from storage when it is not in memory
+   */
+  static async get(conversationId: string): Promise<SharedState | undefined> {
+    const store = getStore();
+    const cached = store.states.get(conversationId);
+    if (cached) {
+      this.touch(conversationId, cached);
+      return cached;
+    }
+
+    // Concurrent callers share one load, so they all work on the same object
+    let load = store.loads.get(conversationId);
+    if (!load) {
+      load = loadItem<SharedState | undefined>(getStorageKey(conversationId), undefined).finally(() => {
+        store.loads.delete(conversationId);
+      });
+      store.loads.set(conversationId, load);
+    }
+    const loaded = await load;
+
+    // The state may have been stored while it was loading
+    const current = store.states.get(conversationId);
+    if (current) {
+      return current;
+    }
+    if (loaded) {
+      log.debug(`Rehydrated conversation ${conversationId} from storage`);
+      this.touch(conversationId, loaded);
+    }
+    return loaded;
+  }
+
+  /**
+   * The state of a conversation if it is in memory, without loading it
+   */
+  static peek(conversationId: string): SharedState | undefined {
+    return getStore().states.get(conversationId);
+  }
+
+  /**
+   * Store a conversation's state and wait until it is written to storage.
+   * Rejects when the write fails.
+   */
+  static async save(conversationId: string, state: SharedState): Promise<void> {
+    this.touch(conversationId, state);
+    if (!state.transient) {
+      await this.writeThrough(conversationId, state);
+    }
+  }
+
+  /**
+   * Store a conversation's state without waiting for the write; a failed write is logged
+   */
+  static put(conversationId: string, state: SharedState): void {
+    this.save(conversationId, state).catch(error => {
+      log.error(`Failed to write the state of conversation ${conversationId} to storage`, error);
+    });
+  }
+
+  /**
+   * Drop a conversation from memory and, unless `memoryOnly` is set, from storage
+   */
+  static async remove(conversationId: string, options?: { memoryOnly?: boolean }): Promise<void> {
+    const store = getStore();
+    store.states.delete(conversationId);
+    if (options?.memoryOnly) {
+      return;
+    }
+    // A write still running would bring the file back
+    await store.writes.get(conversationId)?.promise.catch(() => undefined);
+    await clearItem(getStorageKey(conversationId));
+  }
+
+  /**
+   * Visit the conversations that are in memory
+   */
+  static forEachCached(callback: (state: SharedState, conversationId: string) => void): void {
+    getStore().states.forEach(callback);
+  }
+
+  // Mark a conversation as most recently used and evict the least recently used ones
+  private static touch(conversationId: string, state: SharedState): void {
+    const states = getStore().states;
+    states.delete(conversationId);
+    states.set(conversationId, state);
+
+    let excess = states.size - MAX_CACHED_CONVERSATIONS;
+    for (const [id, cached] of Array.from(states)) {
+      if (excess <= 0) break;
+      // A conversation that is executing must stay the same object until its run ends
+      if (id === conversationId || cached.transient || cached.status === 'running' || ConversationLock.getLock(id)) {
+        continue;
+      }
+      states.delete(id);
+      excess--;
+      log.debug(`Evicted conversation ${id} from memory`);
+    }
+  }
+
+  // Write the latest state, one write per conversation at a time. Changes made while a write
+  // is waiting are picked up by it instead of queueing another one.
+  private static writeThrough(conversationId: string, state: SharedState): Promise<void> {
+    const writes = getStore().writes;
+    const pending = writes.get(conversationId);
+    if (pending?.queued) {
+      pending.state = state;
+      return pending.promise;
+    }
+
+    const write: PendingWrite = { state, queued: true, promise: Promise.resolve() };
+    const previous = pending?.promise.catch(() => undefined) ?? Promise.resolve();
+    write.promise = previous
+      .then(() => {
+        write.queued = false;
+        return saveItem(getStorageKey(conversationId), write.state);
+      })
+      .finally(() => {
+        if (writes.get(conversationId) === write) {
+          writes.delete(conversationId);
+        }
+      });
+    writes.set(conversationId, write);
+    return write.promise;
+  }
+}
@@ -0,0 +1,180 @@
+import { createLogger } from '@/utils/logger';
+import { FlowExecutionEvent, FlowExecutionEventPayload } from '@/shared/types/flow';
+
+const log = createLogger('backend/flow/execution/ExecutionEvents');
+
+export type ExecutionEventListener = (event: FlowExecutionEvent) => void;
+
+// Recent events kept per conversation, so a client that connects late or reconnects can catch up
+const MAX_BUFFERED_EVENTS = 500;
+// How long the events of a finished run stay available
+const BUFFER_TTL_MS = 5 * 60 * 1000;
+
+export interface ExecutionMessageDraft {
+  messageId: string;
+  nodeId?: string;
+  content: string;
+}
+
+interface ConversationChannel {
+  seq: number;
+  events: FlowExecutionEvent[];
+  listeners: Set<ExecutionEventListener>;
+  // Assistant messages whose text is streaming in but that are not part of the conversation yet
+  drafts: Map<string, ExecutionMessageDraft>;
+  expiry?: ReturnType<typeof setTimeout>;
+}
+
+// Channels live on the global object so that the executor and the SSE routes share them across bundles
+declare global {
+  var __flujo_execution_events: Map<string, ConversationChannel> | undefined;
+}
+
+function getChannels(): Map<string, ConversationChannel> {
+  if (!global.__flujo_execution_events) {
+    global.__flujo_execution_events = new Map();
+  }
+  return global.__flujo_execution_events;
+}
+
+function getChannel(conversationId: string): ConversationChannel {
+  const channels = getChannels();
+  let channel = channels.get(conversationId);
+  if (!channel) {
+    channel = { seq: 0, events: [], listeners: new Set(), drafts: new Map() };
+    channels.set(conversationId, channel);
+  }
+  return channel;
+}
+
+// Drop the channel of a finished run once nobody listens anymore and the buffer timed out
+function scheduleExpiry(conversationId: string, channel: ConversationChannel): void {
+  if (channel.expiry) {
+    clearTimeout(channel.expiry);
+  }
+  channel.expiry = setTimeout(() => {
+    channel.expiry = undefined;
+    if (channel.listeners.size === 0 && getChannels().get(conversationId) === channel) {
+      getChannels().delete(conversationId);
+    }
+  }, BUFFER_TTL_MS);
+  channel.expiry.unref?.();
+}
+
+const isRunEnd = (event?: FlowExecutionEvent) => event?.type === 'completed' || event?.type === 'error';
+
+/**
+ * In-process event bus for conversation execution. The executor and the chat completion
+ * service emit events as a run progresses; SSE responses subscribe per conversation.
+ */
+export class ExecutionEvents {
+  /**
+   * Emit an event for a conversation. Listeners run synchronously; a failing listener is
+   * logged and does not affect the others or the run.
+   */
+  static emit(conversationId: string | undefined, payload: FlowExecutionEventPayload): void {
+    if (!conversationId) {
+      return;
+    }
+    const channel = getChannel(conversationId);
+    const event = { ...payload, conversationId, seq: ++channel.seq, timestamp: Date.now() } as FlowExecutionEvent;
+
+    channel.events.push(event);
+    if (channel.events.length > MAX_BUFFERED_EVENTS) {
+      channel.events.splice(0, channel.events.length - MAX_BUFFERED_EVENTS);
+    }
+
+    if (event.type === 'message_delta') {
+      const draft = channel.drafts.get(event.messageId);
+      if (draft) {
+        draft.content += event.delta;
+      } else {
+        channel.drafts.set(event.messageId, { messageId: event.messageId, nodeId: event.nodeId, content: event.delta });
+      }
+    } else if (event.type === 'message_discarded') {
+      channel.drafts.delete(event.messageId);
+    }
+
+    // A finished run frees its buffer after a while; a new run of the conversation keeps it
+    if (channel.expiry) {
+      clearTimeout(channel.expiry);
+      channel.expiry = undefined;
+    }
+    if (isRunEnd(event)) {
+      scheduleExpiry(conversationId, channel);
+    }
+
+    log.verbose(`Event ${event.seq} ${event.type} for conversation ${conversationId}`);
+    channel.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        log.error(`Execution event listener failed for conversation ${conversationId}`, error);
+      }
+    });
+  }
+
+  /**
+   * Listen to the events of a conversation. Buffered events with a `seq` greater than
+   * `afterSeq` are delivered first. Returns a function that removes the listener.
+   */
+  static subscribe(conversationId: string, listener: ExecutionEventListener, afterSeq?: number): () => void {
+    const channel = getChannel(conversationId);
+    if (afterSeq !== undefined) {
+      channel.events.filter(event => event.seq > afterSeq).forEach(listener);
+    }
+    channel.listeners.add(listener);
+    return () => {
+      channel.listeners.delete(listener);
+      if (channel.listeners.size === 0 && !channel.expiry && (channel.events.length === 0 || isRunEnd(channel.events[channel.events.length - 1]))) {
+        scheduleExpiry(conversationId, channel);
+      }
+    };
+  }
+
+  /**
+   * Forget the events and listeners of a conversation
+   */
+  static clear(conversationId: string): void {
+    const channel = getChannels().get(conversationId);
+    if (channel?.expiry) {
+      clearTimeout(channel.expiry);
+    }
+    getChannels().delete(conversationId);
+  }
+
+  /**
+   * Assistant messages streamed so far that have not been taken by `takeDraft`
+   */
+  static getDrafts(conversationId: string): ExecutionMessageDraft[] {
+    return Array.from(getChannels().get(conversationId)?.drafts.values() ?? []);
+  }
+
+  /**
+   * The draft of a message, if its text is streaming in
+   */
+  static getDraft(conversationId: string | undefined, messageId: string): ExecutionMessageDraft | undefined {
+    return conversationId ? getChannels().get(conversationId)?.drafts.get(messageId) : undefined;
+  }
+
+  /**
+   * Remove the draft of a message, once it is part of the conversation or its model call failed.
+   * Returns the text streamed for it, if any.
+   */
+  static takeDraft(conversationId: string | undefined, messageId: string): ExecutionMessageDraft | undefined {
+    if (!conversationId) {
+      return undefined;
+    }
+    const drafts = getChannels().get(conversationId)?.drafts;
+    const draft = drafts?.get(messageId);
+    drafts?.delete(messageId);
+    return draft;
+  }
+
+  /**
+   * Sequence number of the last event emitted for a conversation, 0 if none
+   */
+  static getLastSeq(conversationId: string): number {
+    return getChannels().get(conversationId)?.seq ?? 0;
+  }
+}
@@ -1,7 +1,7 @@
 // Local implementation of PocketFlow for debugging
 import { Flow, BaseNode } from './temp_pocket';
 import { Flow as ReactFlow, FlowNode } from '@/frontend/types/flow/flow';
-import { StartNode, ProcessNode, MCPNode, FinishNode } from './nodes';
+import { StartNode, ProcessNode, MCPNode, FinishNode, ConditionNode, SubflowNode, ParallelNode, JoinNode, HumanInputNode, CodeNode } from './nodes';
 import { createLogger } from '@/utils/logger';
 import { 
   NodeParams, 
@@ -13,7 +13,13 @@ import {
   StartNodeProperties,
   ProcessNodeProperties,
   MCPNodeProperties,
-  FinishNodeProperties
+  FinishNodeProperties,
+  ConditionNodeProperties,
+  SubflowNodeProperties,
+  ParallelNodeProperties,
+  JoinNodeProperties,
+  HumanInputNodeProperties,
+  CodeNodeProperties
 } from './types';
 
 // Create a logger instance for this file
@@ -218,6 +224,60 @@ export class FlowConverter {
           properties: node.data.properties as FinishNodeProperties || { name: node.data.label }
         };
         break;
+      case 'condition':
+        pocketNode = new ConditionNode();
+        nodeParams = {
+          id: node.id,
+          label: node.data.label,
+          type: 'condition',
+          properties: node.data.properties as ConditionNodeProperties || { name: node.data.label }
+        };
+        break;
+      case 'subflow':
+        pocketNode = new SubflowNode();
+        nodeParams = {
+          id: node.id,
+          label: node.data.label,
+          type: 'subflow',
+          properties: node.data.properties as SubflowNodeProperties || { name: node.data.label }
+        };
+        break;
+      case 'parallel':
+        pocketNode = new ParallelNode();
+        nodeParams = {
+          id: node.id,
+          label: node.data.label,
+          type: 'parallel',
+          properties: node.data.properties as ParallelNodeProperties || { name: node.data.label }
+        };
+        break;
+      case 'join':
+        pocketNode = new JoinNode();
+        nodeParams = {
+          id: node.id,
+          label: node.data.label,
+          type: 'join',
+          properties: node.data.properties as JoinNodeProperties || { name: node.data.label }
+        };
+        break;
+      case 'human_input':
+        pocketNode = new HumanInputNode();
+        nodeParams = {
+          id: node.id,
+          label: node.data.label,
+          type: 'human_input',
+          properties: node.data.properties as HumanInputNodeProperties || { name: node.data.label }
+        };
+        break;
+      case 'code':
+        pocketNode = new CodeNode();
+        nodeParams = {
+          id: node.id,
+          label: node.data.label,
+          type: 'code',
+          properties: node.data.properties as CodeNodeProperties || { name: node.data.label }
+        };
+        break;
       default:
         log.error(`Unknown node type: ${node.type}`, { nodeId: node.id });
         throw new Error(`Unknown node type: ${node.type}`);
@@ -1,10 +1,18 @@
 // Remove duplicate import line
-import { Flow as PocketFlow, BaseNode } from './temp_pocket';
-import { flowService } from '@/backend/services/flow';
+import { Flow as PocketFlow, BaseNode, RetryNode } from './temp_pocket';
+import { flowService, onFlowChange, FlowChangeEvent } from '@/backend/services/flow';
+import { Flow as ReactFlow } from '@/shared/types/flow';
 import { FlowConverter } from './FlowConverter';
 import { createLogger } from '@/utils/logger';
 import { FlowExecutionResponse, SuccessResult, ErrorResult } from '@/shared/types/flow/response';
-import { SharedState, FlowParams, STAY_ON_NODE_ACTION, TOOL_CALL_ACTION, FINAL_RESPONSE_ACTION, ERROR_ACTION, DebugStep, PrepResult, ExecResult } from './types'; // Import action constants and DebugStep, PrepResult, ExecResult
+import { SharedState, FlowParams, STAY_ON_NODE_ACTION, TOOL_CALL_ACTION, FINAL_RESPONSE_ACTION, ERROR_ACTION, GOTO_NODE_ACTION, DebugStep, PrepResult, ExecResult, LoopCounters, LoopGuardPolicy, StartNodeProperties, NodeLoopGuardProperties, NodeTimeoutProperties, NodeRetryProperties, RetryAttempt, FlowVariables, BudgetLimit, ConversationBudget } from './types'; // Import action constants and DebugStep, PrepResult, ExecResult
+import { ModelHandler } from './handlers/ModelHandler';
+import { ToolCallProcessingResult } from './types/modelHandler';
+import { UsageTracker } from './UsageTracker';
+import { ExecutionEvents } from './ExecutionEvents';
+import { ConversationStateStore } from './ConversationStateStore';
+import { Result, TimeoutError } from './errors';
+import { createTimeoutError } from './errorFactory';
 import { NodeType } from '@/shared/types/flow/flow'; // Import NodeType directly
 import { FlujoChatMessage } from '@/shared/types/chat'; // Import FlujoChatMessage
 import OpenAI from 'openai';
@@ -15,23 +23,40 @@ import { FEATURES } from '@/config/features'; // Import feature flags
 const log = createLogger('backend/execution/flow/FlowExecutor');
 
 export class FlowExecutor {
-  // Store conversation states globally - accessible for step-by-step execution
-  public static conversationStates = new Map<string, SharedState>();
+  /**
+   * Statuses of a conversation in the middle of a run. When its flow is edited, such a
+   * conversation stays pinned to the flow version it runs against until the run ends;
+   * all other conversations are moved to the new version right away.
+   */
+  private static readonly MID_RUN_STATUSES: SharedState['status'][] = ['running', 'awaiting_tool_approval', 'awaiting_human_input'];
 
   /**
    * Helper function to load React Flow and convert it to Pocket Flow.
-   * Includes basic caching for the Pocket Flow conversion.
+   * Converted flows are cached per flow version; with a version the flow is loaded from the
+   * flow's version history, so pinned conversations keep running the version they started with.
    */
   private static pocketFlowCache = new Map<string, PocketFlow>();
-  private static async loadAndConvertFlow(flowId: string): Promise<PocketFlow> {
-    if (this.pocketFlowCache.has(flowId)) {
-      log.debug(`Using cached Pocket Flow for flowId: ${flowId}`);
+  private static getCacheKey(flowId: string, version?: number): string {
+    return version === undefined ? flowId : `${flowId}@${version}`;
+  }
+  private static async loadAndConvertFlow(flowId: string, version?: number): Promise<PocketFlow> {
+    let cacheKey = this.getCacheKey(flowId, version);
+    if (this.pocketFlowCache.has(cacheKey)) {
+      log.debug(`Using cached Pocket Flow for flowId: ${flowId}`, { version });
       // Return a clone to prevent modification of the cached instance
-      return this.pocketFlowCache.get(flowId)!.clone() as PocketFlow;
+      return this.pocketFlowCache.get(cacheKey)!.clone() as PocketFlow;
     }
 
-    log.verbose(`Loading and converting flow for flowId: ${flowId}`); // Changed to verbose
-    const reactFlow = await flowService.getFlow(flowId);
+    log.verbose(`Loading and converting flow for flowId: ${flowId}`, { version }); // Changed to verbose
+    let reactFlow: ReactFlow | null = null;
+    if (version !== undefined) {
+      reactFlow = (await flowService.getVersion(flowId, version))?.flow || null;
+      if (!reactFlow) {
+        log.warn(`Version ${version} of flow ${flowId} not found in its history, using the saved flow`);
+        cacheKey = this.getCacheKey(flowId);
+      }
+    }
+    reactFlow = reactFlow || await flowService.getFlow(flowId);
     if (!reactFlow) {
       log.error(`Flow not found for flowId: ${flowId}`);
       throw new Error(`Flow not found: ${flowId}`);
@@ -44,12 +69,64 @@ export class FlowExecutor {
     });
 
     const pocketFlow = FlowConverter.convert(reactFlow);
-    this.pocketFlowCache.set(flowId, pocketFlow); // Cache the converted flow
-    log.verbose(`Flow ${flowId} converted and cached.`); // Changed to verbose
+    this.pocketFlowCache.set(cacheKey, pocketFlow); // Cache the converted flow
+    log.verbose(`Flow ${flowId} converted and cached.`, { version }); // Changed to verbose
     // Return a clone for execution
     return pocketFlow.clone() as PocketFlow;
   }
 
+  /**
+   * Whether the conversation is mid-run and must keep its flow version when the flow changes.
+   */
+  static isPinnedToFlowVersion(sharedState: SharedState): boolean {
+    return sharedState.flowVersion !== undefined && this.MID_RUN_STATUSES.includes(sharedState.status);
+  }
+
+  /**
+   * Moves a conversation to the current version of its flow when a request starts a run.
+   * Requests that resume a run waiting for tool approval or human input keep the pinned version.
+   */
+  static async syncFlowVersion(sharedState: SharedState): Promise<void> {
+    if (sharedState.flowVersion !== undefined && (sharedState.status === 'awaiting_tool_approval' || sharedState.status === 'awaiting_human_input')) {
+      log.debug(`Conversation ${sharedState.conversationId} resumes on pinned version ${sharedState.flowVersion} of flow ${sharedState.flowId}`);
+      return;
+    }
+    // Flows saved before version history existed get their current state recorded as the first version
+    const flowVersion = await flowService.getCurrentVersion(sharedState.flowId) ?? await flowService.recordInitialVersion(sharedState.flowId);
+    if (flowVersion !== sharedState.flowVersion) {
+      log.info(`Conversation ${sharedState.conversationId} runs against version ${flowVersion ?? 'none'} of flow ${sharedState.flowId}`, { previousVersion: sharedState.flowVersion });
+      sharedState.flowVersion = flowVersion;
+    }
+  }
+
+  /**
+   * Keeps converted flows and in-memory conversations consistent with a saved or deleted flow.
+   * Conversations that are mid-run stay on their version; the others move to the new version,
+   * or lose their version when the flow was deleted so their next step fails with "Flow not found".
+   */
+  static handleFlowChange(event: FlowChangeEvent): void {
+    const pinnedKeys = new Set<string>();
+    let moved = 0;
+    ConversationStateStore.forEachCached(state => {
+      if (state.flowId !== event.flowId) return;
+      if (this.isPinnedToFlowVersion(state)) {
+        pinnedKeys.add(this.getCacheKey(state.flowId, state.flowVersion));
+        return;
+      }
+      state.flowVersion = event.type === 'saved' ? event.version : undefined;
+      moved++;
+    });
+
+    let dropped = 0;
+    for (const key of Array.from(this.pocketFlowCache.keys())) {
+      if ((key === event.flowId || key.startsWith(`${event.flowId}@`)) && !pinnedKeys.has(key)) {
+        this.pocketFlowCache.delete(key);
+        dropped++;
+      }
+    }
+    log.info(`Flow ${event.flowId} ${event.type}: dropped ${dropped} converted flow(s), moved ${moved} conversation(s), ${pinnedKeys.size} version(s) pinned by running conversations`);
+  }
+
   /**
    * Helper function to find a node within a Pocket Flow by its ID using BFS.
    * Expects a valid string nodeId as it's checked before calling.
@@ -96,9 +173,300 @@ export class FlowExecutor {
     return undefined;
   }
 
+  /**
+   * Helper function to find the first node of the given type (BFS from the start node).
+   */
+  private static async findNodeByType(flow: PocketFlow, type: NodeType): Promise<BaseNode | undefined> {
+    const queue: BaseNode[] = [await flow.getStartNode()];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      const nodeId = node.node_params?.id;
+      if (!nodeId || visited.has(nodeId)) continue;
+      visited.add(nodeId);
+
+      if (node.node_params?.type === type) {
+        return node;
+      }
+      queue.push(...Array.from(node.successors.values()));
+    }
+    return undefined;
+  }
+
+  /**
+   * Counts the step and node visit and checks them against the flow step budget (start node)
+   * and the node's visit limit. Returns the action to take instead of running the node when a
+   * limit is exceeded, otherwise undefined.
+   */
+  private static async applyLoopGuards(flow: PocketFlow, node: BaseNode, nodeId: string, sharedState: SharedState): Promise<string | undefined> {
+    if (!sharedState.loopCounters || sharedState.loopCounters.runEnded) {
+      sharedState.loopCounters = { steps: 0, nodeVisits: {} };
+    }
+    const counters: LoopCounters = sharedState.loopCounters;
+
+    counters.steps++;
+    const isNewVisit = counters.activeNodeId !== nodeId;
+    if (isNewVisit) {
+      counters.nodeVisits[nodeId] = (counters.nodeVisits[nodeId] || 0) + 1;
+    }
+
+    // A forced finish must always be able to complete
+    if (node.node_params?.type === 'finish') {
+      return undefined;
+    }
+
+    const startProperties = (await flow.getStartNode()).node_params?.properties as StartNodeProperties | undefined;
+    if (startProperties?.maxSteps && counters.steps > startProperties.maxSteps) {
+      log.warn(`Loop guard: step budget (${startProperties.maxSteps}) exceeded in conversation ${sharedState.conversationId}`);
+      return this.handleLoopGuardExceeded(flow, node, nodeId, sharedState, 'maxSteps', startProperties.maxSteps, startProperties.onMaxStepsExceeded || 'error');
+    }
+
+    const nodeProperties = node.node_params?.properties as NodeLoopGuardProperties | undefined;
+    if (isNewVisit && nodeProperties?.maxVisits && counters.nodeVisits[nodeId] > nodeProperties.maxVisits) {
+      log.warn(`Loop guard: node ${nodeId} entered more than ${nodeProperties.maxVisits} times in conversation ${sharedState.conversationId}`);
+      return this.handleLoopGuardExceeded(flow, node, nodeId, sharedState, 'maxVisits', nodeProperties.maxVisits, nodeProperties.onMaxVisitsExceeded || 'error', nodeProperties.fallbackEdgeId);
+    }
+
+    return undefined;
+  }
+
+  private static async handleLoopGuardExceeded(
+    flow: PocketFlow,
+    node: BaseNode,
+    nodeId: string,
+    sharedState: SharedState,
+    kind: 'maxVisits' | 'maxSteps',
+    limit: number,
+    policy: LoopGuardPolicy,
+    fallbackEdgeId?: string
+  ): Promise<string> {
+    const counters = sharedState.loopCounters!;
+    counters.exceeded = { kind, nodeId, limit, policy, timestamp: Date.now() };
+    counters.activeNodeId = undefined;
+
+    const reason = kind === 'maxSteps'
+      ? `Maximum flow steps (${limit}) exceeded`
+      : `Node ${node.node_params?.label || nodeId} visited more than ${limit} times`;
+
+    if (policy === 'fallback') {
+      const fallbackNodeId = fallbackEdgeId ? node.successors.get(fallbackEdgeId)?.node_params?.id : undefined;
+      if (fallbackNodeId) {
+        log.info(`Loop guard: routing ${nodeId} to fallback node ${fallbackNodeId}`);
+        sharedState.currentNodeId = fallbackNodeId;
+        return GOTO_NODE_ACTION;
+      }
+      log.warn(`Loop guard: fallback edge ${fallbackEdgeId} not found on node ${nodeId}, failing instead`);
+    }
+
+    if (policy === 'finish') {
+      const finishNode = await this.findNodeByType(flow, 'finish');
+      const finishNodeId = finishNode?.node_params?.id;
+      if (finishNodeId) {
+        log.info(`Loop guard: forcing finish node ${finishNodeId}`);
+        sharedState.currentNodeId = finishNodeId;
+        return GOTO_NODE_ACTION;
+      }
+      log.info('Loop guard: flow has no finish node, ending the run');
+      counters.runEnded = true;
+      return FINAL_RESPONSE_ACTION;
+    }
+
+    sharedState.lastResponse = { success: false, error: `Loop guard: ${reason}.` };
+    counters.runEnded = true;
+    return ERROR_ACTION;
+  }
+
+  /**
+   * Checks the conversation's usage against its budget (start node and API caller). When a limit
+   * is used up the run stops gracefully: an assistant message explains why and the flow goes to
+   * its finish node. Returns the action to take instead of running the node, otherwise undefined.
+   */
+  private static async applyBudget(flow: PocketFlow, node: BaseNode, nodeId: string, sharedState: SharedState): Promise<string | undefined> {
+    // The finish node a stopped run is routed to must be able to complete
+    if (node.node_params?.type === 'finish') {
+      return undefined;
+    }
+
+    const budget = await this.resolveBudget(flow, sharedState);
+    const exceeded = UsageTracker.findExceededLimit(sharedState, budget);
+    if (!exceeded) {
+      return undefined;
+    }
+
+    log.warn(`Budget: ${exceeded.limit} (${exceeded.value}) reached in conversation ${sharedState.conversationId}, used ${exceeded.used}`);
+    sharedState.budgetExceeded = { ...exceeded, nodeId, timestamp: Date.now() };
+    sharedState.status = 'budget_exceeded';
+    if (sharedState.loopCounters) {
+      sharedState.loopCounters.activeNodeId = undefined;
+    }
+
+    const content = `This conversation was stopped because it reached its budget of ${this.describeBudgetLimit(exceeded.limit, exceeded.value)} (used: ${this.describeBudgetLimit(exceeded.limit, exceeded.used)}).`;
+    sharedState.messages.push({ id: crypto.randomUUID(), role: 'assistant', content, timestamp: Date.now() });
+
+    const finishNodeId = (await this.findNodeByType(flow, 'finish'))?.node_params?.id;
+    if (finishNodeId) {
+      log.info(`Budget: routing to finish node ${finishNodeId}`);
+      sharedState.currentNodeId = finishNodeId;
+      return GOTO_NODE_ACTION;
+    }
+    log.info('Budget: flow has no finish node, ending the run');
+    sharedState.lastResponse = content;
+    if (sharedState.loopCounters) {
+      sharedState.loopCounters.runEnded = true;
+    }
+    return FINAL_RESPONSE_ACTION;
+  }
+
+  /**
+   * The budget the conversation runs under: its flow's start node budget combined with the one it
+   * was given (by the API caller, or by the parent of a nested run)
+   */
+  static async getBudget(sharedState: SharedState): Promise<ConversationBudget> {
+    return this.resolveBudget(await this.loadAndConvertFlow(sharedState.flowId, sharedState.flowVersion), sharedState);
+  }
+
+  private static async resolveBudget(flow: PocketFlow, sharedState: SharedState): Promise<ConversationBudget> {
+    const startProperties = (await flow.getStartNode()).node_params?.properties as StartNodeProperties | undefined;
+    return UsageTracker.resolveBudget(startProperties?.budget, sharedState.budget);
+  }
+
+  private static describeBudgetLimit(limit: BudgetLimit, value: number): string {
+    switch (limit) {
+      case 'maxTokens': return `${value} tokens`;
+      case 'maxCost': return `$${value.toFixed(4)}`;
+      case 'maxToolCalls': return `${value} tool calls`;
+      case 'maxModelCalls': return `${value} model calls`;
+    }
+  }
+
+  /**
+   * Starts the flow deadline from the start node's flowTimeoutMs, unless the request
+   * already has one (the service clears it per request, subflows inherit the parent's).
+   */
+  private static async ensureDeadline(flow: PocketFlow, sharedState: SharedState): Promise<void> {
+    if (sharedState.deadline) {
+      return;
+    }
+    const startProperties = (await flow.getStartNode()).node_params?.properties as StartNodeProperties | undefined;
+    if (startProperties?.flowTimeoutMs) {
+      sharedState.deadline = { timeoutMs: startProperties.flowTimeoutMs, expiresAt: Date.now() + startProperties.flowTimeoutMs };
+      log.debug(`Flow deadline of ${startProperties.flowTimeoutMs} ms set for conversation ${sharedState.conversationId}`);
+    }
+  }
+
+  /**
+   * Returns the limit for the next step of a node: its execution timeout or the time left
+   * until the flow deadline, whichever is shorter. Undefined when neither applies.
+   */
+  private static resolveStepTimeout(node: BaseNode | undefined, nodeId: string, sharedState: SharedState): { limitMs: number, error: TimeoutError } | undefined {
+    const nodeTimeoutMs = (node?.node_params?.properties as NodeTimeoutProperties | undefined)?.executionTimeoutMs;
+    const deadline = sharedState.deadline;
+
+    if (deadline && (!nodeTimeoutMs || deadline.expiresAt - Date.now() < nodeTimeoutMs)) {
+      return {
+        limitMs: deadline.expiresAt - Date.now(),
+        error: createTimeoutError('flow_deadline_exceeded', `Flow deadline of ${deadline.timeoutMs} ms exceeded at node ${nodeId}.`, 'flow', deadline.timeoutMs, nodeId)
+      };
+    }
+    if (nodeTimeoutMs) {
+      return {
+        limitMs: nodeTimeoutMs,
+        error: createTimeoutError('node_timeout', `Node ${nodeId} did not finish within ${nodeTimeoutMs} ms.`, 'node', nodeTimeoutMs, nodeId)
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Runs the node against its step timeout. When the timeout fires first, the node's abort
+   * signal cancels the model and tool calls in flight and the timeout error is returned instead.
+   */
+  private static async runWithTimeout(
+    node: BaseNode,
+    nodeId: string,
+    sharedState: SharedState
+  ): Promise<{ action: string, prepResult: any, execResult: any } | { timeoutError: TimeoutError }> {
+    const stepTimeout = this.resolveStepTimeout(node, nodeId, sharedState);
+    if (!stepTimeout) {
+      return node.run(sharedState);
+    }
+    if (stepTimeout.limitMs <= 0) {
+      return { timeoutError: stepTimeout.error };
+    }
+
+    const controller = new AbortController();
+    node.abortSignal = controller.signal;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<{ timeoutError: TimeoutError }>(resolve => {
+      timer = setTimeout(() => {
+        log.warn(stepTimeout.error.message, { conversationId: sharedState.conversationId });
+        controller.abort(stepTimeout.error);
+        resolve({ timeoutError: stepTimeout.error });
+      }, stepTimeout.limitMs);
+    });
+
+    try {
+      return await Promise.race([node.run(sharedState), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Runs the tool calls of the current node, which the chat completion service and the respond
+   * route run between steps. They get an abort signal limited by the same node timeout and flow
+   * deadline as the node's steps, the node's retry policy, the conversation's recording settings,
+   * and the conversation ID the tool events are emitted for. The attempts of retried tool calls
+   * are added to the node's last step in the execution trace.
+   */
+  static async processToolCalls(sharedState: SharedState, toolCalls: OpenAI.ChatCompletionMessageToolCall[]): Promise<Result<ToolCallProcessingResult>> {
+    const nodeId = sharedState.currentNodeId;
+    const node = nodeId ? await this.findNodeById(await this.loadAndConvertFlow(sharedState.flowId, sharedState.flowVersion), nodeId) : undefined;
+    const retryPolicy = (node?.node_params?.properties as NodeRetryProperties | undefined)?.retry;
+    const stepTimeout = this.resolveStepTimeout(node, nodeId || 'unknown node', sharedState);
+    const controller = stepTimeout ? new AbortController() : undefined;
+    const timer = stepTimeout ? setTimeout(() => controller!.abort(stepTimeout.error), Math.max(0, stepTimeout.limitMs)) : undefined;
+
+    try {
+      const result = await ModelHandler.processToolCalls({
+        toolCalls,
+        signal: controller?.signal,
+        retryPolicy,
+        recording: sharedState.recording,
+        conversationId: sharedState.conversationId
+      });
+      if (result.success && result.value.toolAttempts) {
+        this.recordToolAttempts(sharedState, result.value.toolAttempts);
+      }
+      return result;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Adds the attempts of retried tool calls to the last step of the current node in the execution trace
+   */
+  private static recordToolAttempts(sharedState: SharedState, attempts: RetryAttempt[]): void {
+    const step = sharedState.executionTrace?.slice().reverse().find(s => s.nodeId === sharedState.currentNodeId);
+    if (!step) {
+      return;
+    }
+    step.attempts = [...(step.attempts || []), ...attempts];
+    log.verbose(`Recorded ${attempts.length} tool attempt(s) in step ${step.stepIndex} of conversation ${sharedState.conversationId}`);
+  }
+
+  /**
+   * Snapshot of the execution attempts of the node's last run, for the execution trace.
+   */
+  private static getAttempts(node: BaseNode | undefined): RetryAttempt[] | undefined {
+    return node instanceof RetryNode && node.attempts.length > 0 ? cloneDeep(node.attempts) : undefined;
+  }
+
   /**
    * Executes a single step of the flow based on the provided shared state.
-   * Updates the shared state in the conversationStates map.
+   * Stores the updated shared state in the ConversationStateStore.
    * Returns the updated shared state and the action determined by the executed node.
    */
   static async executeStep(sharedState: SharedState): Promise<{ sharedState: SharedState, action: string }> {
@@ -121,9 +489,11 @@ export class FlowExecutor {
     let stateBefore: Partial<SharedState> | undefined = undefined;
     let prepResult: PrepResult | undefined = undefined; // Use PrepResult union type
     let execResult: ExecResult | undefined = undefined; // Use ExecResult union type
+    // Set once the node starts running, for the node_finished event
+    let stepStartedAt: number | undefined = undefined;
 
     try {
-      pocketFlow = await this.loadAndConvertFlow(flowId);
+      pocketFlow = await this.loadAndConvertFlow(flowId, sharedState.flowVersion);
 
       // Find the current node to execute
       if (currentNodeId) {
@@ -162,7 +532,7 @@ export class FlowExecutor {
       if (!currentNode) {
         log.error(`Could not determine current node for execution in conversation ${conversationId}.`);
         sharedState.lastResponse = { success: false, error: "Execution error: Cannot find starting node." };
-        this.conversationStates.set(conversationId, sharedState); // Update state map
+        ConversationStateStore.put(conversationId, sharedState); // Update state store
         return { sharedState, action: ERROR_ACTION };
       }
 
@@ -171,7 +541,7 @@ export class FlowExecutor {
       if (typeof nodeId !== 'string' || nodeId.length === 0) {
           log.error(`Node ${currentNode.constructor.name} is missing a valid ID in its parameters.`);
           sharedState.lastResponse = { success: false, error: `Execution error: Node ${currentNode.constructor.name} is missing an ID.` };
-          this.conversationStates.set(conversationId, sharedState);
+          ConversationStateStore.put(conversationId, sharedState);
           return { sharedState, action: ERROR_ACTION };
       }
       log.info(`Executing step for node ${nodeId} (${currentNode.constructor.name}) in conversation ${conversationId}`);
@@ -184,6 +554,49 @@ export class FlowExecutor {
         sharedState.executionTrace = [];
       }
 
+      // --- Enforce loop guards before running the node ---
+      // Only the fields the guards change are snapshotted; the full state is cloned when one fires
+      const guardFieldsBefore = cloneDeep({
+        loopCounters: sharedState.loopCounters,
+        currentNodeId: sharedState.currentNodeId,
+        status: sharedState.status,
+        budgetExceeded: sharedState.budgetExceeded,
+        lastResponse: sharedState.lastResponse
+      });
+      const messageCountBeforeGuards = sharedState.messages.length;
+      const loopGuardAction = await this.applyLoopGuards(pocketFlow, currentNode, nodeId, sharedState);
+      // --- Stop the run when the conversation used up its budget ---
+      const budgetAction = loopGuardAction ? undefined : await this.applyBudget(pocketFlow, currentNode, nodeId, sharedState);
+      const guardAction = loopGuardAction || budgetAction;
+      if (guardAction) {
+        if (FEATURES.ENABLE_EXECUTION_TRACKER && sharedState.executionTrace) {
+          const stateAfter: Partial<SharedState> = cloneDeep({ ...sharedState, executionTrace: undefined });
+          delete stateAfter.executionTrace;
+          const guardStateBefore: Partial<SharedState> = {
+            ...stateAfter,
+            ...guardFieldsBefore,
+            messages: stateAfter.messages?.slice(0, messageCountBeforeGuards)
+          };
+          sharedState.executionTrace.push({
+            stepIndex: sharedState.executionTrace.length,
+            nodeId,
+            nodeType: currentNode.node_params?.type || 'unknown',
+            nodeName: `${currentNode.node_params?.label || 'Unknown Node'} (${budgetAction ? 'budget' : 'loop guard'})`,
+            timestamp: new Date().toISOString(),
+            actionTaken: guardAction,
+            stateBefore: guardStateBefore,
+            stateAfter,
+            prepResultSnapshot: null,
+            execResultSnapshot: { success: false, error: budgetAction ? sharedState.budgetExceeded : sharedState.loopCounters?.exceeded } as ExecResult,
+          });
+        }
+        ConversationStateStore.put(conversationId, sharedState);
+        return { sharedState, action: guardAction };
+      }
+
+      // --- Start the flow deadline on the first step of the request ---
+      await this.ensureDeadline(pocketFlow, sharedState);
+
       // --- Capture state BEFORE execution ---
       stateBefore = cloneDeep(sharedState); // Assign to the outer variable
       // Remove potentially large/circular objects from snapshot if needed
@@ -194,20 +607,38 @@ export class FlowExecutor {
       // --- Log before executing the node ---
       log.debug(`[FlowExecutor] Calling run() on node ${nodeId} (${nodeType}) for conv ${conversationId}`);
 
+      stepStartedAt = Date.now();
+      const messageCountBefore = sharedState.messages.length;
+      ExecutionEvents.emit(conversationId, { type: 'node_started', nodeId, nodeType: currentNode.node_params?.type || 'unknown', label: currentNode.node_params?.label });
+
       // --- Execute the node's run method (expecting object return) ---
       // NOTE: This requires BaseNode.run in temp_pocket.ts to be updated
       // Assign results to outer variables
-      const runResult = await currentNode.run(sharedState);
+      const runResult = await this.runWithTimeout(currentNode, nodeId, sharedState);
+      if ('timeoutError' in runResult) {
+        this.emitNodeFinished(conversationId, currentNode, nodeId, ERROR_ACTION, stepStartedAt, runResult.timeoutError.message);
+        return this.handleStepTimeout(currentNode, nodeId, sharedState, stateBefore, runResult.timeoutError);
+      }
       const action = runResult.action;
       prepResult = runResult.prepResult;
       execResult = runResult.execResult;
       // --- Node execution finished ---
+      this.emitNewAssistantMessages(sharedState, messageCountBefore, nodeId);
+      this.emitNodeFinished(conversationId, currentNode, nodeId, action, stepStartedAt);
 
       // --- Log the action returned by the node ---
       log.debug(`[FlowExecutor] Node ${nodeId} (${nodeType}) returned action: "${action}" for conv ${conversationId}`);
 
       log.debug(`Node ${nodeId} finished with action: ${action} for conversation ${conversationId}`); // Changed to debug
 
+      // --- Update loop counters: tool call rounds continue the visit, terminal actions end the run ---
+      if (sharedState.loopCounters) {
+        sharedState.loopCounters.activeNodeId = action === TOOL_CALL_ACTION ? nodeId : undefined;
+        if (action === FINAL_RESPONSE_ACTION || action === STAY_ON_NODE_ACTION || action === ERROR_ACTION) {
+          sharedState.loopCounters.runEnded = true;
+        }
+      }
+
       // --- Capture state AFTER execution ---
       const stateAfter = cloneDeep(sharedState);
       delete stateAfter.executionTrace; // Avoid recursive trace in snapshot
@@ -215,6 +646,8 @@ export class FlowExecutor {
       // --- Create and append DebugStep (only if debug mode is enabled) ---
       if (FEATURES.ENABLE_EXECUTION_TRACKER && sharedState.executionTrace) {
         const stepIndex = sharedState.executionTrace.length;
+        // Subflow nodes carry the trace of the nested flow; lift it out of the exec snapshot
+        const { childTrace, ...execSnapshot } = (execResult || {}) as ExecResult & { childTrace?: DebugStep[], childFlowId?: string };
         const debugStep: DebugStep = {
           stepIndex,
           nodeId: nodeId,
@@ -225,14 +658,17 @@ export class FlowExecutor {
           stateBefore,
           stateAfter,
           prepResultSnapshot: cloneDeep(prepResult), // Snapshot prep result
-          execResultSnapshot: cloneDeep(execResult), // Snapshot exec result
+          execResultSnapshot: cloneDeep(execSnapshot), // Snapshot exec result
+          childFlowId: childTrace ? execSnapshot.childFlowId : undefined,
+          childSteps: childTrace,
+          attempts: this.getAttempts(currentNode),
         };
         sharedState.executionTrace.push(debugStep);
         log.verbose(`Appended step ${stepIndex} to execution trace for conversation ${conversationId}`); // Changed to verbose
       }
 
       // Update state in map *after* successful execution and trace update
-      this.conversationStates.set(conversationId, sharedState);
+      ConversationStateStore.put(conversationId, sharedState);
 
       // --- Return the result ---
       log.debug(`[FlowExecutor] Returning from executeStep for node ${nodeId} with action: "${action}"`);
@@ -248,8 +684,14 @@ export class FlowExecutor {
         error: error instanceof Error ? error.message : String(error),
         errorDetails: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : { message: String(error) }
       };
+      if (currentNode && stepStartedAt !== undefined) {
+        this.emitNodeFinished(conversationId, currentNode, nodeIdentifier, ERROR_ACTION, stepStartedAt, error instanceof Error ? error.message : String(error));
+      }
       // Assign the ID of the node that was *attempted* (which is stored in the scope's currentNodeId)
       sharedState.currentNodeId = currentNodeId; // Keep track of where the error occurred
+      if (sharedState.loopCounters) {
+        sharedState.loopCounters.runEnded = true;
+      }
 
       // --- Add error step to trace (only if debug mode is enabled) ---
       if (FEATURES.ENABLE_EXECUTION_TRACKER && sharedState.executionTrace) { // Check if trace was initialized
@@ -268,18 +710,254 @@ export class FlowExecutor {
           prepResultSnapshot: prepResult ? cloneDeep(prepResult) : null,
           // Snapshot the error result, ensure execResultSnapshot is defined
           execResultSnapshot: { success: false, error: sharedState.lastResponse } as ExecResult,
+          attempts: this.getAttempts(currentNode),
         };
         sharedState.executionTrace.push(errorStep);
         log.verbose(`Appended ERROR step ${stepIndex} to execution trace for conversation ${conversationId}`); // Changed to verbose
       }
 
       // Update state map with error state (conversationId is guaranteed to be a string here)
-      this.conversationStates.set(conversationId, sharedState);
+      ConversationStateStore.put(conversationId, sharedState);
 
       return { sharedState, action: ERROR_ACTION };
     }
   }
 
+  private static emitNodeFinished(conversationId: string, node: BaseNode, nodeId: string, action: string, startedAt: number, error?: string): void {
+    ExecutionEvents.emit(conversationId, {
+      type: 'node_finished',
+      nodeId,
+      nodeType: node.node_params?.type || 'unknown',
+      action,
+      durationMs: Date.now() - startedAt,
+      error
+    });
+  }
+
+  /**
+   * Emits the text of assistant messages the step added as message_delta events. Text that was
+   * already streamed while the model answered is not sent again.
+   */
+  private static emitNewAssistantMessages(sharedState: SharedState, messageCountBefore: number, nodeId: string): void {
+    sharedState.messages.slice(messageCountBefore).forEach(message => {
+      if (message.role !== 'assistant' || typeof message.content !== 'string' || !message.id) {
+        return;
+      }
+      const streamed = ExecutionEvents.getDraft(sharedState.conversationId, message.id)?.content || '';
+      const delta = message.content.startsWith(streamed) ? message.content.slice(streamed.length) : message.content;
+      if (delta.length > 0) {
+        ExecutionEvents.emit(sharedState.conversationId, { type: 'message_delta', messageId: message.id, nodeId, delta });
+      }
+      // The message is part of the conversation now
+      ExecutionEvents.takeDraft(sharedState.conversationId, message.id);
+    });
+  }
+
+  /**
+   * Records a step that ran into its timeout as an ERROR step. The timeout error is stored
+   * in lastResponse.errorDetails so callers can tell it apart from node failures.
+   */
+  private static handleStepTimeout(
+    node: BaseNode,
+    nodeId: string,
+    sharedState: SharedState,
+    stateBefore: Partial<SharedState> | undefined,
+    timeoutError: TimeoutError
+  ): { sharedState: SharedState, action: string } {
+    const conversationId = sharedState.conversationId!;
+    sharedState.lastResponse = { success: false, error: timeoutError.message, errorDetails: { ...timeoutError } };
+    sharedState.currentNodeId = nodeId;
+    if (sharedState.loopCounters) {
+      sharedState.loopCounters.activeNodeId = undefined;
+      sharedState.loopCounters.runEnded = true;
+    }
+
+    if (FEATURES.ENABLE_EXECUTION_TRACKER && sharedState.executionTrace) {
+      const stateAfter = cloneDeep(sharedState);
+      delete stateAfter.executionTrace;
+      sharedState.executionTrace.push({
+        stepIndex: sharedState.executionTrace.length,
+        nodeId,
+        nodeType: node.node_params?.type || 'unknown',
+        nodeName: `${node.node_params?.label || 'Unknown Node'} (timeout)`,
+        timestamp: new Date().toISOString(),
+        actionTaken: ERROR_ACTION,
+        stateBefore: stateBefore || stateAfter,
+        stateAfter,
+        prepResultSnapshot: null,
+        execResultSnapshot: { success: false, error: timeoutError.message } as ExecResult,
+        attempts: this.getAttempts(node),
+      });
+    }
+
+    ConversationStateStore.put(conversationId, sharedState);
+    return { sharedState, action: ERROR_ACTION };
+  }
+
+  /**
+   * Rewinds a debug session to the state before the given trace step, so that the step runs again.
+   * Later trace steps are dropped. Loop counters come from the step before, since the snapshot is
+   * taken after the loop guards counted the step. Messages and variables can be replaced on the way.
+   * Usage is never rolled back: the spent tokens and calls keep counting toward the budget.
+   */
+  static rewindToStep(
+    sharedState: SharedState,
+    stepIndex: number,
+    edits?: { messages?: FlujoChatMessage[], variables?: FlowVariables }
+  ): SharedState {
+    const trace = sharedState.executionTrace || [];
+    const step = trace[stepIndex];
+    if (!step) {
+      throw new Error(`Step ${stepIndex} not found in the execution trace`);
+    }
+
+    const rewound: SharedState = {
+      ...cloneDeep(step.stateBefore),
+      // Identity and debug settings always come from the live conversation
+      conversationId: sharedState.conversationId,
+      flowId: sharedState.flowId,
+      title: sharedState.title,
+      createdAt: sharedState.createdAt,
+      updatedAt: Date.now(),
+      debugMode: true,
+      originalRequireApproval: sharedState.originalRequireApproval,
+      trackingInfo: {
+        ...(step.stateBefore.trackingInfo ? cloneDeep(step.stateBefore.trackingInfo) : sharedState.trackingInfo),
+        usage: cloneDeep(sharedState.trackingInfo.usage)
+      },
+      messages: cloneDeep(edits?.messages ?? step.stateBefore.messages ?? []),
+      variables: cloneDeep(edits?.variables ?? step.stateBefore.variables),
+      loopCounters: stepIndex > 0 ? cloneDeep(trace[stepIndex - 1].stateAfter.loopCounters) : undefined,
+      currentNodeId: step.nodeId,
+      executionTrace: trace.slice(0, stepIndex),
+      status: 'paused_debug',
+      isCancelled: false,
+      deadline: undefined
+    };
+
+    log.info(`Rewound conversation ${sharedState.conversationId} to step ${stepIndex} (node ${step.nodeId})`, {
+      droppedSteps: trace.length - stepIndex,
+      editedMessages: !!edits?.messages,
+      editedVariables: !!edits?.variables
+    });
+
+    if (rewound.conversationId) {
+      ConversationStateStore.put(rewound.conversationId, rewound);
+    }
+    return rewound;
+  }
+
+  /**
+   * Runs a flow unattended until it produces a final response, errors, or exceeds maxSteps.
+   * Used for nested flows (subflow nodes) and parallel branches: tool calls are processed without
+   * approval and handoffs are followed directly. With stopAtNodeId the run ends as soon as that node
+   * is reached, without executing it. The state is transient: it is never persisted and is removed
+   * from the ConversationStateStore afterwards.
+   */
+  static async runToCompletion(
+    sharedState: SharedState,
+    maxSteps: number,
+    options?: { stopAtNodeId?: string }
+  ): Promise<{ sharedState: SharedState, action: string, steps: number }> {
+    const conversationId = sharedState.conversationId!;
+    let action: string = ERROR_ACTION;
+    let steps = 0;
+    sharedState.transient = true;
+
+    try {
+      while (true) {
+        if (options?.stopAtNodeId && sharedState.currentNodeId === options.stopAtNodeId) {
+          log.debug(`runToCompletion: reached stop node ${options.stopAtNodeId} for ${conversationId}`);
+          action = FINAL_RESPONSE_ACTION;
+          break;
+        }
+        if (steps >= maxSteps) {
+          log.warn(`runToCompletion: step limit (${maxSteps}) reached for ${conversationId}`);
+          sharedState.lastResponse = { success: false, error: `Maximum steps (${maxSteps}) reached.` };
+          action = ERROR_ACTION;
+          break;
+        }
+        steps++;
+
+        const stepResult = await this.executeStep(sharedState);
+        sharedState = stepResult.sharedState;
+        action = stepResult.action;
+        log.debug(`runToCompletion: step ${steps} for ${conversationId} returned ${action}`);
+
+        if (action === ERROR_ACTION || action === FINAL_RESPONSE_ACTION || action === STAY_ON_NODE_ACTION) {
+          break;
+        }
+
+        if (action === GOTO_NODE_ACTION) {
+          continue;
+        }
+
+        if (action === TOOL_CALL_ACTION) {
+          const lastMessage = sharedState.messages[sharedState.messages.length - 1];
+          if (lastMessage?.role !== 'assistant' || !lastMessage.tool_calls) {
+            action = FINAL_RESPONSE_ACTION;
+            break;
+          }
+          const toolResult = await this.processToolCalls(sharedState, lastMessage.tool_calls);
+          if (!toolResult.success) {
+            sharedState.lastResponse = { success: false, error: 'Tool processing failed', errorDetails: toolResult.error };
+            action = ERROR_ACTION;
+            break;
+          }
+          sharedState.messages.push(...toolResult.value.toolCallMessages.map(msg => ({
+            ...msg,
+            id: crypto.randomUUID(),
+            timestamp: Date.now(),
+            processNodeId: sharedState.currentNodeId
+          })));
+          continue;
+        }
+
+        // Anything else is an edge id (handoff)
+        const pocketFlow = await this.loadAndConvertFlow(sharedState.flowId, sharedState.flowVersion);
+        const currentNode = sharedState.currentNodeId ? await this.findNodeById(pocketFlow, sharedState.currentNodeId) : undefined;
+        const nextNodeId = currentNode?.successors.get(action)?.node_params?.id;
+        if (!currentNode || !nextNodeId) {
+          sharedState.lastResponse = { success: false, error: `Cannot find target node for edge ${action}` };
+          action = ERROR_ACTION;
+          break;
+        }
+
+        // Process nodes hand off through a tool call which needs a matching tool result
+        const lastMessage = sharedState.messages[sharedState.messages.length - 1];
+        const handoffToolCall = lastMessage?.role === 'assistant'
+          ? lastMessage.tool_calls?.find(tc => tc.type === 'function' && tc.function.name.startsWith('handoff_to_'))
+          : undefined;
+        if (handoffToolCall) {
+          sharedState.messages.push({
+            id: crypto.randomUUID(),
+            role: 'tool',
+            tool_call_id: handoffToolCall.id,
+            content: JSON.stringify({ status: "Handoff processed", targetNodeId: nextNodeId }),
+            timestamp: Date.now(),
+            processNodeId: sharedState.currentNodeId
+          });
+          sharedState.messages.push({
+            id: crypto.randomUUID(),
+            role: 'user',
+            content: 'The handoff was successful. Continue',
+            timestamp: Date.now()
+          });
+        }
+
+        sharedState.currentNodeId = nextNodeId;
+        sharedState.handoffRequested = undefined;
+      }
+    } finally {
+      await ConversationStateStore.remove(conversationId, { memoryOnly: true });
+      // Nobody listens to nested runs; drop the events they emitted
+      ExecutionEvents.clear(conversationId);
+    }
+
+    sharedState.status = action === ERROR_ACTION ? 'error' : 'completed';
+    return { sharedState, action, steps };
+  }
+
   // Optional: Keep executeFlow for potential backward compatibility or specific use cases,
   // but mark it as deprecated or adapt it to use executeStep internally if needed.
   /**
@@ -301,8 +979,9 @@ export class FlowExecutor {
      let sharedState: SharedState;
      const conversationId = options?.conversationId || crypto.randomUUID();
 
-     if (options?.conversationId && this.conversationStates.has(options.conversationId)) {
-       sharedState = this.conversationStates.get(options.conversationId)!;
+     const existingState = options?.conversationId ? await ConversationStateStore.get(options.conversationId) : undefined;
+     if (existingState) {
+       sharedState = existingState;
        // Simplified state update - real implementation would need more care
        if (options?.messages) {
          // Convert OpenAI.ChatCompletionMessageParam[] to FlujoChatMessage[]
@@ -331,7 +1010,7 @@ export class FlowExecutor {
          createdAt: Date.now(),
          updatedAt: Date.now(),
        };
-       this.conversationStates.set(conversationId, sharedState);
+       ConversationStateStore.put(conversationId, sharedState);
      }
 
      try {
@@ -360,3 +1039,6 @@ export class FlowExecutor {
      }
    }
 }
+
+// Drop converted flows and move idle conversations when a flow is saved or deleted
+onFlowChange('FlowExecutor', event => FlowExecutor.handleFlowChange(event));
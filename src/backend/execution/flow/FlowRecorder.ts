@@ -0,0 +1,204 @@
+import { createHash } from 'crypto';
+import { createLogger } from '@/utils/logger';
+import { loadItem, saveItem } from '@/utils/storage/backend';
+import { StorageKey } from '@/shared/types/storage';
+import { RecordingSettings, RecordingMode, RecordingFixture, RecordedCallKind } from './types';
+import { Result } from './errors';
+import { createReplayError } from './errorFactory';
+
+const log = createLogger('backend/flow/execution/FlowRecorder');
+
+// Fixture names become file names under db/fixtures
+const FIXTURE_NAME_REGEX = /^[A-Za-z0-9_-]+$/;
+
+const getStorageKey = (fixture: string) => `fixtures/${fixture}` as StorageKey;
+
+// JSON with sorted object keys, so equal requests always produce the same hash
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Recorders belong to one conversation, so conversations using the same fixture do not share them
+const getRecorderKey = (settings: RecordingSettings) => `${settings.conversationId ?? ''}/${settings.fixture}`;
+
+/**
+ * Records the model and MCP calls of a conversation into a fixture, or serves them from one.
+ * Replay matches calls by request: the n-th identical request of the conversation gets the n-th
+ * recorded response, so parallel branches may run in any order. The replay counts are kept in
+ * the conversation's recording settings. A request without a recording fails with a replay
+ * error instead of calling out.
+ */
+export class FlowRecorder {
+  // Active recorders by conversation and fixture name, dropped when the conversation's run ends
+  private static recorders = new Map<string, FlowRecorder>();
+
+  // Saves are chained so concurrent calls do not write the fixture at the same time
+  private saving: Promise<void> = Promise.resolve();
+
+  private constructor(
+    readonly mode: RecordingMode,
+    private readonly fixture: RecordingFixture
+  ) {}
+
+  static isValidFixtureName(name: string): boolean {
+    return FIXTURE_NAME_REGEX.test(name);
+  }
+
+  /**
+   * Starts a recording session for a new conversation: record mode begins an empty fixture,
+   * replay mode loads the fixture and starts matching from its first call.
+   */
+  static async start(settings: RecordingSettings, flowId?: string): Promise<FlowRecorder> {
+    if (!this.isValidFixtureName(settings.fixture)) {
+      throw new Error(`Invalid fixture name "${settings.fixture}": use letters, digits, "_" and "-"`);
+    }
+
+    let recorder: FlowRecorder;
+    if (settings.mode === 'record') {
+      const now = Date.now();
+      recorder = new FlowRecorder('record', { name: settings.fixture, flowId, createdAt: now, updatedAt: now, calls: [] });
+      await recorder.save();
+    } else {
+      recorder = await this.load(settings);
+    }
+
+    this.recorders.set(getRecorderKey(settings), recorder);
+    log.info(`Started ${settings.mode} session for fixture ${settings.fixture}`, { flowId });
+    return recorder;
+  }
+
+  /**
+   * Returns the recorder for a conversation's settings. A later run or a server restart loads the
+   * fixture again: recording appends to it and replay continues from the conversation's counts.
+   */
+  static async get(settings?: RecordingSettings): Promise<FlowRecorder | undefined> {
+    if (!settings) {
+      return undefined;
+    }
+    const existing = this.recorders.get(getRecorderKey(settings));
+    if (existing && existing.mode === settings.mode) {
+      return existing;
+    }
+
+    const recorder = await this.load(settings);
+    this.recorders.set(getRecorderKey(settings), recorder);
+    return recorder;
+  }
+
+  /**
+   * Drops the recorders of a conversation once its run ended, after their pending saves
+   */
+  static async release(conversationId: string): Promise<void> {
+    const released = Array.from(this.recorders.entries()).filter(([key]) => key.startsWith(`${conversationId}/`));
+    for (const [key, recorder] of released) {
+      await recorder.saving;
+      if (this.recorders.get(key) === recorder) {
+        this.recorders.delete(key);
+      }
+    }
+    if (released.length > 0) {
+      log.debug(`Released ${released.length} recording session(s) of conversation ${conversationId}`);
+    }
+  }
+
+  /**
+   * Runs an external call through the conversation's recorder. Without recording settings the
+   * call runs as is. In replay mode the recorded response is returned without calling out; in
+   * record mode the response is stored unless `skipRecording` rejects it (e.g. aborted calls,
+   * whose outcome depends on timing).
+   */
+  static async intercept<T>(
+    settings: RecordingSettings | undefined,
+    kind: RecordedCallKind,
+    request: unknown,
+    call: () => Promise<T>,
+    skipRecording?: (response: T) => boolean
+  ): Promise<Result<T>> {
+    const recorder = await this.get(settings);
+    if (!settings || !recorder) {
+      return { success: true, value: await call() };
+    }
+
+    if (recorder.mode === 'replay') {
+      return recorder.replay<T>(kind, request, settings.replayed ??= {});
+    }
+
+    const response = await call();
+    if (!skipRecording?.(response)) {
+      await recorder.record(kind, request, response);
+    }
+    return { success: true, value: response };
+  }
+
+  private static async load(settings: RecordingSettings): Promise<FlowRecorder> {
+    if (!this.isValidFixtureName(settings.fixture)) {
+      throw new Error(`Invalid fixture name "${settings.fixture}": use letters, digits, "_" and "-"`);
+    }
+    const fixture = await loadItem<RecordingFixture | null>(getStorageKey(settings.fixture), null);
+    if (!fixture) {
+      if (settings.mode === 'replay') {
+        throw new Error(`Fixture not found: ${settings.fixture}`);
+      }
+      const now = Date.now();
+      return new FlowRecorder('record', { name: settings.fixture, createdAt: now, updatedAt: now, calls: [] });
+    }
+    log.debug(`Loaded fixture ${settings.fixture} with ${fixture.calls.length} recorded calls`);
+    return new FlowRecorder(settings.mode, fixture);
+  }
+
+  private static getKey(kind: RecordedCallKind, request: unknown): string {
+    return createHash('sha256').update(`${kind}:${stableStringify(request)}`).digest('hex');
+  }
+
+  private replay<T>(kind: RecordedCallKind, request: unknown, replayCounts: Record<string, number>): Result<T> {
+    const key = FlowRecorder.getKey(kind, request);
+    const occurrence = replayCounts[key] || 0;
+    const matches = this.fixture.calls.filter(call => call.key === key);
+
+    if (occurrence >= matches.length) {
+      const message = matches.length === 0
+        ? `Replay diverged: no recorded ${kind} call in fixture ${this.fixture.name} matches the request`
+        : `Replay diverged: the ${kind} request was recorded ${matches.length} time(s) in fixture ${this.fixture.name}, but made again`;
+      log.error(message, { key, request: JSON.stringify(request) });
+      return {
+        success: false,
+        error: createReplayError('replay_divergence', message, this.fixture.name, kind, { key, request })
+      };
+    }
+
+    replayCounts[key] = occurrence + 1;
+    log.debug(`Replayed ${kind} call from fixture ${this.fixture.name}`, { key, occurrence });
+    // Hand out a copy so callers cannot change the fixture
+    return { success: true, value: JSON.parse(JSON.stringify(matches[occurrence].response)) as T };
+  }
+
+  private async record(kind: RecordedCallKind, request: unknown, response: unknown): Promise<void> {
+    this.fixture.calls.push({
+      kind,
+      key: FlowRecorder.getKey(kind, request),
+      // Stored as JSON, like the responses that replay hands out
+      request: JSON.parse(JSON.stringify(request ?? null)),
+      response: JSON.parse(JSON.stringify(response ?? null)),
+      recordedAt: Date.now()
+    });
+    this.fixture.updatedAt = Date.now();
+    log.debug(`Recorded ${kind} call into fixture ${this.fixture.name}`, { calls: this.fixture.calls.length });
+    await this.save();
+  }
+
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .then(() => saveItem(getStorageKey(this.fixture.name), this.fixture))
+      .catch(error => log.error(`Failed to save fixture ${this.fixture.name}`, error));
+    return this.saving;
+  }
+}
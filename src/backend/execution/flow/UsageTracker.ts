@@ -0,0 +1,164 @@
+import { createLogger } from '@/utils/logger';
+import { Model } from '@/shared/types/model';
+import { ExecutionUsage, UsageTotals, UsageTracking } from '@/shared/types/flow';
+import { BudgetLimit, ConversationBudget, SharedState } from './types';
+import { ModelCallUsage } from './types/modelHandler';
+
+const log = createLogger('backend/flow/execution/UsageTracker');
+
+const emptyTotals = (): UsageTotals => ({
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  total_tokens: 0,
+  cost: 0,
+  calls: 0,
+  unpricedCalls: 0,
+  toolCalls: 0
+});
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.prompt_tokens += source.prompt_tokens;
+  target.completion_tokens += source.completion_tokens;
+  target.total_tokens += source.total_tokens;
+  target.cost += source.cost;
+  target.calls += source.calls;
+  target.unpricedCalls += source.unpricedCalls;
+  // Totals recorded before tool calls were counted have none
+  target.toolCalls = (target.toolCalls ?? 0) + (source.toolCalls ?? 0);
+}
+
+const callTotals = (usage: ModelCallUsage): UsageTotals => ({
+  prompt_tokens: usage.prompt_tokens,
+  completion_tokens: usage.completion_tokens,
+  total_tokens: usage.total_tokens,
+  cost: usage.cost ?? 0,
+  calls: 1,
+  unpricedCalls: usage.cost === undefined ? 1 : 0,
+  toolCalls: usage.toolCalls ?? 0
+});
+
+// The part of the totals each budget limit is checked against
+const budgetUsed: Record<BudgetLimit, (totals: UsageTotals) => number> = {
+  maxTokens: totals => totals.total_tokens,
+  maxCost: totals => totals.cost,
+  maxToolCalls: totals => totals.toolCalls ?? 0,
+  maxModelCalls: totals => totals.calls
+};
+
+function getTracking(sharedState: SharedState): UsageTracking {
+  if (!sharedState.trackingInfo.usage) {
+    sharedState.trackingInfo.usage = { total: emptyTotals(), run: emptyTotals(), byNode: {}, byModel: {} };
+  }
+  return sharedState.trackingInfo.usage;
+}
+
+/**
+ * Token and cost accounting of a conversation. Model calls report their usage here; it is
+ * added to the conversation's totals, the current run and the node and model that used it.
+ */
+export class UsageTracker {
+  /**
+   * Usage of one model call, priced with the model's pricing
+   */
+  static priceCall(modelId: string, model: Model | null | undefined, tokens: ExecutionUsage, estimated: boolean): ModelCallUsage {
+    const pricing = model?.pricing;
+    const priced = pricing?.inputPerMillion !== undefined || pricing?.outputPerMillion !== undefined;
+    return {
+      modelId,
+      prompt_tokens: tokens.prompt_tokens,
+      completion_tokens: tokens.completion_tokens,
+      total_tokens: tokens.total_tokens,
+      cost: priced
+        ? (tokens.prompt_tokens * (pricing?.inputPerMillion ?? 0) + tokens.completion_tokens * (pricing?.outputPerMillion ?? 0)) / 1_000_000
+        : undefined,
+      ...(estimated ? { estimated } : {})
+    };
+  }
+
+  /**
+   * Add the usage of model calls made by a node. Returns their totals.
+   */
+  static record(sharedState: SharedState, nodeId: string, usages: ModelCallUsage[] | undefined): UsageTotals | undefined {
+    if (!usages || usages.length === 0) {
+      return undefined;
+    }
+    const tracking = getTracking(sharedState);
+    const step = emptyTotals();
+    for (const usage of usages) {
+      const totals = callTotals(usage);
+      addTotals(step, totals);
+      addTotals(tracking.byModel[usage.modelId] ??= emptyTotals(), totals);
+    }
+    addTotals(tracking.total, step);
+    addTotals(tracking.run, step);
+    addTotals(tracking.byNode[nodeId] ??= emptyTotals(), step);
+
+    log.debug(`Recorded ${step.calls} model call(s) of node ${nodeId}`, { tokens: step.total_tokens, cost: step.cost });
+    return step;
+  }
+
+  /**
+   * Add the usage of a nested run (subflow or parallel branch) to the conversation that started it
+   */
+  static merge(sharedState: SharedState, nested: UsageTracking | undefined): void {
+    if (!nested || nested.total.calls === 0) {
+      return;
+    }
+    const tracking = getTracking(sharedState);
+    addTotals(tracking.total, nested.total);
+    addTotals(tracking.run, nested.total);
+    Object.entries(nested.byNode).forEach(([nodeId, totals]) => addTotals(tracking.byNode[nodeId] ??= emptyTotals(), totals));
+    Object.entries(nested.byModel).forEach(([modelId, totals]) => addTotals(tracking.byModel[modelId] ??= emptyTotals(), totals));
+  }
+
+  /**
+   * The budget of a conversation: the flow's limits combined with the caller's, the lower one where both set a limit
+   */
+  static resolveBudget(flowBudget: ConversationBudget | undefined, callerBudget: ConversationBudget | undefined): ConversationBudget {
+    const budget: ConversationBudget = {};
+    (Object.keys(budgetUsed) as BudgetLimit[]).forEach(limit => {
+      const values = [flowBudget?.[limit], callerBudget?.[limit]].filter((value): value is number => typeof value === 'number' && value > 0);
+      if (values.length > 0) {
+        budget[limit] = Math.min(...values);
+      }
+    });
+    return budget;
+  }
+
+  /**
+   * Usage counted toward the budget: the conversation's totals plus, for a nested run, the usage
+   * of the conversations it was started from
+   */
+  static getBudgetUsage(sharedState: SharedState): UsageTotals {
+    const total = emptyTotals();
+    addTotals(total, sharedState.trackingInfo.usage?.total ?? emptyTotals());
+    if (sharedState.budgetUsedBefore) {
+      addTotals(total, sharedState.budgetUsedBefore);
+    }
+    return total;
+  }
+
+  /**
+   * The first limit of the budget the conversation has used up, if any
+   */
+  static findExceededLimit(sharedState: SharedState, budget: ConversationBudget): { limit: BudgetLimit; value: number; used: number } | undefined {
+    const total = this.getBudgetUsage(sharedState);
+    for (const limit of Object.keys(budgetUsed) as BudgetLimit[]) {
+      const value = budget[limit];
+      const used = budgetUsed[limit](total);
+      if (value !== undefined && used >= value) {
+        return { limit, value, used };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Start counting a new run; the conversation's totals are kept
+   */
+  static startRun(sharedState: SharedState): void {
+    if (sharedState.trackingInfo.usage) {
+      sharedState.trackingInfo.usage.run = emptyTotals();
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { ContextCompactionUtility as ContextCompactionUtilityClass } from '../nodes/util/ContextCompactionUtility';
+import { FlujoChatMessage } from '@/shared/types/chat';
+import { countMessageTokens } from '@/backend/utils/TokenCounter';
+
+// Summaries the mocked summarizer writes, one per call; an empty queue fails the call
+const mockSummaries: string[] = [];
+const mockSummarizerCalls: Array<{ modelId: string; transcript: string }> = [];
+
+jest.mock('@/backend/services/model', () => ({
+  modelService: { getModel: async (id: string) => ({ id, name: 'gpt-4o', contextLength: 0 }) }
+}));
+
+jest.mock('../handlers/ModelHandler', () => ({
+  ModelHandler: {
+    callModel: async ({ modelId, messages }: { modelId: string; messages: FlujoChatMessage[] }) => {
+      mockSummarizerCalls.push({ modelId, transcript: String(messages[1].content) });
+      const summary = mockSummaries.shift();
+      return summary === undefined
+        ? { success: false, error: { message: 'Model unavailable' } }
+        : { success: true, value: { content: summary, usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 } } };
+    }
+  }
+}));
+
+let ContextCompactionUtility: typeof ContextCompactionUtilityClass;
+
+const message = (role: 'system' | 'user' | 'assistant', content: string): FlujoChatMessage =>
+  ({ id: crypto.randomUUID(), role, content, timestamp: 0 }) as FlujoChatMessage;
+const toolCallMessage = (id: string): FlujoChatMessage =>
+  ({ id: crypto.randomUUID(), role: 'assistant', content: '', timestamp: 0, tool_calls: [{ id, type: 'function', function: { name: 'search', arguments: '{}' } }] }) as FlujoChatMessage;
+const toolResult = (toolCallId: string, content: string): FlujoChatMessage =>
+  ({ id: crypto.randomUUID(), role: 'tool', tool_call_id: toolCallId, content, timestamp: 0 }) as FlujoChatMessage;
+
+const words = (count: number, word = 'lorem') => Array(count).fill(word).join(' ');
+
+// A system message and four turns of about 200 tokens each
+const conversation = (): FlujoChatMessage[] => [
+  message('system', 'You are a helpful assistant.'),
+  message('user', words(200, 'first')),
+  message('assistant', words(200, 'second')),
+  message('user', words(200, 'third')),
+  message('assistant', words(200, 'fourth'))
+];
+
+const compact = (messages: FlujoChatMessage[], settings: Parameters<typeof ContextCompactionUtility.compact>[0]['settings']) =>
+  ContextCompactionUtility.compact({ messages, modelId: 'model-1', settings, nodeId: 'process-1', nodeName: 'Process' });
+
+describe('ContextCompactionUtility.compact', () => {
+  beforeAll(async () => {
+    ({ ContextCompactionUtility } = await import('../nodes/util/ContextCompactionUtility'));
+  });
+
+  beforeEach(() => {
+    mockSummaries.length = 0;
+    mockSummarizerCalls.length = 0;
+  });
+
+  it('returns messages that fit unchanged', async () => {
+    const messages = conversation();
+
+    const result = await compact(messages, { strategy: 'drop_oldest', maxContextTokens: 10_000, reserveTokens: 0 });
+
+    expect(result).toEqual({ messages });
+  });
+
+  it('does nothing without a context length or with the none strategy', async () => {
+    const messages = conversation();
+
+    expect((await compact(messages, { strategy: 'drop_oldest' })).messages).toBe(messages);
+    expect((await compact(messages, { strategy: 'none', maxContextTokens: 100 })).messages).toBe(messages);
+  });
+
+  it('drops the oldest messages and keeps the system message', async () => {
+    const messages = conversation();
+
+    const result = await compact(messages, { strategy: 'drop_oldest', maxContextTokens: 500, reserveTokens: 0 });
+
+    expect(result.messages).toEqual([messages[0], messages[3], messages[4]]);
+    expect(result.info).toMatchObject({ strategy: 'drop_oldest', budgetTokens: 500, droppedMessages: 2 });
+    expect(result.info!.tokensAfter).toBeLessThanOrEqual(500);
+    expect(result.info!.tokensAfter).toBe(countMessageTokens(result.messages, 'gpt-4o'));
+  });
+
+  it('drops a tool call together with its results', async () => {
+    const messages = [
+      message('system', 'You are a helpful assistant.'),
+      toolCallMessage('call_1'),
+      toolResult('call_1', words(300)),
+      message('user', words(100, 'latest'))
+    ];
+
+    const result = await compact(messages, { strategy: 'drop_oldest', maxContextTokens: 200, reserveTokens: 0 });
+
+    expect(result.messages).toEqual([messages[0], messages[3]]);
+    expect(result.info?.droppedMessages).toBe(2);
+  });
+
+  it('shortens the oldest tool results first', async () => {
+    const messages = [
+      message('system', 'You are a helpful assistant.'),
+      toolCallMessage('call_1'),
+      toolResult('call_1', words(400, 'old')),
+      toolCallMessage('call_2'),
+      toolResult('call_2', words(400, 'new'))
+    ];
+
+    const result = await compact(messages, { strategy: 'truncate_tool_results', maxToolResultTokens: 50, maxContextTokens: 600, reserveTokens: 0 });
+
+    expect(result.info).toMatchObject({ truncatedToolResults: 1, droppedMessages: 0 });
+    expect(String(result.messages[2].content)).toMatch(/tokens of this tool result were left out to fit the context\]$/);
+    expect(result.messages[4]).toBe(messages[4]);
+  });
+
+  it('summarizes older messages into the system message and keeps the recent ones', async () => {
+    mockSummaries.push('The user said first, the assistant answered second.');
+    const messages = conversation();
+
+    const result = await compact(messages, { strategy: 'summarize', keepRecentMessages: 2, summarizerModel: 'cheap-model', maxContextTokens: 600, reserveTokens: 0 });
+
+    expect(mockSummarizerCalls).toHaveLength(1);
+    expect(mockSummarizerCalls[0].modelId).toBe('cheap-model');
+    expect(mockSummarizerCalls[0].transcript).toContain('user: first');
+    expect(mockSummarizerCalls[0].transcript).not.toContain('third');
+    expect(result.messages).toHaveLength(3);
+    expect(result.messages[0].content).toBe('You are a helpful assistant.\n\nSummary of the earlier conversation:\nThe user said first, the assistant answered second.');
+    expect(result.messages.slice(1)).toEqual([messages[3], messages[4]]);
+    expect(result.info).toMatchObject({ summarizedMessages: 2, summarizerModel: 'cheap-model', droppedMessages: 0 });
+    expect(result.usage).toEqual({ prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 });
+  });
+
+  it('drops the older messages when the summary cannot be written', async () => {
+    const messages = conversation();
+
+    const result = await compact(messages, { strategy: 'summarize', keepRecentMessages: 2, maxContextTokens: 500, reserveTokens: 0 });
+
+    expect(result.messages).toEqual([messages[0], messages[3], messages[4]]);
+    expect(result.info).toMatchObject({ summaryError: 'Model unavailable', summarizedMessages: 0, droppedMessages: 2 });
+  });
+});
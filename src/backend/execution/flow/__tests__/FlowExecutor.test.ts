@@ -0,0 +1,267 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import type { FlowExecutor as FlowExecutorClass } from '../FlowExecutor';
+import type { ConversationStateStore as ConversationStateStoreClass } from '../ConversationStateStore';
+import type { emitFlowChange as emitFlowChangeFn } from '@/backend/services/flow/flowEvents';
+import type { BaseNode, Flow as PocketFlow } from '../temp_pocket';
+import { ERROR_ACTION, FINAL_RESPONSE_ACTION, GOTO_NODE_ACTION, SharedState } from '../types';
+
+jest.mock('@/backend/services/model', () => ({ modelService: {} }));
+
+jest.mock('@/backend/services/mcp', () => ({ mcpService: {} }));
+
+jest.mock('@/utils/storage/backend', () => ({
+  loadItem: async (_key: string, defaultValue: unknown) => defaultValue,
+  saveItem: async () => undefined
+}));
+
+let FlowExecutor: typeof FlowExecutorClass;
+let ConversationStateStore: typeof ConversationStateStoreClass;
+let emitFlowChange: typeof emitFlowChangeFn;
+
+// Puts a conversation of the flow into the in-memory store
+const conversation = (flowId: string, conversationId: string, status: SharedState['status'], flowVersion?: number): SharedState => {
+  const state: SharedState = {
+    trackingInfo: { executionId: `exec-${conversationId}`, startTime: 0, nodeExecutionTracker: [] },
+    messages: [],
+    flowId,
+    conversationId,
+    status,
+    flowVersion,
+    title: conversationId,
+    createdAt: 0,
+    updatedAt: 0
+  };
+  ConversationStateStore.put(conversationId, state);
+  return state;
+};
+
+// Converted flows are only checked for presence, any object will do
+const cacheConvertedFlows = (...keys: string[]) => keys.forEach(key => FlowExecutor['pocketFlowCache'].set(key, {} as PocketFlow));
+const cachedKeys = (flowId: string) => Array.from(FlowExecutor['pocketFlowCache'].keys()).filter(key => key === flowId || key.startsWith(`${flowId}@`)).sort();
+
+describe('FlowExecutor.handleFlowChange', () => {
+  beforeAll(async () => {
+    ({ FlowExecutor } = await import('../FlowExecutor'));
+    ({ ConversationStateStore } = await import('../ConversationStateStore'));
+    ({ emitFlowChange } = await import('@/backend/services/flow/flowEvents'));
+  });
+
+  it('keeps conversations mid-run on their version and moves the others', () => {
+    const running = conversation('flow-a', 'conv-running', 'running', 1);
+    const approval = conversation('flow-a', 'conv-approval', 'awaiting_tool_approval', 1);
+    const input = conversation('flow-a', 'conv-input', 'awaiting_human_input', 2);
+    const completed = conversation('flow-a', 'conv-completed', 'completed', 1);
+    const other = conversation('flow-b', 'conv-other', 'completed', 1);
+
+    FlowExecutor.handleFlowChange({ type: 'saved', flowId: 'flow-a', version: 3 });
+
+    expect([running.flowVersion, approval.flowVersion, input.flowVersion]).toEqual([1, 1, 2]);
+    expect(completed.flowVersion).toBe(3);
+    expect(other.flowVersion).toBe(1);
+  });
+
+  it('drops converted flows unless a conversation mid-run is pinned to them', () => {
+    conversation('flow-c', 'conv-c-running', 'running', 2);
+    cacheConvertedFlows('flow-c', 'flow-c@1', 'flow-c@2', 'flow-d@1');
+
+    FlowExecutor.handleFlowChange({ type: 'saved', flowId: 'flow-c', version: 3 });
+
+    expect(cachedKeys('flow-c')).toEqual(['flow-c@2']);
+    expect(cachedKeys('flow-d')).toEqual(['flow-d@1']);
+  });
+
+  it('does not pin a running conversation that has no version yet', () => {
+    const running = conversation('flow-e', 'conv-e-running', 'running');
+    cacheConvertedFlows('flow-e');
+
+    FlowExecutor.handleFlowChange({ type: 'saved', flowId: 'flow-e', version: 1 });
+
+    expect(running.flowVersion).toBe(1);
+    expect(cachedKeys('flow-e')).toEqual([]);
+  });
+
+  it('clears the version of idle conversations when the flow is deleted', () => {
+    const completed = conversation('flow-f', 'conv-f-completed', 'completed', 4);
+    const running = conversation('flow-f', 'conv-f-running', 'running', 4);
+
+    FlowExecutor.handleFlowChange({ type: 'deleted', flowId: 'flow-f' });
+
+    expect(completed.flowVersion).toBeUndefined();
+    expect(running.flowVersion).toBe(4);
+  });
+
+  it('is notified of flow changes', () => {
+    const completed = conversation('flow-g', 'conv-g-completed', 'completed', 1);
+
+    emitFlowChange({ type: 'saved', flowId: 'flow-g', version: 2 });
+
+    expect(completed.flowVersion).toBe(2);
+  });
+});
+
+// Stand-in for a converted node; the loop guards only read its parameters and successors
+const guardedNode = (id: string, type: string, properties: Record<string, unknown> = {}, successors: Record<string, BaseNode> = {}) =>
+  ({ node_params: { id, type, label: id, properties }, successors: new Map(Object.entries(successors)) }) as unknown as BaseNode;
+
+const flowFrom = (start: BaseNode) => ({ getStartNode: async () => start }) as unknown as PocketFlow;
+
+describe('FlowExecutor loop guards', () => {
+  beforeAll(async () => {
+    ({ FlowExecutor } = await import('../FlowExecutor'));
+    ({ ConversationStateStore } = await import('../ConversationStateStore'));
+  });
+
+  const applyLoopGuards = (flow: PocketFlow, node: BaseNode, state: SharedState) =>
+    FlowExecutor['applyLoopGuards'](flow, node, node.node_params.id, state);
+
+  it('fails the run once the step budget is used up and starts counting again on the next run', async () => {
+    const process = guardedNode('process', 'process');
+    const flow = flowFrom(guardedNode('start', 'start', { maxSteps: 2 }, { next: process }));
+    const state = conversation('flow-guard', 'conv-steps', 'running');
+
+    expect(await applyLoopGuards(flow, process, state)).toBeUndefined();
+    expect(await applyLoopGuards(flow, process, state)).toBeUndefined();
+    expect(await applyLoopGuards(flow, process, state)).toBe(ERROR_ACTION);
+    expect(state.lastResponse).toEqual({ success: false, error: 'Loop guard: Maximum flow steps (2) exceeded.' });
+    expect(state.loopCounters).toMatchObject({ runEnded: true, exceeded: { kind: 'maxSteps', nodeId: 'process', limit: 2, policy: 'error' } });
+
+    expect(await applyLoopGuards(flow, process, state)).toBeUndefined();
+    expect(state.loopCounters).toEqual({ steps: 1, nodeVisits: { process: 1 } });
+  });
+
+  it('counts tool call rounds on the same node as one visit', async () => {
+    const process = guardedNode('process', 'process', { maxVisits: 1 });
+    const flow = flowFrom(guardedNode('start', 'start', {}, { next: process }));
+    const state = conversation('flow-guard', 'conv-rounds', 'running');
+
+    expect(await applyLoopGuards(flow, process, state)).toBeUndefined();
+    state.loopCounters!.activeNodeId = 'process';
+    expect(await applyLoopGuards(flow, process, state)).toBeUndefined();
+    expect(state.loopCounters).toMatchObject({ steps: 2, nodeVisits: { process: 1 } });
+
+    state.loopCounters!.activeNodeId = undefined;
+    expect(await applyLoopGuards(flow, process, state)).toBe(ERROR_ACTION);
+    expect(state.lastResponse).toEqual({ success: false, error: 'Loop guard: Node process visited more than 1 times.' });
+  });
+
+  it('routes a node over its visit limit to its fallback edge', async () => {
+    const done = guardedNode('done', 'process');
+    const loop = guardedNode('loop', 'condition', { maxVisits: 1, onMaxVisitsExceeded: 'fallback', fallbackEdgeId: 'edge-done' }, { 'edge-done': done });
+    const flow = flowFrom(guardedNode('start', 'start', {}, { next: loop }));
+    const state = conversation('flow-guard', 'conv-fallback', 'running');
+
+    await applyLoopGuards(flow, loop, state);
+    expect(await applyLoopGuards(flow, loop, state)).toBe(GOTO_NODE_ACTION);
+    expect(state.currentNodeId).toBe('done');
+  });
+
+  it('fails instead when the fallback edge does not exist', async () => {
+    const loop = guardedNode('loop', 'condition', { maxVisits: 1, onMaxVisitsExceeded: 'fallback', fallbackEdgeId: 'edge-deleted' });
+    const flow = flowFrom(guardedNode('start', 'start', {}, { next: loop }));
+    const state = conversation('flow-guard', 'conv-no-fallback', 'running');
+
+    await applyLoopGuards(flow, loop, state);
+    expect(await applyLoopGuards(flow, loop, state)).toBe(ERROR_ACTION);
+  });
+
+  it('forces the finish node, which is never stopped itself', async () => {
+    const finish = guardedNode('finish', 'finish');
+    const loop = guardedNode('loop', 'process', { maxVisits: 1, onMaxVisitsExceeded: 'finish' }, { done: finish });
+    const flow = flowFrom(guardedNode('start', 'start', { maxSteps: 2 }, { next: loop }));
+    const state = conversation('flow-guard', 'conv-finish', 'running');
+
+    await applyLoopGuards(flow, loop, state);
+    expect(await applyLoopGuards(flow, loop, state)).toBe(GOTO_NODE_ACTION);
+    expect(state.currentNodeId).toBe('finish');
+    expect(await applyLoopGuards(flow, finish, state)).toBeUndefined();
+  });
+
+  it('ends the run when it has to finish a flow without a finish node', async () => {
+    const process = guardedNode('process', 'process');
+    const flow = flowFrom(guardedNode('start', 'start', { maxSteps: 1, onMaxStepsExceeded: 'finish' }, { next: process }));
+    const state = conversation('flow-guard', 'conv-no-finish', 'running');
+
+    await applyLoopGuards(flow, process, state);
+    expect(await applyLoopGuards(flow, process, state)).toBe(FINAL_RESPONSE_ACTION);
+    expect(state.loopCounters?.runEnded).toBe(true);
+  });
+});
+
+// Stand-in for a converted node whose step takes `durationMs`, or until it is aborted
+const slowNode = (id: string, durationMs: number, properties: Record<string, unknown> = {}) => {
+  const node = guardedNode(id, 'process', properties);
+  node.run = (() => new Promise(resolve => {
+    const timer = setTimeout(() => resolve({ action: 'default', prepResult: {}, execResult: { success: true } }), durationMs);
+    node.abortSignal?.addEventListener('abort', () => clearTimeout(timer), { once: true });
+  })) as BaseNode['run'];
+  return node;
+};
+
+describe('FlowExecutor timeouts', () => {
+  beforeAll(async () => {
+    ({ FlowExecutor } = await import('../FlowExecutor'));
+    ({ ConversationStateStore } = await import('../ConversationStateStore'));
+  });
+
+  it('starts the flow deadline once per request from the start node', async () => {
+    const flow = flowFrom(guardedNode('start', 'start', { flowTimeoutMs: 30_000 }));
+    const state = conversation('flow-timeout', 'conv-deadline', 'running');
+
+    await FlowExecutor['ensureDeadline'](flow, state);
+    const deadline = state.deadline;
+    expect(deadline?.timeoutMs).toBe(30_000);
+    expect(deadline!.expiresAt - Date.now()).toBeGreaterThan(29_000);
+
+    await FlowExecutor['ensureDeadline'](flow, state);
+    expect(state.deadline).toBe(deadline);
+  });
+
+  it('limits a step by the node timeout or the flow deadline, whichever ends first', () => {
+    const node = slowNode('process', 0, { executionTimeoutMs: 5_000 });
+    const state = conversation('flow-timeout', 'conv-limit', 'running');
+
+    expect(FlowExecutor['resolveStepTimeout'](node, 'process', state)).toMatchObject({
+      limitMs: 5_000,
+      error: { type: 'timeout', code: 'node_timeout', scope: 'node', timeoutMs: 5_000, nodeId: 'process' }
+    });
+
+    state.deadline = { timeoutMs: 60_000, expiresAt: Date.now() + 2_000 };
+    const limit = FlowExecutor['resolveStepTimeout'](node, 'process', state);
+    expect(limit?.error).toMatchObject({ code: 'flow_deadline_exceeded', scope: 'flow', timeoutMs: 60_000 });
+    expect(limit?.limitMs).toBeLessThanOrEqual(2_000);
+
+    expect(FlowExecutor['resolveStepTimeout'](slowNode('other', 0), 'other', conversation('flow-timeout', 'conv-none', 'running'))).toBeUndefined();
+  });
+
+  it('aborts a step that runs past its timeout', async () => {
+    const node = slowNode('process', 60_000, { executionTimeoutMs: 20 });
+    const state = conversation('flow-timeout', 'conv-slow', 'running');
+
+    const result = await FlowExecutor['runWithTimeout'](node, 'process', state);
+
+    expect(result).toMatchObject({ timeoutError: { code: 'node_timeout', nodeId: 'process' } });
+    expect(node.abortSignal?.aborted).toBe(true);
+  });
+
+  it('returns the result of a step that finishes in time', async () => {
+    const node = slowNode('process', 0, { executionTimeoutMs: 5_000 });
+    const state = conversation('flow-timeout', 'conv-fast', 'running');
+
+    const result = await FlowExecutor['runWithTimeout'](node, 'process', state);
+
+    expect(result).toEqual({ action: 'default', prepResult: {}, execResult: { success: true } });
+    expect(node.abortSignal?.aborted).toBe(false);
+  });
+
+  it('does not start a step once the flow deadline has passed', async () => {
+    const node = slowNode('process', 60_000);
+    const state = conversation('flow-timeout', 'conv-expired', 'running');
+    state.deadline = { timeoutMs: 1_000, expiresAt: Date.now() - 1 };
+    const run = jest.spyOn(node, 'run');
+
+    const result = await FlowExecutor['runWithTimeout'](node, 'process', state);
+
+    expect(result).toMatchObject({ timeoutError: { code: 'flow_deadline_exceeded', scope: 'flow' } });
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { FlowRecorder as FlowRecorderClass } from '../FlowRecorder';
+import { RecordingSettings } from '../types';
+import clockFixture from './fixtures/clock-replay.json';
+
+// Fixtures live in memory instead of db/fixtures
+const mockStorage = new Map<string, unknown>();
+jest.mock('@/utils/storage/backend', () => ({
+  loadItem: async (key: string, defaultValue: unknown) =>
+    mockStorage.has(key) ? JSON.parse(JSON.stringify(mockStorage.get(key))) : defaultValue,
+  saveItem: async (key: string, value: unknown) => {
+    mockStorage.set(key, JSON.parse(JSON.stringify(value)));
+  }
+}));
+
+const modelRequest = { modelId: 'mock-model', prompt: 'Answer briefly.', messages: [{ role: 'user', content: 'What time is it?' }] };
+const toolRequest = { serverName: 'clock', toolName: 'now', args: {} };
+
+const replaySettings = (conversationId: string): RecordingSettings => ({ mode: 'replay', fixture: 'clock-replay', conversationId });
+
+// Fails the test when replay calls out instead of serving the fixture
+const liveCall = () => Promise.reject(new Error('live call during replay'));
+
+// Loaded after the storage mock is in place
+let FlowRecorder: typeof FlowRecorderClass;
+
+describe('FlowRecorder', () => {
+  beforeAll(async () => {
+    ({ FlowRecorder } = await import('../FlowRecorder'));
+  });
+
+  beforeEach(() => {
+    mockStorage.clear();
+    mockStorage.set('fixtures/clock-replay', clockFixture);
+  });
+
+  it('replays the recorded fixture without calling out', async () => {
+    const settings = replaySettings('conv-replay');
+    await FlowRecorder.start(settings);
+
+    const model = await FlowRecorder.intercept(settings, 'model', modelRequest, liveCall);
+    const first = await FlowRecorder.intercept(settings, 'tool', toolRequest, liveCall);
+    const second = await FlowRecorder.intercept(settings, 'tool', toolRequest, liveCall);
+
+    expect(model).toEqual({ success: true, value: { success: true, value: { content: 'Let me check the clock.' } } });
+    expect(first).toEqual({ success: true, value: { success: true, data: '09:00' } });
+    expect(second).toEqual({ success: true, value: { success: true, data: '09:05' } });
+    await FlowRecorder.release('conv-replay');
+  });
+
+  it('fails with a replay error when the request was not recorded', async () => {
+    const settings = replaySettings('conv-diverged');
+    await FlowRecorder.start(settings);
+
+    const result = await FlowRecorder.intercept(settings, 'tool', { ...toolRequest, args: { timezone: 'UTC' } }, liveCall);
+    const third = await FlowRecorder.intercept(settings, 'tool', toolRequest, liveCall);
+    await FlowRecorder.intercept(settings, 'tool', toolRequest, liveCall);
+    const exhausted = await FlowRecorder.intercept(settings, 'tool', toolRequest, liveCall);
+
+    expect(result.success).toBe(false);
+    expect(third.success).toBe(true);
+    expect(exhausted.success).toBe(false);
+    expect(!exhausted.success && exhausted.error.type).toBe('replay');
+    await FlowRecorder.release('conv-diverged');
+  });
+
+  it('keeps the replay position of each conversation separate', async () => {
+    const first = replaySettings('conv-a');
+    const second = replaySettings('conv-b');
+    await Promise.all([FlowRecorder.start(first), FlowRecorder.start(second)]);
+
+    const a1 = await FlowRecorder.intercept(first, 'tool', toolRequest, liveCall);
+    const b1 = await FlowRecorder.intercept(second, 'tool', toolRequest, liveCall);
+    const a2 = await FlowRecorder.intercept(first, 'tool', toolRequest, liveCall);
+    const b2 = await FlowRecorder.intercept(second, 'tool', toolRequest, liveCall);
+
+    expect([a1, a2]).toEqual([b1, b2]);
+    expect(a2).toEqual({ success: true, value: { success: true, data: '09:05' } });
+    await Promise.all([FlowRecorder.release('conv-a'), FlowRecorder.release('conv-b')]);
+  });
+
+  it('continues from the conversation state after the run released its session', async () => {
+    const settings = replaySettings('conv-resumed');
+    await FlowRecorder.start(settings);
+    await FlowRecorder.intercept(settings, 'tool', toolRequest, liveCall);
+    await FlowRecorder.release('conv-resumed');
+
+    const next = await FlowRecorder.intercept(settings, 'tool', toolRequest, liveCall);
+
+    expect(next).toEqual({ success: true, value: { success: true, data: '09:05' } });
+    await FlowRecorder.release('conv-resumed');
+  });
+
+  it('replays a recorded run with the same results', async () => {
+    let clock = 0;
+    const readClock = async () => ({ success: true, data: `tick ${++clock}` });
+    const recording: RecordingSettings = { mode: 'record', fixture: 'clock-recorded', conversationId: 'conv-record' };
+    await FlowRecorder.start(recording);
+    const recorded = [
+      await FlowRecorder.intercept(recording, 'tool', toolRequest, readClock),
+      await FlowRecorder.intercept(recording, 'tool', toolRequest, readClock)
+    ];
+    await FlowRecorder.release('conv-record');
+
+    const replayRun = async (conversationId: string) => {
+      const settings: RecordingSettings = { mode: 'replay', fixture: 'clock-recorded', conversationId };
+      await FlowRecorder.start(settings);
+      const results = [
+        await FlowRecorder.intercept(settings, 'tool', toolRequest, liveCall),
+        await FlowRecorder.intercept(settings, 'tool', toolRequest, liveCall)
+      ];
+      await FlowRecorder.release(conversationId);
+      return results;
+    };
+    const [firstReplay, secondReplay] = await Promise.all([replayRun('conv-replay-1'), replayRun('conv-replay-2')]);
+
+    expect(clock).toBe(2);
+    expect(firstReplay).toEqual(recorded);
+    expect(secondReplay).toEqual(recorded);
+  });
+});
@@ -0,0 +1,167 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import OpenAI from 'openai';
+import type { ModelHandler as ModelHandlerClass } from '../handlers/ModelHandler';
+import { MCPServiceResponse } from '@/shared/types/mcp/mcp';
+
+// Results the mocked MCP server returns, one per call
+const mockToolResults: MCPServiceResponse[] = [];
+const mockToolCalls: Array<{ serverName: string; toolName: string }> = [];
+
+jest.mock('@/backend/services/mcp', () => ({
+  mcpService: {
+    callTool: async (serverName: string, toolName: string) => {
+      mockToolCalls.push({ serverName, toolName });
+      return mockToolResults.shift() ?? { success: true, data: { content: 'ok' } };
+    }
+  }
+}));
+
+jest.mock('@/backend/services/model', () => ({ modelService: {} }));
+
+jest.mock('@/utils/storage/backend', () => ({
+  loadItem: async (_key: string, defaultValue: unknown) => defaultValue,
+  saveItem: async () => undefined
+}));
+
+const toolCall = (id: string, argumentsJson = '{}'): OpenAI.ChatCompletionMessageToolCall => ({
+  id,
+  type: 'function',
+  function: { name: '_-_-_clock_-_-_now', arguments: argumentsJson }
+});
+
+// A streamed chunk with one choice
+const chunk = (delta: OpenAI.ChatCompletionChunk.Choice.Delta, finishReason: OpenAI.ChatCompletionChunk.Choice['finish_reason'] = null): OpenAI.ChatCompletionChunk => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion.chunk',
+  created: 1700000000,
+  model: 'gpt-test',
+  choices: [{ index: 0, delta, finish_reason: finishReason }]
+});
+
+async function* streamOf(...chunks: unknown[]): AsyncIterable<OpenAI.ChatCompletionChunk> {
+  for (const streamed of chunks) {
+    yield streamed as OpenAI.ChatCompletionChunk;
+  }
+}
+
+let ModelHandler: typeof ModelHandlerClass;
+
+describe('ModelHandler.processToolCalls', () => {
+  beforeAll(async () => {
+    ({ ModelHandler } = await import('../handlers/ModelHandler'));
+  });
+
+  beforeEach(() => {
+    mockToolResults.length = 0;
+    mockToolCalls.length = 0;
+  });
+
+  it('retries failed tool calls and reports every attempt', async () => {
+    mockToolResults.push({ success: false, error: 'Connection reset' }, { success: true, data: { content: '09:00' } });
+
+    const result = await ModelHandler.processToolCalls({
+      toolCalls: [toolCall('call_1')],
+      retryPolicy: { retryToolFailures: true, maxAttempts: 3, backoffMs: 0 }
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockToolCalls).toHaveLength(2);
+    const attempts = result.success ? result.value.toolAttempts : undefined;
+    expect(attempts?.map(({ attempt, success, errorType, error, toolName, toolCallId }) => ({ attempt, success, errorType, error, toolName, toolCallId }))).toEqual([
+      { attempt: 1, success: false, errorType: 'tool', error: 'Connection reset', toolName: 'now', toolCallId: 'call_1' },
+      { attempt: 2, success: true, errorType: undefined, error: undefined, toolName: 'now', toolCallId: 'call_1' }
+    ]);
+  });
+
+  it('does not retry or report attempts without retryToolFailures', async () => {
+    mockToolResults.push({ success: false, error: 'Connection reset' });
+
+    const result = await ModelHandler.processToolCalls({ toolCalls: [toolCall('call_1')], retryPolicy: { maxAttempts: 3 } });
+
+    expect(mockToolCalls).toHaveLength(1);
+    expect(result.success && result.value.toolAttempts).toBeUndefined();
+  });
+
+  it('stops waiting for the next attempt when the signal aborts', async () => {
+    mockToolResults.push({ success: false, error: 'Connection reset' });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const startedAt = Date.now();
+    const result = await ModelHandler.processToolCalls({
+      toolCalls: [toolCall('call_1')],
+      signal: controller.signal,
+      retryPolicy: { retryToolFailures: true, maxAttempts: 3, backoffMs: 60_000 }
+    });
+
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+    expect(mockToolCalls).toHaveLength(1);
+    expect(result.success && result.value.toolCallMessages[0].content).toBe('Error: Connection reset');
+  });
+});
+
+describe('ModelHandler.assembleStream', () => {
+  beforeAll(async () => {
+    ({ ModelHandler } = await import('../handlers/ModelHandler'));
+  });
+
+  it('passes text on as it arrives and collects it with the usage', async () => {
+    const deltas: string[] = [];
+    const usage = { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 };
+
+    const { completion, error } = await ModelHandler['assembleStream'](streamOf(
+      chunk({ role: 'assistant', content: '' }),
+      chunk({ content: 'Good ' }),
+      chunk({ content: 'morning' }, 'stop'),
+      { ...chunk({}), choices: [], usage }
+    ), 'call_0', delta => deltas.push(delta));
+
+    expect(error).toBeUndefined();
+    expect(deltas).toEqual(['Good ', 'morning']);
+    expect(completion).toMatchObject({ id: 'chatcmpl-1', model: 'gpt-test', created: 1700000000, usage });
+    expect(completion?.choices[0]).toMatchObject({ message: { role: 'assistant', content: 'Good morning' }, finish_reason: 'stop' });
+    expect(completion?.choices[0].message.tool_calls).toBeUndefined();
+  });
+
+  it('puts tool calls together from their fragments by index', async () => {
+    const { completion } = await ModelHandler['assembleStream'](streamOf(
+      chunk({ tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'search', arguments: '{"q":' } }] }),
+      chunk({ tool_calls: [{ index: 1, id: 'call_b', type: 'function', function: { name: 'now', arguments: '' } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: '"flujo"}' } }, { index: 1, function: { arguments: '{}' } }] }),
+      chunk({}, 'tool_calls')
+    ), 'call_0');
+
+    expect(completion?.choices[0].finish_reason).toBe('tool_calls');
+    expect(completion?.choices[0].message.tool_calls).toEqual([
+      { id: 'call_a', type: 'function', function: { name: 'search', arguments: '{"q":"flujo"}' } },
+      { id: 'call_b', type: 'function', function: { name: 'now', arguments: '{}' } }
+    ]);
+  });
+
+  it('derives missing tool call IDs from the prefix and finishes with tool_calls', async () => {
+    const { completion } = await ModelHandler['assembleStream'](streamOf(
+      chunk({ tool_calls: [{ index: 0, function: { name: 'now', arguments: '{}' } }] }),
+      chunk({ tool_calls: [{ index: 1, function: { name: 'search', arguments: '{}' } }] })
+    ), 'call_4');
+
+    expect(completion?.choices[0].finish_reason).toBe('tool_calls');
+    expect(completion?.choices[0].message.tool_calls?.map(toolCall => toolCall.id)).toEqual(['call_4_0', 'call_4_1']);
+  });
+
+  it('returns the error a provider sends within the stream', async () => {
+    const providerError = { message: 'Overloaded', code: 'overloaded' };
+
+    const result = await ModelHandler['assembleStream'](streamOf(
+      chunk({ content: 'Partial' }),
+      { ...chunk({}), error: providerError }
+    ), 'call_0');
+
+    expect(result).toEqual({ error: providerError });
+  });
+
+  it('returns no choices when the stream had none', async () => {
+    const { completion } = await ModelHandler['assembleStream'](streamOf({ ...chunk({}), choices: [] }), 'call_0');
+
+    expect(completion?.choices).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { ProcessNode as ProcessNodeClass } from '../nodes/ProcessNode';
+import type { FlowExecutor as FlowExecutorClass } from '../FlowExecutor';
+import type { ExecutionEvents as ExecutionEventsClass } from '../ExecutionEvents';
+import type { createStreamingResponse as createStreamingResponseFn } from '@/app/v1/chat/completions/chatCompletionService';
+import { ProcessNodePrepResult, SharedState } from '../types';
+
+// Answers the mocked provider streams, one per request, in pieces of a few characters
+const mockAnswers: string[] = [];
+
+jest.mock('openai', () => {
+  class APIError extends Error {}
+  class OpenAI {
+    static APIError = APIError;
+    chat = {
+      completions: {
+        create: async () => {
+          const answer = mockAnswers.shift() ?? '';
+          return (async function* () {
+            for (let i = 0; i < answer.length; i += 4) {
+              yield { id: 'chatcmpl-1', model: 'mock', created: 0, choices: [{ index: 0, delta: { content: answer.slice(i, i + 4) }, finish_reason: null }] };
+            }
+            yield { id: 'chatcmpl-1', model: 'mock', created: 0, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] };
+          })();
+        }
+      }
+    };
+  }
+  return { __esModule: true, default: OpenAI };
+});
+
+jest.mock('@/backend/services/model', () => ({
+  modelService: {
+    getModel: async (id: string) => ({ id, name: 'mock-model', displayName: 'Mock', provider: 'openai', ApiKey: 'key' }),
+    resolveAndDecryptApiKey: async () => 'key'
+  }
+}));
+
+jest.mock('@/backend/services/mcp', () => ({ mcpService: {} }));
+
+jest.mock('@/utils/storage/backend', () => ({
+  loadItem: async (_key: string, defaultValue: unknown) => defaultValue,
+  saveItem: async () => undefined
+}));
+
+const conversationId = 'conv-schema';
+const nodeId = 'process-1';
+const invalidAnswer = '{"city":"Paris","population":"many"}';
+const validAnswer = '{"city":"Paris","population":2100000}';
+
+// A process node that extracts a city into a schema; `conversationId` lets it stream
+const schemaPrepResult = (conversationId?: string, outputMaxRetries = 1): ProcessNodePrepResult => ({
+  nodeId,
+  nodeType: 'process',
+  currentPrompt: 'Answer with the city and its population.',
+  boundModel: 'model-1',
+  messages: [{ id: 'user-1', role: 'user', content: 'Tell me about Paris', timestamp: 0 }],
+  outputSchema: {
+    type: 'object',
+    properties: { city: { type: 'string' }, population: { type: 'number' } },
+    required: ['city', 'population']
+  },
+  outputMaxRetries,
+  conversationId
+});
+
+const execute = (prepResult: ProcessNodePrepResult) =>
+  new ProcessNode().execCore(prepResult, { id: nodeId, label: 'Extract', type: 'process', properties: {} });
+
+let ProcessNode: typeof ProcessNodeClass;
+let FlowExecutor: typeof FlowExecutorClass;
+let ExecutionEvents: typeof ExecutionEventsClass;
+let createStreamingResponse: typeof createStreamingResponseFn;
+
+// Reads the chat completion stream until [DONE] and returns its content
+async function readContent(response: Response): Promise<string> {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .map(line => line.replace(/^data: /, ''))
+    .filter(data => data && data !== '[DONE]')
+    .map(data => JSON.parse(data).choices?.[0]?.delta?.content ?? '')
+    .join('');
+}
+
+describe('process node with an output schema', () => {
+  beforeAll(async () => {
+    ({ ProcessNode } = await import('../nodes/ProcessNode'));
+    ({ FlowExecutor } = await import('../FlowExecutor'));
+    ({ ExecutionEvents } = await import('../ExecutionEvents'));
+    ({ createStreamingResponse } = await import('@/app/v1/chat/completions/chatCompletionService'));
+  });
+
+  it('never streams a rejected attempt to the client', async () => {
+    mockAnswers.push(invalidAnswer, validAnswer);
+    const response = createStreamingResponse('flow-Schema', conversationId, ExecutionEvents.getLastSeq(conversationId));
+
+    const prepResult = schemaPrepResult(conversationId);
+    const execResult = await execute(prepResult);
+
+    expect(execResult.success).toBe(true);
+    expect(execResult.structuredOutputAttempts).toBe(2);
+    expect(ExecutionEvents.getDrafts(conversationId)).toEqual([]);
+
+    // The executor sends the accepted answer once the step added it to the conversation
+    const sharedState = { conversationId, messages: execResult.messages } as SharedState;
+    FlowExecutor['emitNewAssistantMessages'](sharedState, prepResult.messages.length, nodeId);
+    ExecutionEvents.emit(conversationId, { type: 'completed', status: 'completed', finishReason: 'stop' });
+
+    const content = await readContent(response);
+    expect(content).toBe(validAnswer);
+    expect(content).not.toContain('many');
+  });
+});
+
+describe('process node output schema enforcement', () => {
+  beforeAll(async () => {
+    ({ ProcessNode } = await import('../nodes/ProcessNode'));
+  });
+
+  beforeEach(() => {
+    mockAnswers.length = 0;
+  });
+
+  it('accepts a matching answer without retrying', async () => {
+    mockAnswers.push(validAnswer);
+
+    const execResult = await execute(schemaPrepResult());
+
+    expect(execResult).toMatchObject({ success: true, content: validAnswer, structuredOutputAttempts: 1 });
+    expect(execResult.structuredOutput).toEqual({ city: 'Paris', population: 2100000 });
+  });
+
+  it('keeps only the accepted answer in the conversation', async () => {
+    mockAnswers.push(invalidAnswer, 'Paris has about two million inhabitants.', validAnswer);
+
+    const execResult = await execute(schemaPrepResult(undefined, 2));
+
+    expect(execResult).toMatchObject({ success: true, structuredOutputAttempts: 3 });
+    expect(execResult.messages?.map(message => [message.role, message.content])).toEqual([
+      ['user', 'Tell me about Paris'],
+      ['assistant', validAnswer]
+    ]);
+  });
+
+  it('fails once the retries are used up and drops the rejected answers', async () => {
+    mockAnswers.push(invalidAnswer, invalidAnswer);
+
+    const execResult = await execute(schemaPrepResult(undefined, 1));
+
+    expect(execResult.success).toBe(false);
+    expect(execResult.structuredOutputAttempts).toBe(2);
+    expect(execResult.error).toMatch(/^Output did not match the schema after 2 attempt\(s\): /);
+    expect(execResult.messages).toBeUndefined();
+    expect(mockAnswers).toEqual([]);
+  });
+
+  it('does not retry when no retries are allowed', async () => {
+    mockAnswers.push('not json', validAnswer);
+
+    const execResult = await execute(schemaPrepResult(undefined, 0));
+
+    expect(execResult).toMatchObject({ success: false, structuredOutputAttempts: 1 });
+    expect(mockAnswers).toEqual([validAnswer]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from '@jest/globals';
+import { RetryNode } from '../temp_pocket';
+import { createModelError, createNodeError } from '../errorFactory';
+import { RetryPolicy } from '../types';
+
+// Answers execCore with the given outcomes in turn; an Error is thrown, anything else returned
+class ScriptedNode extends RetryNode {
+  calls = 0;
+
+  constructor(private outcomes: unknown[], maxRetries?: number) {
+    super(maxRetries);
+  }
+
+  async prep(): Promise<unknown> {
+    return {};
+  }
+
+  async execCore(): Promise<unknown> {
+    const outcome = this.outcomes[Math.min(this.calls++, this.outcomes.length - 1)];
+    if (outcome instanceof Error) throw outcome;
+    return outcome;
+  }
+
+  async post(): Promise<string> {
+    return 'default';
+  }
+
+  _clone(): RetryNode {
+    return new ScriptedNode(this.outcomes, this.maxRetries);
+  }
+}
+
+const params = (retry?: RetryPolicy) => ({ properties: retry ? { retry } : {} });
+const modelFailure = { success: false, error: 'Rate limited', errorDetails: createModelError('rate_limit', 'Rate limited', 'model-1') };
+const thrownNodeError = Object.assign(new Error('Bad template'), createNodeError('template', 'Bad template', 'node-1', 'process'));
+
+describe('RetryNode.execWrapper', () => {
+  it('retries failures of a listed error class until an attempt succeeds', async () => {
+    const node = new ScriptedNode([modelFailure, modelFailure, { success: true, content: 'Done' }]);
+
+    const result = await node.execWrapper({}, params({ maxAttempts: 3, backoffMs: 0 }));
+
+    expect(result).toEqual({ success: true, content: 'Done' });
+    expect(node.calls).toBe(3);
+    expect(node.attempts.map(({ attempt, success, errorType, error }) => ({ attempt, success, errorType, error }))).toEqual([
+      { attempt: 1, success: false, errorType: 'model', error: 'Rate limited' },
+      { attempt: 2, success: false, errorType: 'model', error: 'Rate limited' },
+      { attempt: 3, success: true, errorType: undefined, error: undefined }
+    ]);
+  });
+
+  it('returns the last failed result once maxAttempts is reached', async () => {
+    const node = new ScriptedNode([modelFailure]);
+
+    const result = await node.execWrapper({}, params({ maxAttempts: 2, backoffMs: 0 }));
+
+    expect(result).toBe(modelFailure);
+    expect(node.calls).toBe(2);
+    expect(node.attempts).toHaveLength(2);
+  });
+
+  it('passes on error classes missing from retryOn after the first attempt', async () => {
+    const node = new ScriptedNode([modelFailure]);
+
+    const result = await node.execWrapper({}, params({ maxAttempts: 3, backoffMs: 0, retryOn: ['mcp'] }));
+
+    expect(result).toBe(modelFailure);
+    expect(node.calls).toBe(1);
+  });
+
+  it('rethrows a thrown error that is not retried by default', async () => {
+    const node = new ScriptedNode([thrownNodeError]);
+
+    await expect(node.execWrapper({}, params({ maxAttempts: 3, backoffMs: 0 }))).rejects.toBe(thrownNodeError);
+    expect(node.calls).toBe(1);
+    expect(node.attempts[0]).toMatchObject({ success: false, errorType: 'node', error: 'Bad template' });
+  });
+
+  it('uses the constructor settings when the node has no retry policy', async () => {
+    const node = new ScriptedNode([modelFailure, { success: true }], 2);
+
+    await expect(node.execWrapper({}, params())).resolves.toEqual({ success: true });
+    expect(node.calls).toBe(2);
+  });
+
+  it('does not retry once the step is aborted', async () => {
+    const node = new ScriptedNode([modelFailure, { success: true }]);
+    const controller = new AbortController();
+    controller.abort();
+    node.abortSignal = controller.signal;
+
+    const result = await node.execWrapper({}, params({ maxAttempts: 3, backoffMs: 0 }));
+
+    expect(result).toBe(modelFailure);
+    expect(node.calls).toBe(1);
+  });
+
+  it('ends the backoff when the step is aborted while waiting', async () => {
+    const node = new ScriptedNode([modelFailure, { success: true }]);
+    const controller = new AbortController();
+    node.abortSignal = controller.signal;
+
+    const startedAt = Date.now();
+    const pending = node.execWrapper({}, params({ maxAttempts: 2, backoffMs: 60_000 }));
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).resolves.toBe(modelFailure);
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+    expect(node.calls).toBe(1);
+  });
+});
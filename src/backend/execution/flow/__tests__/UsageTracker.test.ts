@@ -0,0 +1,177 @@
+import { describe, expect, it } from '@jest/globals';
+import { UsageTotals } from '@/shared/types/flow';
+import { Model } from '@/shared/types/model';
+import { UsageTracker } from '../UsageTracker';
+import { SharedState } from '../types';
+
+const state = (budgetUsedBefore?: UsageTotals): SharedState => ({
+  trackingInfo: { executionId: 'exec-1', startTime: 0, nodeExecutionTracker: [] },
+  messages: [],
+  flowId: 'flow-1',
+  title: 'Budget test',
+  createdAt: 0,
+  updatedAt: 0,
+  ...(budgetUsedBefore ? { budgetUsedBefore } : {})
+});
+
+const totals = (values: Partial<UsageTotals>): UsageTotals => ({
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  total_tokens: 0,
+  cost: 0,
+  calls: 0,
+  unpricedCalls: 0,
+  toolCalls: 0,
+  ...values
+});
+
+// One priced model call of 100 tokens that requested one tool call
+const recordCall = (sharedState: SharedState, nodeId = 'node-1') => UsageTracker.record(sharedState, nodeId, [{
+  modelId: 'model-1',
+  prompt_tokens: 60,
+  completion_tokens: 40,
+  total_tokens: 100,
+  cost: 0.01,
+  toolCalls: 1
+}]);
+
+describe('UsageTracker.priceCall', () => {
+  const tokens = { prompt_tokens: 2_000, completion_tokens: 500, total_tokens: 2_500 };
+
+  it('prices input and output tokens per million', () => {
+    const model = { pricing: { inputPerMillion: 3, outputPerMillion: 15 } } as Model;
+
+    expect(UsageTracker.priceCall('model-1', model, tokens, false)).toEqual({ modelId: 'model-1', ...tokens, cost: 0.0135 });
+  });
+
+  it('leaves the cost out for models without pricing and marks estimated counts', () => {
+    expect(UsageTracker.priceCall('model-1', null, tokens, true)).toEqual({ modelId: 'model-1', ...tokens, cost: undefined, estimated: true });
+  });
+});
+
+describe('UsageTracker.record', () => {
+  it('adds model calls to the conversation, the run, the node and the model', () => {
+    const sharedState = state();
+    const step = UsageTracker.record(sharedState, 'node-1', [
+      { modelId: 'model-1', prompt_tokens: 60, completion_tokens: 40, total_tokens: 100, cost: 0.01, toolCalls: 2 },
+      { modelId: 'model-2', prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+    ]);
+
+    const expected = totals({ prompt_tokens: 70, completion_tokens: 45, total_tokens: 115, cost: 0.01, calls: 2, unpricedCalls: 1, toolCalls: 2 });
+    expect(step).toEqual(expected);
+    const usage = sharedState.trackingInfo.usage!;
+    expect(usage.total).toEqual(expected);
+    expect(usage.run).toEqual(expected);
+    expect(usage.byNode).toEqual({ 'node-1': expected });
+    expect(usage.byModel['model-2']).toEqual(totals({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15, calls: 1, unpricedCalls: 1 }));
+  });
+
+  it('records nothing without model calls', () => {
+    const sharedState = state();
+
+    expect(UsageTracker.record(sharedState, 'node-1', [])).toBeUndefined();
+    expect(sharedState.trackingInfo.usage).toBeUndefined();
+  });
+
+  it('starts a new run without losing the conversation totals', () => {
+    const sharedState = state();
+    recordCall(sharedState);
+    UsageTracker.startRun(sharedState);
+    recordCall(sharedState, 'node-2');
+
+    const usage = sharedState.trackingInfo.usage!;
+    expect(usage.total.total_tokens).toBe(200);
+    expect(usage.run.total_tokens).toBe(100);
+    expect(Object.keys(usage.byNode)).toEqual(['node-1', 'node-2']);
+  });
+});
+
+describe('UsageTracker.merge', () => {
+  it('adds the usage of a nested run per node and model', () => {
+    const parent = state();
+    recordCall(parent, 'parent-node');
+    const nested = state();
+    recordCall(nested, 'subflow-node');
+
+    UsageTracker.merge(parent, nested.trackingInfo.usage);
+
+    const usage = parent.trackingInfo.usage!;
+    expect(usage.total.calls).toBe(2);
+    expect(usage.run.calls).toBe(2);
+    expect(Object.keys(usage.byNode)).toEqual(['parent-node', 'subflow-node']);
+    expect(usage.byModel['model-1'].total_tokens).toBe(200);
+  });
+
+  it('ignores nested runs without model calls', () => {
+    const parent = state();
+    UsageTracker.merge(parent, undefined);
+
+    expect(parent.trackingInfo.usage).toBeUndefined();
+  });
+});
+
+describe('UsageTracker.resolveBudget', () => {
+  it('combines the flow and caller limits, keeping the lower one', () => {
+    expect(UsageTracker.resolveBudget({ maxTokens: 1000, maxCost: 2 }, { maxTokens: 500, maxToolCalls: 3 })).toEqual({
+      maxTokens: 500,
+      maxCost: 2,
+      maxToolCalls: 3
+    });
+  });
+
+  it('ignores missing and non-positive limits', () => {
+    expect(UsageTracker.resolveBudget(undefined, undefined)).toEqual({});
+    expect(UsageTracker.resolveBudget({ maxTokens: 0, maxCost: -1 }, { maxModelCalls: 5 })).toEqual({ maxModelCalls: 5 });
+  });
+});
+
+describe('UsageTracker.findExceededLimit', () => {
+  it('finds nothing while the usage is below every limit', () => {
+    const sharedState = state();
+    expect(UsageTracker.findExceededLimit(sharedState, { maxTokens: 100 })).toBeUndefined();
+
+    recordCall(sharedState);
+    expect(UsageTracker.findExceededLimit(sharedState, { maxTokens: 101, maxModelCalls: 2 })).toBeUndefined();
+    expect(UsageTracker.findExceededLimit(sharedState, {})).toBeUndefined();
+  });
+
+  it('reports a limit once the usage reaches it', () => {
+    const sharedState = state();
+    recordCall(sharedState);
+
+    expect(UsageTracker.findExceededLimit(sharedState, { maxTokens: 100 })).toEqual({ limit: 'maxTokens', value: 100, used: 100 });
+    expect(UsageTracker.findExceededLimit(sharedState, { maxToolCalls: 1 })).toEqual({ limit: 'maxToolCalls', value: 1, used: 1 });
+    expect(UsageTracker.findExceededLimit(sharedState, { maxModelCalls: 1 })).toEqual({ limit: 'maxModelCalls', value: 1, used: 1 });
+    expect(UsageTracker.findExceededLimit(sharedState, { maxCost: 0.01 })).toEqual({ limit: 'maxCost', value: 0.01, used: 0.01 });
+  });
+
+  it('counts the whole conversation, not only the current run', () => {
+    const sharedState = state();
+    recordCall(sharedState);
+    UsageTracker.startRun(sharedState);
+    recordCall(sharedState);
+
+    expect(sharedState.trackingInfo.usage?.run.total_tokens).toBe(100);
+    expect(UsageTracker.findExceededLimit(sharedState, { maxTokens: 200 })).toEqual({ limit: 'maxTokens', value: 200, used: 200 });
+  });
+
+  it('counts the usage of the conversations a nested run was started from', () => {
+    const nested = state(totals({ total_tokens: 150, calls: 2, toolCalls: 1 }));
+    expect(UsageTracker.findExceededLimit(nested, { maxTokens: 200 })).toBeUndefined();
+
+    recordCall(nested);
+    expect(UsageTracker.getBudgetUsage(nested)).toMatchObject({ total_tokens: 250, calls: 3, toolCalls: 2 });
+    expect(UsageTracker.findExceededLimit(nested, { maxTokens: 200 })).toEqual({ limit: 'maxTokens', value: 200, used: 250 });
+    // Only the nested run's own usage is merged back into the parent
+    expect(nested.trackingInfo.usage?.total.total_tokens).toBe(100);
+  });
+
+  it('counts merged nested usage in the parent', () => {
+    const parent = state();
+    const nested = state(UsageTracker.getBudgetUsage(parent));
+    recordCall(nested, 'subflow-node');
+    UsageTracker.merge(parent, nested.trackingInfo.usage);
+
+    expect(UsageTracker.findExceededLimit(parent, { maxModelCalls: 1 })).toEqual({ limit: 'maxModelCalls', value: 1, used: 1 });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from '@jest/globals';
+import { createModelError, createToolError, getFallbackErrorClass } from '../errorFactory';
+
+// Shaped like the errors ModelHandler returns for provider failures
+const apiError = (details: Record<string, unknown>) => createModelError('api_error', 'Provider error', 'model-1', undefined, details);
+
+describe('getFallbackErrorClass', () => {
+  it('classifies HTTP errors by status', () => {
+    expect(getFallbackErrorClass(apiError({ status: 500 }))).toBe('server_error');
+    expect(getFallbackErrorClass(apiError({ status: 503, code: null }))).toBe('server_error');
+    expect(getFallbackErrorClass(apiError({ status: 429 }))).toBe('rate_limit');
+  });
+
+  it('classifies errors in a streamed body by their numeric code', () => {
+    expect(getFallbackErrorClass(apiError({ code: 502 }))).toBe('server_error');
+    expect(getFallbackErrorClass(apiError({ code: 429 }))).toBe('rate_limit');
+  });
+
+  it('classifies rate limits and content filters by provider code', () => {
+    expect(getFallbackErrorClass(apiError({ status: 400, code: 'rate_limit_exceeded' }))).toBe('rate_limit');
+    expect(getFallbackErrorClass(apiError({ status: 400, code: 'content_policy_violation' }))).toBe('content_filter');
+    expect(getFallbackErrorClass(apiError({ code: 'content_filter' }))).toBe('content_filter');
+    expect(getFallbackErrorClass(createModelError('content_filter', 'Blocked', 'model-1'))).toBe('content_filter');
+  });
+
+  it('does not fall back on client errors, aborts or missing models', () => {
+    expect(getFallbackErrorClass(apiError({ status: 400, code: 'invalid_request_error' }))).toBeUndefined();
+    expect(getFallbackErrorClass(apiError({ status: 401 }))).toBeUndefined();
+    expect(getFallbackErrorClass(apiError({}))).toBeUndefined();
+    expect(getFallbackErrorClass(createModelError('aborted', 'Model request was aborted', 'model-1'))).toBeUndefined();
+    expect(getFallbackErrorClass(createModelError('model_not_found', 'Model not found: model-1', 'model-1'))).toBeUndefined();
+  });
+
+  it('only classifies model errors', () => {
+    expect(getFallbackErrorClass(createToolError('tool_error', 'Server error', 'search', {}, { status: 500 }))).toBeUndefined();
+  });
+});
@@ -3,8 +3,12 @@ import {
   ModelError, 
   ToolError, 
   NodeError, 
-  MCPError 
+  MCPError,
+  TimeoutError,
+  ReplayError,
+  ExecutionError
 } from './errors';
+import { ModelFallbackErrorClass } from '@/shared/types/model';
 
 export const createModelError = (
   code: string,
@@ -65,3 +69,86 @@ export const createMCPError = (
   operation,
   details
 });
+
+export const createTimeoutError = (
+  code: string,
+  message: string,
+  scope: 'node' | 'flow',
+  timeoutMs: number,
+  nodeId?: string,
+  details?: Record<string, unknown>
+): TimeoutError => ({
+  type: 'timeout',
+  code,
+  message,
+  scope,
+  timeoutMs,
+  nodeId,
+  details
+});
+
+export const isTimeoutError = (value: unknown): value is TimeoutError =>
+  typeof value === 'object' && value !== null && (value as { type?: unknown }).type === 'timeout';
+
+export const createReplayError = (
+  code: string,
+  message: string,
+  fixture: string,
+  callKind: ReplayError['callKind'],
+  details?: Record<string, unknown>
+): ReplayError => ({
+  type: 'replay',
+  code,
+  message,
+  fixture,
+  callKind,
+  details
+});
+
+const EXECUTION_ERROR_TYPES: ExecutionError['type'][] = ['model', 'tool', 'node', 'mcp', 'timeout', 'replay'];
+
+/**
+ * Error class of a thrown error or failed exec result. Typed errors keep their type, also
+ * when a node wrapped them in `details`/`errorDetails`; critical tool errors count as tool
+ * errors and anything else as a node error.
+ */
+export const getErrorType = (error: unknown): ExecutionError['type'] => {
+  if (typeof error !== 'object' || error === null) {
+    return 'node';
+  }
+  if ('isCriticalToolError' in error) {
+    return 'tool';
+  }
+  const { type, details, errorDetails } = error as { type?: unknown; details?: { type?: unknown }; errorDetails?: { type?: unknown } };
+  for (const candidate of [type, details?.type, errorDetails?.type]) {
+    if (EXECUTION_ERROR_TYPES.includes(candidate as ExecutionError['type'])) {
+      return candidate as ExecutionError['type'];
+    }
+  }
+  return 'node';
+};
+
+/**
+ * The class of a failed model call a fallback model can take over from, if any
+ */
+export const getFallbackErrorClass = (error: ExecutionError): ModelFallbackErrorClass | undefined => {
+  if (error.type !== 'model') {
+    return undefined;
+  }
+  // Errors in a streamed body carry the HTTP status as their code
+  const status = typeof error.details?.status === 'number'
+    ? error.details.status
+    : (typeof error.details?.code === 'number' ? error.details.code : undefined);
+  const code = error.details?.code ?? error.code;
+
+  if (error.code === 'content_filter' || code === 'content_filter' || code === 'content_policy_violation') {
+    return 'content_filter';
+  }
+  if (status === 429 || code === 'rate_limit_exceeded') {
+    return 'rate_limit';
+  }
+  if (status !== undefined && status >= 500) {
+    return 'server_error';
+  }
+  return undefined;
+};
@@ -33,8 +33,23 @@ export interface MCPError extends FlowError {
   operation: string;
 }
 
+// Timeout errors: a node step that ran too long, or the flow deadline passing
+export interface TimeoutError extends FlowError {
+  type: 'timeout';
+  scope: 'node' | 'flow';
+  timeoutMs: number;
+  nodeId?: string;
+}
+
+// Replay errors: a request with no matching call in the replayed fixture
+export interface ReplayError extends FlowError {
+  type: 'replay';
+  fixture: string;
+  callKind: 'model' | 'tool' | 'tool_list';
+}
+
 // Union type for all errors
-export type ExecutionError = ModelError | ToolError | NodeError | MCPError;
+export type ExecutionError = ModelError | ToolError | NodeError | MCPError | TimeoutError | ReplayError;
 
 // Result type for operations that can fail
 export type Result<T> = 
@@ -2,22 +2,46 @@ import { createLogger, LOG_LEVEL } from '@/utils/logger';
 import {
   ModelCallInput,
   ModelCallResult,
+  ModelFallbackAttempt,
   ToolCallProcessingInput,
   ToolCallProcessingResult
 } from '../types/modelHandler';
-import { ToolCallInfo } from '../types'; // Import ToolCallInfo
+import { ToolCallInfo, RetryPolicy, RetryAttempt } from '../types'; // Import ToolCallInfo
 import { FlujoChatMessage } from '@/shared/types/chat'; // Correct import path for FlujoChatMessage
-import { Result, ExecutionError } from '../errors';
-import { createModelError, createToolError } from '../errorFactory';
+import { Result } from '../errors';
+import { createModelError, createToolError, getFallbackErrorClass, isTimeoutError } from '../errorFactory';
 import OpenAI from 'openai';
 import { modelService } from '@/backend/services/model';
 import { mcpService } from '@/backend/services/mcp';
 import { v4 as uuidv4 } from 'uuid'; // Import uuid
+import { Model, ModelProvider, MODEL_FALLBACK_ERROR_CLASSES } from '@/shared/types/model';
+import { ExecutionUsage } from '@/shared/types/flow';
+import { countMessageTokens, countSingleMessageTokens, countToolTokens } from '@/backend/utils/TokenCounter';
+import { MCPServiceResponse } from '@/shared/types/mcp/mcp';
+import { FlowRecorder } from '../FlowRecorder';
+import { ExecutionEvents } from '../ExecutionEvents';
+import { UsageTracker } from '../UsageTracker';
 
 const log = createLogger('backend/flow/execution/handlers/ModelHandler'
   // , LOG_LEVEL.VERBOSE // override for the current file
 );
 
+// Providers whose OpenAI-compatible endpoint accepts a JSON Schema `response_format`
+const RESPONSE_FORMAT_PROVIDERS: ModelProvider[] = ['openai', 'openrouter', 'gemini', 'mistral', 'xai', 'ollama'];
+// Providers that accept `stream_options.include_usage`; others may still send usage unasked
+const STREAM_USAGE_PROVIDERS: ModelProvider[] = ['openai', 'openrouter', 'gemini', 'xai', 'ollama'];
+
+// Error object some providers (like OpenRouter) send within a successful response
+interface ProviderErrorBody {
+  message?: string;
+  code?: string | number;
+  type?: string;
+  param?: string;
+  metadata?: { raw?: string };
+}
+
+const isProviderErrorBody = (value: unknown): value is ProviderErrorBody => typeof value === 'object' && value !== null;
+
 export class ModelHandler {
   /**
    * Call model with tool support - performs a SINGLE API call.
@@ -25,14 +49,15 @@ export class ModelHandler {
    */
   static async callModel(input: ModelCallInput): Promise<Result<ModelCallResult>> {
     // Remove iteration parameters as they are no longer handled here
-    const { modelId, prompt, messages, tools, nodeName, nodeId } = input; // Added nodeId
+    const { modelId, prompt, messages, tools, nodeName, nodeId, responseFormat, signal, recording, conversationId, fallback } = input; // Added nodeId
 
     // Fetch model information for display name
     let modelDisplayName = '';
     let modelTechnicalName = '';
     const nodeDisplayName = nodeName;
+    let model: Model | null = null;
     try {
-      const model = await modelService.getModel(modelId);
+      model = await modelService.getModel(modelId);
       if (model) {
         modelDisplayName = model.displayName || model.name;
         modelTechnicalName = model.name;
@@ -52,17 +77,73 @@ export class ModelHandler {
     // Add verbose logging of the entire input
     log.verbose('callModel input', JSON.stringify(input));
 
-    // Call generateCompletion ONCE
-    const response = await this.generateCompletion(modelId, prompt, messages, tools);
+    // The assistant message ID is known up front, so streamed text can be attributed to it.
+    // Each model tried gets its own, so the text of a model that failed can be discarded
+    let messageId = '';
+
+    // The requested model first, then its fallbacks: the node's list, otherwise the model definition's
+    const fallbackSettings = fallback?.models.length ? fallback : model?.fallback;
+    const candidates = [modelId, ...(fallbackSettings?.models || [])].filter((id, index, ids) => !!id && ids.indexOf(id) === index);
+    const fallbackOn = fallbackSettings?.on?.length ? fallbackSettings.on : MODEL_FALLBACK_ERROR_CLASSES;
+    const fallbackAttempts: ModelFallbackAttempt[] = [];
+
+    let usedModelId = modelId;
+    let usedModel = model;
+    let response: Result<ModelCallResult> | undefined;
+    for (const [index, candidateId] of candidates.entries()) {
+      usedModelId = candidateId;
+      usedModel = index === 0 ? model : await modelService.getModel(candidateId);
+      const attemptMessageId = uuidv4();
+      messageId = attemptMessageId;
+      const onDelta = (delta: string) => ExecutionEvents.emit(conversationId, { type: 'message_delta', messageId: attemptMessageId, nodeId, delta });
+
+      // Call generateCompletion ONCE per model, served from the fixture when the conversation replays one.
+      // Message IDs, timestamps and models of earlier answers differ on every run, so they are left out of the recorded request
+      const recordedRequest = {
+        modelId: candidateId,
+        prompt,
+        messages: messages.map(({ id, timestamp, processNodeId, modelId: answeredBy, ...rest }) => rest),
+        tools,
+        responseFormat
+      };
+      const intercepted = await FlowRecorder.intercept(
+        recording,
+        'model',
+        recordedRequest,
+        () => this.generateCompletion(candidateId, prompt, messages, tools, responseFormat, signal, onDelta),
+        () => !!signal?.aborted
+      );
+      response = intercepted.success ? intercepted.value : { success: false, error: intercepted.error };
+      if (response.success) {
+        break;
+      }
+
+      // Text streamed before the failure does not become a message; listeners drop what they received of it
+      if (ExecutionEvents.getDraft(conversationId, messageId)) {
+        ExecutionEvents.emit(conversationId, { type: 'message_discarded', messageId, nodeId });
+      }
+
+      const errorClass = getFallbackErrorClass(response.error);
+      if (!errorClass || !fallbackOn.includes(errorClass) || index === candidates.length - 1 || signal?.aborted) {
+        break;
+      }
+      log.warn(`Model ${candidateId} failed with ${errorClass}, falling back to ${candidates[index + 1]}`, { error: response.error.message, nodeId });
+      fallbackAttempts.push({ modelId: candidateId, errorClass, error: response.error.message });
+    }
 
-    if (!response.success) {
+    if (!response || !response.success) {
       // Add verbose logging of the error response
       log.verbose('callModel error response', JSON.stringify(response));
 
-      // Ensure we're returning the complete error response with all details
+      if (!response) {
+        return { success: false, error: createModelError('model_not_found', 'No model to call', modelId) };
+      }
+      // Ensure we're returning the complete error response with all details, including the models that failed before
       return {
         success: false,
-        error: response.error
+        error: fallbackAttempts.length > 0
+          ? { ...response.error, details: { ...response.error.details, fallbackAttempts } }
+          : response.error
       };
     }
 
@@ -82,13 +163,14 @@ export class ModelHandler {
 
     // Create the assistant message with timestamp and ID
     const assistantMessage: FlujoChatMessage = {
-      id: uuidv4(), // Generate unique ID
+      id: messageId,
       role: 'assistant',
       content: prefixedContent,
       // IMPORTANT: Include tool_calls if they exist in the raw response
       tool_calls: modelResponse.fullResponse?.choices?.[0]?.message?.tool_calls,
       timestamp: Date.now(), // Add timestamp
-      processNodeId: nodeId // Attach the process node ID
+      processNodeId: nodeId, // Attach the process node ID
+      modelId: usedModelId
     };
     finalMessages.push(assistantMessage);
 
@@ -113,6 +195,13 @@ export class ModelHandler {
        }
     }).filter(Boolean) as ToolCallInfo[] | undefined; // Ensure type safety and filter out potential nulls if parse fails badly
 
+    // Usage as the provider reported it, counted locally for providers that do not report it
+    const reportedUsage = modelResponse.fullResponse?.usage;
+    const usage = UsageTracker.priceCall(usedModelId, usedModel, reportedUsage || this.estimateUsage(usedModel, messages, tools, assistantMessage), !reportedUsage);
+    if (toolCalls?.length) {
+      usage.toolCalls = toolCalls.length;
+    }
+
 
     // Return the result of this single step
     const result: Result<ModelCallResult> = {
@@ -121,7 +210,10 @@ export class ModelHandler {
         content: typeof assistantMessage.content === 'string' ? assistantMessage.content : content, // Use prefixed content
         messages: finalMessages, // Include the new assistant message (now FlujoChatMessage[])
         fullResponse: modelResponse.fullResponse,
-        toolCalls // Pass the structured tool calls info
+        toolCalls, // Pass the structured tool calls info
+        usage,
+        modelId: usedModelId,
+        ...(fallbackAttempts.length > 0 ? { fallbackAttempts } : {})
       }
     };
 
@@ -132,20 +224,40 @@ export class ModelHandler {
 
 
   /**
-   * Generate completion using model service - pure function
+   * Token usage of a call, counted with the model's tokenizer
+   */
+  private static estimateUsage(
+    model: Model | null,
+    messages: FlujoChatMessage[],
+    tools: OpenAI.ChatCompletionTool[] | undefined,
+    answer: FlujoChatMessage
+  ): ExecutionUsage {
+    const prompt_tokens = countMessageTokens(messages, model?.name) + countToolTokens(tools, model?.name);
+    // The answer is counted without the tokens that frame a message
+    const completion_tokens = Math.max(0, countSingleMessageTokens(answer, model?.name) - countSingleMessageTokens({ role: 'assistant', content: '' }, model?.name));
+    return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+  }
+
+  /**
+   * Generate completion using model service. The answer is streamed from the provider;
+   * `onDelta` receives its text as it arrives.
    */
   private static async generateCompletion(
     modelId: string,
     prompt: string,
     messages: FlujoChatMessage[], // Expect FlujoChatMessage
-    tools?: OpenAI.ChatCompletionTool[]
+    tools?: OpenAI.ChatCompletionTool[],
+    responseFormat?: OpenAI.ResponseFormatJSONSchema,
+    signal?: AbortSignal,
+    onDelta?: (delta: string) => void
   ): Promise<Result<ModelCallResult>> {
     // Add verbose logging of the input parameters
     log.verbose('generateCompletion input', JSON.stringify({
       modelId,
       prompt,
       messages,
-      tools
+      tools,
+      responseFormat
     }));
     try {
       // Get the model
@@ -186,14 +298,20 @@ export class ModelHandler {
 
       // Create the request parameters - OpenAI expects ChatCompletionMessageParam, not FlujoChatMessage
       // We need to strip the timestamp before sending
-      const apiMessages: OpenAI.ChatCompletionMessageParam[] = messages.map(({ timestamp, ...rest }) => rest);
+      const apiMessages: OpenAI.ChatCompletionMessageParam[] = messages.map(({ timestamp, modelId: answeredBy, ...rest }) => rest);
 
-      const requestParams: OpenAI.Chat.ChatCompletionCreateParams = {
+      const requestParams: OpenAI.Chat.ChatCompletionCreateParamsStreaming = {
         model: model.name,
         messages: apiMessages, // Send messages without timestamp
-        temperature
+        temperature,
+        stream: true
       };
 
+      // Ask for token usage in the last chunk where the provider supports it
+      if (model.provider && STREAM_USAGE_PROVIDERS.includes(model.provider)) {
+        requestParams.stream_options = { include_usage: true };
+      }
+
       // Add tools if available
       if (tools && tools.length > 0) {
         // Use the sanitizeSchema function from ToolHandler to ensure compatibility with all LLM providers
@@ -216,6 +334,16 @@ export class ModelHandler {
         requestParams.tools = sanitizedTools;
       }
 
+      // Add the output schema if the provider can enforce it; otherwise the
+      // schema instruction in the prompt and the node's validation have to do
+      if (responseFormat) {
+        if (model.provider && RESPONSE_FORMAT_PROVIDERS.includes(model.provider)) {
+          requestParams.response_format = responseFormat;
+        } else {
+          log.debug(`Provider ${model.provider || 'unknown'} does not support response_format, relying on prompt instructions`);
+        }
+      }
+
 
       log.debug(`calling chatcompletion`)
       log.verbose(`calling chatcompletion now with MODEL ${ JSON.stringify(requestParams.model)}`)
@@ -226,8 +354,9 @@ export class ModelHandler {
       // --- Log the exact request being sent ---
       log.debug('[ModelHandler.generateCompletion] Sending request to OpenAI API', { requestParams: JSON.stringify(requestParams) }); // Use debug level
 
-      // Make the API request using the OpenAI client
-      const chatCompletion = await openai.chat.completions.create(requestParams);
+      // Make the API request using the OpenAI client and assemble the streamed answer
+      const stream = await openai.chat.completions.create(requestParams, { signal });
+      const { completion: chatCompletion, error: streamError } = await this.assembleStream(stream, `call_${messages.length}`, onDelta);
 
       // --- Log the raw response received ---
       log.debug('[ModelHandler.generateCompletion] Received raw response from OpenAI API', { response: JSON.stringify(chatCompletion) }); // Use debug level
@@ -235,12 +364,12 @@ export class ModelHandler {
       log.verbose(`chatcompletion returned`) // Keep verbose for backward compatibility if needed
       log.verbose(`chatcompletion returned ${ JSON.stringify(chatCompletion)}`) // Keep verbose
 
-      // --- Check for top-level error in the response ---
+      // --- Check for an error in the stream ---
       // Some providers (like OpenRouter for certain errors) might return a 200 OK
       // with an error object in the body instead of throwing an HTTP error.
-      if (chatCompletion && typeof chatCompletion === 'object' && 'error' in chatCompletion && chatCompletion.error) {
-        log.warn('API call returned successfully but contained an error object:', JSON.stringify(chatCompletion.error));
-        const errorObj = chatCompletion.error as any; // Type assertion for easier access
+      if (streamError) {
+        log.warn('API call returned successfully but contained an error object:', JSON.stringify(streamError));
+        const errorObj: ProviderErrorBody = isProviderErrorBody(streamError) ? streamError : { message: String(streamError) };
 
         // --- Attempt to extract detailed message from metadata.raw ---
         let detailedMessage = errorObj.message || 'Provider returned an unspecified error in the response body.';
@@ -297,6 +426,21 @@ export class ModelHandler {
         };
       }
 
+      // An answer the provider's content filter removed is a failure another model may not run into
+      if (choice.finish_reason === 'content_filter' && !choice.message?.content && !choice.message?.tool_calls?.length) {
+        log.warn(`The content filter of the provider blocked the answer of model ${modelId}`);
+        return {
+          success: false,
+          error: createModelError(
+            'content_filter',
+            'The answer was blocked by the content filter of the provider.',
+            modelId,
+            undefined,
+            { finishReason: choice.finish_reason }
+          )
+        };
+      }
+
       const result: Result<ModelCallResult> = {
         success: true,
         // Use the validated choice object
@@ -312,6 +456,17 @@ export class ModelHandler {
 
       return result;
     } catch (error) {
+      // Aborted by the caller; report the timeout that caused it rather than the client's abort error
+      if (signal?.aborted) {
+        log.warn(`[ModelHandler.generateCompletion] Request for model ${modelId} was aborted`);
+        return {
+          success: false,
+          error: isTimeoutError(signal.reason)
+            ? signal.reason
+            : createModelError('aborted', 'Model request was aborted', modelId)
+        };
+      }
+
       // --- Log the raw error object caught ---
       log.error('[ModelHandler.generateCompletion] Caught error during OpenAI API call', { rawError: error });
 
@@ -382,13 +537,155 @@ export class ModelHandler {
     }
   }
 
+  /**
+   * Collect a streamed answer into a chat completion. Text is passed to `onDelta` as it arrives;
+   * tool calls are put together from their fragments by index. Tool calls without an ID get one
+   * from `toolCallIdPrefix` and their index. Returns the error object instead when the provider
+   * sends one within the stream.
+   */
+  private static async assembleStream(
+    stream: AsyncIterable<OpenAI.ChatCompletionChunk>,
+    toolCallIdPrefix: string,
+    onDelta?: (delta: string) => void
+  ): Promise<{ completion?: OpenAI.ChatCompletion; error?: unknown }> {
+    let id = '';
+    let model = '';
+    let created = 0;
+    let content = '';
+    let hasChoice = false;
+    let finishReason: OpenAI.ChatCompletion.Choice['finish_reason'] | null = null;
+    let usage: OpenAI.CompletionUsage | undefined;
+    const toolCalls: OpenAI.ChatCompletionMessageToolCall[] = [];
+
+    for await (const chunk of stream) {
+      if ('error' in chunk && chunk.error) {
+        return { error: chunk.error };
+      }
+      id = chunk.id || id;
+      model = chunk.model || model;
+      created = chunk.created || created;
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      // The usage chunk has no choices
+      const choice = chunk.choices?.[0];
+      if (!choice) {
+        continue;
+      }
+      hasChoice = true;
+      if (choice.delta?.content) {
+        content += choice.delta.content;
+        onDelta?.(choice.delta.content);
+      }
+      choice.delta?.tool_calls?.forEach(fragment => {
+        const index = fragment.index ?? toolCalls.length;
+        const toolCall = toolCalls[index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (fragment.id) {
+          toolCall.id = fragment.id;
+        }
+        if (fragment.function?.name) {
+          toolCall.function.name = fragment.function.name;
+        }
+        if (fragment.function?.arguments) {
+          toolCall.function.arguments += fragment.function.arguments;
+        }
+      });
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+    }
+
+    // Some providers leave out tool call IDs, but tool results have to refer to them. The IDs are
+    // derived from the position in the conversation, so replayed runs build the same requests
+    const assembledToolCalls = toolCalls.filter(Boolean).map((toolCall, index) => ({ ...toolCall, id: toolCall.id || `${toolCallIdPrefix}_${index}` }));
+
+    return {
+      completion: {
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: hasChoice ? [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content,
+            refusal: null,
+            tool_calls: assembledToolCalls.length > 0 ? assembledToolCalls : undefined
+          },
+          finish_reason: finishReason ?? (assembledToolCalls.length > 0 ? 'tool_calls' : 'stop'),
+          logprobs: null
+        }] : [],
+        usage
+      }
+    };
+  }
+
+  /**
+   * Call an MCP tool, retrying failed calls when the node's retry policy sets retryToolFailures.
+   * Results flagged with isError by the server count as failures too. Under such a policy every
+   * attempt is added to `attempts`, for the execution trace.
+   */
+  private static async callToolWithRetry(
+    serverName: string,
+    toolName: string,
+    toolCallId: string,
+    args: Record<string, unknown>,
+    attempts: RetryAttempt[],
+    signal?: AbortSignal,
+    retryPolicy?: RetryPolicy
+  ): Promise<MCPServiceResponse> {
+    const maxAttempts = retryPolicy?.retryToolFailures ? Math.max(1, retryPolicy.maxAttempts ?? 1) : 1;
+    let delayMs = retryPolicy?.backoffMs ?? 0;
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      const result = await mcpService.callTool(serverName, toolName, args, undefined, signal);
+      const failed = !result.success || (result.data as { isError?: boolean } | undefined)?.isError === true;
+      if (maxAttempts > 1) {
+        attempts.push({
+          attempt,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+          success: !failed,
+          errorType: failed ? 'tool' : undefined,
+          error: failed ? result.error || 'Tool reported an error' : undefined,
+          toolName,
+          toolCallId
+        });
+      }
+      if (!failed || attempt >= maxAttempts || signal?.aborted) {
+        return result;
+      }
+
+      log.warn(`Tool ${toolName} on ${serverName} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delayMs} ms`, { error: result.error });
+      await this.waitBeforeRetry(delayMs, signal);
+      if (signal?.aborted) {
+        return result;
+      }
+      delayMs = delayMs * (retryPolicy?.backoffMultiplier ?? 2);
+    }
+  }
+
+  // Backoff delay that ends early when the signal aborts
+  private static waitBeforeRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, delayMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+
   /**
    * Process tool calls - pure function
    */
   public static async processToolCalls( // Make public static
     input: ToolCallProcessingInput
   ): Promise<Result<ToolCallProcessingResult>> {
-    const { toolCalls } = input;
+    const { toolCalls, signal, retryPolicy, recording, conversationId } = input;
 
     // Add verbose logging of the input
     log.verbose('processToolCalls input', JSON.stringify(input));
@@ -418,9 +715,16 @@ export class ModelHandler {
         result: string;
       }> = [];
 
+      // Attempts of tool calls retried under the node's retry policy
+      const toolAttempts: RetryAttempt[] = [];
+
+      const emitResult = (id: string, name: string, content: string, isError: boolean) =>
+        ExecutionEvents.emit(conversationId, { type: 'tool_result', toolCallId: id, name, content, isError });
+
       // Process each tool call
       for (const toolCall of toolCalls) {
         const { id, function: { name, arguments: argsString } } = toolCall;
+        ExecutionEvents.emit(conversationId, { type: 'tool_call_started', toolCall: { id, name, arguments: argsString } });
 
         try {
           // Parse the arguments
@@ -456,6 +760,7 @@ export class ModelHandler {
               id,
               result: resultContent
             });
+            emitResult(id, name, resultContent, false);
 
             // Skip to the next tool call
             continue;
@@ -471,12 +776,19 @@ export class ModelHandler {
           const serverName = parts[1];
           const toolName = parts[2];
 
-          // Call the tool via MCP service
-          const result = await mcpService.callTool(
-            serverName,
-            toolName,
-            args
+          // Call the tool via MCP service, or take the result from the replayed fixture
+          const intercepted = await FlowRecorder.intercept(
+            recording,
+            'tool',
+            { serverName, toolName, args },
+            () => this.callToolWithRetry(serverName, toolName, id, args, toolAttempts, signal, retryPolicy),
+            () => !!signal?.aborted
           );
+          if (!intercepted.success) {
+            // A diverged replay fails the whole step instead of showing up as a tool message
+            return { success: false, error: intercepted.error };
+          }
+          const result = intercepted.value;
 
           // Format the result
           const resultContent = result.success
@@ -499,6 +811,7 @@ export class ModelHandler {
             id,
             result: resultContent
           });
+          emitResult(id, name, resultContent, !result.success);
         } catch (error) {
           const errorMessage = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
           // Add error message for this specific tool call with timestamp and ID
@@ -517,6 +830,7 @@ export class ModelHandler {
             id,
             result: errorMessage
           });
+          emitResult(id, name, errorMessage, true);
         }
       }
 
@@ -524,7 +838,8 @@ export class ModelHandler {
         success: true,
         value: {
           toolCallMessages,
-          processedToolCalls
+          processedToolCalls,
+          ...(toolAttempts.length > 0 ? { toolAttempts } : {})
         }
       };
 
@@ -8,7 +8,9 @@ import {
 import { Result } from '../errors';
 import { createToolError, createMCPError } from '../errorFactory';
 import { mcpService } from '@/backend/services/mcp';
+import { MCPToolResponse as ToolResponse } from '@/shared/types/mcp';
 import { ToolDefinition } from '../types';
+import { FlowRecorder } from '../FlowRecorder';
 import OpenAI from 'openai';
 
 const log = createLogger('backend/flow/execution/handlers/ToolHandler');
@@ -144,6 +146,26 @@ export class ToolHandler {
     }
   }
   
+  /**
+   * Connect to an MCP server if needed and list its tools; null if the server cannot be reached
+   */
+  private static async listServerTools(serverName: string): Promise<{ tools: ToolResponse[], error?: string } | null> {
+    // Get server status
+    const status = await mcpService.getServerStatus(serverName);
+    
+    if (status.message !== 'connected') {
+      // Try to connect
+      const connectResult = await mcpService.connectServer(serverName);
+      
+      if (!connectResult.success) {
+        log.warn(`Failed to connect to server ${serverName}: ${connectResult.error}`);
+        return null;
+      }
+    }
+    
+    return mcpService.listServerTools(serverName);
+  }
+
   /**
    * Process MCP nodes - pure function
    * 
@@ -154,7 +176,7 @@ export class ToolHandler {
   static async processMCPNodes(
     input: MCPNodeProcessingInput
   ): Promise<Result<MCPNodeProcessingResult>> {
-    const { mcpNodes } = input;
+    const { mcpNodes, recording } = input;
     
     // Add verbose logging of the input
     log.verbose('processMCPNodes input', JSON.stringify(input));
@@ -182,23 +204,19 @@ export class ToolHandler {
           const boundServer = properties.boundServer;
           const enabledTools = properties.enabledTools || [];
           
-          // Get server status
-          const status = await mcpService.getServerStatus(boundServer);
-          
-          if (status.message !== 'connected') {
-            // Try to connect
-            const connectResult = await mcpService.connectServer(boundServer);
-            
-            if (!connectResult.success) {
-              log.warn(`Failed to connect to server ${boundServer}: ${connectResult.error}`);
-              continue;
-            }
+          // List server tools, or take the listing from the replayed fixture
+          const listed = await FlowRecorder.intercept(
+            recording,
+            'tool_list',
+            { serverName: boundServer },
+            () => this.listServerTools(boundServer)
+          );
+          if (!listed.success) {
+            return { success: false, error: listed.error };
           }
+          const toolsResult = listed.value;
           
-          // List server tools
-          const toolsResult = await mcpService.listServerTools(boundServer);
-          
-          if (!toolsResult.tools || toolsResult.tools.length === 0) {
+          if (!toolsResult?.tools || toolsResult.tools.length === 0) {
             continue;
           }
           
@@ -0,0 +1,132 @@
+// Local implementation of PocketFlow for debugging
+import { BaseNode, RetryNode } from '../temp_pocket';
+import { createLogger } from '@/utils/logger';
+import { CodeNodeUtility, DEFAULT_CODE_TIMEOUT_MS, DEFAULT_CODE_MEMORY_LIMIT_MB } from './util/CodeNodeUtility';
+import {
+  SharedState,
+  CodeNodeParams,
+  CodeNodePrepResult,
+  CodeNodeExecResult,
+  FINAL_RESPONSE_ACTION,
+  ERROR_ACTION
+} from '../types';
+import { FEATURES } from '@/config/features'; // Import feature flags
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/CodeNode');
+
+/**
+ * Runs a small user-authored JavaScript snippet for deterministic steps
+ * (reformatting a tool result, extracting a field, computing a date) without a model call.
+ * The snippet can add an assistant message and update flow variables.
+ */
+export class CodeNode extends RetryNode {
+  async prep(sharedState: SharedState, node_params?: CodeNodeParams): Promise<CodeNodePrepResult> {
+    log.info('prep() started');
+
+    const properties = node_params?.properties || {};
+    const prepResult: CodeNodePrepResult = {
+      nodeId: node_params?.id || '',
+      nodeType: 'code',
+      code: properties.code || '',
+      timeoutMs: properties.timeoutMs || DEFAULT_CODE_TIMEOUT_MS,
+      memoryLimitMb: properties.memoryLimitMb || DEFAULT_CODE_MEMORY_LIMIT_MB,
+      messages: sharedState.messages,
+      variables: sharedState.variables || {},
+      lastResponse: sharedState.lastResponse
+    };
+
+    log.info('prep() completed', {
+      codeLength: prepResult.code.length,
+      timeoutMs: prepResult.timeoutMs,
+      memoryLimitMb: prepResult.memoryLimitMb
+    });
+
+    return prepResult;
+  }
+
+  async execCore(prepResult: CodeNodePrepResult, node_params?: CodeNodeParams): Promise<CodeNodeExecResult> {
+    log.info('execCore() started');
+
+    if (!prepResult.code.trim()) {
+      return { success: false, logs: [], durationMs: 0, error: 'No code is configured' };
+    }
+
+    const run = await CodeNodeUtility.runSnippet(
+      prepResult.code,
+      { messages: prepResult.messages, variables: prepResult.variables, lastResponse: prepResult.lastResponse },
+      { timeoutMs: prepResult.timeoutMs, memoryLimitMb: prepResult.memoryLimitMb }
+    );
+
+    let execResult: CodeNodeExecResult;
+    if (!run.success) {
+      execResult = { success: false, logs: run.logs, durationMs: run.durationMs, error: run.error };
+    } else {
+      const { message, variableUpdates, error } = CodeNodeUtility.interpretResult(run.value);
+      execResult = error
+        ? { success: false, logs: run.logs, durationMs: run.durationMs, error }
+        : { success: true, message, variableUpdates, logs: run.logs, durationMs: run.durationMs };
+    }
+
+    log.verbose('execCore() execResult', JSON.stringify(execResult));
+    log.info('execCore() completed', { success: execResult.success, durationMs: execResult.durationMs, error: execResult.error });
+    return execResult;
+  }
+
+  async post(
+    prepResult: CodeNodePrepResult,
+    execResult: CodeNodeExecResult,
+    sharedState: SharedState,
+    node_params?: CodeNodeParams
+  ): Promise<string> {
+    log.info('post() started');
+
+    // Add tracking information
+    if (FEATURES.ENABLE_EXECUTION_TRACKER && Array.isArray(sharedState.trackingInfo.nodeExecutionTracker)) {
+      sharedState.trackingInfo.nodeExecutionTracker.push({
+        nodeType: 'CodeNode',
+        nodeId: node_params?.id || 'unknown',
+        nodeName: node_params?.properties?.name || 'Code Node',
+        timestamp: new Date().toISOString(),
+        content: execResult.message,
+        error: execResult.error
+      });
+      log.info('Added CodeNode tracking information');
+    }
+
+    if (!execResult.success) {
+      log.error('Code snippet failed', { error: execResult.error });
+      sharedState.lastResponse = { success: false, error: `Code node ${prepResult.nodeId}: ${execResult.error}` };
+      return ERROR_ACTION;
+    }
+
+    if (execResult.variableUpdates) {
+      sharedState.variables = { ...sharedState.variables, ...execResult.variableUpdates };
+      log.info(`Updated ${Object.keys(execResult.variableUpdates).length} flow variable(s)`);
+    }
+
+    if (execResult.message !== undefined) {
+      sharedState.messages.push({
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: execResult.message,
+        timestamp: Date.now(),
+        processNodeId: prepResult.nodeId
+      });
+      sharedState.lastResponse = execResult.message;
+    }
+
+    const actions = Array.from(this.successors.keys());
+    if (actions.length > 0) {
+      log.info(`post() completed, returning action: ${actions[0]}`);
+      return actions[0];
+    }
+
+    log.info('post() completed, returning FINAL_RESPONSE_ACTION');
+    return FINAL_RESPONSE_ACTION;
+  }
+
+  _clone(): BaseNode {
+    return new CodeNode();
+  }
+}
@@ -0,0 +1,120 @@
+// Local implementation of PocketFlow for debugging
+import { BaseNode } from '../temp_pocket';
+import { createLogger } from '@/utils/logger';
+import { ConditionNodeUtility } from './util/ConditionNodeUtility';
+import {
+  SharedState,
+  ConditionNodeParams,
+  ConditionNodePrepResult,
+  ConditionNodeExecResult,
+  ERROR_ACTION
+} from '../types';
+import { FEATURES } from '@/config/features'; // Import feature flags
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/ConditionNode');
+
+/**
+ * Deterministic router: evaluates its rules against the shared state and
+ * returns the edge id leading to the target node of the first matching rule.
+ * No model is called, so routing costs no tokens.
+ */
+export class ConditionNode extends BaseNode {
+  async prep(sharedState: SharedState, node_params?: ConditionNodeParams): Promise<ConditionNodePrepResult> {
+    log.info('prep() started');
+
+    const prepResult: ConditionNodePrepResult = {
+      nodeId: node_params?.id || '',
+      nodeType: 'condition',
+      rules: node_params?.properties?.rules || [],
+      defaultTargetNodeId: node_params?.properties?.defaultTargetNodeId,
+      messages: sharedState.messages,
+      lastResponse: sharedState.lastResponse
+    };
+
+    log.info('prep() completed', {
+      rulesCount: prepResult.rules.length,
+      hasDefault: !!prepResult.defaultTargetNodeId
+    });
+
+    return prepResult;
+  }
+
+  async execCore(prepResult: ConditionNodePrepResult, node_params?: ConditionNodeParams): Promise<ConditionNodeExecResult> {
+    log.info('execCore() started');
+
+    const matchedRule = ConditionNodeUtility.findMatchingRule(prepResult);
+
+    let execResult: ConditionNodeExecResult;
+    if (matchedRule) {
+      execResult = {
+        success: true,
+        matchedRuleId: matchedRule.id,
+        targetNodeId: matchedRule.targetNodeId
+      };
+    } else if (prepResult.defaultTargetNodeId) {
+      execResult = {
+        success: true,
+        targetNodeId: prepResult.defaultTargetNodeId,
+        usedDefault: true
+      };
+    } else {
+      execResult = {
+        success: false,
+        error: 'No condition matched and no default route is configured'
+      };
+    }
+
+    log.verbose('execCore() execResult', JSON.stringify(execResult));
+    log.info('execCore() completed', execResult);
+    return execResult;
+  }
+
+  async post(
+    prepResult: ConditionNodePrepResult,
+    execResult: ConditionNodeExecResult,
+    sharedState: SharedState,
+    node_params?: ConditionNodeParams
+  ): Promise<string> {
+    log.info('post() started');
+
+    // Add tracking information
+    if (FEATURES.ENABLE_EXECUTION_TRACKER && Array.isArray(sharedState.trackingInfo.nodeExecutionTracker)) {
+      sharedState.trackingInfo.nodeExecutionTracker.push({
+        nodeType: 'ConditionNode',
+        nodeId: node_params?.id || 'unknown',
+        nodeName: node_params?.properties?.name || 'Condition Node',
+        timestamp: new Date().toISOString(),
+        result: execResult.matchedRuleId || (execResult.usedDefault ? 'default' : undefined),
+        error: execResult.error
+      });
+      log.info('Added ConditionNode tracking information');
+    }
+
+    if (!execResult.success || !execResult.targetNodeId) {
+      log.error('Condition routing failed', { error: execResult.error });
+      sharedState.lastResponse = { success: false, error: `Condition node ${prepResult.nodeId}: ${execResult.error}` };
+      return ERROR_ACTION;
+    }
+
+    // Find the edge that connects this node to the target node
+    const edgeId = Array.from(this.successors.entries())
+      .find(([, successor]) => successor.node_params?.id === execResult.targetNodeId)?.[0];
+
+    if (!edgeId) {
+      log.error(`Condition target ${execResult.targetNodeId} is not connected to node ${prepResult.nodeId}`);
+      sharedState.lastResponse = {
+        success: false,
+        error: `Condition node ${prepResult.nodeId}: target node ${execResult.targetNodeId} is not connected`
+      };
+      return ERROR_ACTION;
+    }
+
+    log.info(`post() completed, returning action: ${edgeId}`);
+    return edgeId;
+  }
+
+  _clone(): BaseNode {
+    return new ConditionNode();
+  }
+}
@@ -0,0 +1,157 @@
+// Local implementation of PocketFlow for debugging
+import { BaseNode } from '../temp_pocket';
+import { createLogger } from '@/utils/logger';
+import { HumanInputNodeUtility, DEFAULT_HUMAN_INPUT_SCHEMA } from './util/HumanInputNodeUtility';
+import {
+  SharedState,
+  HumanInputNodeParams,
+  HumanInputNodePrepResult,
+  HumanInputNodeExecResult,
+  FlowVariables,
+  STAY_ON_NODE_ACTION,
+  FINAL_RESPONSE_ACTION,
+  ERROR_ACTION
+} from '../types';
+import { FEATURES } from '@/config/features'; // Import feature flags
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/HumanInputNode');
+
+/**
+ * Pauses the conversation until the user fills in a form.
+ * The first visit publishes the form and stays on the node; once the respond
+ * endpoint stored the submitted values, the next visit injects them as a
+ * user message or flow variable and follows the first outgoing edge.
+ */
+export class HumanInputNode extends BaseNode {
+  async prep(sharedState: SharedState, node_params?: HumanInputNodeParams): Promise<HumanInputNodePrepResult> {
+    log.info('prep() started');
+
+    const nodeId = node_params?.id || '';
+    const properties = node_params?.properties || {};
+    const pending = sharedState.pendingHumanInput;
+
+    const prepResult: HumanInputNodePrepResult = {
+      nodeId,
+      nodeType: 'human_input',
+      prompt: properties.prompt,
+      schema: properties.schema && Object.keys(properties.schema.properties || {}).length > 0
+        ? properties.schema
+        : DEFAULT_HUMAN_INPUT_SCHEMA,
+      injectAs: properties.injectAs || 'message',
+      variableName: properties.variableName,
+      submittedValues: pending?.nodeId === nodeId ? pending.values : undefined
+    };
+
+    log.info('prep() completed', {
+      injectAs: prepResult.injectAs,
+      fields: Object.keys(prepResult.schema.properties),
+      hasSubmittedValues: !!prepResult.submittedValues
+    });
+
+    return prepResult;
+  }
+
+  async execCore(prepResult: HumanInputNodePrepResult, node_params?: HumanInputNodeParams): Promise<HumanInputNodeExecResult> {
+    log.info('execCore() started');
+
+    let execResult: HumanInputNodeExecResult;
+    if (!prepResult.submittedValues) {
+      execResult = { success: true, awaitingInput: true };
+    } else if (prepResult.injectAs === 'variable' && !prepResult.variableName) {
+      execResult = { success: false, awaitingInput: false, error: 'No variable name is configured' };
+    } else {
+      // The respond endpoint validated the values already; validate again in case the state was edited
+      const { values, errors } = HumanInputNodeUtility.validateValues(prepResult.schema, prepResult.submittedValues);
+      execResult = errors.length > 0
+        ? { success: false, awaitingInput: false, error: `Invalid input: ${errors.join('; ')}` }
+        : { success: true, awaitingInput: false, values };
+    }
+
+    log.verbose('execCore() execResult', JSON.stringify(execResult));
+    log.info('execCore() completed', { success: execResult.success, awaitingInput: execResult.awaitingInput });
+    return execResult;
+  }
+
+  async post(
+    prepResult: HumanInputNodePrepResult,
+    execResult: HumanInputNodeExecResult,
+    sharedState: SharedState,
+    node_params?: HumanInputNodeParams
+  ): Promise<string> {
+    log.info('post() started');
+
+    // Add tracking information
+    if (FEATURES.ENABLE_EXECUTION_TRACKER && Array.isArray(sharedState.trackingInfo.nodeExecutionTracker)) {
+      sharedState.trackingInfo.nodeExecutionTracker.push({
+        nodeType: 'HumanInputNode',
+        nodeId: node_params?.id || 'unknown',
+        nodeName: node_params?.properties?.name || 'Human Input Node',
+        timestamp: new Date().toISOString(),
+        result: execResult.awaitingInput ? 'awaiting input' : 'input received',
+        error: execResult.error
+      });
+      log.info('Added HumanInputNode tracking information');
+    }
+
+    if (execResult.awaitingInput) {
+      // Publish the form only once, so repeated visits do not repeat the prompt
+      if (sharedState.pendingHumanInput?.nodeId !== prepResult.nodeId) {
+        sharedState.pendingHumanInput = {
+          nodeId: prepResult.nodeId,
+          prompt: prepResult.prompt,
+          schema: prepResult.schema,
+          requestedAt: Date.now()
+        };
+        if (prepResult.prompt) {
+          sharedState.messages.push({
+            id: crypto.randomUUID(),
+            role: 'assistant',
+            content: prepResult.prompt,
+            timestamp: Date.now(),
+            processNodeId: prepResult.nodeId
+          });
+        }
+      }
+      sharedState.status = 'awaiting_human_input';
+      sharedState.lastResponse = prepResult.prompt;
+      log.info('post() completed, waiting for human input');
+      return STAY_ON_NODE_ACTION;
+    }
+
+    sharedState.pendingHumanInput = undefined;
+
+    if (!execResult.success || !execResult.values) {
+      log.error('Human input could not be applied', { error: execResult.error });
+      sharedState.lastResponse = { success: false, error: `Human input node ${prepResult.nodeId}: ${execResult.error}` };
+      return ERROR_ACTION;
+    }
+
+    if (prepResult.injectAs === 'variable') {
+      sharedState.variables = { ...sharedState.variables, [prepResult.variableName!]: execResult.values as FlowVariables };
+      log.info(`Stored human input in variable "${prepResult.variableName}"`);
+    } else {
+      sharedState.messages.push({
+        id: crypto.randomUUID(),
+        role: 'user',
+        content: HumanInputNodeUtility.formatAsMessage(prepResult.schema, execResult.values),
+        timestamp: Date.now(),
+        processNodeId: prepResult.nodeId
+      });
+      log.info('Injected human input as user message');
+    }
+
+    const actions = Array.from(this.successors.keys());
+    if (actions.length > 0) {
+      log.info(`post() completed, returning action: ${actions[0]}`);
+      return actions[0];
+    }
+
+    log.info('post() completed, returning FINAL_RESPONSE_ACTION');
+    return FINAL_RESPONSE_ACTION;
+  }
+
+  _clone(): BaseNode {
+    return new HumanInputNode();
+  }
+}
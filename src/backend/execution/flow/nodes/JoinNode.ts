@@ -0,0 +1,149 @@
+// Local implementation of PocketFlow for debugging
+import { BaseNode } from '../temp_pocket';
+import { createLogger } from '@/utils/logger';
+import { ModelHandler } from '../handlers/ModelHandler';
+import { UsageTracker } from '../UsageTracker';
+import {
+  SharedState,
+  JoinNodeParams,
+  JoinNodePrepResult,
+  JoinNodeExecResult,
+  ParallelBranchResult,
+  FINAL_RESPONSE_ACTION,
+  ERROR_ACTION
+} from '../types';
+import { FlujoChatMessage } from '@/shared/types/chat';
+import { FEATURES } from '@/config/features'; // Import feature flags
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/JoinNode');
+
+const DEFAULT_MERGE_PROMPT = 'Combine the following answers into a single, coherent response. Remove duplicates and resolve contradictions.';
+
+/**
+ * Fan-in node: merges the branch results collected by the preceding parallel node
+ * into a single assistant message.
+ */
+export class JoinNode extends BaseNode {
+  private formatBranches(branches: ParallelBranchResult[]): string {
+    return branches
+      .map(branch => `### ${branch.targetLabel || branch.targetNodeId}\n\n${branch.content || ''}`)
+      .join('\n\n');
+  }
+
+  async prep(sharedState: SharedState, node_params?: JoinNodeParams): Promise<JoinNodePrepResult> {
+    log.info('prep() started');
+
+    const nodeId = node_params?.id || '';
+    const pendingJoin = sharedState.pendingJoin;
+    if (!pendingJoin || pendingJoin.joinNodeId !== nodeId) {
+      log.error('Join node reached without branch results', { nodeId, pendingJoinNodeId: pendingJoin?.joinNodeId });
+      throw new Error("Join node can only be reached through a parallel node");
+    }
+
+    const prepResult: JoinNodePrepResult = {
+      nodeId,
+      nodeType: 'join',
+      strategy: node_params?.properties?.strategy || 'concat',
+      branches: pendingJoin.branches.filter(branch => branch.success),
+      boundModel: node_params?.properties?.boundModel,
+      mergePrompt: node_params?.properties?.mergePrompt,
+      recording: sharedState.recording
+    };
+
+    log.info('prep() completed', { strategy: prepResult.strategy, branchCount: prepResult.branches.length });
+    return prepResult;
+  }
+
+  async execCore(prepResult: JoinNodePrepResult, node_params?: JoinNodeParams): Promise<JoinNodeExecResult> {
+    log.info('execCore() started', { strategy: prepResult.strategy });
+
+    switch (prepResult.strategy) {
+      case 'first': {
+        const first = [...prepResult.branches].sort((a, b) => a.finishedAt - b.finishedAt)[0];
+        return { success: true, content: first?.content || '' };
+      }
+      case 'mergePrompt': {
+        if (!prepResult.boundModel) {
+          return { success: false, error: 'Join node with merge prompt requires a bound model' };
+        }
+        const messages: FlujoChatMessage[] = [
+          { id: crypto.randomUUID(), role: 'system', content: prepResult.mergePrompt || DEFAULT_MERGE_PROMPT, timestamp: Date.now() },
+          { id: crypto.randomUUID(), role: 'user', content: this.formatBranches(prepResult.branches), timestamp: Date.now() }
+        ];
+        const result = await ModelHandler.callModel({
+          modelId: prepResult.boundModel,
+          prompt: prepResult.mergePrompt || DEFAULT_MERGE_PROMPT,
+          messages,
+          iteration: 1,
+          maxIterations: 1,
+          nodeName: node_params?.label || 'Join Node',
+          nodeId: prepResult.nodeId,
+          recording: prepResult.recording
+        });
+        if (!result.success) {
+          log.error('Merge prompt failed', { error: result.error });
+          return { success: false, error: result.error.message };
+        }
+        return { success: true, content: result.value.content || '', usage: result.value.usage ? [result.value.usage] : undefined };
+      }
+      case 'concat':
+      default:
+        return { success: true, content: this.formatBranches(prepResult.branches) };
+    }
+  }
+
+  async post(
+    prepResult: JoinNodePrepResult,
+    execResult: JoinNodeExecResult,
+    sharedState: SharedState,
+    node_params?: JoinNodeParams
+  ): Promise<string> {
+    log.info('post() started');
+
+    const stepUsage = UsageTracker.record(sharedState, prepResult.nodeId, execResult.usage);
+
+    // Add tracking information
+    if (FEATURES.ENABLE_EXECUTION_TRACKER && Array.isArray(sharedState.trackingInfo.nodeExecutionTracker)) {
+      sharedState.trackingInfo.nodeExecutionTracker.push({
+        nodeType: 'JoinNode',
+        nodeId: node_params?.id || 'unknown',
+        nodeName: node_params?.properties?.name || 'Join Node',
+        timestamp: new Date().toISOString(),
+        content: execResult.content,
+        error: execResult.error,
+        usage: stepUsage
+      });
+      log.info('Added JoinNode tracking information');
+    }
+
+    sharedState.pendingJoin = undefined;
+
+    if (!execResult.success) {
+      sharedState.lastResponse = { success: false, error: `Join node ${prepResult.nodeId}: ${execResult.error}` };
+      return ERROR_ACTION;
+    }
+
+    sharedState.messages.push({
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: execResult.content || '',
+      timestamp: Date.now(),
+      processNodeId: prepResult.nodeId
+    });
+    sharedState.lastResponse = execResult.content;
+
+    const actions = Array.from(this.successors.keys());
+    if (actions.length > 0) {
+      log.info(`post() completed, returning action: ${actions[0]}`);
+      return actions[0];
+    }
+
+    log.info('post() completed, returning FINAL_RESPONSE_ACTION');
+    return FINAL_RESPONSE_ACTION;
+  }
+
+  _clone(): BaseNode {
+    return new JoinNode();
+  }
+}
@@ -0,0 +1,228 @@
+// Local implementation of PocketFlow for debugging
+import { BaseNode } from '../temp_pocket';
+import { createLogger } from '@/utils/logger';
+import { FlowExecutor } from '../FlowExecutor';
+import { UsageTracker } from '../UsageTracker';
+import {
+  SharedState,
+  ParallelNodeParams,
+  ParallelNodePrepResult,
+  ParallelNodeExecResult,
+  ParallelBranchResult,
+  DebugStep,
+  GOTO_NODE_ACTION,
+  ERROR_ACTION
+} from '../types';
+import { FEATURES } from '@/config/features'; // Import feature flags
+import cloneDeep from 'lodash/cloneDeep';
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/ParallelNode');
+
+const DEFAULT_BRANCH_MAX_STEPS = 25;
+
+/**
+ * Fan-out node: runs every outgoing branch concurrently on a copy of the shared state
+ * until the branch reaches the join node (or finishes on its own), then moves
+ * execution to the join node which merges the branch results.
+ */
+export class ParallelNode extends BaseNode {
+  /**
+   * Find the closest join node reachable from this node's branches (BFS).
+   */
+  private findJoinNodeId(): string | undefined {
+    const queue: BaseNode[] = Array.from(this.successors.values());
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      const nodeId = node.node_params?.id;
+      if (!nodeId || visited.has(nodeId)) continue;
+      visited.add(nodeId);
+
+      if (node.node_params?.type === 'join') {
+        return nodeId;
+      }
+      queue.push(...Array.from(node.successors.values()));
+    }
+    return undefined;
+  }
+
+  async prep(sharedState: SharedState, node_params?: ParallelNodeParams): Promise<ParallelNodePrepResult> {
+    log.info('prep() started');
+
+    const nodeId = node_params?.id || '';
+    const joinNodeId = node_params?.properties?.joinNodeId || this.findJoinNodeId();
+    if (!joinNodeId) {
+      log.error('No join node found for parallel node', { nodeId });
+      throw new Error("Parallel node requires a join node where its branches meet");
+    }
+
+    const branches = Array.from(this.successors.entries()).map(([edgeId, successor]) => ({
+      edgeId,
+      targetNodeId: successor.node_params?.id as string,
+      targetLabel: successor.node_params?.label
+    }));
+    if (branches.length === 0) {
+      log.error('Parallel node has no branches', { nodeId });
+      throw new Error("Parallel node requires at least one outgoing branch");
+    }
+
+    const prepResult: ParallelNodePrepResult = {
+      nodeId,
+      nodeType: 'parallel',
+      joinNodeId,
+      branches,
+      maxBranchSteps: node_params?.properties?.maxBranchSteps || DEFAULT_BRANCH_MAX_STEPS,
+      flowId: sharedState.flowId,
+      conversationId: sharedState.conversationId,
+      messages: sharedState.messages,
+      subflowStack: sharedState.subflowStack,
+      deadline: sharedState.deadline,
+      recording: sharedState.recording,
+      // Branches spend from the same budget, checked before each of their steps
+      budget: await FlowExecutor.getBudget(sharedState),
+      budgetUsedBefore: UsageTracker.getBudgetUsage(sharedState),
+      collectTrace: FEATURES.ENABLE_EXECUTION_TRACKER && !!sharedState.executionTrace
+    };
+
+    log.info('prep() completed', { joinNodeId, branchCount: branches.length });
+    return prepResult;
+  }
+
+  async execCore(prepResult: ParallelNodePrepResult, node_params?: ParallelNodeParams): Promise<ParallelNodeExecResult> {
+    log.info('execCore() started', { branchCount: prepResult.branches.length });
+
+    const traces: DebugStep[][] = [];
+
+    const runBranch = async (branch: ParallelNodePrepResult['branches'][number], index: number): Promise<ParallelBranchResult> => {
+      // Every branch works on its own copy of the conversation
+      const branchState: SharedState = {
+        trackingInfo: { executionId: crypto.randomUUID(), startTime: Date.now(), nodeExecutionTracker: [] },
+        messages: cloneDeep(prepResult.messages),
+        flowId: prepResult.flowId,
+        conversationId: `${prepResult.conversationId || 'parallel'}::${prepResult.nodeId}::${branch.edgeId}`,
+        currentNodeId: branch.targetNodeId,
+        status: 'running',
+        title: `Branch ${branch.targetLabel || branch.targetNodeId}`,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        executionTrace: prepResult.collectTrace ? [] : undefined,
+        subflowStack: prepResult.subflowStack,
+        deadline: prepResult.deadline,
+        recording: prepResult.recording,
+        budget: prepResult.budget,
+        budgetUsedBefore: prepResult.budgetUsedBefore
+      };
+      const forkPoint = branchState.messages.length;
+
+      try {
+        const { sharedState: finalState, action, steps } = await FlowExecutor.runToCompletion(
+          branchState,
+          prepResult.maxBranchSteps,
+          { stopAtNodeId: prepResult.joinNodeId }
+        );
+
+        if (finalState.executionTrace) {
+          traces[index] = finalState.executionTrace.map(step => ({
+            ...step,
+            nodeName: `[${branch.targetLabel || branch.targetNodeId}] ${step.nodeName}`
+          }));
+        }
+
+        if (action === ERROR_ACTION) {
+          const lastResponse = finalState.lastResponse;
+          return {
+            ...branch,
+            success: false,
+            error: typeof lastResponse === 'object' && lastResponse && typeof lastResponse.error === 'string' ? lastResponse.error : 'Branch failed',
+            steps,
+            finishedAt: Date.now(),
+            usage: finalState.trackingInfo.usage
+          };
+        }
+
+        // The branch result is the last assistant answer it produced after the fork
+        const produced = finalState.messages.slice(forkPoint);
+        const lastAssistant = [...produced].reverse().find(msg => msg.role === 'assistant' && msg.content);
+        return {
+          ...branch,
+          success: true,
+          content: typeof lastAssistant?.content === 'string' ? lastAssistant.content : JSON.stringify(lastAssistant?.content ?? ''),
+          steps,
+          finishedAt: Date.now(),
+          usage: finalState.trackingInfo.usage
+        };
+      } catch (error) {
+        return {
+          ...branch,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          steps: 0,
+          finishedAt: Date.now(),
+          usage: branchState.trackingInfo.usage
+        };
+      }
+    };
+
+    const branches = await Promise.all(prepResult.branches.map(runBranch));
+    const failed = branches.filter(branch => !branch.success);
+    if (failed.length > 0) {
+      log.warn(`${failed.length} of ${branches.length} branches failed`, failed.map(branch => ({ edgeId: branch.edgeId, error: branch.error })));
+    }
+
+    const execResult: ParallelNodeExecResult = {
+      success: failed.length < branches.length,
+      branches,
+      childTrace: prepResult.collectTrace ? traces.flat() : undefined,
+      error: failed.length === branches.length ? 'All parallel branches failed' : undefined
+    };
+
+    log.info('execCore() completed', { succeeded: branches.length - failed.length, failed: failed.length });
+    return execResult;
+  }
+
+  async post(
+    prepResult: ParallelNodePrepResult,
+    execResult: ParallelNodeExecResult,
+    sharedState: SharedState,
+    node_params?: ParallelNodeParams
+  ): Promise<string> {
+    log.info('post() started');
+
+    // The model calls of the branches count for this conversation
+    execResult.branches.forEach(branch => UsageTracker.merge(sharedState, branch.usage));
+
+    // Add tracking information
+    if (FEATURES.ENABLE_EXECUTION_TRACKER && Array.isArray(sharedState.trackingInfo.nodeExecutionTracker)) {
+      sharedState.trackingInfo.nodeExecutionTracker.push({
+        nodeType: 'ParallelNode',
+        nodeId: node_params?.id || 'unknown',
+        nodeName: node_params?.properties?.name || 'Parallel Node',
+        timestamp: new Date().toISOString(),
+        result: `${execResult.branches.filter(branch => branch.success).length}/${execResult.branches.length} branches succeeded`,
+        error: execResult.error
+      });
+      log.info('Added ParallelNode tracking information');
+    }
+
+    if (!execResult.success) {
+      sharedState.lastResponse = { success: false, error: `Parallel node ${prepResult.nodeId}: ${execResult.error}` };
+      return ERROR_ACTION;
+    }
+
+    sharedState.pendingJoin = {
+      parallelNodeId: prepResult.nodeId,
+      joinNodeId: prepResult.joinNodeId,
+      branches: execResult.branches
+    };
+    sharedState.currentNodeId = prepResult.joinNodeId;
+
+    log.info(`post() completed, continuing at join node ${prepResult.joinNodeId}`);
+    return GOTO_NODE_ACTION;
+  }
+
+  _clone(): BaseNode {
+    return new ParallelNode();
+  }
+}
@@ -1,9 +1,14 @@
 // Local implementation of PocketFlow for debugging
-import { BaseNode } from '../temp_pocket';
+import { BaseNode, RetryNode } from '../temp_pocket';
 import { createLogger } from '@/utils/logger';
 import { promptRenderer } from '@/backend/utils/PromptRenderer';
 import { ToolHandler } from '../handlers/ToolHandler';
 import { ModelHandler } from '../handlers/ModelHandler';
+import { StructuredOutputUtility, DEFAULT_OUTPUT_MAX_RETRIES } from './util/StructuredOutputUtility';
+import { FlowVariableUtility } from './util/FlowVariableUtility';
+import { ContextCompactionUtility } from './util/ContextCompactionUtility';
+import { ExecutionEvents } from '../ExecutionEvents';
+import { UsageTracker } from '../UsageTracker';
 import { FEATURES } from '@/config/features'; // Import feature flags
 import {
   SharedState,
@@ -16,8 +21,10 @@ import {
   TOOL_CALL_ACTION,    // Import new actions
   FINAL_RESPONSE_ACTION,
   ERROR_ACTION,
-  ToolCallInfo
+  ToolCallInfo,
+  FlowVariableValue
 } from '../types';
+import { ModelCallResult, ModelCallUsage } from '../types/modelHandler';
 import { FlujoChatMessage } from '@/shared/types/chat'; // Import FlujoChatMessage
 import OpenAI from 'openai';
 import { v4 as uuidv4 } from 'uuid'; // Import uuid
@@ -25,7 +32,7 @@ import { v4 as uuidv4 } from 'uuid'; // Import uuid
 // Create a logger instance for this file
 const log = createLogger('backend/flow/execution/nodes/ProcessNode');
 
-export class ProcessNode extends BaseNode {
+export class ProcessNode extends RetryNode {
   /**
    * Generate handoff tools for each connected non-MCP node
    */
@@ -105,6 +112,7 @@ export class ProcessNode extends BaseNode {
     const boundModel = node_params?.properties?.boundModel;
     const excludeModelPrompt = node_params?.properties?.excludeModelPrompt || false;
     const excludeStartNodePrompt = node_params?.properties?.excludeStartNodePrompt || false;
+    const outputSchema = node_params?.properties?.outputSchema;
 
     log.debug('Extracted properties', {
       nodeId,
@@ -124,13 +132,24 @@ export class ProcessNode extends BaseNode {
       throw new Error("Process node requires a bound model");
     }
 
+    // Store the results of mapped tools before rendering, so the prompt can reference them
+    const toolResultVariables = node_params?.properties?.toolResultVariables;
+    if (toolResultVariables) {
+      const updates = FlowVariableUtility.extractToolResults(sharedState.messages, nodeId, toolResultVariables);
+      if (Object.keys(updates).length > 0) {
+        sharedState.variables = { ...sharedState.variables, ...updates };
+        log.info(`Stored ${Object.keys(updates).length} tool result(s) in flow variables`);
+      }
+    }
+
     // Use the promptRenderer to build the complete prompt
     log.info('Using promptRenderer to build the complete prompt');
     const completePrompt = await promptRenderer.renderPrompt(flowId, nodeId, {
       renderMode: 'rendered',
       includeConversationHistory: false,
       excludeModelPrompt,
-      excludeStartNodePrompt
+      excludeStartNodePrompt,
+      variables: sharedState.variables || {}
     });
 
     log.debug('Prompt rendered successfully', {
@@ -161,7 +180,7 @@ export class ProcessNode extends BaseNode {
         });
 
         // Process MCP nodes using the ToolHandler
-        const mcpResult = await ToolHandler.processMCPNodes({ mcpNodes });
+        const mcpResult = await ToolHandler.processMCPNodes({ mcpNodes, recording: sharedState.recording });
 
         if (!mcpResult.success) {
           log.error('Failed to process MCP nodes', { error: mcpResult.error });
@@ -185,7 +204,13 @@ export class ProcessNode extends BaseNode {
     currentPrompt: completePrompt,
     boundModel,
     availableTools: availableTools,
-    messages: [] // Will be populated after reordering
+    messages: [], // Will be populated after reordering
+    outputSchema,
+    outputMaxRetries: node_params?.properties?.outputMaxRetries ?? DEFAULT_OUTPUT_MAX_RETRIES,
+    contextCompaction: node_params?.properties?.contextCompaction,
+    modelFallback: node_params?.properties?.modelFallback,
+    recording: sharedState.recording,
+    conversationId: sharedState.conversationId
   };
 
     // Reorder messages to ensure system messages are at the top
@@ -200,10 +225,13 @@ export class ProcessNode extends BaseNode {
     });
 
     // Create our own system message with the current prompt as FlujoChatMessage
+    // The output schema is also spelled out in the prompt for providers without response_format support
     const systemMessage: FlujoChatMessage = {
       id: uuidv4(), // Generate unique ID
       role: 'system',
-      content: completePrompt,
+      content: outputSchema
+        ? `${completePrompt}\n\n${StructuredOutputUtility.buildInstruction(outputSchema)}`
+        : completePrompt,
       timestamp: Date.now() // Add timestamp
     };
 
@@ -263,11 +291,37 @@ export class ProcessNode extends BaseNode {
       // Get the node name for display
       const nodeName = node_params?.label || node_params?.properties?.name || 'Process Node';
 
+      // Fit the conversation into the model's context. The model gets the compacted messages,
+      // the conversation keeps its full history.
+      const compaction = await ContextCompactionUtility.compact({
+        messages: prepResult.messages,
+        modelId: prepResult.boundModel,
+        tools,
+        settings: prepResult.contextCompaction,
+        nodeId: prepResult.nodeId,
+        nodeName,
+        signal: this.abortSignal,
+        recording: prepResult.recording
+      });
+      const contextMessages = compaction.messages;
+      // Usage of all model calls of this step, including the summarizer and schema retries
+      const usages: ModelCallUsage[] = compaction.usage ? [compaction.usage] : [];
+      if (compaction.info) {
+        ExecutionEvents.emit(prepResult.conversationId, {
+          type: 'context_compacted',
+          nodeId: prepResult.nodeId,
+          strategy: compaction.info.strategy,
+          tokensBefore: compaction.info.tokensBefore,
+          tokensAfter: compaction.info.tokensAfter,
+          removedMessages: compaction.info.droppedMessages + compaction.info.summarizedMessages
+        });
+      }
+
       // --- Log before calling the model ---
-      const lastMessage = prepResult.messages && prepResult.messages.length > 0 ? prepResult.messages[prepResult.messages.length - 1] : null;
+      const lastMessage = contextMessages.length > 0 ? contextMessages[contextMessages.length - 1] : null;
       log.debug(`[ProcessNode ${prepResult.nodeId}] Calling ModelHandler.callModel`, {
         modelId: prepResult.boundModel,
-        messageCount: prepResult.messages?.length || 0,
+        messageCount: contextMessages.length,
         toolCount: tools?.length || 0,
         lastMessageType: lastMessage?.role,
         lastMessageToolCallId: lastMessage?.role === 'tool' ? lastMessage.tool_call_id : undefined,
@@ -280,12 +334,19 @@ export class ProcessNode extends BaseNode {
         modelResult = await ModelHandler.callModel({
           modelId: prepResult.boundModel,
           prompt: prepResult.currentPrompt,
-        messages: prepResult.messages,
+        messages: contextMessages,
         tools,
         iteration: 1, // Iteration is no longer handled by ModelHandler, but keep for now
         maxIterations: 30, // Max iterations no longer handled by ModelHandler
           nodeName, // Pass the node name to be included in the response header
-          nodeId: prepResult.nodeId // Pass the node ID
+          nodeId: prepResult.nodeId, // Pass the node ID
+          responseFormat: prepResult.outputSchema ? StructuredOutputUtility.buildResponseFormat(prepResult.outputSchema) : undefined,
+          signal: this.abortSignal,
+          recording: prepResult.recording,
+          // An answer that has to match the output schema is not streamed: a rejected attempt must not
+          // reach the client. The accepted answer is sent once the step added it to the conversation
+          conversationId: prepResult.outputSchema ? undefined : prepResult.conversationId,
+          fallback: prepResult.modelFallback
         });
 
         // --- Log successful model call result (check success first) ---
@@ -346,15 +407,41 @@ export class ProcessNode extends BaseNode {
       throw modelError;
       }
 
-      const result = modelResult.value;
+      let result = modelResult.value;
+      if (result.usage) {
+        usages.push(result.usage);
+      }
+      let structuredOutput: unknown;
+      let structuredOutputAttempts: number | undefined;
+
+      // Only final answers have to match the output schema, tool calls are steps on the way
+      if (prepResult.outputSchema && !result.toolCalls?.length) {
+        const enforced = await this.enforceOutputSchema(prepResult, contextMessages, result, tools, nodeName, usages);
+        if (enforced.error) {
+          log.error('Model output did not match the output schema', { error: enforced.error, attempts: enforced.attempts });
+          return { success: false, error: enforced.error, structuredOutputAttempts: enforced.attempts, contextCompaction: compaction.info, usage: usages };
+        }
+        result = enforced.result;
+        structuredOutput = enforced.value;
+        structuredOutputAttempts = enforced.attempts;
+      }
 
       // Create a properly typed ExecResult
       const execResult: ProcessNodeExecResult = {
         success: true,
         content: result.content || '',
-        messages: result.messages, // Messages updated during tool calls
+        // Messages added by the model call, appended to the full history
+        messages: compaction.info
+          ? [...prepResult.messages, ...result.messages.slice(contextMessages.length)]
+          : result.messages,
         fullResponse: result.fullResponse,
-        toolCalls: result.toolCalls
+        toolCalls: result.toolCalls,
+        structuredOutput,
+        structuredOutputAttempts,
+        contextCompaction: compaction.info,
+        usage: usages,
+        modelId: result.modelId,
+        modelFallbacks: result.fallbackAttempts
       };
 
       // Log tool calls if present
@@ -415,6 +502,83 @@ export class ProcessNode extends BaseNode {
     }
   }
 
+  /**
+   * Validate the model answer against the output schema, re-prompting with the
+   * validation errors until it matches or the retries are used up.
+   * Rejected attempts and the retry prompts are not kept in the conversation, whichever way it returns,
+   * and are not streamed: the retries are called without the conversation ID.
+   */
+  private async enforceOutputSchema(
+    prepResult: ProcessNodePrepResult,
+    contextMessages: FlujoChatMessage[],
+    firstResult: ModelCallResult,
+    tools: OpenAI.ChatCompletionTool[] | undefined,
+    nodeName: string,
+    usages: ModelCallUsage[]
+  ): Promise<{ result: ModelCallResult; value?: unknown; attempts: number; error?: string }> {
+    const schema = prepResult.outputSchema!;
+    const maxAttempts = 1 + Math.max(0, prepResult.outputMaxRetries ?? DEFAULT_OUTPUT_MAX_RETRIES);
+    let result = firstResult;
+    // The context followed by the latest answer only, or by no answer when it was rejected
+    const keepAnswer = (answered: ModelCallResult): ModelCallResult =>
+      ({ ...answered, messages: [...contextMessages, answered.messages[answered.messages.length - 1]] });
+    const dropAnswers = (answered: ModelCallResult): ModelCallResult => ({ ...answered, messages: [...contextMessages] });
+
+    for (let attempt = 1; ; attempt++) {
+      const parsed = StructuredOutputUtility.parseOutput(result.content || '');
+      const errors = parsed.error ? [parsed.error] : StructuredOutputUtility.validate(schema, parsed.value);
+
+      if (errors.length === 0) {
+        log.info(`Output matched the schema after ${attempt} attempt(s)`);
+        return { result: keepAnswer(result), value: parsed.value, attempts: attempt };
+      }
+
+      log.warn(`Output attempt ${attempt} of ${maxAttempts} did not match the schema`, { errors });
+      if (attempt >= maxAttempts) {
+        return { result: dropAnswers(result), attempts: attempt, error: `Output did not match the schema after ${attempt} attempt(s): ${errors.join('; ')}` };
+      }
+
+      const retryMessages: FlujoChatMessage[] = [
+        ...result.messages,
+        {
+          id: uuidv4(),
+          role: 'user',
+          content: StructuredOutputUtility.buildRetryMessage(errors),
+          timestamp: Date.now()
+        }
+      ];
+
+      const retry = await ModelHandler.callModel({
+        modelId: prepResult.boundModel,
+        prompt: prepResult.currentPrompt,
+        messages: retryMessages,
+        tools,
+        iteration: attempt + 1,
+        maxIterations: maxAttempts,
+        nodeName,
+        nodeId: prepResult.nodeId,
+        responseFormat: StructuredOutputUtility.buildResponseFormat(schema),
+        signal: this.abortSignal,
+        recording: prepResult.recording,
+        fallback: prepResult.modelFallback
+      });
+
+      if (!retry.success) {
+        return { result: dropAnswers(result), attempts: attempt, error: `Model call failed while retrying for a valid output: ${retry.error.message}` };
+      }
+      result = retry.value;
+      if (result.usage) {
+        usages.push(result.usage);
+      }
+
+      // The model went back to using tools; the schema is checked on its next final answer
+      if (result.toolCalls?.length) {
+        log.info('Model answered the retry with tool calls, deferring schema validation');
+        return { result: keepAnswer(result), attempts: attempt + 1 };
+      }
+    }
+  }
+
   /**
    * Process tool calls to check for handoff requests
    */
@@ -494,6 +658,9 @@ export class ProcessNode extends BaseNode {
       toolCallsCount: execResult.toolCalls?.length || 0
     });
 
+    // Account for the model calls of this step, also when it failed
+    const stepUsage = UsageTracker.record(sharedState, prepResult.nodeId, execResult.usage);
+
     // Store the model response or error in shared state
     if (!execResult.success) {
       // Store error information in shared state
@@ -513,6 +680,22 @@ export class ProcessNode extends BaseNode {
        sharedState.lastResponse = execResult.content || '';
     }
 
+    // Keep the validated answer of a node with an output schema
+    if (execResult.structuredOutput !== undefined) {
+      sharedState.structuredOutput = {
+        nodeId: prepResult.nodeId,
+        value: execResult.structuredOutput,
+        attempts: execResult.structuredOutputAttempts || 1
+      };
+      log.info('Stored structured output in sharedState', { attempts: sharedState.structuredOutput.attempts });
+
+      const outputVariable = node_params?.properties?.outputVariable;
+      if (outputVariable) {
+        sharedState.variables = { ...sharedState.variables, [outputVariable]: execResult.structuredOutput as FlowVariableValue };
+        log.info(`Stored structured output in variable "${outputVariable}"`);
+      }
+    }
+
     // Update shared state with messages from execResult
     if (execResult.messages && execResult.messages.length > 0) {
       // Replace messages in shared state with the updated messages
@@ -530,14 +713,16 @@ export class ProcessNode extends BaseNode {
         nodeId: node_params?.id || 'unknown',
         nodeName: node_params?.properties?.name || 'Process Node',
         modelDisplayName: prepResult.modelDisplayName || 'Unknown Model', // Note: modelDisplayName might not be in prepResult, adjust if needed
-        modelTechnicalName: prepResult.boundModel || 'unknown',
+        // The model that answered, which differs from the bound model after a fallback
+        modelTechnicalName: execResult.modelId || prepResult.boundModel || 'unknown',
         allowedTools: node_params?.properties?.allowedTools?.join(', '),
+        usage: stepUsage,
         timestamp: new Date().toISOString()
       });
 
       log.info('Added ProcessNode tracking information', {
         modelDisplayName: prepResult.modelDisplayName, // Adjust if needed
-        modelTechnicalName: prepResult.boundModel
+        modelTechnicalName: execResult.modelId || prepResult.boundModel
       });
     }
 
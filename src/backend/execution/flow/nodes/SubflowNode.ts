@@ -0,0 +1,216 @@
+// Local implementation of PocketFlow for debugging
+import { BaseNode, RetryNode } from '../temp_pocket';
+import { createLogger } from '@/utils/logger';
+import { FlowExecutor } from '../FlowExecutor';
+import { UsageTracker } from '../UsageTracker';
+import {
+  SharedState,
+  SubflowNodeParams,
+  SubflowNodePrepResult,
+  SubflowNodeExecResult,
+  SubflowMessageInheritance,
+  FINAL_RESPONSE_ACTION,
+  ERROR_ACTION
+} from '../types';
+import { FlujoChatMessage } from '@/shared/types/chat';
+import { FEATURES } from '@/config/features'; // Import feature flags
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/SubflowNode');
+
+const DEFAULT_SUBFLOW_MAX_STEPS = 50;
+
+export class SubflowNode extends RetryNode {
+  /**
+   * Select the part of the parent conversation the subflow is allowed to see.
+   * System messages are never inherited; the subflow builds its own prompts.
+   */
+  private selectMessages(messages: FlujoChatMessage[], mode: SubflowMessageInheritance, count: number): FlujoChatMessage[] {
+    const conversation = messages.filter(msg => msg.role !== 'system');
+
+    switch (mode) {
+      case 'none':
+        return [];
+      case 'all':
+        return conversation;
+      case 'lastN': {
+        const tail = conversation.slice(-Math.max(count, 1));
+        // Never start the slice with tool results whose assistant tool call was cut off
+        while (tail.length > 0 && tail[0].role === 'tool') {
+          tail.shift();
+        }
+        return tail;
+      }
+      case 'lastUser':
+      default: {
+        const lastUser = [...conversation].reverse().find(msg => msg.role === 'user');
+        return lastUser ? [lastUser] : [];
+      }
+    }
+  }
+
+  async prep(sharedState: SharedState, node_params?: SubflowNodeParams): Promise<SubflowNodePrepResult> {
+    log.info('prep() started');
+
+    const nodeId = node_params?.id || '';
+    const flowId = node_params?.properties?.flowId;
+    if (!flowId) {
+      log.error('Missing subflow reference');
+      throw new Error("Subflow node requires a flow to run");
+    }
+
+    // Runtime guard in addition to the save-time cycle check in flowService
+    const subflowStack = [...(sharedState.subflowStack || []), sharedState.flowId];
+    if (subflowStack.includes(flowId)) {
+      log.error('Subflow recursion detected', { flowId, subflowStack });
+      throw new Error(`Subflow recursion detected: flow ${flowId} is already running`);
+    }
+
+    const childMessages = this.selectMessages(
+      sharedState.messages,
+      node_params?.properties?.inheritMessages || 'lastUser',
+      node_params?.properties?.inheritCount || 1
+    ).map(msg => ({ ...msg, processNodeId: undefined }));
+
+    const prepResult: SubflowNodePrepResult = {
+      nodeId,
+      nodeType: 'subflow',
+      flowId,
+      childMessages,
+      maxSteps: node_params?.properties?.maxSteps || DEFAULT_SUBFLOW_MAX_STEPS,
+      parentConversationId: sharedState.conversationId,
+      subflowStack,
+      deadline: sharedState.deadline,
+      recording: sharedState.recording,
+      // The subflow spends from the same budget, checked before each of its steps
+      budget: await FlowExecutor.getBudget(sharedState),
+      budgetUsedBefore: UsageTracker.getBudgetUsage(sharedState),
+      collectTrace: FEATURES.ENABLE_EXECUTION_TRACKER && !!sharedState.executionTrace
+    };
+
+    log.info('prep() completed', {
+      flowId,
+      inheritedMessages: childMessages.length,
+      depth: subflowStack.length
+    });
+
+    return prepResult;
+  }
+
+  async execCore(prepResult: SubflowNodePrepResult, node_params?: SubflowNodeParams): Promise<SubflowNodeExecResult> {
+    log.info('execCore() started', { flowId: prepResult.flowId });
+
+    // The subflow runs on its own isolated state
+    const childState: SharedState = {
+      trackingInfo: { executionId: crypto.randomUUID(), startTime: Date.now(), nodeExecutionTracker: [] },
+      messages: prepResult.childMessages.map(msg => ({ ...msg })),
+      flowId: prepResult.flowId,
+      conversationId: `${prepResult.parentConversationId || 'subflow'}::${prepResult.nodeId}::${crypto.randomUUID()}`,
+      status: 'running',
+      title: `Subflow of ${prepResult.parentConversationId || 'unknown conversation'}`,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      executionTrace: prepResult.collectTrace ? [] : undefined,
+      subflowStack: prepResult.subflowStack,
+      deadline: prepResult.deadline,
+      recording: prepResult.recording,
+      budget: prepResult.budget,
+      budgetUsedBefore: prepResult.budgetUsedBefore
+    };
+
+    const { sharedState: finalState, action, steps } = await FlowExecutor.runToCompletion(childState, prepResult.maxSteps);
+
+    if (action === ERROR_ACTION) {
+      const lastResponse = finalState.lastResponse;
+      const error = typeof lastResponse === 'object' && lastResponse && typeof lastResponse.error === 'string'
+        ? lastResponse.error
+        : 'Subflow failed';
+      log.error('Subflow execution failed', { flowId: prepResult.flowId, error });
+      return {
+        success: false,
+        error,
+        childFlowId: prepResult.flowId,
+        stepsExecuted: steps,
+        childTrace: finalState.executionTrace,
+        usage: finalState.trackingInfo.usage
+      };
+    }
+
+    const lastAssistant = [...finalState.messages].reverse().find(msg => msg.role === 'assistant' && msg.content);
+    const content = typeof lastAssistant?.content === 'string'
+      ? lastAssistant.content
+      : JSON.stringify(lastAssistant?.content ?? '');
+
+    const execResult: SubflowNodeExecResult = {
+      success: true,
+      content,
+      childFlowId: prepResult.flowId,
+      stepsExecuted: steps,
+      childTrace: finalState.executionTrace,
+      usage: finalState.trackingInfo.usage,
+      budgetExceeded: finalState.budgetExceeded
+    };
+
+    log.info('execCore() completed', { flowId: prepResult.flowId, steps, contentLength: content.length });
+    return execResult;
+  }
+
+  async post(
+    prepResult: SubflowNodePrepResult,
+    execResult: SubflowNodeExecResult,
+    sharedState: SharedState,
+    node_params?: SubflowNodeParams
+  ): Promise<string> {
+    log.info('post() started');
+
+    // The model calls of the subflow count for this conversation
+    UsageTracker.merge(sharedState, execResult.usage);
+
+    // Add tracking information
+    if (FEATURES.ENABLE_EXECUTION_TRACKER && Array.isArray(sharedState.trackingInfo.nodeExecutionTracker)) {
+      sharedState.trackingInfo.nodeExecutionTracker.push({
+        nodeType: 'SubflowNode',
+        nodeId: node_params?.id || 'unknown',
+        nodeName: node_params?.properties?.name || 'Subflow Node',
+        timestamp: new Date().toISOString(),
+        content: execResult.content,
+        error: execResult.error
+      });
+      log.info('Added SubflowNode tracking information');
+    }
+
+    if (!execResult.success) {
+      sharedState.lastResponse = { success: false, error: `Subflow ${prepResult.flowId}: ${execResult.error}` };
+      return ERROR_ACTION;
+    }
+
+    const actions = Array.from(this.successors.keys());
+    // The parent's next step stops on the same budget and explains why
+    if (execResult.budgetExceeded && actions.length > 0) {
+      log.info(`Subflow ${prepResult.flowId} stopped by its budget (${execResult.budgetExceeded.limit}), returning action: ${actions[0]}`);
+      return actions[0];
+    }
+
+    // Return the subflow's answer into the parent conversation
+    sharedState.messages.push({
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: execResult.content || '',
+      timestamp: Date.now(),
+      processNodeId: prepResult.nodeId
+    });
+    sharedState.lastResponse = execResult.content;
+
+    if (actions.length > 0) {
+      log.info(`post() completed, returning action: ${actions[0]}`);
+      return actions[0];
+    }
+
+    log.info('post() completed, returning FINAL_RESPONSE_ACTION');
+    return FINAL_RESPONSE_ACTION;
+  }
+
+  _clone(): BaseNode {
+    return new SubflowNode();
+  }
+}
@@ -2,3 +2,9 @@ export * from './StartNode';
 export * from './ProcessNode';
 export * from './MCPNode';
 export * from './FinishNode';
+export * from './ConditionNode';
+export * from './SubflowNode';
+export * from './ParallelNode';
+export * from './JoinNode';
+export * from './HumanInputNode';
+export * from './CodeNode';
@@ -0,0 +1,160 @@
+import { Worker } from 'worker_threads';
+import { createLogger } from '@/utils/logger';
+import { FlujoChatMessage } from '@/shared/types/chat';
+import { FlowVariables } from '../../types';
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/util/CodeNodeUtility');
+
+export const DEFAULT_CODE_TIMEOUT_MS = 1000;
+export const DEFAULT_CODE_MEMORY_LIMIT_MB = 32;
+// Extra time granted to the worker itself (startup, serialization) before it is terminated
+const WORKER_GRACE_MS = 1000;
+
+// Input handed to a snippet
+export interface CodeSnippetInput {
+  messages: FlujoChatMessage[];
+  variables: FlowVariables;
+  lastResponse?: string | Record<string, unknown>;
+}
+
+// Raw outcome of a snippet run
+export interface CodeSnippetResult {
+  success: boolean;
+  value?: unknown;
+  logs: string[];
+  durationMs: number;
+  error?: string;
+}
+
+/*
+ * Runs inside the worker. The snippet is compiled in a fresh vm context, and its input
+ * is parsed and its output serialized inside that context, so the snippet never holds
+ * a reference to an object (or function) of the worker realm and cannot reach `process`
+ * or `require`. The worker's resource limits bound memory; the vm timeout bounds
+ * synchronous work and the parent terminates the worker if pending async work overruns.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const wrapped = [
+  '(async () => {',
+  '  const __logs = [];',
+  '  const __format = (args) => args.map(a => typeof a === "string" ? a : JSON.stringify(a)).join(" ");',
+  '  const console = { log: (...a) => { __logs.push(__format(a)); }, warn: (...a) => { __logs.push(__format(a)); }, error: (...a) => { __logs.push(__format(a)); } };',
+  '  const { messages, variables, lastResponse } = JSON.parse(__input);',
+  '  try {',
+  '    const __value = await (async () => {',
+  workerData.code,
+  '    })();',
+  '    return JSON.stringify({ ok: true, value: __value === undefined ? null : __value, logs: __logs });',
+  '  } catch (e) {',
+  '    return JSON.stringify({ ok: false, error: e && e.message ? e.message : String(e), logs: __logs });',
+  '  }',
+  '})()'
+].join('\\n');
+
+(async () => {
+  try {
+    const context = vm.createContext({ __input: workerData.input }, { codeGeneration: { strings: false, wasm: false } });
+    const script = new vm.Script(wrapped, { filename: 'code-node.js' });
+    const output = await script.runInContext(context, { timeout: workerData.timeoutMs });
+    parentPort.postMessage({ output });
+  } catch (e) {
+    parentPort.postMessage({ output: JSON.stringify({ ok: false, error: e && e.message ? e.message : String(e), logs: [] }) });
+  }
+})();
+`;
+
+export class CodeNodeUtility {
+  /**
+   * Run a user-authored snippet in a sandbox with time and memory limits.
+   * The snippet is the body of an async function; its return value must be JSON-serializable.
+   */
+  static runSnippet(
+    code: string,
+    input: CodeSnippetInput,
+    limits: { timeoutMs: number; memoryLimitMb: number }
+  ): Promise<CodeSnippetResult> {
+    const startTime = Date.now();
+
+    return new Promise(resolve => {
+      let settled = false;
+      const finish = (result: Omit<CodeSnippetResult, 'durationMs'>) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        worker.terminate().catch(() => undefined);
+        resolve({ ...result, durationMs: Date.now() - startTime });
+      };
+
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: { code, input: JSON.stringify(input), timeoutMs: limits.timeoutMs },
+        resourceLimits: {
+          maxOldGenerationSizeMb: limits.memoryLimitMb,
+          maxYoungGenerationSizeMb: Math.max(1, Math.floor(limits.memoryLimitMb / 4))
+        }
+      });
+
+      const timer = setTimeout(() => {
+        log.warn(`Code snippet exceeded its time limit of ${limits.timeoutMs}ms, terminating worker`);
+        finish({ success: false, logs: [], error: `Script execution timed out after ${limits.timeoutMs}ms` });
+      }, limits.timeoutMs + WORKER_GRACE_MS);
+
+      worker.on('message', (message: { output: string }) => {
+        try {
+          const parsed = JSON.parse(message.output) as { ok: boolean; value?: unknown; error?: string; logs: string[] };
+          finish(parsed.ok
+            ? { success: true, value: parsed.value, logs: parsed.logs }
+            : { success: false, error: parsed.error, logs: parsed.logs });
+        } catch (error) {
+          finish({ success: false, logs: [], error: `Snippet output could not be read: ${error instanceof Error ? error.message : String(error)}` });
+        }
+      });
+
+      worker.on('error', (error: Error & { code?: string }) => {
+        const message = error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? `Script exceeded its memory limit of ${limits.memoryLimitMb}MB`
+          : error.message;
+        log.warn('Code snippet worker failed', { error: message });
+        finish({ success: false, logs: [], error: message });
+      });
+
+      worker.on('exit', (exitCode) => {
+        finish({ success: false, logs: [], error: `Sandbox exited unexpectedly (code ${exitCode})` });
+      });
+    });
+  }
+
+  /**
+   * Interpret the value returned by a snippet.
+   * A string becomes the message; an object may carry `message` and/or `variables`.
+   */
+  static interpretResult(value: unknown): { message?: string; variableUpdates?: FlowVariables; error?: string } {
+    if (value === null || value === undefined) {
+      return {};
+    }
+    if (typeof value === 'string') {
+      return { message: value };
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return { message: JSON.stringify(value) };
+    }
+
+    const { message, variables } = value as { message?: unknown; variables?: unknown };
+    if (message === undefined && variables === undefined) {
+      return { error: 'Return a string, or an object with "message" and/or "variables"' };
+    }
+    if (variables !== undefined && (typeof variables !== 'object' || variables === null || Array.isArray(variables))) {
+      return { error: '"variables" must be an object' };
+    }
+    return {
+      message: message === undefined || message === null
+        ? undefined
+        : typeof message === 'string' ? message : JSON.stringify(message),
+      variableUpdates: variables as FlowVariables | undefined
+    };
+  }
+}
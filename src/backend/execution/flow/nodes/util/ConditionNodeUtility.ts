@@ -0,0 +1,145 @@
+import { createLogger } from '@/utils/logger';
+import { FlujoChatMessage } from '@/shared/types/chat';
+import { ConditionRule, ConditionNodePrepResult } from '../../types';
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/util/ConditionNodeUtility');
+
+export class ConditionNodeUtility {
+  /**
+   * Evaluate the rules in order and return the first one that matches
+   */
+  static findMatchingRule(prepResult: ConditionNodePrepResult): ConditionRule | undefined {
+    for (const rule of prepResult.rules) {
+      try {
+        if (this.evaluateRule(rule, prepResult)) {
+          log.debug(`Rule ${rule.id} matched`, { source: rule.source, operator: rule.operator });
+          return rule;
+        }
+      } catch (error) {
+        // A broken rule (e.g. invalid regex) must not stop the remaining rules from being evaluated
+        log.warn(`Failed to evaluate rule ${rule.id}, treating as no match`, error);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Evaluate a single rule against the prepared state
+   */
+  static evaluateRule(rule: ConditionRule, prepResult: ConditionNodePrepResult): boolean {
+    const subject = this.resolveSource(rule, prepResult);
+    const expected = rule.value ?? '';
+
+    switch (rule.operator) {
+      case 'exists':
+        return subject !== undefined && subject !== null && subject !== '';
+      case 'matches':
+        return new RegExp(expected, rule.flags || '').test(this.stringify(subject));
+      case 'contains':
+        return this.stringify(subject).includes(expected);
+      case 'equals':
+        return this.stringify(subject) === expected;
+      case 'notEquals':
+        return this.stringify(subject) !== expected;
+      case 'gt':
+      case 'lt': {
+        const left = Number(subject);
+        const right = Number(expected);
+        if (Number.isNaN(left) || Number.isNaN(right)) {
+          return false;
+        }
+        return rule.operator === 'gt' ? left > right : left < right;
+      }
+      default:
+        log.warn(`Unknown operator in rule ${rule.id}: ${rule.operator}`);
+        return false;
+    }
+  }
+
+  /**
+   * Resolve the value a rule is evaluated against
+   */
+  private static resolveSource(rule: ConditionRule, prepResult: ConditionNodePrepResult): unknown {
+    const messages = prepResult.messages;
+
+    switch (rule.source) {
+      case 'lastMessage':
+        return this.messageText(messages[messages.length - 1]);
+      case 'lastUserMessage':
+        return this.messageText(this.findLast(messages, 'user'));
+      case 'lastAssistantMessage':
+        return this.messageText(this.findLast(messages, 'assistant'));
+      case 'messageCount':
+        return messages.filter(msg => msg.role !== 'system').length;
+      case 'lastResponse':
+        return rule.path ? this.getByPath(this.parseResponse(prepResult.lastResponse), rule.path) : prepResult.lastResponse;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Read a value from an object using a dot/bracket path such as "result.items[0].status".
+   * A leading "$." (JSON path root) is accepted and ignored.
+   */
+  static getByPath(target: unknown, path: string): unknown {
+    const segments = path
+      .replace(/^\$\.?/, '')
+      .replace(/\[(\w+)\]/g, '.$1')
+      .split('.')
+      .filter(Boolean);
+
+    let current: unknown = target;
+    for (const segment of segments) {
+      if (current === null || current === undefined || typeof current !== 'object') {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+    return current;
+  }
+
+  /**
+   * lastResponse is often the raw model output; try to treat it as JSON when it is a string
+   */
+  private static parseResponse(lastResponse: ConditionNodePrepResult['lastResponse']): unknown {
+    if (typeof lastResponse !== 'string') {
+      return lastResponse;
+    }
+    try {
+      return JSON.parse(lastResponse);
+    } catch {
+      return lastResponse;
+    }
+  }
+
+  private static findLast(messages: FlujoChatMessage[], role: FlujoChatMessage['role']): FlujoChatMessage | undefined {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === role) {
+        return messages[i];
+      }
+    }
+    return undefined;
+  }
+
+  private static messageText(message?: FlujoChatMessage): string {
+    if (!message || message.content === null || message.content === undefined) {
+      return '';
+    }
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+    // Content parts: join the text parts
+    return (message.content as Array<{ type: string; text?: string }>)
+      .map(part => (part.type === 'text' ? part.text || '' : ''))
+      .join('');
+  }
+
+  private static stringify(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
@@ -0,0 +1,258 @@
+import OpenAI from 'openai';
+import { createLogger } from '@/utils/logger';
+import { modelService } from '@/backend/services/model';
+import { countSingleMessageTokens, countToolTokens, countMessageTokens, truncateToTokens, contentText } from '@/backend/utils/TokenCounter';
+import { FlujoChatMessage } from '@/shared/types/chat';
+import { ModelHandler } from '../../handlers/ModelHandler';
+import { ContextCompactionSettings, ContextCompactionInfo, RecordingSettings } from '../../types';
+import { ModelCallUsage } from '../../types/modelHandler';
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/util/ContextCompactionUtility');
+
+export const DEFAULT_RESERVE_TOKENS = 1024;
+export const DEFAULT_KEEP_RECENT_MESSAGES = 6;
+export const DEFAULT_MAX_TOOL_RESULT_TOKENS = 500;
+
+const SUMMARY_PROMPT = [
+  'You summarize the earlier part of a conversation between a user, an assistant and its tools.',
+  'Keep the facts, decisions, open questions and tool results the assistant still needs to continue the conversation.',
+  'Reply with the summary only.'
+].join('\n');
+
+// Tokens the summarizer may spend on its answer
+const SUMMARY_RESERVE_TOKENS = 1024;
+
+export interface ContextCompactionInput {
+  // The messages of the model call, the system message first
+  messages: FlujoChatMessage[];
+  modelId: string;
+  tools?: OpenAI.ChatCompletionTool[];
+  settings?: ContextCompactionSettings;
+  nodeId: string;
+  nodeName: string;
+  signal?: AbortSignal;
+  recording?: RecordingSettings;
+}
+
+export interface ContextCompactionResult {
+  messages: FlujoChatMessage[];
+  // Set when the messages had to be compacted
+  info?: ContextCompactionInfo;
+  // Usage of the summarizer call
+  usage?: ModelCallUsage;
+}
+
+// Messages that are dropped or summarized together: an assistant message with tool calls
+// stays with its tool results, so no tool result loses the call it answers
+interface MessageBlock {
+  messages: FlujoChatMessage[];
+  tokens: number;
+}
+
+export class ContextCompactionUtility {
+  /**
+   * Fit the messages of a model call into the context of the model. Messages that fit are
+   * returned unchanged; the conversation itself is never modified. Without a context length
+   * on the model or a token budget in the settings nothing is compacted.
+   */
+  static async compact(input: ContextCompactionInput): Promise<ContextCompactionResult> {
+    const { messages, modelId, tools, settings } = input;
+    const strategy = settings?.strategy ?? 'drop_oldest';
+    if (strategy === 'none' || messages.length === 0) {
+      return { messages };
+    }
+
+    const model = await modelService.getModel(modelId);
+    const limits = [model?.contextLength, settings?.maxContextTokens].filter((limit): limit is number => !!limit && limit > 0);
+    if (limits.length === 0) {
+      return { messages };
+    }
+
+    const modelName = model?.name;
+    const budgetTokens = Math.min(...limits) - (settings?.reserveTokens ?? DEFAULT_RESERVE_TOKENS) - countToolTokens(tools, modelName);
+    const tokensBefore = countMessageTokens(messages, modelName);
+    if (tokensBefore <= budgetTokens) {
+      return { messages };
+    }
+
+    log.info(`Messages take ${tokensBefore} tokens, ${budgetTokens} available - compacting with ${strategy}`, { nodeId: input.nodeId });
+
+    const info: ContextCompactionInfo = {
+      strategy,
+      budgetTokens,
+      tokensBefore,
+      tokensAfter: tokensBefore,
+      droppedMessages: 0,
+      truncatedToolResults: 0,
+      summarizedMessages: 0
+    };
+
+    const [first, ...rest] = messages;
+    let systemMessage: FlujoChatMessage | undefined = first.role === 'system' ? first : undefined;
+    let blocks = this.toBlocks(systemMessage ? rest : messages, modelName);
+    let usage: ModelCallUsage | undefined;
+
+    if (strategy === 'truncate_tool_results') {
+      blocks = this.truncateToolResults(systemMessage, blocks, budgetTokens, settings?.maxToolResultTokens ?? DEFAULT_MAX_TOOL_RESULT_TOKENS, modelName, info);
+    } else if (strategy === 'summarize') {
+      const summarized = await this.summarize(input, systemMessage, blocks, info);
+      systemMessage = summarized.systemMessage;
+      blocks = summarized.blocks;
+      usage = summarized.usage;
+    }
+
+    // Whatever still does not fit is dropped, oldest first; the newest block is always kept
+    while (blocks.length > 1 && this.totalTokens(systemMessage, blocks, modelName) > budgetTokens) {
+      info.droppedMessages += blocks.shift()!.messages.length;
+    }
+
+    const compacted = [...(systemMessage ? [systemMessage] : []), ...blocks.flatMap(block => block.messages)];
+    info.tokensAfter = countMessageTokens(compacted, modelName);
+    if (info.tokensAfter > budgetTokens) {
+      log.warn(`Messages still take ${info.tokensAfter} tokens after compaction, ${budgetTokens} available`, { nodeId: input.nodeId });
+    }
+
+    log.info('Compacted messages', info);
+    return { messages: compacted, info, usage };
+  }
+
+  private static toBlocks(messages: FlujoChatMessage[], modelName?: string): MessageBlock[] {
+    const blocks: MessageBlock[] = [];
+    for (const message of messages) {
+      const tokens = countSingleMessageTokens(message, modelName);
+      const last = blocks[blocks.length - 1];
+      if (message.role === 'tool' && last) {
+        last.messages.push(message);
+        last.tokens += tokens;
+      } else {
+        blocks.push({ messages: [message], tokens });
+      }
+    }
+    return blocks;
+  }
+
+  private static totalTokens(systemMessage: FlujoChatMessage | undefined, blocks: MessageBlock[], modelName?: string): number {
+    return countMessageTokens(systemMessage ? [systemMessage] : [], modelName) + blocks.reduce((sum, block) => sum + block.tokens, 0);
+  }
+
+  // Shorten tool results, oldest first, until the messages fit
+  private static truncateToolResults(
+    systemMessage: FlujoChatMessage | undefined,
+    blocks: MessageBlock[],
+    budgetTokens: number,
+    maxToolResultTokens: number,
+    modelName: string | undefined,
+    info: ContextCompactionInfo
+  ): MessageBlock[] {
+    let total = this.totalTokens(systemMessage, blocks, modelName);
+    return blocks.map(block => {
+      if (total <= budgetTokens) {
+        return block;
+      }
+      const messages = block.messages.map(message => {
+        if (message.role !== 'tool' || total <= budgetTokens) {
+          return message;
+        }
+        const truncated = truncateToTokens(contentText(message.content), maxToolResultTokens, modelName);
+        if (truncated.removedTokens === 0) {
+          return message;
+        }
+        info.truncatedToolResults++;
+        const shortened: FlujoChatMessage = {
+          ...message,
+          content: `${truncated.text}\n[... ${truncated.removedTokens} tokens of this tool result were left out to fit the context]`
+        };
+        total -= countSingleMessageTokens(message, modelName) - countSingleMessageTokens(shortened, modelName);
+        return shortened;
+      });
+      return { messages, tokens: messages.reduce((sum, message) => sum + countSingleMessageTokens(message, modelName), 0) };
+    });
+  }
+
+  // Replace the blocks before the most recent messages with a summary in the system message
+  private static async summarize(
+    input: ContextCompactionInput,
+    systemMessage: FlujoChatMessage | undefined,
+    blocks: MessageBlock[],
+    info: ContextCompactionInfo
+  ): Promise<{ systemMessage: FlujoChatMessage | undefined; blocks: MessageBlock[]; usage?: ModelCallUsage }> {
+    const keepRecentMessages = input.settings?.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES;
+    // The newest block is always kept
+    let split = blocks.length - 1;
+    let kept = blocks[split]?.messages.length ?? 0;
+    while (split > 0 && kept < keepRecentMessages) {
+      split--;
+      kept += blocks[split].messages.length;
+    }
+    const older = blocks.slice(0, Math.max(0, split));
+    if (older.length === 0) {
+      return { systemMessage, blocks };
+    }
+
+    const summarizerModel = input.settings?.summarizerModel || input.modelId;
+    info.summarizerModel = summarizerModel;
+
+    const summary = await this.writeSummary(input, summarizerModel, older.flatMap(block => block.messages));
+    if (!summary.success) {
+      log.warn(`Could not summarize older messages, dropping them instead: ${summary.error}`);
+      info.summaryError = summary.error;
+      return { systemMessage, blocks, usage: summary.usage };
+    }
+
+    const summaryText = `Summary of the earlier conversation:\n${summary.text}`;
+    const withSummary: FlujoChatMessage = systemMessage
+      ? { ...systemMessage, content: `${contentText(systemMessage.content)}\n\n${summaryText}` } as FlujoChatMessage
+      : { id: crypto.randomUUID(), role: 'system', content: summaryText, timestamp: Date.now() };
+    info.summarizedMessages = older.reduce((sum, block) => sum + block.messages.length, 0);
+
+    log.debug(`Summarized ${info.summarizedMessages} messages with ${summarizerModel}`);
+    return { systemMessage: withSummary, blocks: blocks.slice(split), usage: summary.usage };
+  }
+
+  private static async writeSummary(
+    input: ContextCompactionInput,
+    summarizerModel: string,
+    messages: FlujoChatMessage[]
+  ): Promise<{ success: true; text: string; usage?: ModelCallUsage } | { success: false; error: string; usage?: ModelCallUsage }> {
+    let transcript = messages.map(message => {
+      if (message.role === 'tool') {
+        return `Tool result (${message.tool_call_id}): ${contentText(message.content)}`;
+      }
+      const calls = message.role === 'assistant' && message.tool_calls
+        ? message.tool_calls.map(call => `\n[called ${call.function.name} (${call.id}) with ${call.function.arguments}]`).join('')
+        : '';
+      return `${message.role}: ${contentText(message.content)}${calls}`;
+    }).join('\n\n');
+
+    // The transcript itself has to fit into the summarizer's context
+    const model = await modelService.getModel(summarizerModel);
+    if (model?.contextLength) {
+      const available = model.contextLength - SUMMARY_RESERVE_TOKENS - countMessageTokens([{ role: 'system', content: SUMMARY_PROMPT }], model.name);
+      transcript = truncateToTokens(transcript, Math.max(0, available), model.name).text;
+    }
+
+    const result = await ModelHandler.callModel({
+      modelId: summarizerModel,
+      prompt: SUMMARY_PROMPT,
+      messages: [
+        { id: crypto.randomUUID(), role: 'system', content: SUMMARY_PROMPT, timestamp: Date.now() },
+        { id: crypto.randomUUID(), role: 'user', content: transcript, timestamp: Date.now() }
+      ],
+      iteration: 1,
+      maxIterations: 1,
+      nodeName: `${input.nodeName} (summarizer)`,
+      nodeId: input.nodeId,
+      signal: input.signal,
+      recording: input.recording
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error.message };
+    }
+    if (!result.value.content?.trim()) {
+      return { success: false, error: 'The summarizer returned an empty answer', usage: result.value.usage };
+    }
+    return { success: true, text: result.value.content.trim(), usage: result.value.usage };
+  }
+}
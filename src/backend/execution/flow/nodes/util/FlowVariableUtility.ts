@@ -0,0 +1,87 @@
+import { createLogger } from '@/utils/logger';
+import { FlujoChatMessage } from '@/shared/types/chat';
+import { FlowVariables, FlowVariableValue } from '../../types';
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/util/FlowVariableUtility');
+
+// Variable names usable in ${var:name} placeholders
+const VARIABLE_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+export class FlowVariableUtility {
+  /**
+   * Check that a name can be referenced from a prompt
+   */
+  static isValidName(name: string): boolean {
+    return VARIABLE_NAME_REGEX.test(name);
+  }
+
+  /**
+   * Convert a value to a variable value. Tool results arrive as text, so JSON text
+   * is parsed; anything else that is not JSON is kept as a string.
+   */
+  static toVariableValue(value: unknown): FlowVariableValue {
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        try {
+          return JSON.parse(trimmed) as FlowVariableValue;
+        } catch {
+          return value;
+        }
+      }
+      return value;
+    }
+    if (value === undefined) {
+      return null;
+    }
+    return JSON.parse(JSON.stringify(value)) as FlowVariableValue;
+  }
+
+  /**
+   * Collect the tool results of a node that are mapped to variables.
+   * Only results produced while the node was active count; a later result of
+   * the same tool overwrites an earlier one.
+   *
+   * @param toolResultVariables - Variable name per tool name (with or without the server prefix)
+   */
+  static extractToolResults(
+    messages: FlujoChatMessage[],
+    nodeId: string,
+    toolResultVariables: Record<string, string>
+  ): FlowVariables {
+    const updates: FlowVariables = {};
+    if (Object.keys(toolResultVariables).length === 0) {
+      return updates;
+    }
+
+    // Tool name of each call the node made
+    const toolNames = new Map<string, string>();
+    for (const message of messages) {
+      if (message.role === 'assistant' && message.tool_calls) {
+        for (const toolCall of message.tool_calls) {
+          toolNames.set(toolCall.id, toolCall.function.name);
+        }
+      }
+    }
+
+    for (const message of messages) {
+      if (message.role !== 'tool' || message.processNodeId !== nodeId) continue;
+
+      const fullName = toolNames.get(message.tool_call_id);
+      if (!fullName) continue;
+      // MCP tools are named _-_-_server_-_-_tool
+      const toolName = fullName.split('_-_-_').pop() || fullName;
+      const variableName = toolResultVariables[fullName] || toolResultVariables[toolName];
+      if (!variableName) continue;
+
+      const content = typeof message.content === 'string'
+        ? message.content
+        : (message.content || []).map(part => ('text' in part ? part.text : '')).join('');
+      updates[variableName] = this.toVariableValue(content);
+      log.debug(`Mapped result of tool ${toolName} to variable "${variableName}"`);
+    }
+
+    return updates;
+  }
+}
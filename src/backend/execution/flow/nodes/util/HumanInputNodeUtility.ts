@@ -0,0 +1,94 @@
+import { createLogger } from '@/utils/logger';
+import { HumanInputSchema, HumanInputFieldSchema } from '../../types';
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/util/HumanInputNodeUtility');
+
+// Form used when a human input node has no schema configured
+export const DEFAULT_HUMAN_INPUT_SCHEMA: HumanInputSchema = {
+  type: 'object',
+  properties: {
+    response: { type: 'string', title: 'Response', multiline: true }
+  },
+  required: ['response']
+};
+
+export class HumanInputNodeUtility {
+  /**
+   * Check submitted values against the form schema.
+   * Returns the values coerced to the declared field types (unknown fields are dropped)
+   * together with one error message per invalid field.
+   */
+  static validateValues(
+    schema: HumanInputSchema,
+    values: Record<string, unknown>
+  ): { values: Record<string, unknown>; errors: string[] } {
+    const result: Record<string, unknown> = {};
+    const errors: string[] = [];
+    const required = new Set(schema.required || []);
+
+    for (const [key, field] of Object.entries(schema.properties || {})) {
+      const label = field.title || key;
+      const raw = values[key] ?? field.default;
+
+      if (raw === undefined || raw === null || raw === '') {
+        if (required.has(key)) {
+          errors.push(`${label} is required`);
+        }
+        continue;
+      }
+
+      const coerced = this.coerceValue(field, raw);
+      if (coerced === undefined) {
+        errors.push(`${label} must be a ${field.type}`);
+        continue;
+      }
+      if (field.enum && !field.enum.some(option => option === coerced)) {
+        errors.push(`${label} must be one of: ${field.enum.join(', ')}`);
+        continue;
+      }
+      result[key] = coerced;
+    }
+
+    log.debug('Validated human input values', { fields: Object.keys(result), errors: errors.length });
+    return { values: result, errors };
+  }
+
+  /**
+   * Convert a submitted value to the field type, or undefined if it cannot be converted
+   */
+  static coerceValue(field: HumanInputFieldSchema, value: unknown): string | number | boolean | undefined {
+    switch (field.type) {
+      case 'string':
+        return typeof value === 'object' ? undefined : String(value);
+      case 'number':
+      case 'integer': {
+        const num = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(num) || (field.type === 'integer' && !Number.isInteger(num))) {
+          return undefined;
+        }
+        return num;
+      }
+      case 'boolean':
+        if (typeof value === 'boolean') return value;
+        if (value === 'true') return true;
+        if (value === 'false') return false;
+        return undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Render submitted values as the content of a user message
+   */
+  static formatAsMessage(schema: HumanInputSchema, values: Record<string, unknown>): string {
+    const entries = Object.entries(values);
+    if (entries.length === 1) {
+      return String(entries[0][1]);
+    }
+    return entries
+      .map(([key, value]) => `${schema.properties[key]?.title || key}: ${String(value)}`)
+      .join('\n');
+  }
+}
@@ -0,0 +1,194 @@
+import OpenAI from 'openai';
+import { createLogger } from '@/utils/logger';
+import { JsonSchema } from '../../types';
+
+// Create a logger instance for this file
+const log = createLogger('backend/flow/execution/nodes/util/StructuredOutputUtility');
+
+export const DEFAULT_OUTPUT_MAX_RETRIES = 2;
+// Validation errors reported back to the model per attempt
+const MAX_REPORTED_ERRORS = 10;
+
+export class StructuredOutputUtility {
+  /**
+   * Build the `response_format` sent to providers that support JSON Schema output.
+   * Strict mode is off so that schemas without `additionalProperties: false` are accepted.
+   */
+  static buildResponseFormat(schema: JsonSchema): OpenAI.ResponseFormatJSONSchema {
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: typeof schema.title === 'string' && /^[a-zA-Z0-9_-]{1,64}$/.test(schema.title) ? schema.title : 'node_output',
+        schema,
+        strict: false
+      }
+    };
+  }
+
+  /**
+   * Instruction added to the system prompt, so that providers without
+   * `response_format` support still know the expected shape.
+   */
+  static buildInstruction(schema: JsonSchema): string {
+    return [
+      'Your final answer must be a single JSON value that matches this JSON Schema.',
+      'Reply with the JSON only, without any explanation or markdown.',
+      '',
+      JSON.stringify(schema, null, 2)
+    ].join('\n');
+  }
+
+  /**
+   * Message sent back to the model after an answer that did not match the schema
+   */
+  static buildRetryMessage(errors: string[]): string {
+    return [
+      'Your answer does not match the required JSON Schema:',
+      ...errors.slice(0, MAX_REPORTED_ERRORS).map(error => `- ${error}`),
+      'Reply again with corrected JSON only.'
+    ].join('\n');
+  }
+
+  /**
+   * Parse a model answer as JSON. Tolerates a surrounding markdown code fence.
+   */
+  static parseOutput(content: string): { value?: unknown; error?: string } {
+    const trimmed = content.trim();
+    const fenced = trimmed.match(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/i);
+    const json = fenced ? fenced[1] : trimmed;
+
+    if (!json) {
+      return { error: 'The answer is empty' };
+    }
+    try {
+      return { value: JSON.parse(json) };
+    } catch (error) {
+      return { error: `The answer is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  /**
+   * Validate a value against a JSON Schema.
+   * Covers the keywords used for output contracts: type, enum, const, properties, required,
+   * additionalProperties, items, anyOf/oneOf/allOf and the common string, number and array bounds.
+   * Returns one message per violation, empty when the value matches.
+   */
+  static validate(schema: JsonSchema, value: unknown, path: string = '$'): string[] {
+    const errors: string[] = [];
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+      if (!types.some(type => this.matchesType(type, value))) {
+        errors.push(`${path} must be of type ${types.join(' or ')}`);
+        return errors;
+      }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some(option => this.isEqual(option, value))) {
+      errors.push(`${path} must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+    if (schema.const !== undefined && !this.isEqual(schema.const, value)) {
+      errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      for (const sub of schema.allOf as JsonSchema[]) {
+        errors.push(...this.validate(sub, value, path));
+      }
+    }
+    if (Array.isArray(schema.anyOf) && !(schema.anyOf as JsonSchema[]).some(sub => this.validate(sub, value, path).length === 0)) {
+      errors.push(`${path} must match at least one of the allowed schemas`);
+    }
+    if (Array.isArray(schema.oneOf) && (schema.oneOf as JsonSchema[]).filter(sub => this.validate(sub, value, path).length === 0).length !== 1) {
+      errors.push(`${path} must match exactly one of the allowed schemas`);
+    }
+
+    if (typeof value === 'string') {
+      if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+        errors.push(`${path} must be at least ${schema.minLength} characters long`);
+      }
+      if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+        errors.push(`${path} must be at most ${schema.maxLength} characters long`);
+      }
+      if (typeof schema.pattern === 'string') {
+        try {
+          if (!new RegExp(schema.pattern).test(value)) {
+            errors.push(`${path} must match the pattern ${schema.pattern}`);
+          }
+        } catch {
+          log.warn(`Ignoring invalid pattern in output schema: ${schema.pattern}`);
+        }
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (typeof schema.minimum === 'number' && value < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (typeof schema.maximum === 'number' && value > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+        value.forEach((item, index) => {
+          errors.push(...this.validate(schema.items as JsonSchema, item, `${path}[${index}]`));
+        });
+      }
+    }
+
+    if (this.matchesType('object', value)) {
+      const object = value as Record<string, unknown>;
+      const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+
+      for (const key of (Array.isArray(schema.required) ? schema.required as string[] : [])) {
+        if (!(key in object)) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertyValue] of Object.entries(object)) {
+        if (properties[key]) {
+          errors.push(...this.validate(properties[key], propertyValue, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+          errors.push(...this.validate(schema.additionalProperties as JsonSchema, propertyValue, `${path}.${key}`));
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private static matchesType(type: string, value: unknown): boolean {
+    switch (type) {
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'integer':
+        return typeof value === 'number' && Number.isInteger(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'null':
+        return value === null;
+      default:
+        return true;
+    }
+  }
+
+  private static isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
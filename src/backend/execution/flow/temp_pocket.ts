@@ -1,15 +1,30 @@
 import cloneDeep from "lodash/cloneDeep";
 import { createLogger } from '@/utils/logger';
-import { STAY_ON_NODE_ACTION } from './types';
+import { STAY_ON_NODE_ACTION, RetryAttempt, RetryPolicy, RetryableErrorType } from './types';
+import { getErrorType } from './errorFactory';
 
 const log = createLogger('backend/execution/flow/temp_pocket');
 
 export const DEFAULT_ACTION = "default"; // Default action for 
 
+// Error classes retried when a retry policy does not list its own
+const DEFAULT_RETRY_ON: RetryableErrorType[] = ['model', 'mcp', 'timeout'];
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+
+// Short description of a thrown error or failed exec result
+const describeFailure = (failure: any): string => {
+  if (failure instanceof Error) return failure.message;
+  if (typeof failure?.error === 'string') return failure.error;
+  if (typeof failure?.message === 'string') return failure.message;
+  return String(failure);
+};
+
 export abstract class BaseNode {
     public flow_params: any;
     public node_params: any; // Add node_params
     public successors: Map<string, BaseNode>;
+    // Set by FlowExecutor for the current step; aborted when the step times out
+    public abortSignal?: AbortSignal;
 
     constructor() {
         log.debug(`BaseNode constructor called`);
@@ -147,6 +162,12 @@ export abstract class BaseNode {
     // Add verbose logging of the exec result
     log.verbose('run execResult', JSON.stringify(execResult));
     
+    // The executor already recorded the timeout, so a late result must not touch the state
+    if (this.abortSignal?.aborted) {
+      log.warn(`run aborted before post, discarding exec result`);
+      throw this.abortSignal.reason;
+    }
+    
     const action = await this.post(prepResult, execResult, sharedState, this.node_params); // Pass node_params to post
     
     log.debug(`action`, { action });
@@ -162,56 +183,119 @@ export abstract class BaseNode {
 export abstract class RetryNode extends BaseNode {
     protected maxRetries: number;
     protected intervalMs: number;
+    // Attempts of the last execution, read by FlowExecutor for the execution trace
+    public attempts: RetryAttempt[] = [];
 
-    constructor(maxRetries: number, intervalMs: number) {
+    /**
+     * @param maxRetries - Attempts when the node has no retry policy configured
+     * @param intervalMs - Delay between attempts when the policy sets no backoff
+     */
+    constructor(maxRetries: number = 1, intervalMs: number = 0) {
         log.debug(`RetryNode constructor called with maxRetries: ${maxRetries}, intervalMs: ${intervalMs}`);
         super();
         this.maxRetries = maxRetries;
         this.intervalMs = intervalMs;
     }
 
+  /**
+   * Runs execCore until it succeeds or the node's retry policy (`properties.retry`) gives up.
+   * Thrown errors and results with `success: false` both count as failures; they are only
+   * retried when their error class is listed in `retryOn`. The last failure is passed on as is.
+   */
   public async execWrapper(prepResult: any, node_params?: any): Promise<any> {
     log.debug(`execWrapper called with prepResult`, { prepResult });
+
+    const policy: RetryPolicy = node_params?.properties?.retry || {};
+    const maxAttempts = Math.max(1, policy.maxAttempts ?? this.maxRetries);
+    const retryOn = policy.retryOn ?? DEFAULT_RETRY_ON;
+    let delayMs = policy.backoffMs ?? this.intervalMs;
     
     // Add verbose logging of the input parameters
     log.verbose('RetryNode execWrapper input', JSON.stringify({
       prepResult,
       node_params,
-      maxRetries: this.maxRetries,
-      intervalMs: this.intervalMs
+      maxAttempts,
+      retryOn,
+      delayMs
     }));
-    
-    for (let i = 0; i < this.maxRetries; i++) {
+
+    this.attempts = [];
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      let result: any;
+      let thrown = false;
+      let error: unknown;
       try {
-        const result = await this.execCore(prepResult, node_params);
-        log.debug(`execWrapper finished successfully. Result`, { result });
+        result = await this.execCore(prepResult, node_params);
+      } catch (e) {
+        thrown = true;
+        error = e;
+      }
+
+      const failed = thrown || result?.success === false;
+      const failure = thrown ? error : result;
+      const errorType = failed ? getErrorType(failure) : undefined;
+      this.attempts.push({
+        attempt,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        success: !failed,
+        errorType,
+        error: failed ? describeFailure(failure) : undefined
+      });
+
+      if (!failed) {
+        log.debug(`execWrapper finished successfully after ${attempt} attempt(s). Result`, { result });
         
         // Add verbose logging of the successful result
         log.verbose('RetryNode execWrapper success result', JSON.stringify(result));
         
         return result;
-      } catch (error) {
-        log.warn(`Retry attempt ${i+1} failed`, { error });
-        
-        // Add verbose logging of the retry attempt
-        log.verbose('RetryNode execWrapper retry attempt', JSON.stringify({
-          attempt: i + 1,
-          maxRetries: this.maxRetries,
-          error: error instanceof Error ? error.message : String(error)
-        }));
-        
-        await new Promise(resolve => setTimeout(resolve, this.intervalMs));
       }
+
+      // A timed out step is over, whatever the policy says
+      const retryable = attempt < maxAttempts && errorType !== undefined && retryOn.includes(errorType) && !this.abortSignal?.aborted;
+      if (!retryable) {
+        if (attempt > 1) {
+          log.error(`Giving up after ${attempt} attempts`, { errorType });
+        }
+        if (thrown) {
+          throw error;
+        }
+        return result;
+      }
+
+      log.warn(`Attempt ${attempt}/${maxAttempts} failed with a ${errorType} error, retrying in ${delayMs} ms`, { error: describeFailure(failure) });
+      
+      // Add verbose logging of the retry attempt
+      log.verbose('RetryNode execWrapper retry attempt', JSON.stringify({
+        attempt,
+        maxAttempts,
+        errorType,
+        delayMs
+      }));
+      
+      await this.waitBeforeRetry(delayMs);
+      // Aborted while waiting: the step is over, pass on the last failure
+      if (this.abortSignal?.aborted) {
+        if (thrown) {
+          throw error;
+        }
+        return result;
+      }
+      delayMs = delayMs * (policy.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER);
     }
+  }
 
-    log.error(`Max retries reached after ${this.maxRetries} attempts`);
-    
-    // Add verbose logging of the max retries error
-    log.verbose('RetryNode execWrapper max retries reached', JSON.stringify({
-      maxRetries: this.maxRetries
-    }));
-    
-    throw new Error("Max retries reached after " + this.maxRetries + " attempts");
+  // Backoff delay that ends early when the step is aborted
+  private waitBeforeRetry(delayMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, delayMs);
+      this.abortSignal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
   }
 }
 
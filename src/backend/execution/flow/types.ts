@@ -1,7 +1,10 @@
 import { NodeType } from '@/shared/types/flow/flow';
-import { NodeExecutionTrackerEntry } from '@/shared/types/flow/response';
+import { NodeExecutionTrackerEntry, UsageTotals, UsageTracking } from '@/shared/types/flow/response';
 import { FlujoChatMessage } from '@/shared/types/chat';
 import OpenAI from 'openai';
+import type { ExecutionError } from './errors';
+import type { ModelCallUsage, ModelFallbackAttempt } from './types/modelHandler';
+import type { ModelFallbackSettings } from '@/shared/types/model';
 
 // --- Custom Chat Message Type is now imported from shared/types/chat.ts ---
 
@@ -23,6 +26,11 @@ export interface DebugStep {
   stateAfter: Partial<SharedState>; // Snapshot after node execution
   prepResultSnapshot: any; // Snapshot of the result from prep()
   execResultSnapshot: any; // Snapshot of the result from execCore()
+  // Steps executed inside a nested flow (subflow nodes only)
+  childFlowId?: string;
+  childSteps?: DebugStep[];
+  // Execution attempts of nodes with a retry policy
+  attempts?: RetryAttempt[];
 }
 
 // --- Core Flow Types ---
@@ -35,14 +43,94 @@ export interface BaseNodeParams<T = Record<string, unknown>> {
     properties: T;
 }
 
+// What to do when a loop guard limit is exceeded
+export type LoopGuardPolicy = 'error' | 'fallback' | 'finish';
+
+// Per-node visit limit, shared by nodes that can take part in a loop
+export interface NodeLoopGuardProperties {
+    // Maximum number of times the node may be entered during one run
+    maxVisits?: number;
+    onMaxVisitsExceeded?: LoopGuardPolicy;
+    // Outgoing edge to follow when onMaxVisitsExceeded is 'fallback'
+    fallbackEdgeId?: string;
+}
+
+// Execution timeout of a single step of a node, enforced by FlowExecutor
+export interface NodeTimeoutProperties {
+    // Milliseconds a step may take before the node is aborted
+    executionTimeoutMs?: number;
+}
+
+// Error classes a retry policy can name, matching the `type` of the errors in errors.ts
+export type RetryableErrorType = ExecutionError['type'];
+
+// How a node retries a failed execution, applied by RetryNode
+export interface RetryPolicy {
+    // Total number of attempts, including the first one
+    maxAttempts?: number;
+    // Delay before the first retry, multiplied by backoffMultiplier for every further one
+    backoffMs?: number;
+    backoffMultiplier?: number;
+    // Error classes that are retried
+    retryOn?: RetryableErrorType[];
+    // Also retry failed MCP tool calls the node requested
+    retryToolFailures?: boolean;
+}
+
+// Retry settings, shared by the node types built on RetryNode
+export interface NodeRetryProperties {
+    retry?: RetryPolicy;
+}
+
+// One execution attempt of a node, recorded in the execution trace
+export interface RetryAttempt {
+    attempt: number;
+    startedAt: number;
+    durationMs: number;
+    success: boolean;
+    errorType?: RetryableErrorType;
+    error?: string;
+    // Set on the attempts of a tool call the node requested
+    toolName?: string;
+    toolCallId?: string;
+}
+
 // StartNode specific properties
 export interface StartNodeProperties {
     name?: string;
     promptTemplate?: string;
+    // Step budget for one run of the flow
+    maxSteps?: number;
+    onMaxStepsExceeded?: Exclude<LoopGuardPolicy, 'fallback'>;
+    // Time limit for processing one request, across all steps
+    flowTimeoutMs?: number;
+    // Spending limits of a conversation of this flow
+    budget?: ConversationBudget;
+}
+
+// Spending limits of a conversation, across all of its runs. Set on the start node and by
+// API callers (metadata.budget); where both set a limit, the lower one applies.
+export interface ConversationBudget {
+    maxTokens?: number;
+    // In USD; only calls of models with pricing count towards it
+    maxCost?: number;
+    maxToolCalls?: number;
+    maxModelCalls?: number;
+}
+
+export type BudgetLimit = keyof ConversationBudget;
+
+// The budget limit a conversation reached, set when FlowExecutor stopped it
+export interface BudgetExceeded {
+    limit: BudgetLimit;
+    value: number;
+    used: number;
+    nodeId: string;
+    timestamp: number;
 }
 
 // ProcessNode specific properties
-export interface ProcessNodeProperties {
+export interface ProcessNodeProperties extends NodeLoopGuardProperties, NodeTimeoutProperties, NodeRetryProperties {
     name?: string;
     promptTemplate?: string;
     excludeModelPrompt?: boolean;
@@ -50,8 +138,61 @@ export interface ProcessNodeProperties {
     boundModel?: string;
     allowedTools?: string[];
     mcpNodes?: MCPNodeReference[];
+    // JSON Schema the final answer of the node must match
+    outputSchema?: JsonSchema;
+    // Number of re-prompts after an answer that does not match the schema
+    outputMaxRetries?: number;
+    // Flow variable that receives the validated answer
+    outputVariable?: string;
+    // Flow variables that receive tool results, keyed by tool name
+    toolResultVariables?: Record<string, string>;
+    // How the conversation is shortened when it does not fit into the model's context
+    contextCompaction?: ContextCompactionSettings;
+    // Models tried in order when the bound model fails, instead of the bound model's own fallbacks
+    modelFallback?: ModelFallbackSettings;
+}
+
+// 'drop_oldest' leaves out the oldest turns, 'truncate_tool_results' shortens tool results
+// starting with the oldest, 'summarize' replaces older turns with a summary. The oldest turns
+// are dropped after the other strategies when the conversation still does not fit.
+export type ContextCompactionStrategy = 'none' | 'drop_oldest' | 'truncate_tool_results' | 'summarize';
+
+export interface ContextCompactionSettings {
+    strategy: ContextCompactionStrategy;
+    // Model that writes the summary of older turns, defaults to the bound model ('summarize' only)
+    summarizerModel?: string;
+    // Newest messages that are never summarized ('summarize' only)
+    keepRecentMessages?: number;
+    // Tokens a tool result is shortened to ('truncate_tool_results' only)
+    maxToolResultTokens?: number;
+    // Tokens kept free for the answer
+    reserveTokens?: number;
+    // Token budget below the context length of the model
+    maxContextTokens?: number;
+}
+
+// What was done to fit a conversation into the context of one model call
+export interface ContextCompactionInfo {
+    strategy: Exclude<ContextCompactionStrategy, 'none'>;
+    // Tokens available for the messages
+    budgetTokens: number;
+    tokensBefore: number;
+    tokensAfter: number;
+    droppedMessages: number;
+    truncatedToolResults: number;
+    summarizedMessages: number;
+    summarizerModel?: string;
+    // The summary could not be written, older turns were dropped instead
+    summaryError?: string;
 }
 
+// JSON Schema document, as configured on a node
+export type JsonSchema = Record<string, unknown>;
+
+// Flow variables hold JSON values only, so they survive storage and the code node sandbox
+export type FlowVariableValue = string | number | boolean | null | FlowVariableValue[] | { [key: string]: FlowVariableValue };
+export type FlowVariables = Record<string, FlowVariableValue>;
+
 // FinishNode specific properties
 export interface FinishNodeProperties {
     name?: string;
@@ -65,6 +206,127 @@ export interface MCPNodeProperties {
     env?: Record<string, string>;
 }
 
+// ConditionNode rule definitions
+export type ConditionSource = 'lastMessage' | 'lastUserMessage' | 'lastAssistantMessage' | 'lastResponse' | 'messageCount';
+export type ConditionOperator = 'matches' | 'equals' | 'notEquals' | 'contains' | 'exists' | 'gt' | 'lt';
+
+export interface ConditionRule {
+    id: string;
+    label?: string;
+    source: ConditionSource;
+    // Dot/bracket path into lastResponse, e.g. "result.items[0].status" (only used for 'lastResponse')
+    path?: string;
+    operator: ConditionOperator;
+    // Compared value; a regex pattern for 'matches', a number for 'gt'/'lt'
+    value?: string;
+    // Regex flags for 'matches' (e.g. "i")
+    flags?: string;
+    // Node to route to when the rule matches (resolved to the connecting edge id at runtime)
+    targetNodeId: string;
+}
+
+// ConditionNode specific properties
+export interface ConditionNodeProperties extends NodeLoopGuardProperties {
+    name?: string;
+    // Rules are evaluated in order, the first match wins
+    rules?: ConditionRule[];
+    // Node to route to when no rule matches
+    defaultTargetNodeId?: string;
+}
+
+// How much of the parent conversation a subflow gets to see
+export type SubflowMessageInheritance = 'none' | 'lastUser' | 'lastN' | 'all';
+
+// SubflowNode specific properties
+export interface SubflowNodeProperties extends NodeTimeoutProperties, NodeRetryProperties {
+    name?: string;
+    // ID of the saved flow to run
+    flowId?: string;
+    inheritMessages?: SubflowMessageInheritance;
+    // Number of trailing messages to pass when inheritMessages is 'lastN'
+    inheritCount?: number;
+    // Upper bound on steps executed inside the subflow
+    maxSteps?: number;
+}
+
+// ParallelNode specific properties
+export interface ParallelNodeProperties {
+    name?: string;
+    // Join node where the branches meet; detected from the graph when not set
+    joinNodeId?: string;
+    // Upper bound on steps executed inside each branch
+    maxBranchSteps?: number;
+}
+
+// How a join node combines the branch results
+export type JoinStrategy = 'concat' | 'first' | 'mergePrompt';
+
+// JoinNode specific properties
+export interface JoinNodeProperties {
+    name?: string;
+    strategy?: JoinStrategy;
+    // Model and instruction used by the 'mergePrompt' strategy
+    boundModel?: string;
+    mergePrompt?: string;
+}
+
+// Field of a human input form (a subset of JSON Schema)
+export interface HumanInputFieldSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean';
+    title?: string;
+    description?: string;
+    // Restricts the field to a fixed set of options ("pick an option")
+    enum?: Array<string | number>;
+    default?: string | number | boolean;
+    // Render string fields as a multi-line text box
+    multiline?: boolean;
+}
+
+// Form definition published by a human input node (a JSON Schema object)
+export interface HumanInputSchema {
+    type: 'object';
+    title?: string;
+    properties: Record<string, HumanInputFieldSchema>;
+    required?: string[];
+}
+
+// Where the submitted values end up
+export type HumanInputInjection = 'message' | 'variable';
+
+// HumanInputNode specific properties
+export interface HumanInputNodeProperties {
+    name?: string;
+    // Text shown above the form
+    prompt?: string;
+    schema?: HumanInputSchema;
+    injectAs?: HumanInputInjection;
+    // Flow variable receiving the values when injectAs is 'variable'
+    variableName?: string;
+}
+
+// CodeNode specific properties
+export interface CodeNodeProperties extends NodeRetryProperties {
+    name?: string;
+    // Body of an async function; receives messages, variables and lastResponse
+    code?: string;
+    timeoutMs?: number;
+    memoryLimitMb?: number;
+}
+
+// Outcome of a single branch of a parallel node
+export interface ParallelBranchResult {
+    edgeId: string;
+    targetNodeId: string;
+    targetLabel?: string;
+    success: boolean;
+    content?: string;
+    error?: string;
+    steps: number;
+    finishedAt: number;
+    // Tokens and cost of the branch's model calls
+    usage?: UsageTracking;
+}
+
 // Type-specific node params
 export interface StartNodeParams extends BaseNodeParams<StartNodeProperties> {
     type: 'start';
@@ -82,8 +344,32 @@ export interface MCPNodeParams extends BaseNodeParams<MCPNodeProperties> {
     type: 'mcp';
 }
 
+export interface ConditionNodeParams extends BaseNodeParams<ConditionNodeProperties> {
+    type: 'condition';
+}
+
+export interface SubflowNodeParams extends BaseNodeParams<SubflowNodeProperties> {
+    type: 'subflow';
+}
+
+export interface ParallelNodeParams extends BaseNodeParams<ParallelNodeProperties> {
+    type: 'parallel';
+}
+
+export interface JoinNodeParams extends BaseNodeParams<JoinNodeProperties> {
+    type: 'join';
+}
+
+export interface HumanInputNodeParams extends BaseNodeParams<HumanInputNodeProperties> {
+    type: 'human_input';
+}
+
+export interface CodeNodeParams extends BaseNodeParams<CodeNodeProperties> {
+    type: 'code';
+}
+
 // Union type for all node params
-export type NodeParams = StartNodeParams | ProcessNodeParams | FinishNodeParams | MCPNodeParams;
+export type NodeParams = StartNodeParams | ProcessNodeParams | FinishNodeParams | MCPNodeParams | ConditionNodeParams | SubflowNodeParams | ParallelNodeParams | JoinNodeParams | HumanInputNodeParams | CodeNodeParams;
 
 // MCP Node Reference (used in ProcessNode)
 export interface MCPNodeReference {
@@ -109,6 +395,8 @@ export interface SharedState {
         executionId: string;
         startTime: number;
         nodeExecutionTracker: NodeExecutionTrackerEntry[];
+        // Tokens and cost of the model calls of the conversation
+        usage?: UsageTracking;
     };
     // Messages as the single source of truth, now using our timestamped type
     messages: FlujoChatMessage[];
@@ -127,8 +415,10 @@ export interface SharedState {
     };
     // Conversation ID for tracking multiple conversations
     conversationId?: string;
+    // Set on the states of nested runs (subflows, parallel branches), which are never persisted
+    transient?: boolean;
     // Current status of the conversation execution
-    status?: 'running' | 'awaiting_tool_approval' | 'paused_debug' | 'completed' | 'error'; // Added 'paused_debug'
+    status?: 'running' | 'awaiting_tool_approval' | 'awaiting_human_input' | 'paused_debug' | 'completed' | 'budget_exceeded' | 'error'; // Added 'paused_debug'
     // Tool calls awaiting user approval
     pendingToolCalls?: OpenAI.ChatCompletionMessageToolCall[];
     // Flag to indicate if cancellation was requested
@@ -145,6 +435,127 @@ export interface SharedState {
     executionTrace?: DebugStep[];
     /** Stores the original requireApproval setting from the request that initiated the debug session. */
     originalRequireApproval?: boolean;
+
+    // --- Subflow Fields ---
+    /** IDs of the flows currently executing above this one (outermost first), used to stop runaway recursion. */
+    subflowStack?: string[];
+
+    // --- Parallel Fields ---
+    /** Branch results collected by a parallel node, waiting to be merged by its join node. */
+    pendingJoin?: {
+        parallelNodeId: string;
+        joinNodeId: string;
+        branches: ParallelBranchResult[];
+    };
+
+    // --- Loop Guard Fields ---
+    /** Step and node visit counters of the current run, checked against the loop guard limits. */
+    loopCounters?: LoopCounters;
+
+    // --- Human Input Fields ---
+    /** Form a human input node is waiting on; holds the submitted values until the node consumes them. */
+    pendingHumanInput?: PendingHumanInput;
+    /** Flow variables, seeded from request metadata and set by nodes during the run; referenced in prompts as ${var:name}. */
+    variables?: FlowVariables;
+
+    // --- Structured Output Fields ---
+    /** Last answer validated against a process node's output schema. */
+    structuredOutput?: StructuredOutput;
+
+    // --- Timeout Fields ---
+    /** Deadline of the request being processed; the node running when it expires is aborted. */
+    deadline?: FlowDeadline;
+
+    // --- Recording Fields ---
+    /** Fixture the conversation's model and tool calls are recorded into or replayed from. */
+    recording?: RecordingSettings;
+
+    // --- Versioning Fields ---
+    /** Version of the flow the conversation last ran against, from the flow's version history. */
+    flowVersion?: number;
+
+    // --- Budget Fields ---
+    /** Spending limits set by the API caller, on top of the start node's budget. */
+    budget?: ConversationBudget;
+    /** The limit that stopped the latest run, cleared when the conversation resumes. */
+    budgetExceeded?: BudgetExceeded;
+    /** Usage of the conversations a nested run (subflow or parallel branch) was started from, counted toward its budget. */
+    budgetUsedBefore?: UsageTotals;
+}
+
+// Deadline derived from the start node's flowTimeoutMs, shared with subflows and parallel branches
+export interface FlowDeadline {
+    timeoutMs: number;
+    expiresAt: number;
+}
+
+// Record/replay of external calls, set from the flujorecord / flujoreplay request metadata
+export type RecordingMode = 'record' | 'replay';
+
+export interface RecordingSettings {
+    mode: RecordingMode;
+    fixture: string;
+    // Conversation the session belongs to; its subflows and parallel branches share it
+    conversationId?: string;
+    // How often each recorded request was replayed, so later requests of the conversation continue from there
+    replayed?: Record<string, number>;
+}
+
+// External calls captured in a fixture: model completions, MCP tool calls and MCP tool listings
+export type RecordedCallKind = 'model' | 'tool' | 'tool_list';
+
+export interface RecordedCall {
+    kind: RecordedCallKind;
+    // Hash of the normalized request, matched during replay
+    key: string;
+    request: unknown;
+    response: unknown;
+    recordedAt: number;
+}
+
+// Stored under db/fixtures/<name>.json
+export interface RecordingFixture {
+    name: string;
+    flowId?: string;
+    createdAt: number;
+    updatedAt: number;
+    calls: RecordedCall[];
+}
+
+// Validated answer of a process node with an output schema
+export interface StructuredOutput {
+    nodeId: string;
+    value: unknown;
+    attempts: number;
+}
+
+// Form published by a human input node while the conversation waits for the user
+export interface PendingHumanInput {
+    nodeId: string;
+    prompt?: string;
+    schema: HumanInputSchema;
+    requestedAt: number;
+    // Set by the respond endpoint once the user submitted the form
+    values?: Record<string, unknown>;
+    submittedAt?: number;
+}
+
+// Counters used by the loop guards in FlowExecutor
+export interface LoopCounters {
+    steps: number;
+    nodeVisits: Record<string, number>;
+    // Node whose visit is still in progress (tool call rounds do not start a new visit)
+    activeNodeId?: string;
+    // Set when the run ended; the next step starts a new run with fresh counters
+    runEnded?: boolean;
+    // The last limit that was exceeded
+    exceeded?: {
+        kind: 'maxVisits' | 'maxSteps';
+        nodeId: string;
+        limit: number;
+        policy: LoopGuardPolicy;
+        timestamp: number;
+    };
 }
 
 
@@ -210,6 +621,12 @@ export interface ProcessNodePrepResult extends BasePrepResult {
     mcpContext?: MCPContext;
     messages: FlujoChatMessage[]; // Use timestamped type
     toolCalls?: ToolCallInfo[];
+    outputSchema?: JsonSchema;
+    outputMaxRetries?: number;
+    contextCompaction?: ContextCompactionSettings;
+    modelFallback?: ModelFallbackSettings;
+    recording?: RecordingSettings;
+    conversationId?: string;
 }
 
 // FinishNode prep result
@@ -226,8 +643,83 @@ export interface MCPNodePrepResult extends BasePrepResult {
     mcpEnv?: Record<string, string>;
 }
 
+// ConditionNode prep result
+export interface ConditionNodePrepResult extends BasePrepResult {
+    nodeType: 'condition';
+    rules: ConditionRule[];
+    defaultTargetNodeId?: string;
+    messages: FlujoChatMessage[];
+    lastResponse?: string | Record<string, unknown>;
+}
+
+// SubflowNode prep result
+export interface SubflowNodePrepResult extends BasePrepResult {
+    nodeType: 'subflow';
+    flowId: string;
+    childMessages: FlujoChatMessage[];
+    maxSteps: number;
+    parentConversationId?: string;
+    subflowStack: string[];
+    deadline?: FlowDeadline;
+    recording?: RecordingSettings;
+    budget: ConversationBudget;
+    budgetUsedBefore: UsageTotals;
+    collectTrace: boolean;
+}
+
+// ParallelNode prep result
+export interface ParallelNodePrepResult extends BasePrepResult {
+    nodeType: 'parallel';
+    joinNodeId: string;
+    branches: Array<{ edgeId: string; targetNodeId: string; targetLabel?: string }>;
+    maxBranchSteps: number;
+    // Parent state each branch starts from
+    flowId: string;
+    conversationId?: string;
+    messages: FlujoChatMessage[];
+    subflowStack?: string[];
+    deadline?: FlowDeadline;
+    recording?: RecordingSettings;
+    budget: ConversationBudget;
+    budgetUsedBefore: UsageTotals;
+    collectTrace: boolean;
+}
+
+// JoinNode prep result
+export interface JoinNodePrepResult extends BasePrepResult {
+    nodeType: 'join';
+    strategy: JoinStrategy;
+    branches: ParallelBranchResult[];
+    boundModel?: string;
+    mergePrompt?: string;
+    recording?: RecordingSettings;
+}
+
+// HumanInputNode prep result
+export interface HumanInputNodePrepResult extends BasePrepResult {
+    nodeType: 'human_input';
+    prompt?: string;
+    schema: HumanInputSchema;
+    injectAs: HumanInputInjection;
+    variableName?: string;
+    // Values submitted for this node, if the user already answered
+    submittedValues?: Record<string, unknown>;
+}
+
+// CodeNode prep result
+export interface CodeNodePrepResult extends BasePrepResult {
+    nodeType: 'code';
+    code: string;
+    timeoutMs: number;
+    memoryLimitMb: number;
+    // Input handed to the snippet
+    messages: FlujoChatMessage[];
+    variables: FlowVariables;
+    lastResponse?: string | Record<string, unknown>;
+}
+
 // Union type for all prep results
-export type PrepResult = StartNodePrepResult | ProcessNodePrepResult | FinishNodePrepResult | MCPNodePrepResult;
+export type PrepResult = StartNodePrepResult | ProcessNodePrepResult | FinishNodePrepResult | MCPNodePrepResult | ConditionNodePrepResult | SubflowNodePrepResult | ParallelNodePrepResult | JoinNodePrepResult | HumanInputNodePrepResult | CodeNodePrepResult;
 
 // Base exec result
 export interface BaseExecResult {
@@ -247,6 +739,17 @@ export interface ProcessNodeExecResult extends BaseExecResult {
     fullResponse?: OpenAI.ChatCompletion;
     toolCalls?: ToolCallInfo[];
     messages?: FlujoChatMessage[]; // Use timestamped type
+    // Parsed answer, set when the node has an output schema and the answer matched it
+    structuredOutput?: unknown;
+    // Number of model calls needed to get a matching answer
+    structuredOutputAttempts?: number;
+    // Set when the conversation was compacted to fit into the model's context
+    contextCompaction?: ContextCompactionInfo;
+    // Tokens and cost of the model calls of this step
+    usage?: ModelCallUsage[];
+    // The model that answered, and the models that failed before it when the bound model fell back
+    modelId?: string;
+    modelFallbacks?: ModelFallbackAttempt[];
 }
 
 // FinishNode exec result
@@ -262,12 +765,69 @@ export interface MCPNodeExecResult extends BaseExecResult {
     error?: string;
 }
 
+// ConditionNode exec result
+export interface ConditionNodeExecResult extends BaseExecResult {
+    matchedRuleId?: string;
+    targetNodeId?: string;
+    usedDefault?: boolean;
+    error?: string;
+}
+
+// SubflowNode exec result
+export interface SubflowNodeExecResult extends BaseExecResult {
+    content?: string;
+    childFlowId?: string;
+    stepsExecuted?: number;
+    childTrace?: DebugStep[];
+    error?: string;
+    // Tokens and cost of the subflow's model calls
+    usage?: UsageTracking;
+    // Set when the subflow was stopped by the conversation's budget
+    budgetExceeded?: BudgetExceeded;
+}
+
+// ParallelNode exec result
+export interface ParallelNodeExecResult extends BaseExecResult {
+    branches: ParallelBranchResult[];
+    childTrace?: DebugStep[];
+    error?: string;
+}
+
+// JoinNode exec result
+export interface JoinNodeExecResult extends BaseExecResult {
+    content?: string;
+    error?: string;
+    // Tokens and cost of the merge prompt
+    usage?: ModelCallUsage[];
+}
+
+// HumanInputNode exec result
+export interface HumanInputNodeExecResult extends BaseExecResult {
+    // True while the node is still waiting for the user
+    awaitingInput: boolean;
+    values?: Record<string, unknown>;
+    error?: string;
+}
+
+// CodeNode exec result
+export interface CodeNodeExecResult extends BaseExecResult {
+    // Content of the assistant message produced by the snippet
+    message?: string;
+    variableUpdates?: FlowVariables;
+    // Output of console.* calls inside the snippet
+    logs: string[];
+    durationMs: number;
+    error?: string;
+}
+
 // Union type for all exec results
-export type ExecResult = StartNodeExecResult | ProcessNodeExecResult | FinishNodeExecResult | MCPNodeExecResult;
+export type ExecResult = StartNodeExecResult | ProcessNodeExecResult | FinishNodeExecResult | MCPNodeExecResult | ConditionNodeExecResult | SubflowNodeExecResult | ParallelNodeExecResult | JoinNodeExecResult | HumanInputNodeExecResult | CodeNodeExecResult;
 
 // Action constants for flow control
 export const TOOL_CALL_ACTION = 'TOOL_CALL';
 export const FINAL_RESPONSE_ACTION = 'FINAL_RESPONSE';
 export const ERROR_ACTION = 'ERROR';
 export const STAY_ON_NODE_ACTION = "STAY_ON_NODE";
+// The node already moved sharedState.currentNodeId to the next node (e.g. parallel -> join)
+export const GOTO_NODE_ACTION = "GOTO_NODE";
 // Handoff action is the edgeId string itself
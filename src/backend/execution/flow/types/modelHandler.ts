@@ -1,9 +1,14 @@
 import OpenAI from 'openai';
 import {
   ToolDefinition,
-  ToolCallInfo
+  ToolCallInfo,
+  RetryPolicy,
+  RetryAttempt,
+  RecordingSettings
 } from '../types';
 import { FlujoChatMessage } from '@/shared/types/chat'; // Correct import path
+import { ExecutionUsage } from '@/shared/types/flow';
+import { ModelFallbackErrorClass, ModelFallbackSettings } from '@/shared/types/model';
 
 // Input for model call
 export interface ModelCallInput {
@@ -15,6 +20,11 @@ export interface ModelCallInput {
   maxIterations: number;
   nodeName: string; // Name of the process node for display purposes
   nodeId: string; // ID of the process node
+  responseFormat?: OpenAI.ResponseFormatJSONSchema; // Sent only to providers that support it
+  signal?: AbortSignal; // Aborts the request when the node times out
+  recording?: RecordingSettings; // Records the call into or replays it from a fixture
+  conversationId?: string; // Receives message_delta execution events while the answer streams
+  fallback?: ModelFallbackSettings; // Replaces the fallback models of the model definition
 }
 
 // Result of model call
@@ -23,18 +33,41 @@ export interface ModelCallResult {
   messages: FlujoChatMessage[]; // Use FlujoChatMessage
   toolCalls?: ToolCallInfo[];
   fullResponse?: OpenAI.ChatCompletion;
+  usage?: ModelCallUsage;
+  modelId?: string; // The model that answered, a fallback model when the requested one failed
+  fallbackAttempts?: ModelFallbackAttempt[]; // Models that failed before it, in order
+}
+
+// A model call that failed and was handed to the next fallback model
+export interface ModelFallbackAttempt {
+  modelId: string;
+  errorClass: ModelFallbackErrorClass;
+  error: string;
+}
+
+// Tokens and cost of one model call
+export interface ModelCallUsage extends ExecutionUsage {
+  modelId: string;
+  cost?: number; // In USD, undefined when the model has no pricing
+  estimated?: boolean; // Counted locally because the provider did not report usage
+  toolCalls?: number; // Tool calls the model requested in its answer
 }
 
 // Tool call processing input
 export interface ToolCallProcessingInput {
   toolCalls: OpenAI.ChatCompletionMessageToolCall[];
   content?: string;
+  signal?: AbortSignal; // Cancels MCP tool calls still running when it is aborted
+  retryPolicy?: RetryPolicy; // Failed MCP tool calls are retried when it sets retryToolFailures
+  recording?: RecordingSettings; // Records the calls into or replays them from a fixture
+  conversationId?: string; // Receives tool_call_started and tool_result execution events
 }
 
 // Tool call processing result
 export interface ToolCallProcessingResult {
   toolCallMessages: FlujoChatMessage[]; // Use FlujoChatMessage
   processedToolCalls: ToolCallInfo[];
+  toolAttempts?: RetryAttempt[]; // Attempts of the tool calls retried under the node's retry policy
 }
 
 // Ensure the file is treated as a module
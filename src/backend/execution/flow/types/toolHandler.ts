@@ -1,4 +1,4 @@
-import { ToolDefinition, MCPNodeReference } from '../types';
+import { ToolDefinition, MCPNodeReference, RecordingSettings } from '../types';
 import OpenAI from 'openai';
 
 // Input for tool preparation
@@ -14,6 +14,7 @@ export interface ToolPreparationResult {
 // Input for MCP node processing
 export interface MCPNodeProcessingInput {
   mcpNodes: MCPNodeReference[];
+  recording?: RecordingSettings; // Records the tool listings into or replays them from a fixture
 }
 
 // Result of MCP node processing
@@ -0,0 +1,54 @@
+import { describe, expect, it } from '@jest/globals';
+import { Flow, FlowNode } from '@/shared/types/flow';
+import { findSubflowCycle } from '../findSubflowCycle';
+
+const node = (id: string, type: string, properties?: Record<string, any>): FlowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label: id, type, properties }
+});
+
+// A flow that calls the given flows through subflow nodes
+const flow = (id: string, ...subflowIds: string[]): Flow => ({
+  id,
+  name: id,
+  nodes: [node('start', 'start'), ...subflowIds.map(subflowId => node(`call-${subflowId}`, 'subflow', { flowId: subflowId }))],
+  edges: []
+});
+
+describe('findSubflowCycle', () => {
+  it('accepts flows without subflows or with a chain of subflows', () => {
+    expect(findSubflowCycle(flow('a'), [])).toBeNull();
+    expect(findSubflowCycle(flow('a', 'b'), [flow('b', 'c'), flow('c')])).toBeNull();
+  });
+
+  it('accepts the same subflow reached through different paths', () => {
+    const flows = [flow('b', 'd'), flow('c', 'd'), flow('d')];
+    expect(findSubflowCycle(flow('a', 'b', 'c'), flows)).toBeNull();
+  });
+
+  it('ignores subflow nodes without a flow and references to missing flows', () => {
+    const unset: Flow = { ...flow('a'), nodes: [node('start', 'start'), node('call', 'subflow', {})] };
+    expect(findSubflowCycle(unset, [])).toBeNull();
+    expect(findSubflowCycle(flow('a', 'deleted'), [])).toBeNull();
+  });
+
+  it('finds a flow that calls itself', () => {
+    expect(findSubflowCycle(flow('a', 'a'), [])).toEqual(['a', 'a']);
+  });
+
+  it('finds a cycle through other flows', () => {
+    expect(findSubflowCycle(flow('a', 'b'), [flow('b', 'c'), flow('c', 'a')])).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('finds a cycle below the saved flow that does not include it', () => {
+    expect(findSubflowCycle(flow('a', 'b'), [flow('b', 'c'), flow('c', 'b')])).toEqual(['b', 'c', 'b']);
+  });
+
+  it('checks the flow being saved instead of its stored version', () => {
+    const stored = [flow('a', 'b'), flow('b')];
+    expect(findSubflowCycle(flow('b', 'a'), stored)).toEqual(['b', 'a', 'b']);
+    expect(findSubflowCycle(flow('a'), [flow('a', 'b'), flow('b', 'a')])).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { FlowService as FlowServiceClass } from '..';
+import { Flow, FlowNode } from '@/shared/types/flow';
+
+// Flows and their versions live in memory instead of db/
+const mockStorage = new Map<string, unknown>();
+jest.mock('@/utils/storage/backend', () => ({
+  loadItem: async (key: string, defaultValue: unknown) =>
+    mockStorage.has(key) ? JSON.parse(JSON.stringify(mockStorage.get(key))) : defaultValue,
+  saveItem: async (key: string, value: unknown) => {
+    mockStorage.set(key, JSON.parse(JSON.stringify(value)));
+  }
+}));
+
+const node = (id: string, properties: Record<string, unknown> = {}): FlowNode => ({
+  id,
+  type: 'process',
+  position: { x: 0, y: 0 },
+  data: { label: id, type: 'process', properties }
+});
+
+const flow = (name: string, nodes: FlowNode[]): Flow => ({
+  id: 'flow-1',
+  name,
+  nodes,
+  edges: nodes.slice(1).map((target, index) => ({ id: `e${index}`, source: nodes[index].id, target: target.id }))
+});
+
+// Loaded after the storage mock is in place
+let FlowService: typeof FlowServiceClass;
+
+describe('FlowService versions', () => {
+  beforeAll(async () => {
+    ({ FlowService } = await import('..'));
+  });
+
+  beforeEach(() => {
+    mockStorage.clear();
+  });
+
+  it('records a version per change and none for editor-only changes', async () => {
+    const service = new FlowService();
+    const first = await service.saveFlow(flow('Support', [node('a')]), { author: 'ana' });
+    const selected = await service.saveFlow({ ...flow('Support', [node('a')]), nodes: [{ ...node('a'), selected: true }] });
+    const second = await service.saveFlow(flow('Support', [node('a'), node('b')]), { message: 'Add b' });
+
+    expect([first.version, selected.version, second.version]).toEqual([1, 1, 2]);
+    const versions = await service.listVersions('flow-1');
+    expect(versions.map(({ version, author, message, nodeCount, edgeCount }) => ({ version, author, message, nodeCount, edgeCount }))).toEqual([
+      { version: 1, author: 'ana', message: undefined, nodeCount: 1, edgeCount: 0 },
+      { version: 2, author: undefined, message: 'Add b', nodeCount: 2, edgeCount: 1 }
+    ]);
+  });
+
+  it('numbers versions saved at the same time one after another', async () => {
+    const service = new FlowService();
+    const results = await Promise.all(['One', 'Two', 'Three'].map(name => service.saveFlow(flow(name, [node('a')]))));
+
+    expect(results.map(result => result.version).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('diffs two versions node by node and edge by edge', async () => {
+    const service = new FlowService();
+    await service.saveFlow(flow('Support', [node('a', { model: 'gpt-4o' }), node('b')]));
+    await service.saveFlow(flow('Support desk', [node('a', { model: 'claude' }), node('c')]));
+
+    const diff = await service.diffVersions('flow-1', 1, 2);
+
+    expect(diff.fromVersion).toBe(1);
+    expect(diff.toVersion).toBe(2);
+    expect(diff.nameChanged).toEqual({ from: 'Support', to: 'Support desk' });
+    expect(diff.nodes.added.map(added => added.id)).toEqual(['c']);
+    expect(diff.nodes.removed.map(removed => removed.id)).toEqual(['b']);
+    expect(diff.nodes.changed.map(({ id, fields }) => ({ id, fields }))).toEqual([{ id: 'a', fields: ['properties.model'] }]);
+    expect(diff.edges.changed.map(({ id, fields }) => ({ id, fields }))).toEqual([{ id: 'e0', fields: ['target'] }]);
+  });
+
+  it('diffs against the latest version by default and rejects unknown versions', async () => {
+    const service = new FlowService();
+    await service.saveFlow(flow('Support', [node('a')]));
+    await service.saveFlow(flow('Support', [node('a'), node('b')]));
+    await service.saveFlow(flow('Support', [node('a'), node('b'), node('c')]));
+
+    const diff = await service.diffVersions('flow-1', 1);
+    expect(diff.toVersion).toBe(3);
+    expect(diff.nodes.added.map(added => added.id)).toEqual(['b', 'c']);
+
+    await expect(service.diffVersions('flow-1', 7)).rejects.toThrow('Version 7 of flow flow-1 not found');
+    await expect(service.diffVersions('flow-1', 1, 9)).rejects.toThrow('Version 9 of flow flow-1 not found');
+  });
+
+  it('restores an earlier version as a new version', async () => {
+    const service = new FlowService();
+    await service.saveFlow(flow('Support', [node('a')]));
+    await service.saveFlow(flow('Support', [node('a'), node('b')]));
+
+    const restored = await service.restoreVersion('flow-1', 1, 'ana');
+
+    expect(restored).toMatchObject({ success: true, version: 3, flow: flow('Support', [node('a')]) });
+    expect(await service.getFlow('flow-1')).toEqual(flow('Support', [node('a')]));
+    const latest = await service.getVersion('flow-1', 3);
+    expect(latest).toMatchObject({ author: 'ana', message: 'Restored version 1', restoredFrom: 1 });
+  });
+
+  it('records a restore even when the content equals the latest version', async () => {
+    const service = new FlowService();
+    await service.saveFlow(flow('Support', [node('a')]));
+
+    const restored = await service.restoreVersion('flow-1', 1);
+
+    expect(restored.version).toBe(2);
+  });
+
+  it('brings back a deleted flow and reports unknown versions', async () => {
+    const service = new FlowService();
+    await service.saveFlow(flow('Support', [node('a')]));
+    await service.deleteFlow('flow-1');
+    expect(await service.getCurrentVersion('flow-1')).toBeUndefined();
+
+    const restored = await service.restoreVersion('flow-1', 1);
+    expect(restored.success).toBe(true);
+    expect(await service.getCurrentVersion('flow-1')).toBe(2);
+
+    expect(await service.restoreVersion('flow-1', 5)).toEqual({ success: false, error: 'Version 5 of flow flow-1 not found' });
+  });
+});
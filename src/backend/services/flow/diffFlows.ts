@@ -0,0 +1,81 @@
+import { Flow, FlowNode, FlowDiff, FlowElementDiff } from '@/shared/types/flow';
+import { Edge } from '@xyflow/react';
+import isEqual from 'lodash/isEqual';
+
+// Editor state that is saved along with the flow but is not part of its definition
+const IGNORED_FIELDS = new Set(['selected', 'dragging', 'measured', 'positionAbsolute', 'width', 'height']);
+
+/**
+ * Names of the fields that differ between two versions of a node or edge. Node data is
+ * compared per entry and node properties per property, so a diff can say what was edited.
+ */
+function changedFields(before: Record<string, any>, after: Record<string, any>): string[] {
+  const fields: string[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key) || isEqual(before[key], after[key])) continue;
+
+    if (key === 'data' && before.data && after.data) {
+      const dataKeys = new Set([...Object.keys(before.data), ...Object.keys(after.data)]);
+      for (const dataKey of dataKeys) {
+        if (isEqual(before.data[dataKey], after.data[dataKey])) continue;
+        if (dataKey === 'properties') {
+          const properties = new Set([...Object.keys(before.data.properties || {}), ...Object.keys(after.data.properties || {})]);
+          properties.forEach(property => {
+            if (!isEqual(before.data.properties?.[property], after.data.properties?.[property])) {
+              fields.push(`properties.${property}`);
+            }
+          });
+        } else {
+          fields.push(`data.${dataKey}`);
+        }
+      }
+    } else {
+      fields.push(key);
+    }
+  }
+  return fields;
+}
+
+function diffElements<T extends { id: string }>(before: T[], after: T[]): FlowElementDiff<T> {
+  const beforeById = new Map(before.map(element => [element.id, element]));
+  const afterById = new Map(after.map(element => [element.id, element]));
+
+  const changed: FlowElementDiff<T>['changed'] = [];
+  for (const element of after) {
+    const previous = beforeById.get(element.id);
+    if (!previous) continue;
+    const fields = changedFields(previous as Record<string, any>, element as Record<string, any>);
+    if (fields.length > 0) {
+      changed.push({ id: element.id, before: previous, after: element, fields });
+    }
+  }
+
+  return {
+    added: after.filter(element => !beforeById.has(element.id)),
+    removed: before.filter(element => !afterById.has(element.id)),
+    changed
+  };
+}
+
+/**
+ * Compare two versions of a flow node by node and edge by edge. Elements are matched by ID.
+ */
+export function diffFlows(from: Flow, to: Flow, versions: { from: number; to: number }): FlowDiff {
+  return {
+    fromVersion: versions.from,
+    toVersion: versions.to,
+    nameChanged: from.name !== to.name ? { from: from.name, to: to.name } : undefined,
+    nodes: diffElements<FlowNode>(from.nodes, to.nodes),
+    edges: diffElements<Edge>(from.edges, to.edges)
+  };
+}
+
+/**
+ * Whether two flows define the same flow, ignoring editor state such as selection
+ */
+export function isSameFlow(a: Flow, b: Flow): boolean {
+  const diff = diffFlows(a, b, { from: 0, to: 0 });
+  return !diff.nameChanged
+    && [diff.nodes, diff.edges].every(elements => elements.added.length === 0 && elements.removed.length === 0 && elements.changed.length === 0);
+}
@@ -0,0 +1,41 @@
+import { Flow } from '@/shared/types/flow';
+
+/**
+ * Find a cycle of subflow references reachable from the given flow.
+ * The flow is checked as given, in place of its stored version in `flows`.
+ * Returns the flow IDs forming the cycle (first and last entry are equal) or null.
+ */
+export function findSubflowCycle(flow: Flow, flows: Flow[]): string[] | null {
+  const flowsById = new Map(flows.map(f => [f.id, f]));
+  flowsById.set(flow.id, flow); // Check against the version being saved
+
+  const getSubflowIds = (f: Flow): string[] => f.nodes
+    .filter(node => node.type === 'subflow' && node.data.properties?.flowId)
+    .map(node => node.data.properties!.flowId as string);
+
+  const path: string[] = [];
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+
+  const visit = (flowId: string): string[] | null => {
+    if (visiting.has(flowId)) {
+      return [...path.slice(path.indexOf(flowId)), flowId];
+    }
+    if (done.has(flowId)) return null;
+    const current = flowsById.get(flowId);
+    if (!current) return null;
+
+    visiting.add(flowId);
+    path.push(flowId);
+    for (const childId of getSubflowIds(current)) {
+      const cycle = visit(childId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    visiting.delete(flowId);
+    done.add(flowId);
+    return null;
+  };
+
+  return visit(flow.id);
+}
@@ -0,0 +1,58 @@
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('backend/services/flow/flowEvents');
+
+/**
+ * A flow was saved (created, edited or restored) or deleted. `version` is the number the
+ * save was recorded as in the flow's version history.
+ */
+export type FlowChangeEvent =
+  | { type: 'saved'; flowId: string; version: number }
+  | { type: 'deleted'; flowId: string };
+
+export type FlowChangeListener = (event: FlowChangeEvent) => void;
+
+interface FlowChangeRegistration {
+  name: string;
+  listener: FlowChangeListener;
+}
+
+// Listeners live on the global object so that a change saved in one route bundle reaches the listeners of all others
+declare global {
+  var __flow_change_listeners: Set<FlowChangeRegistration> | undefined;
+}
+
+function getListeners(): Set<FlowChangeRegistration> {
+  if (!global.__flow_change_listeners) {
+    global.__flow_change_listeners = new Set();
+  }
+  return global.__flow_change_listeners;
+}
+
+/**
+ * Register a listener for flow changes. Every registration is kept: each route bundle loads
+ * its own copy of a module and needs its own listener. The name is used in logs.
+ * Returns a function that removes the listener.
+ */
+export function onFlowChange(name: string, listener: FlowChangeListener): () => void {
+  const registration: FlowChangeRegistration = { name, listener };
+  getListeners().add(registration);
+  return () => {
+    getListeners().delete(registration);
+  };
+}
+
+/**
+ * Notify all listeners of a flow change. Listeners run synchronously after the change was
+ * stored; a failing listener is logged and does not affect the others.
+ */
+export function emitFlowChange(event: FlowChangeEvent): void {
+  log.debug(`Flow ${event.flowId} ${event.type}`, { listeners: getListeners().size });
+  getListeners().forEach(({ name, listener }) => {
+    try {
+      listener(event);
+    } catch (error) {
+      log.error(`Flow change listener ${name} failed`, error);
+    }
+  });
+}
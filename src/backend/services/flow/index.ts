@@ -4,21 +4,35 @@ import { Flow, FlowNode, HistoryEntry } from '@/shared/types/flow';
 import { 
   FlowServiceResponse, 
   FlowOperationResponse, 
-  FlowListResponse
+  FlowListResponse,
+  FlowValidationResult,
+  FlowVersion,
+  FlowVersionMeta,
+  FlowVersionSummary,
+  FlowDiff
 } from '@/shared/types/flow';
 import { saveItem, loadItem } from '@/utils/storage/backend';
 import { StorageKey } from '@/shared/types/storage';
 import { Edge } from '@xyflow/react';
 import { createLogger } from '@/utils/logger';
+import { validateFlow } from './validateFlow';
+import { diffFlows, isSameFlow } from './diffFlows';
+import { findSubflowCycle } from './findSubflowCycle';
+import { emitFlowChange, onFlowChange } from './flowEvents';
 
 const log = createLogger('backend/services/flow/index');
 
+// Version history is stored per flow and kept when the flow is deleted
+const getVersionsKey = (flowId: string) => `flow-versions/${flowId}` as StorageKey;
+
 /**
  * FlowService class provides a clean interface for flow-related operations
  * This is the core backend service that handles all flow operations
  */
 export class FlowService { // Add export keyword here
   private flowsCache: Flow[] | null = null;
+  // Version history writes are chained per flow, so concurrent saves get distinct version numbers
+  private versionWrites = new Map<string, Promise<unknown>>();
 
   /**
    * Load all flows from storage
@@ -59,9 +73,9 @@ export class FlowService { // Add export keyword here
   }
 
   /**
-   * Save a flow (create new or update existing)
+   * Save a flow (create new or update existing) and record it in the flow's version history
    */
-  async saveFlow(flow: Flow): Promise<FlowServiceResponse> {
+  async saveFlow(flow: Flow, meta: FlowVersionMeta = {}): Promise<FlowOperationResponse> {
     try {
       log.debug(`Saving flow: ${flow.id}`, { name: flow.name });
       // Load current flows
@@ -69,6 +83,17 @@ export class FlowService { // Add export keyword here
       
       // Check if flow exists
       const existingFlowIndex = flows.findIndex(f => f.id === flow.id);
+
+      // Reject subflow references that would make flows call each other in a loop
+      const cycle = findSubflowCycle(flow, flows);
+      if (cycle) {
+        const names = cycle.map(id => (id === flow.id ? flow : flows.find(f => f.id === id))?.name || id);
+        log.warn(`Rejecting flow ${flow.id}: subflow cycle detected`, { cycle: names });
+        return {
+          success: false,
+          error: `Subflow cycle detected: ${names.join(' -> ')}`
+        };
+      }
       
       let updatedFlows: Flow[];
       if (existingFlowIndex >= 0) {
@@ -87,8 +112,13 @@ export class FlowService { // Add export keyword here
       // Update cache
       this.flowsCache = updatedFlows;
       
-      log.info(`Flow ${flow.id} saved successfully`);
-      return { success: true };
+      const version = await this.recordVersion(flow, meta);
+      emitFlowChange({ type: 'saved', flowId: flow.id, version });
+      
+      // Lint the saved flow; problems are reported but do not block saving drafts
+      const validation = validateFlow(flow, { flows: updatedFlows });
+      log.info(`Flow ${flow.id} saved successfully`, { version, errors: validation.errors.length, warnings: validation.warnings.length });
+      return { success: true, validation, version };
     } catch (error) {
       log.error('Failed to save flow', error);
       return { 
@@ -98,6 +128,134 @@ export class FlowService { // Add export keyword here
     }
   }
 
+  /**
+   * Append the flow to its version history, unless it equals the latest version.
+   * Returns the number of the version that matches the saved flow.
+   */
+  private recordVersion(flow: Flow, meta: FlowVersionMeta): Promise<number> {
+    return this.queueVersionWrite(flow.id, async () => {
+      const versions = await this.loadVersions(flow.id);
+      const latest = versions[versions.length - 1];
+      if (latest && !meta.restoredFrom && isSameFlow(latest.flow, flow)) {
+        log.debug(`Flow ${flow.id} unchanged since version ${latest.version}`);
+        return latest.version;
+      }
+
+      const version: FlowVersion = {
+        flowId: flow.id,
+        version: (latest?.version || 0) + 1,
+        createdAt: Date.now(),
+        // Named by the request that saved the flow, if it did
+        author: meta.author,
+        message: meta.message,
+        restoredFrom: meta.restoredFrom,
+        flow
+      };
+      await saveItem(getVersionsKey(flow.id), [...versions, version]);
+      log.info(`Recorded version ${version.version} of flow ${flow.id}`, { author: version.author });
+      return version.version;
+    });
+  }
+
+  /**
+   * Run a write of a flow's version history after the writes queued before it
+   */
+  private queueVersionWrite<T>(flowId: string, write: () => Promise<T>): Promise<T> {
+    const next = (this.versionWrites.get(flowId) ?? Promise.resolve()).catch(() => undefined).then(write);
+    this.versionWrites.set(flowId, next);
+    const cleanup = () => {
+      if (this.versionWrites.get(flowId) === next) {
+        this.versionWrites.delete(flowId);
+      }
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  private async loadVersions(flowId: string): Promise<FlowVersion[]> {
+    return loadItem<FlowVersion[]>(getVersionsKey(flowId), []);
+  }
+
+  /**
+   * List the versions of a flow, oldest first, without their content
+   */
+  async listVersions(flowId: string): Promise<FlowVersionSummary[]> {
+    log.debug(`listVersions: Loading version history of flow ${flowId}`);
+    const versions = await this.loadVersions(flowId);
+    return versions.map(({ flow, ...summary }) => ({
+      ...summary,
+      name: flow.name,
+      nodeCount: flow.nodes.length,
+      edgeCount: flow.edges.length
+    }));
+  }
+
+  /**
+   * Get a version of a flow by number
+   */
+  async getVersion(flowId: string, version: number): Promise<FlowVersion | null> {
+    const versions = await this.loadVersions(flowId);
+    return versions.find(v => v.version === version) || null;
+  }
+
+  /**
+   * Get the version number of the flow as currently saved. Undefined for deleted flows and for
+   * flows saved before version history existed, which have no versions yet.
+   */
+  async getCurrentVersion(flowId: string): Promise<number | undefined> {
+    const flow = await this.getFlow(flowId);
+    if (!flow) {
+      return undefined;
+    }
+    const versions = await this.loadVersions(flowId);
+    return versions[versions.length - 1]?.version;
+  }
+
+  /**
+   * Record the current state of a flow without version history as its first version.
+   * Returns the current version number, or undefined for deleted flows.
+   */
+  async recordInitialVersion(flowId: string): Promise<number | undefined> {
+    const flow = await this.getFlow(flowId);
+    if (!flow) {
+      return undefined;
+    }
+    return this.recordVersion(flow, { message: 'Initial version' });
+  }
+
+  /**
+   * Compare two versions of a flow. Without `toVersion` the latest version is used.
+   */
+  async diffVersions(flowId: string, fromVersion: number, toVersion?: number): Promise<FlowDiff> {
+    const versions = await this.loadVersions(flowId);
+    const from = versions.find(v => v.version === fromVersion);
+    const to = toVersion === undefined ? versions[versions.length - 1] : versions.find(v => v.version === toVersion);
+    if (!from) {
+      throw new Error(`Version ${fromVersion} of flow ${flowId} not found`);
+    }
+    if (!to) {
+      throw new Error(`Version ${toVersion ?? 'latest'} of flow ${flowId} not found`);
+    }
+    return diffFlows(from.flow, to.flow, { from: from.version, to: to.version });
+  }
+
+  /**
+   * Save the content of an earlier version as a new version. Also brings back deleted flows.
+   */
+  async restoreVersion(flowId: string, version: number, author?: string): Promise<FlowOperationResponse> {
+    const target = await this.getVersion(flowId, version);
+    if (!target) {
+      return { success: false, error: `Version ${version} of flow ${flowId} not found` };
+    }
+    log.info(`Restoring flow ${flowId} to version ${version}`);
+    const result = await this.saveFlow(target.flow, {
+      author,
+      message: `Restored version ${version}`,
+      restoredFrom: version
+    });
+    return result.success ? { ...result, flow: target.flow } : result;
+  }
+
   /**
    * Delete a flow by ID
    */
@@ -113,6 +271,7 @@ export class FlowService { // Add export keyword here
       
       // Update cache
       this.flowsCache = updatedFlows;
+      emitFlowChange({ type: 'deleted', flowId });
       
       log.info(`Flow ${flowId} deleted successfully`);
       return { success: true };
@@ -273,6 +432,15 @@ export class FlowService { // Add export keyword here
     return flow;
   }
 
+  /**
+   * Validate a flow (saved or not) against all saved flows
+   */
+  async validateFlow(flow: Flow): Promise<FlowValidationResult> {
+    log.debug(`validateFlow: Validating flow ${flow.id}`);
+    const flows = await this.loadFlows();
+    return validateFlow(flow, { flows: [...flows.filter(f => f.id !== flow.id), flow] });
+  }
+
   /**
    * List all flows
    */
@@ -291,5 +459,17 @@ export class FlowService { // Add export keyword here
   }
 }
 
+// Every route bundle imports this module; share one service so they all see the same flow cache and version writes
+declare global {
+  var __flujo_flows: FlowService | undefined;
+}
+
+if (!global.__flujo_flows) {
+  global.__flujo_flows = new FlowService();
+}
+
 // Export a singleton instance of the service
-export const flowService = new FlowService();
+export const flowService = global.__flujo_flows;
+
+export { validateFlow, onFlowChange };
+export type { FlowChangeEvent } from './flowEvents';
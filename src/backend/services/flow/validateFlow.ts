@@ -0,0 +1,174 @@
+import { Flow, FlowNode, FlowValidationIssue, FlowValidationResult } from '@/shared/types/flow';
+import { Edge } from '@xyflow/react';
+import { createLogger } from '@/utils/logger';
+import { FlowVariableUtility } from '@/backend/execution/flow/nodes/util/FlowVariableUtility';
+
+const log = createLogger('backend/services/flow/validateFlow');
+
+const isMcpEdge = (edge: Edge) => edge.data?.edgeType === 'mcp';
+
+const nodeName = (node: FlowNode) => node.data?.label || node.id;
+
+/**
+ * Collect the IDs of all nodes reachable from the given node IDs by following edges forward.
+ */
+function collectReachable(startIds: string[], edges: Edge[]): Set<string> {
+  const reachable = new Set<string>();
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (reachable.has(nodeId)) continue;
+    reachable.add(nodeId);
+    edges.filter(edge => edge.source === nodeId).forEach(edge => queue.push(edge.target));
+  }
+  return reachable;
+}
+
+/**
+ * Statically check a flow for problems that would only show up (or silently misbehave) at runtime.
+ * The flow is not modified. Pass all saved flows to also check subflow references.
+ */
+export function validateFlow(flow: Flow, options?: { flows?: Flow[] }): FlowValidationResult {
+  const issues: FlowValidationIssue[] = [];
+  const nodesById = new Map(flow.nodes.map(node => [node.id, node]));
+
+  // --- Edges ---
+  const validEdges: Edge[] = [];
+  for (const edge of flow.edges) {
+    const missing = [edge.source, edge.target].filter(id => !nodesById.has(id));
+    if (missing.length > 0) {
+      issues.push({
+        code: 'DANGLING_EDGE',
+        severity: 'error',
+        message: `Edge ${edge.id} points to a node that does not exist (${missing.join(', ')})`,
+        edgeId: edge.id
+      });
+    } else {
+      validEdges.push(edge);
+    }
+  }
+  const outgoing = (nodeId: string) => validEdges.filter(edge => edge.source === nodeId && !isMcpEdge(edge));
+
+  // --- Start nodes and reachability ---
+  const startNodes = flow.nodes.filter(node => node.type === 'start');
+  if (startNodes.length === 0) {
+    issues.push({ code: 'NO_START_NODE', severity: 'error', message: 'Flow has no start node' });
+  }
+  startNodes.slice(1).forEach(node => issues.push({
+    code: 'MULTIPLE_START_NODES',
+    severity: 'error',
+    message: `Flow has more than one start node; "${nodeName(node)}" is never used`,
+    nodeId: node.id
+  }));
+
+  if (startNodes.length > 0) {
+    const reachable = collectReachable([startNodes[0].id], validEdges);
+    flow.nodes
+      .filter(node => node.type !== 'start' && !reachable.has(node.id))
+      .forEach(node => issues.push({
+        code: 'UNREACHABLE_NODE',
+        severity: 'warning',
+        message: `Node "${nodeName(node)}" cannot be reached from the start node`,
+        nodeId: node.id
+      }));
+
+    if (!flow.nodes.some(node => node.type === 'finish' && reachable.has(node.id))) {
+      issues.push({
+        code: 'NO_REACHABLE_FINISH',
+        severity: 'warning',
+        message: 'No finish node can be reached from the start node'
+      });
+    }
+  }
+
+  // --- Node configuration ---
+  for (const node of flow.nodes) {
+    const properties = node.data?.properties || {};
+
+    switch (node.type) {
+      case 'process':
+        if (!properties.boundModel) {
+          issues.push({ code: 'MISSING_MODEL', severity: 'error', message: `Process node "${nodeName(node)}" has no model`, nodeId: node.id });
+        }
+        if (properties.outputSchema !== undefined
+          && (typeof properties.outputSchema !== 'object' || properties.outputSchema === null || Array.isArray(properties.outputSchema))) {
+          issues.push({ code: 'INVALID_OUTPUT_SCHEMA', severity: 'error', message: `Process node "${nodeName(node)}" has an output schema that is not a JSON object`, nodeId: node.id });
+        }
+        break;
+      case 'mcp':
+        if (!properties.boundServer) {
+          issues.push({ code: 'MISSING_SERVER', severity: 'warning', message: `MCP node "${nodeName(node)}" is not bound to a server`, nodeId: node.id });
+        }
+        break;
+      case 'condition': {
+        const targets = new Set(outgoing(node.id).map(edge => edge.target));
+        const routeTargets: string[] = [
+          ...(properties.rules || []).map((rule: { targetNodeId?: string }) => rule.targetNodeId || ''),
+          ...(properties.defaultTargetNodeId ? [properties.defaultTargetNodeId] : [])
+        ];
+        if (routeTargets.some(target => !targets.has(target))) {
+          issues.push({ code: 'INVALID_ROUTE', severity: 'error', message: `Condition node "${nodeName(node)}" routes to a node it is not connected to`, nodeId: node.id });
+        }
+        break;
+      }
+      case 'subflow':
+        if (!properties.flowId) {
+          issues.push({ code: 'MISSING_SUBFLOW', severity: 'error', message: `Subflow node "${nodeName(node)}" has no flow selected`, nodeId: node.id });
+        } else if (options?.flows && !options.flows.some(f => f.id === properties.flowId)) {
+          issues.push({ code: 'MISSING_SUBFLOW', severity: 'error', message: `Subflow node "${nodeName(node)}" references a flow that does not exist`, nodeId: node.id });
+        }
+        break;
+      case 'parallel': {
+        const reachable = collectReachable(outgoing(node.id).map(edge => edge.target), validEdges);
+        const joinNodeId = properties.joinNodeId as string | undefined;
+        const hasJoin = joinNodeId
+          ? nodesById.get(joinNodeId)?.type === 'join' && reachable.has(joinNodeId)
+          : flow.nodes.some(n => n.type === 'join' && reachable.has(n.id));
+        if (!hasJoin) {
+          issues.push({ code: 'MISSING_JOIN', severity: 'error', message: `Parallel node "${nodeName(node)}" has no join node where its branches meet`, nodeId: node.id });
+        }
+        break;
+      }
+      case 'join': {
+        const fedByParallel = flow.nodes.some(n => n.type === 'parallel' && collectReachable([n.id], validEdges).has(node.id));
+        if (!fedByParallel) {
+          issues.push({ code: 'ORPHAN_JOIN', severity: 'warning', message: `Join node "${nodeName(node)}" is not preceded by a parallel node`, nodeId: node.id });
+        }
+        break;
+      }
+      case 'human_input':
+        if (properties.injectAs === 'variable' && !properties.variableName) {
+          issues.push({ code: 'MISSING_VARIABLE', severity: 'error', message: `Human input node "${nodeName(node)}" has no variable name`, nodeId: node.id });
+        }
+        break;
+      case 'code':
+        if (!properties.code || !String(properties.code).trim()) {
+          issues.push({ code: 'MISSING_CODE', severity: 'error', message: `Code node "${nodeName(node)}" has no code`, nodeId: node.id });
+        }
+        break;
+    }
+
+    // Loop guard fallback must be one of the node's own edges
+    if (properties.maxVisits && properties.onMaxVisitsExceeded === 'fallback'
+      && !outgoing(node.id).some(edge => edge.id === properties.fallbackEdgeId)) {
+      issues.push({ code: 'INVALID_FALLBACK_EDGE', severity: 'error', message: `Node "${nodeName(node)}" has no valid fallback edge for its loop guard`, nodeId: node.id });
+    }
+
+    // Variables written by the node must be referencable as ${var:name}
+    const variableNames: string[] = [
+      ...(properties.variableName ? [properties.variableName] : []),
+      ...(properties.outputVariable ? [properties.outputVariable] : []),
+      ...Object.values((properties.toolResultVariables || {}) as Record<string, string>)
+    ];
+    const invalidName = variableNames.find(name => !FlowVariableUtility.isValidName(name));
+    if (invalidName !== undefined) {
+      issues.push({ code: 'INVALID_VARIABLE_NAME', severity: 'warning', message: `Node "${nodeName(node)}" writes to variable "${invalidName}", which cannot be referenced from a prompt`, nodeId: node.id });
+    }
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  log.debug(`Validated flow ${flow.id}`, { errors: errors.length, warnings: warnings.length });
+
+  return { valid: errors.length === 0, errors, warnings };
+}
@@ -350,7 +350,7 @@ export class MCPService {
   /**
    * Call a tool on an MCP server
    */
-  async callTool(serverName: string, toolName: string, args: ToolArgs, timeout?: number): Promise<MCPServiceResponse> {
+  async callTool(serverName: string, toolName: string, args: ToolArgs, timeout?: number, signal?: AbortSignal): Promise<MCPServiceResponse> {
     log.debug(`callTool: Entering method for server ${serverName}, tool ${toolName}`);
     
     const client = this.clients.get(serverName);
@@ -358,7 +358,7 @@ export class MCPService {
       log.warn(`callTool: Client not found for ${serverName}`);
     }
     
-    const result = await callToolFunction(client, serverName, toolName, args, timeout);
+    const result = await callToolFunction(client, serverName, toolName, args, timeout, signal);
     log.info(`callTool: Called tool ${toolName} on ${serverName}`);
     
     return result;
@@ -89,14 +89,16 @@ export async function listServerTools(client: Client | undefined, serverName: st
 }
 
 /**
- * Call a tool on an MCP server with support for progress tracking
+ * Call a tool on an MCP server with support for progress tracking.
+ * Aborting the signal cancels the request on the server (e.g. when the calling node times out).
  */
 export async function callTool(
   client: Client | undefined, 
   serverName: string, 
   toolName: string, 
   args: Record<string, unknown>, 
-  timeout?: number
+  timeout?: number,
+  signal?: AbortSignal
 ): Promise<MCPServiceResponse> {
   log.debug('Entering callTool method');
   if (!client) {
@@ -136,6 +138,9 @@ export async function callTool(
       }
     };
     
+    // The MCP SDK sends a cancellation notification when the signal is aborted
+    const requestOptions = signal ? { signal } : undefined;
+
     // Handle timeout if specified
     if (timeout !== undefined) {
       log.debug(`Using timeout: ${timeout} seconds for tool ${toolName}`);
@@ -143,7 +148,7 @@ export async function callTool(
       if (timeout === -1) {
         // No timeout (infinite)
         log.debug(`No timeout set for tool ${toolName}`);
-        const response = await client.callTool(toolCallParams);
+        const response = await client.callTool(toolCallParams, undefined, requestOptions);
         return { 
           success: true, 
           data: response, 
@@ -163,7 +168,7 @@ export async function callTool(
         try {
           // Call the tool with timeout
           const response = await Promise.race([
-            client.callTool(toolCallParams),
+            client.callTool(toolCallParams, undefined, requestOptions),
             new Promise((_, reject) => {
               controller.signal.addEventListener('abort', () => {
                 reject(new Error(`Tool execution timed out after ${timeout} seconds`));
@@ -227,7 +232,7 @@ export async function callTool(
     } else {
       // No timeout specified, use default behavior (no timeout)
       log.debug(`No timeout specified for tool ${toolName}, using default (no timeout)`);
-      const response = await client.callTool(toolCallParams);
+      const response = await client.callTool(toolCallParams, undefined, requestOptions);
       return { 
         success: true, 
         data: response, 
@@ -235,6 +240,18 @@ export async function callTool(
       };
     }
   } catch (error) {
+    if (signal?.aborted) {
+      const reason = signal.reason instanceof Error ? signal.reason.message : String(signal.reason ?? 'aborted');
+      log.warn(`Tool ${toolName} on server ${serverName} was aborted: ${reason}`);
+      return {
+        success: false,
+        error: `Tool execution aborted: ${reason}`,
+        errorType: 'aborted',
+        toolName,
+        statusCode: 408
+      };
+    }
+
     log.warn(`Failed to call tool ${toolName} on server ${serverName}:`, error);
     let errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { getNextRun, parseCron } from '../cron';
+
+// Dates are built in server local time, like the schedules run
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+const values = (set: Set<number>) => Array.from(set).sort((a, b) => a - b);
+
+describe('parseCron', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const schedule = parseCron('0-30/10 9,17 1-3 jan-mar mon-fri');
+
+    expect(values(schedule.minutes)).toEqual([0, 10, 20, 30]);
+    expect(values(schedule.hours)).toEqual([9, 17]);
+    expect(values(schedule.daysOfMonth)).toEqual([1, 2, 3]);
+    expect(values(schedule.months)).toEqual([1, 2, 3]);
+    expect(values(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.daysOfMonthRestricted).toBe(true);
+    expect(schedule.daysOfWeekRestricted).toBe(true);
+  });
+
+  it('expands steps after a wildcard or a start value', () => {
+    expect(values(parseCron('*/15 * * * *').minutes)).toEqual([0, 15, 30, 45]);
+    expect(values(parseCron('5/20 * * * *').minutes)).toEqual([5, 25, 45]);
+  });
+
+  it('expands macros and treats 7 as Sunday', () => {
+    const weekly = parseCron('@weekly');
+    expect(values(weekly.minutes)).toEqual([0]);
+    expect(values(weekly.hours)).toEqual([0]);
+    expect(values(weekly.daysOfWeek)).toEqual([0]);
+    expect(weekly.expression).toBe('@weekly');
+
+    expect(values(parseCron('0 0 * * 5-7').daysOfWeek)).toEqual([0, 5, 6]);
+  });
+
+  it.each([
+    ['0 0 * *', /must have 5 fields/],
+    ['60 * * * *', /minute value 60 is out of range 0-59/],
+    ['* 24 * * *', /hour value 24 is out of range 0-23/],
+    ['* * 0 * *', /day of month value 0 is out of range 1-31/],
+    ['* * * foo *', /Invalid month value "foo"/],
+    ['*/0 * * * *', /Invalid minute step "0"/],
+    ['10-5 * * * *', /start is after end/],
+    ['1-2-3 * * * *', /Invalid minute range/],
+    [',5 * * * *', /Invalid minute field/]
+  ])('rejects "%s"', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('getNextRun', () => {
+  it('returns the next matching minute after the given time', () => {
+    const schedule = parseCron('*/15 * * * *');
+
+    expect(getNextRun(schedule, at(2026, 3, 10, 9, 7))).toEqual(at(2026, 3, 10, 9, 15));
+    // Exclusive: a run due right now is the previous one
+    expect(getNextRun(schedule, at(2026, 3, 10, 9, 15))).toEqual(at(2026, 3, 10, 9, 30));
+  });
+
+  it('rolls over hours, days, months and years', () => {
+    expect(getNextRun(parseCron('30 8 * * *'), at(2026, 3, 10, 9, 0))).toEqual(at(2026, 3, 11, 8, 30));
+    expect(getNextRun(parseCron('0 0 1 * *'), at(2026, 1, 31, 12, 0))).toEqual(at(2026, 2, 1, 0, 0));
+    expect(getNextRun(parseCron('@yearly'), at(2026, 6, 1))).toEqual(at(2027, 1, 1, 0, 0));
+  });
+
+  it('matches weekdays', () => {
+    // 2026-03-13 is a Friday
+    expect(getNextRun(parseCron('0 9 * * mon-fri'), at(2026, 3, 13, 10, 0))).toEqual(at(2026, 3, 16, 9, 0));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 15th, or any Monday: from Friday 2026-03-13, Sunday the 15th comes first
+    expect(getNextRun(parseCron('0 0 15 * mon'), at(2026, 3, 13))).toEqual(at(2026, 3, 15, 0, 0));
+    expect(getNextRun(parseCron('0 0 15 * mon'), at(2026, 3, 15, 1, 0))).toEqual(at(2026, 3, 16, 0, 0));
+  });
+
+  it('finds leap days and gives up on dates that never exist', () => {
+    expect(getNextRun(parseCron('0 12 29 2 *'), at(2026, 3, 1))).toEqual(at(2028, 2, 29, 12, 0));
+    expect(getNextRun(parseCron('0 0 30 2 *'), at(2026, 1, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { SchedulerService as SchedulerServiceClass } from '..';
+import { ScheduleTriggerInput } from '@/shared/types/scheduler';
+
+// Triggers live in memory instead of db/; every write takes a moment, like a file write
+const mockStorage = new Map<string, unknown>();
+jest.mock('@/utils/storage/backend', () => ({
+  loadItem: async (key: string, defaultValue: unknown) =>
+    mockStorage.has(key) ? JSON.parse(JSON.stringify(mockStorage.get(key))) : defaultValue,
+  saveItem: async (key: string, value: unknown) => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    mockStorage.set(key, JSON.parse(JSON.stringify(value)));
+  }
+}));
+
+jest.mock('@/backend/services/flow', () => ({
+  flowService: { getFlow: async (flowId: string) => ({ id: flowId, name: flowId, nodes: [], edges: [] }) }
+}));
+
+const input = (name: string, changes: Partial<ScheduleTriggerInput> = {}): ScheduleTriggerInput => ({
+  name,
+  flowId: 'flow-1',
+  cron: '0 9 * * *',
+  messageTemplate: 'Report for {{date}}',
+  approvalMode: 'auto',
+  // Disabled triggers are never armed, so no timers outlive the tests
+  enabled: false,
+  ...changes
+});
+
+// Loaded after the storage mock is in place
+let SchedulerService: typeof SchedulerServiceClass;
+
+describe('SchedulerService trigger writes', () => {
+  beforeAll(async () => {
+    ({ SchedulerService } = await import('..'));
+  });
+
+  beforeEach(() => {
+    mockStorage.clear();
+  });
+
+  it('keeps all triggers saved at the same time', async () => {
+    const service = new SchedulerService();
+    const results = await Promise.all(['Daily', 'Weekly', 'Monthly'].map(name => service.saveTrigger(input(name))));
+
+    expect(results.every(result => result.success)).toBe(true);
+    const stored = await new SchedulerService().listTriggers();
+    expect(stored.map(trigger => trigger.name).sort()).toEqual(['Daily', 'Monthly', 'Weekly']);
+  });
+
+  it('keeps an edit made while a run is recorded', async () => {
+    const service = new SchedulerService();
+    const saved = await service.saveTrigger(input('Daily'));
+    const triggerId = saved.trigger!.id;
+    await service.start(async () => ({ status: 'completed', conversationId: 'conv-1' }));
+
+    const [run, edited] = await Promise.all([
+      service.runTrigger(triggerId),
+      service.saveTrigger(input('Daily report', { id: triggerId }))
+    ]);
+    service.stop();
+
+    expect(run.success).toBe(true);
+    expect(edited.success).toBe(true);
+    const stored = await new SchedulerService().getTrigger(triggerId);
+    expect(stored?.name).toBe('Daily report');
+    expect(stored?.lastRun).toEqual(run.run);
+  });
+
+  it('does not bring back a trigger deleted while it was running', async () => {
+    const service = new SchedulerService();
+    const saved = await service.saveTrigger(input('Daily'));
+    const triggerId = saved.trigger!.id;
+    await service.start(async () => {
+      await service.deleteTrigger(triggerId);
+      return { status: 'completed', conversationId: 'conv-1' };
+    });
+
+    await service.runTrigger(triggerId);
+    service.stop();
+
+    expect(await new SchedulerService().listTriggers()).toEqual([]);
+  });
+
+  it('reports an edit of a trigger deleted in the meantime', async () => {
+    const service = new SchedulerService();
+    const saved = await service.saveTrigger(input('Daily'));
+    const triggerId = saved.trigger!.id;
+
+    const [, edited] = await Promise.all([
+      service.deleteTrigger(triggerId),
+      service.saveTrigger(input('Daily report', { id: triggerId }))
+    ]);
+
+    expect(edited).toEqual({ success: false, error: `Trigger not found: ${triggerId}` });
+    expect(await new SchedulerService().listTriggers()).toEqual([]);
+  });
+});
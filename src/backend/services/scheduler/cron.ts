@@ -0,0 +1,177 @@
+/**
+ * A parsed five field cron expression: minute hour day-of-month month day-of-week.
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`0-30/10`, or `/15` after `*`), month and
+ * weekday names (`jan`, `mon-fri`) and the macros `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly`.
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  // 0 = Sunday; 7 is accepted as Sunday too
+  daysOfWeek: Set<number>;
+  // When both day fields are restricted, a day matches if either matches (as in standard cron)
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+// Schedules that never match (e.g. February 30th) stop being searched after this many years
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(text: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (nameIndex >= 0) {
+    // Month names start at 1, weekday names at 0
+    return nameIndex + field.min;
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid ${field.name} value "${text}"`);
+  }
+  const value = parseInt(text, 10);
+  if (value < field.min || value > field.max) {
+    throw new Error(`${field.name} value ${value} is out of range ${field.min}-${field.max}`);
+  }
+  return value;
+}
+
+function parseField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (rest.length > 0 || range === '') {
+      throw new Error(`Invalid ${field.name} field "${text}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new Error(`Invalid ${field.name} step "${stepText}"`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to, ...extra] = range.split('-');
+      if (extra.length > 0) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}": start is after end`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws an Error describing the first problem found.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] || trimmed;
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression must have ${FIELDS.length} fields (minute hour day-of-month month day-of-week), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  // Sunday can be written as 0 or 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !parts[2].startsWith('*'),
+    daysOfWeekRestricted: !parts[4].startsWith('*')
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time after `after` (exclusive, at minute precision, server local time) the schedule
+ * is due, or null when it is not due within the next years.
+ */
+export function getNextRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const lastYear = after.getFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getFullYear() <= lastYear) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+  return null;
+}
@@ -0,0 +1,341 @@
+import {
+  ScheduleTrigger,
+  ScheduleTriggerInput,
+  ScheduleTriggerStatus,
+  ScheduleRun,
+  SchedulerServiceResponse,
+  ScheduleTriggerResponse,
+  ScheduleRunResponse
+} from '@/shared/types/scheduler';
+import { saveItem, loadItem } from '@/utils/storage/backend';
+import { StorageKey } from '@/shared/types/storage';
+import { createLogger } from '@/utils/logger';
+import { flowService } from '@/backend/services/flow';
+import { parseCron, getNextRun } from './cron';
+
+const log = createLogger('backend/services/scheduler/index');
+
+/**
+ * Runs a flow for a trigger and reports how the conversation ended. Supplied by the API layer,
+ * which starts conversations through the chat completion service.
+ */
+export type ScheduleRunner = (trigger: ScheduleTrigger, message: string) => Promise<Omit<ScheduleRun, 'startedAt' | 'finishedAt' | 'manual'>>;
+
+// setTimeout cannot wait longer than this; later runs are re-armed when the timer fires
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Fill in the placeholders of a trigger's message template
+ */
+export function renderMessageTemplate(template: string, trigger: ScheduleTrigger, now: Date): string {
+  const values: Record<string, string> = {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    datetime: now.toISOString(),
+    lastRun: trigger.lastRun ? new Date(trigger.lastRun.startedAt).toISOString() : 'never'
+  };
+  return template.replace(/\{\{\s*(date|time|datetime|lastRun)\s*\}\}/g, (_, name: string) => values[name]);
+}
+
+/**
+ * SchedulerService stores cron triggers and runs their flows when they are due.
+ * Runs missed while the server was down are not made up; a run that is due while the
+ * previous run of the same trigger is still going is skipped.
+ */
+export class SchedulerService {
+  private triggersCache: ScheduleTrigger[] | null = null;
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private runningTriggers = new Set<string>();
+  private runner: ScheduleRunner | null = null;
+  // All triggers are stored in one list; its writes are chained so that saves, deletes and recorded runs keep each other's changes
+  private triggerSaves: Promise<void> = Promise.resolve();
+
+  /**
+   * Load all triggers from storage
+   */
+  async loadTriggers(): Promise<ScheduleTrigger[]> {
+    if (this.triggersCache) {
+      return this.triggersCache;
+    }
+    const triggers = await loadItem<ScheduleTrigger[]>(StorageKey.SCHEDULE_TRIGGERS, []);
+    this.triggersCache = triggers;
+    log.debug('Loaded schedule triggers from storage', { count: triggers.length });
+    return triggers;
+  }
+
+  /**
+   * Get a trigger by ID
+   */
+  async getTrigger(triggerId: string): Promise<ScheduleTrigger | null> {
+    const triggers = await this.loadTriggers();
+    return triggers.find(trigger => trigger.id === triggerId) || null;
+  }
+
+  /**
+   * List all triggers with their next run time
+   */
+  async listTriggers(): Promise<ScheduleTriggerStatus[]> {
+    const triggers = await this.loadTriggers();
+    return triggers.map(trigger => this.getStatus(trigger));
+  }
+
+  /**
+   * Create or update a trigger. The cron expression and the flow are checked before saving.
+   */
+  async saveTrigger(input: ScheduleTriggerInput): Promise<ScheduleTriggerResponse> {
+    try {
+      if (!input.name?.trim()) {
+        return { success: false, error: 'Trigger name is required' };
+      }
+      if (input.approvalMode !== 'auto' && input.approvalMode !== 'require_approval') {
+        return { success: false, error: "approvalMode must be 'auto' or 'require_approval'" };
+      }
+      try {
+        parseCron(input.cron || '');
+      } catch (error) {
+        return { success: false, error: `Invalid cron expression: ${error instanceof Error ? error.message : String(error)}` };
+      }
+      if (!input.flowId || !(await flowService.getFlow(input.flowId))) {
+        return { success: false, error: `Flow not found: ${input.flowId}` };
+      }
+
+      const triggers = await this.loadTriggers();
+      const existing = input.id ? triggers.find(trigger => trigger.id === input.id) : undefined;
+      if (input.id && !existing) {
+        return { success: false, error: `Trigger not found: ${input.id}` };
+      }
+
+      const now = Date.now();
+      let trigger: ScheduleTrigger = {
+        id: existing?.id || crypto.randomUUID(),
+        name: input.name.trim(),
+        flowId: input.flowId,
+        cron: input.cron.trim(),
+        messageTemplate: input.messageTemplate || '',
+        approvalMode: input.approvalMode,
+        enabled: input.enabled !== false,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        lastRun: existing?.lastRun
+      };
+
+      let found = !existing;
+      await this.saveTriggers(current => {
+        if (!existing) {
+          return [...current, trigger];
+        }
+        // The last run of the stored trigger is kept, it may have been recorded in the meantime
+        return current.map(stored => {
+          if (stored.id !== trigger.id) return stored;
+          found = true;
+          trigger = { ...trigger, lastRun: stored.lastRun };
+          return trigger;
+        });
+      });
+      if (!found) {
+        return { success: false, error: `Trigger not found: ${input.id}` };
+      }
+
+      this.arm(trigger);
+      log.info(`Trigger ${trigger.id} saved`, { name: trigger.name, cron: trigger.cron, enabled: trigger.enabled });
+      return { success: true, trigger: this.getStatus(trigger) };
+    } catch (error) {
+      log.error('Failed to save trigger', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save trigger'
+      };
+    }
+  }
+
+  /**
+   * Delete a trigger by ID. A run in progress finishes but is not recorded.
+   */
+  async deleteTrigger(triggerId: string): Promise<SchedulerServiceResponse> {
+    try {
+      await this.saveTriggers(triggers => triggers.filter(trigger => trigger.id !== triggerId));
+      this.disarm(triggerId);
+      log.info(`Trigger ${triggerId} deleted`);
+      return { success: true };
+    } catch (error) {
+      log.error(`Failed to delete trigger ${triggerId}`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete trigger'
+      };
+    }
+  }
+
+  /**
+   * Start scheduling all enabled triggers. Calling it again only replaces the runner.
+   */
+  async start(runner: ScheduleRunner): Promise<void> {
+    const alreadyStarted = this.runner !== null;
+    this.runner = runner;
+    if (alreadyStarted) {
+      log.debug('Scheduler already started');
+      return;
+    }
+    const triggers = await this.loadTriggers();
+    triggers.forEach(trigger => this.arm(trigger));
+    log.info(`Scheduler started with ${this.timers.size} active trigger(s)`, { total: triggers.length });
+  }
+
+  /**
+   * Stop all timers. Runs in progress finish.
+   */
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.runner = null;
+    log.info('Scheduler stopped');
+  }
+
+  isStarted(): boolean {
+    return this.runner !== null;
+  }
+
+  /**
+   * Run a trigger now, regardless of its schedule and whether it is enabled
+   */
+  async runTrigger(triggerId: string): Promise<ScheduleRunResponse> {
+    const trigger = await this.getTrigger(triggerId);
+    if (!trigger) {
+      return { success: false, error: `Trigger not found: ${triggerId}` };
+    }
+    if (!this.runner) {
+      return { success: false, error: 'Scheduler is not started' };
+    }
+    if (this.runningTriggers.has(triggerId)) {
+      return { success: false, error: `Trigger ${trigger.name} is already running` };
+    }
+    const run = await this.execute(trigger, true);
+    return { success: run.status !== 'error', run, error: run.error };
+  }
+
+  private getStatus(trigger: ScheduleTrigger): ScheduleTriggerStatus {
+    let nextRunAt: number | undefined;
+    if (trigger.enabled) {
+      try {
+        nextRunAt = getNextRun(parseCron(trigger.cron), new Date())?.getTime();
+      } catch {
+        // Stored triggers were validated on save; an invalid one simply has no next run
+      }
+    }
+    return { ...trigger, nextRunAt, isRunning: this.runningTriggers.has(trigger.id) };
+  }
+
+  // Set the timer for the trigger's next run, replacing any earlier timer
+  private arm(trigger: ScheduleTrigger): void {
+    this.disarm(trigger.id);
+    if (!this.runner || !trigger.enabled) {
+      return;
+    }
+
+    let nextRun: Date | null;
+    try {
+      nextRun = getNextRun(parseCron(trigger.cron), new Date());
+    } catch (error) {
+      log.warn(`Trigger ${trigger.id} has an invalid cron expression and will not run`, { cron: trigger.cron, error });
+      return;
+    }
+    if (!nextRun) {
+      log.warn(`Trigger ${trigger.id} is never due`, { cron: trigger.cron });
+      return;
+    }
+
+    const delay = nextRun.getTime() - Date.now();
+    const timer = setTimeout(() => {
+      this.timers.delete(trigger.id);
+      if (delay > MAX_TIMER_DELAY_MS) {
+        this.arm(trigger);
+        return;
+      }
+      this.onDue(trigger.id).catch(error => log.error(`Scheduled run of trigger ${trigger.id} failed`, error));
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+    // Do not keep the process alive just for the schedule
+    timer.unref?.();
+    this.timers.set(trigger.id, timer);
+    log.debug(`Trigger ${trigger.id} due at ${nextRun.toISOString()}`);
+  }
+
+  private disarm(triggerId: string): void {
+    const timer = this.timers.get(triggerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(triggerId);
+    }
+  }
+
+  private async onDue(triggerId: string): Promise<void> {
+    // Use the stored trigger, which may have changed since the timer was set
+    const trigger = await this.getTrigger(triggerId);
+    if (!trigger || !trigger.enabled) {
+      return;
+    }
+    this.arm(trigger);
+    if (this.runningTriggers.has(triggerId)) {
+      log.warn(`Skipping scheduled run of trigger ${trigger.name}: the previous run is still going`);
+      return;
+    }
+    await this.execute(trigger, false);
+  }
+
+  private async execute(trigger: ScheduleTrigger, manual: boolean): Promise<ScheduleRun> {
+    const startedAt = Date.now();
+    const message = renderMessageTemplate(trigger.messageTemplate, trigger, new Date(startedAt));
+    log.info(`Running trigger ${trigger.name}`, { triggerId: trigger.id, flowId: trigger.flowId, manual });
+
+    this.runningTriggers.add(trigger.id);
+    let run: ScheduleRun;
+    try {
+      const result = await this.runner!(trigger, message);
+      run = { ...result, startedAt, finishedAt: Date.now(), manual };
+    } catch (error) {
+      run = { startedAt, finishedAt: Date.now(), manual, status: 'error', error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      this.runningTriggers.delete(trigger.id);
+    }
+
+    log.info(`Trigger ${trigger.name} finished with status ${run.status}`, { triggerId: trigger.id, conversationId: run.conversationId, error: run.error });
+    await this.recordRun(trigger.id, run);
+    return run;
+  }
+
+  private async recordRun(triggerId: string, run: ScheduleRun): Promise<void> {
+    try {
+      // A trigger deleted while running is not in the list any more and stays deleted
+      await this.saveTriggers(triggers => triggers.map(trigger => (trigger.id === triggerId ? { ...trigger, lastRun: run } : trigger)));
+    } catch (error) {
+      log.error(`Failed to record the run of trigger ${triggerId}`, error);
+    }
+  }
+
+  /**
+   * Apply a change to the stored triggers once the writes before it are done. A failed write is
+   * reported to its caller and does not hold up the writes queued after it.
+   */
+  private saveTriggers(change: (triggers: ScheduleTrigger[]) => ScheduleTrigger[]): Promise<void> {
+    const next = this.triggerSaves.then(async () => {
+      const triggers = change(await this.loadTriggers());
+      await saveItem(StorageKey.SCHEDULE_TRIGGERS, triggers);
+      this.triggersCache = triggers;
+    });
+    this.triggerSaves = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// Keep one scheduler across route bundles and hot reloads, so triggers are never armed twice
+declare global {
+  var __flujo_scheduler: SchedulerService | undefined;
+}
+
+if (!global.__flujo_scheduler) {
+  global.__flujo_scheduler = new SchedulerService();
+}
+
+// Export a singleton instance of the service
+export const schedulerService = global.__flujo_scheduler;
@@ -0,0 +1,97 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { WebhookService as WebhookServiceClass } from '..';
+import { WebhookTriggerInput } from '@/shared/types/webhook';
+
+// Triggers live in memory instead of db/; every write takes a moment, like a file write
+const mockStorage = new Map<string, unknown>();
+jest.mock('@/utils/storage/backend', () => ({
+  loadItem: async (key: string, defaultValue: unknown) =>
+    mockStorage.has(key) ? JSON.parse(JSON.stringify(mockStorage.get(key))) : defaultValue,
+  saveItem: async (key: string, value: unknown) => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    mockStorage.set(key, JSON.parse(JSON.stringify(value)));
+  }
+}));
+
+jest.mock('@/backend/services/flow', () => ({
+  flowService: { getFlow: async (flowId: string) => ({ id: flowId, name: flowId, nodes: [], edges: [] }) }
+}));
+
+const input = (name: string, changes: Partial<WebhookTriggerInput> = {}): WebhookTriggerInput => ({
+  name,
+  flowId: 'flow-1',
+  messageTemplate: '{{payload}}',
+  variables: {},
+  mode: 'async',
+  approvalMode: 'auto',
+  enabled: true,
+  ...changes
+});
+
+// Loaded after the storage mock is in place
+let WebhookService: typeof WebhookServiceClass;
+
+describe('WebhookService trigger writes', () => {
+  beforeAll(async () => {
+    ({ WebhookService } = await import('..'));
+  });
+
+  beforeEach(() => {
+    mockStorage.clear();
+  });
+
+  it('keeps all triggers saved at the same time', async () => {
+    const service = new WebhookService();
+    const results = await Promise.all(['Tickets', 'Orders', 'Alerts'].map(name => service.saveTrigger(input(name))));
+
+    expect(results.every(result => result.success)).toBe(true);
+    const stored = await new WebhookService().listTriggers();
+    expect(stored.map(trigger => trigger.name).sort()).toEqual(['Alerts', 'Orders', 'Tickets']);
+  });
+
+  it('keeps an edit made while another trigger is deleted', async () => {
+    const service = new WebhookService();
+    const first = await service.saveTrigger(input('Tickets'));
+    const second = await service.saveTrigger(input('Orders'));
+    const firstId = first.success ? first.trigger!.id : '';
+    const secondId = second.success ? second.trigger!.id : '';
+
+    await Promise.all([
+      service.saveTrigger(input('Support tickets', { id: firstId })),
+      service.deleteTrigger(secondId)
+    ]);
+
+    const stored = await new WebhookService().listTriggers();
+    expect(stored.map(trigger => trigger.name)).toEqual(['Support tickets']);
+  });
+
+  it('keeps a regenerated secret when the trigger is edited at the same time', async () => {
+    const service = new WebhookService();
+    const saved = await service.saveTrigger(input('Tickets'));
+    const triggerId = saved.success ? saved.trigger!.id : '';
+
+    const [regenerated, edited] = await Promise.all([
+      service.regenerateSecret(triggerId),
+      service.saveTrigger(input('Support tickets', { id: triggerId }))
+    ]);
+
+    const stored = await new WebhookService().getTrigger(triggerId);
+    expect(stored?.name).toBe('Support tickets');
+    expect(stored?.secret).toBe(regenerated.trigger?.secret);
+    expect(edited.trigger?.secret).toBe(regenerated.trigger?.secret);
+  });
+
+  it('reports an edit of a trigger deleted in the meantime', async () => {
+    const service = new WebhookService();
+    const saved = await service.saveTrigger(input('Tickets'));
+    const triggerId = saved.success ? saved.trigger!.id : '';
+
+    const [, edited] = await Promise.all([
+      service.deleteTrigger(triggerId),
+      service.saveTrigger(input('Support tickets', { id: triggerId }))
+    ]);
+
+    expect(edited).toEqual({ success: false, error: `Trigger not found: ${triggerId}` });
+    expect(await new WebhookService().listTriggers()).toEqual([]);
+  });
+});
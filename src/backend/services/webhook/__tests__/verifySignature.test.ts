@@ -0,0 +1,63 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from '@jest/globals';
+import { WebhookService, SIGNATURE_TOLERANCE_SECONDS } from '..';
+import { WebhookTrigger } from '@/shared/types/webhook';
+
+const trigger: WebhookTrigger = {
+  id: 'trigger-1',
+  name: 'Tickets',
+  flowId: 'flow-1',
+  secret: 'test-secret',
+  messageTemplate: '{{payload}}',
+  variables: {},
+  mode: 'async',
+  approvalMode: 'auto',
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0
+};
+
+const body = '{"ticket":{"id":42}}';
+const now = 1_760_000_000_000;
+const timestamp = String(now / 1000);
+
+const sign = (payload: string, secret = trigger.secret) =>
+  `sha256=${createHmac('sha256', secret).update(payload, 'utf8').digest('hex')}`;
+
+describe('WebhookService.verifySignature', () => {
+  const service = new WebhookService();
+
+  it('accepts a request signed over its timestamp and body', () => {
+    expect(service.verifySignature(trigger, body, sign(`${timestamp}.${body}`), timestamp, now)).toEqual({ valid: true });
+  });
+
+  it('rejects a missing or malformed signature or timestamp', () => {
+    expect(service.verifySignature(trigger, body, null, timestamp, now).valid).toBe(false);
+    expect(service.verifySignature(trigger, body, 'sha256=abc', timestamp, now).valid).toBe(false);
+    expect(service.verifySignature(trigger, body, sign(`${timestamp}.${body}`), null, now).valid).toBe(false);
+    expect(service.verifySignature(trigger, body, sign(`${timestamp}.${body}`), 'yesterday', now).valid).toBe(false);
+  });
+
+  it('rejects a signature over the body alone, another body or another secret', () => {
+    expect(service.verifySignature(trigger, body, sign(body), timestamp, now).valid).toBe(false);
+    expect(service.verifySignature(trigger, '{"ticket":{"id":43}}', sign(`${timestamp}.${body}`), timestamp, now).valid).toBe(false);
+    expect(service.verifySignature(trigger, body, sign(`${timestamp}.${body}`, 'other-secret'), timestamp, now).valid).toBe(false);
+  });
+
+  it('rejects a captured request once its timestamp left the window', () => {
+    const signature = sign(`${timestamp}.${body}`);
+    const withinWindow = now + SIGNATURE_TOLERANCE_SECONDS * 1000;
+    const afterWindow = withinWindow + 1000;
+
+    expect(service.verifySignature(trigger, body, signature, timestamp, withinWindow)).toEqual({ valid: true });
+    expect(service.verifySignature(trigger, body, signature, timestamp, afterWindow)).toEqual({
+      valid: false,
+      error: 'Request timestamp is outside the allowed window'
+    });
+  });
+
+  it('rejects a replayed body with a fresh timestamp but the old signature', () => {
+    const freshTimestamp = String(now / 1000 + 3600);
+    expect(service.verifySignature(trigger, body, sign(`${timestamp}.${body}`), freshTimestamp, now + 3600 * 1000).valid).toBe(false);
+  });
+});
@@ -0,0 +1,316 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  WebhookTrigger,
+  WebhookTriggerInput,
+  WebhookTriggerSummary,
+  WebhookInvocation,
+  WebhookServiceResponse,
+  WebhookTriggerResponse
+} from '@/shared/types/webhook';
+import { saveItem, loadItem } from '@/utils/storage/backend';
+import { StorageKey } from '@/shared/types/storage';
+import { createLogger } from '@/utils/logger';
+import { flowService } from '@/backend/services/flow';
+import { ConditionNodeUtility } from '@/backend/execution/flow/nodes/util/ConditionNodeUtility';
+import { FlowVariableUtility } from '@/backend/execution/flow/nodes/util/FlowVariableUtility';
+
+const log = createLogger('backend/services/webhook/index');
+
+export const SIGNATURE_HEADER = 'x-flujo-signature';
+export const TIMESTAMP_HEADER = 'x-flujo-timestamp';
+// How far the signed timestamp may be from the server's clock, so captured requests cannot be replayed later
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Invocations kept per trigger
+const MAX_INVOCATIONS = 50;
+const PAYLOAD_PREVIEW_LENGTH = 500;
+
+const getInvocationsKey = (triggerId: string) => `webhook-invocations/${triggerId}` as StorageKey;
+
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * WebhookService stores webhook triggers, verifies signed requests, maps payloads into the
+ * initial message and flow variables, and keeps a log of recent invocations per trigger.
+ */
+export class WebhookService {
+  private triggersCache: WebhookTrigger[] | null = null;
+  private invocationsCache = new Map<string, WebhookInvocation[]>();
+  // Log writes are chained per trigger so that concurrent invocations do not overwrite each other
+  private invocationSaves = new Map<string, Promise<void>>();
+  // All triggers are stored in one list; its writes are chained so that concurrent saves and deletes keep each other's changes
+  private triggerSaves: Promise<void> = Promise.resolve();
+
+  /**
+   * Load all triggers from storage
+   */
+  async loadTriggers(): Promise<WebhookTrigger[]> {
+    if (this.triggersCache) {
+      return this.triggersCache;
+    }
+    const triggers = await loadItem<WebhookTrigger[]>(StorageKey.WEBHOOK_TRIGGERS, []);
+    this.triggersCache = triggers;
+    log.debug('Loaded webhook triggers from storage', { count: triggers.length });
+    return triggers;
+  }
+
+  /**
+   * List all triggers without their secrets
+   */
+  async listTriggers(): Promise<WebhookTriggerSummary[]> {
+    const triggers = await this.loadTriggers();
+    return triggers.map(({ secret: _secret, ...summary }) => summary);
+  }
+
+  /**
+   * Get a trigger by ID, including its secret
+   */
+  async getTrigger(triggerId: string): Promise<WebhookTrigger | null> {
+    const triggers = await this.loadTriggers();
+    return triggers.find(trigger => trigger.id === triggerId) || null;
+  }
+
+  /**
+   * Create or update a trigger. New triggers get a generated secret.
+   */
+  async saveTrigger(input: WebhookTriggerInput): Promise<WebhookTriggerResponse> {
+    try {
+      if (!input.name?.trim()) {
+        return { success: false, error: 'Trigger name is required' };
+      }
+      if (input.mode !== 'async' && input.mode !== 'sync') {
+        return { success: false, error: "mode must be 'async' or 'sync'" };
+      }
+      if (input.approvalMode !== 'auto' && input.approvalMode !== 'require_approval') {
+        return { success: false, error: "approvalMode must be 'auto' or 'require_approval'" };
+      }
+      const variables = input.variables || {};
+      const invalidNames = Object.keys(variables).filter(name => !FlowVariableUtility.isValidName(name));
+      if (invalidNames.length > 0) {
+        return { success: false, error: `Invalid variable names: ${invalidNames.join(', ')}` };
+      }
+      if (!input.flowId || !(await flowService.getFlow(input.flowId))) {
+        return { success: false, error: `Flow not found: ${input.flowId}` };
+      }
+
+      const triggers = await this.loadTriggers();
+      const existing = input.id ? triggers.find(trigger => trigger.id === input.id) : undefined;
+      if (input.id && !existing) {
+        return { success: false, error: `Trigger not found: ${input.id}` };
+      }
+
+      const now = Date.now();
+      let trigger: WebhookTrigger = {
+        id: existing?.id || randomUUID(),
+        name: input.name.trim(),
+        flowId: input.flowId,
+        secret: existing?.secret || this.generateSecret(),
+        messageTemplate: input.messageTemplate || '{{payload}}',
+        variables,
+        mode: input.mode,
+        approvalMode: input.approvalMode,
+        enabled: input.enabled !== false,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now
+      };
+
+      let found = !existing;
+      await this.saveTriggers(current => {
+        if (!existing) {
+          return [...current, trigger];
+        }
+        // The secret of the stored trigger is kept, it may have been regenerated in the meantime
+        return current.map(stored => {
+          if (stored.id !== trigger.id) return stored;
+          found = true;
+          trigger = { ...trigger, secret: stored.secret };
+          return trigger;
+        });
+      });
+      if (!found) {
+        return { success: false, error: `Trigger not found: ${input.id}` };
+      }
+      log.info(`Webhook trigger ${trigger.id} saved`, { name: trigger.name, flowId: trigger.flowId });
+      return { success: true, trigger };
+    } catch (error) {
+      log.error('Failed to save webhook trigger', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save webhook trigger'
+      };
+    }
+  }
+
+  /**
+   * Replace a trigger's secret. Callers signing with the old secret are rejected from now on.
+   */
+  async regenerateSecret(triggerId: string): Promise<WebhookTriggerResponse> {
+    let updated: WebhookTrigger | undefined;
+    await this.saveTriggers(triggers => triggers.map(trigger => {
+      if (trigger.id !== triggerId) return trigger;
+      updated = { ...trigger, secret: this.generateSecret(), updatedAt: Date.now() };
+      return updated;
+    }));
+    if (!updated) {
+      return { success: false, error: `Trigger not found: ${triggerId}` };
+    }
+    log.info(`Secret of webhook trigger ${triggerId} regenerated`);
+    return { success: true, trigger: updated };
+  }
+
+  /**
+   * Delete a trigger and its invocation log
+   */
+  async deleteTrigger(triggerId: string): Promise<WebhookServiceResponse> {
+    try {
+      await this.saveTriggers(triggers => triggers.filter(trigger => trigger.id !== triggerId));
+      await this.saveInvocations(triggerId, () => []);
+      log.info(`Webhook trigger ${triggerId} deleted`);
+      return { success: true };
+    } catch (error) {
+      log.error(`Failed to delete webhook trigger ${triggerId}`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete webhook trigger'
+      };
+    }
+  }
+
+  /**
+   * Check the `sha256=<hex>` signature of a request against the trigger's secret. The signature
+   * covers `<timestamp>.<raw body>`; the timestamp (Unix seconds) must be within
+   * SIGNATURE_TOLERANCE_SECONDS of `now`.
+   */
+  verifySignature(
+    trigger: WebhookTrigger,
+    rawBody: string,
+    signatureHeader: string | null,
+    timestampHeader: string | null,
+    now: number = Date.now()
+  ): { valid: true } | { valid: false; error: string } {
+    const match = signatureHeader?.trim().match(/^sha256=([0-9a-fA-F]{64})$/);
+    const timestamp = timestampHeader?.trim();
+    if (!match || !timestamp || !/^\d+$/.test(timestamp)) {
+      return { valid: false, error: 'Missing or invalid signature' };
+    }
+    const expected = createHmac('sha256', trigger.secret).update(`${timestamp}.${rawBody}`, 'utf8').digest();
+    if (!timingSafeEqual(expected, Buffer.from(match[1], 'hex'))) {
+      return { valid: false, error: 'Missing or invalid signature' };
+    }
+    // Checked after the signature, so the timestamp cannot be swapped for a fresh one
+    if (Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+      return { valid: false, error: 'Request timestamp is outside the allowed window' };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Fill the trigger's message template from the payload
+   */
+  renderMessage(trigger: WebhookTrigger, payload: unknown): string {
+    return trigger.messageTemplate.replace(/\{\{\s*payload((?:\.|\[)[^}]*?)?\s*\}\}/g, (_, path?: string) =>
+      stringify(path ? ConditionNodeUtility.getByPath(payload, path) : payload)
+    );
+  }
+
+  /**
+   * Read the trigger's variables from the payload. Paths that do not exist give null.
+   */
+  mapVariables(trigger: WebhookTrigger, payload: unknown): Record<string, unknown> {
+    const variables: Record<string, unknown> = {};
+    for (const [name, path] of Object.entries(trigger.variables)) {
+      variables[name] = FlowVariableUtility.toVariableValue(ConditionNodeUtility.getByPath(payload, path) ?? null);
+    }
+    return variables;
+  }
+
+  /**
+   * Recent invocations of a trigger, newest first
+   */
+  async listInvocations(triggerId: string): Promise<WebhookInvocation[]> {
+    return [...(await this.loadInvocations(triggerId))].reverse();
+  }
+
+  /**
+   * Add an invocation to the trigger's log
+   */
+  async recordInvocation(
+    triggerId: string,
+    entry: Omit<WebhookInvocation, 'id' | 'triggerId' | 'receivedAt'> & { rawBody?: string }
+  ): Promise<WebhookInvocation> {
+    const { rawBody, ...fields } = entry;
+    const invocation: WebhookInvocation = {
+      id: randomUUID(),
+      triggerId,
+      receivedAt: Date.now(),
+      payloadPreview: rawBody?.slice(0, PAYLOAD_PREVIEW_LENGTH),
+      ...fields
+    };
+    await this.saveInvocations(triggerId, invocations => [...invocations, invocation].slice(-MAX_INVOCATIONS));
+    return invocation;
+  }
+
+  /**
+   * Update a logged invocation, e.g. when an asynchronous run has finished
+   */
+  async updateInvocation(triggerId: string, invocationId: string, update: Partial<WebhookInvocation>): Promise<void> {
+    await this.saveInvocations(triggerId, invocations =>
+      invocations.map(invocation => (invocation.id === invocationId ? { ...invocation, ...update } : invocation))
+    );
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Apply a change to the stored triggers once the writes before it are done. A failed write is
+   * reported to its caller and does not hold up the writes queued after it.
+   */
+  private saveTriggers(change: (triggers: WebhookTrigger[]) => WebhookTrigger[]): Promise<void> {
+    const next = this.triggerSaves.then(async () => {
+      const triggers = change(await this.loadTriggers());
+      await saveItem(StorageKey.WEBHOOK_TRIGGERS, triggers);
+      this.triggersCache = triggers;
+    });
+    this.triggerSaves = next.catch(() => undefined);
+    return next;
+  }
+
+  private async loadInvocations(triggerId: string): Promise<WebhookInvocation[]> {
+    if (!this.invocationsCache.has(triggerId)) {
+      this.invocationsCache.set(triggerId, await loadItem<WebhookInvocation[]>(getInvocationsKey(triggerId), []));
+    }
+    return this.invocationsCache.get(triggerId)!;
+  }
+
+  private saveInvocations(triggerId: string, change: (invocations: WebhookInvocation[]) => WebhookInvocation[]): Promise<void> {
+    const previous = this.invocationSaves.get(triggerId) || Promise.resolve();
+    const next = previous
+      .then(async () => {
+        const invocations = change(await this.loadInvocations(triggerId));
+        this.invocationsCache.set(triggerId, invocations);
+        await saveItem(getInvocationsKey(triggerId), invocations);
+      })
+      .catch(error => log.error(`Failed to save invocations of webhook trigger ${triggerId}`, error));
+    this.invocationSaves.set(triggerId, next);
+    return next;
+  }
+}
+
+// The invoke route and the management route are separate bundles; share one service so they see the same log
+declare global {
+  var __flujo_webhooks: WebhookService | undefined;
+}
+
+if (!global.__flujo_webhooks) {
+  global.__flujo_webhooks = new WebhookService();
+}
+
+// Export a singleton instance of the service
+export const webhookService = global.__flujo_webhooks;
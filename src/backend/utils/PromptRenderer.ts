@@ -3,6 +3,7 @@ import { modelService } from '@/backend/services/model';
 import { mcpService } from '@/backend/services/mcp';
 import { createLogger } from '@/utils/logger';
 import { toolNameInternalRegex } from '@/utils/shared';
+import { resolveFlowVars } from '@/backend/utils/resolveGlobalVars';
 
 const log = createLogger('backend/utils/PromptRenderer');
 
@@ -11,6 +12,7 @@ export interface PromptRenderOptions {
   includeConversationHistory?: boolean;
   excludeModelPrompt?: boolean; // Override node's excludeModelPrompt setting
   excludeStartNodePrompt?: boolean; // Override node's excludeStartNodePrompt setting
+  variables?: Record<string, unknown>; // Flow variables for ${var:name} placeholders; left unresolved when omitted
 }
 
 export class PromptRenderer {
@@ -107,7 +109,12 @@ export class PromptRenderer {
     // 4. Resolve tool pills with function calling schema
     completePrompt = await this.resolveToolPills(completePrompt, renderMode, functionCallingSchema);
 
-    // 5. Add placeholder for conversation history if requested
+    // 5. Resolve flow variables
+    if (options?.variables) {
+      completePrompt = await resolveFlowVars(completePrompt, options.variables);
+    }
+
+    // 6. Add placeholder for conversation history if requested
     if (includeConversationHistory) {
       log.debug('Adding conversation history placeholder');
       completePrompt += '\n\n[Conversation History will be included here]';
@@ -0,0 +1,116 @@
+import { getEncoding, getEncodingNameForModel, Tiktoken, TiktokenEncoding, TiktokenModel } from 'js-tiktoken';
+import OpenAI from 'openai';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('backend/utils/TokenCounter');
+
+// Tokens the chat format adds around every message, and to prime the answer
+// (https://github.com/openai/openai-cookbook, "How to count tokens with tiktoken")
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_NAME = 1;
+const REPLY_PRIMING_TOKENS = 3;
+
+// Loading an encoding builds its rank tables, so each one is loaded once
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+function getTokenizer(name: TiktokenEncoding): Tiktoken {
+  let encoding = encodings.get(name);
+  if (!encoding) {
+    encoding = getEncoding(name);
+    encodings.set(name, encoding);
+  }
+  return encoding;
+}
+
+/**
+ * The encoding of a model. Models tiktoken does not know (other providers, or names with a
+ * vendor prefix like `openai/gpt-4o`) are counted with the closest OpenAI encoding; for
+ * non-OpenAI models the count is an estimate.
+ */
+export function getEncodingName(modelName?: string): TiktokenEncoding {
+  const name = (modelName || '').split('/').pop()!.toLowerCase();
+  try {
+    return getEncodingNameForModel(name as TiktokenModel);
+  } catch {
+    return /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d|chatgpt-4o)/.test(name) ? 'o200k_base' : 'cl100k_base';
+  }
+}
+
+/**
+ * Number of tokens of a text for a model
+ */
+export function countTokens(text: string, modelName?: string): number {
+  if (!text) {
+    return 0;
+  }
+  // Special token markers in user content are counted as plain text instead of throwing
+  return getTokenizer(getEncodingName(modelName)).encode(text, [], []).length;
+}
+
+/**
+ * Shorten a text to its first `maxTokens` tokens. Returns the text unchanged when it is short enough.
+ */
+export function truncateToTokens(text: string, maxTokens: number, modelName?: string): { text: string; removedTokens: number } {
+  const tokenizer = getTokenizer(getEncodingName(modelName));
+  const tokens = tokenizer.encode(text, [], []);
+  if (tokens.length <= maxTokens) {
+    return { text, removedTokens: 0 };
+  }
+  return { text: tokenizer.decode(tokens.slice(0, Math.max(0, maxTokens))), removedTokens: tokens.length - maxTokens };
+}
+
+/**
+ * Text of a message content; content parts are joined line by line
+ */
+export function contentText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (part && typeof part === 'object' && 'text' in part ? String(part.text) : JSON.stringify(part)))
+      .join('\n');
+  }
+  return content ? JSON.stringify(content) : '';
+}
+
+/**
+ * Number of tokens a list of chat messages takes in a request, including the tool calls
+ * of assistant messages and the tokens that prime the answer
+ */
+export function countMessageTokens(messages: OpenAI.ChatCompletionMessageParam[], modelName?: string): number {
+  let total = REPLY_PRIMING_TOKENS;
+  for (const message of messages) {
+    total += countSingleMessageTokens(message, modelName);
+  }
+  return total;
+}
+
+/**
+ * Number of tokens one chat message takes in a request
+ */
+export function countSingleMessageTokens(message: OpenAI.ChatCompletionMessageParam, modelName?: string): number {
+  let total = TOKENS_PER_MESSAGE + countTokens(message.role, modelName) + countTokens(contentText(message.content), modelName);
+  if ('name' in message && message.name) {
+    total += TOKENS_PER_NAME + countTokens(message.name, modelName);
+  }
+  if (message.role === 'assistant' && message.tool_calls) {
+    for (const toolCall of message.tool_calls) {
+      total += countTokens(`${toolCall.function.name}${toolCall.function.arguments}`, modelName);
+    }
+  }
+  return total;
+}
+
+/**
+ * Number of tokens the tool definitions of a request take. Providers serialize them in
+ * their own way, so this is an estimate based on their JSON.
+ */
+export function countToolTokens(tools: OpenAI.ChatCompletionTool[] | undefined, modelName?: string): number {
+  if (!tools || tools.length === 0) {
+    return 0;
+  }
+  const count = countTokens(JSON.stringify(tools), modelName);
+  log.verbose(`Tool definitions take about ${count} tokens`);
+  return count;
+}
@@ -157,6 +157,33 @@ export async function resolveGlobalVars(value: unknown): Promise<unknown> {
   return result;
 }
 
+/**
+ * SERVER ONLY: Replace flow variable references in a string
+ *
+ * Searches for patterns like ${var:name} or ${var:name.path.0} and replaces them
+ * with the value of the flow variable. Non-string values are inserted as JSON.
+ * References to unknown variables are kept as they are.
+ */
+export async function resolveFlowVars(str: string, variables: Record<string, unknown>): Promise<string> {
+  const regex = /\$\{var:([^}]+)\}/g;
+
+  return str.replace(regex, (match, reference: string) => {
+    const [name, ...path] = reference.trim().split('.');
+    let value: unknown = variables[name];
+    for (const segment of path) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+
+    if (value === undefined) {
+      log.warn(`Flow variable not found: ${reference}`);
+      return match;
+    }
+
+    log.debug(`Resolved flow variable: ${reference}`);
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
 /**
  * Helper function to resolve and decrypt an API key or global variable
  * This handles both global variable references and encrypted values
@@ -48,8 +48,10 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({
     switch (status) {
       case 'running': return 'primary.main';
       case 'awaiting_tool_approval': return 'warning.main';
+      case 'awaiting_human_input': return 'info.main';
       case 'paused_debug': return 'secondary.main';
       case 'completed': return 'success.main';
+      case 'budget_exceeded': return 'warning.dark';
       case 'error': return 'error.main';
       default: return 'transparent';
     }
@@ -60,8 +62,10 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({
     switch (status) {
       case 'running': return 'Processing';
       case 'awaiting_tool_approval': return 'Waiting for tool approval';
+      case 'awaiting_human_input': return 'Waiting for your input';
       case 'paused_debug': return 'Paused in debug mode';
       case 'completed': return 'Completed';
+      case 'budget_exceeded': return 'Stopped by its budget';
       case 'error': return 'Error';
       default: return '';
     }
@@ -3,18 +3,21 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
     Box, Typography, List, ListItem, ListItemButton, ListItemText, Button, Paper, CircularProgress, Alert,
+    IconButton, Tooltip, TextField,
     Accordion, AccordionSummary, AccordionDetails // Import Accordion components
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore'; // Import icon for Accordion
+import HistoryIcon from '@mui/icons-material/History';
 import { styled, useTheme } from '@mui/material/styles';
 import { ReactFlow, useNodesState, useEdgesState, Node, Edge, ReactFlowProvider } from '@xyflow/react'; // Import ReactFlow components
-import { SharedState, DebugStep } from '@/backend/execution/flow/types'; // Import backend types
+import { SharedState, DebugStep, LoopCounters, FlowVariables, BudgetExceeded } from '@/backend/execution/flow/types'; // Import backend types
 import { Flow } from '@/shared/types/flow'; // Import shared Flow type
+import { FlujoChatMessage } from '@/shared/types/chat';
 import { flowService } from '@/frontend/services/flow'; // Import flow service
 import { createLogger } from '@/utils/logger';
 
 // Import custom nodes and edges if needed for display (might need adaptation for read-only)
-import { StartNode, ProcessNode, FinishNode, MCPNode } from '@/frontend/components/Flow/FlowManager/FlowBuilder/CustomNodes';
+import { StartNode, ProcessNode, FinishNode, MCPNode, ConditionNode, SubflowNode, ParallelNode, JoinNode, HumanInputNode, CodeNode } from '@/frontend/components/Flow/FlowManager/FlowBuilder/CustomNodes';
 import { CustomEdge, MCPEdge } from '@/frontend/components/Flow/FlowManager/FlowBuilder/CustomEdges';
 
 // Import Canvas components if needed (or create simplified versions)
@@ -28,6 +31,7 @@ interface DebuggerCanvasProps {
   conversationId: string;
   onStep: () => void; // Callback for Next Step button
   onContinue: () => void; // Callback for Continue button
+  onRewind: (stepIndex: number, edits?: { messages?: FlujoChatMessage[]; variables?: FlowVariables }) => void; // Callback for Rewind to here
   onCancel: () => void; // Callback for Cancel button
   isLoading: boolean; // To disable buttons during API calls
 }
@@ -38,6 +42,12 @@ const nodeTypes = {
   process: ProcessNode,
   finish: FinishNode,
   mcp: MCPNode,
+  condition: ConditionNode,
+  subflow: SubflowNode,
+  parallel: ParallelNode,
+  join: JoinNode,
+  human_input: HumanInputNode,
+  code: CodeNode,
 };
 
 // Define edge types
@@ -94,12 +104,34 @@ const ControlsPanel = styled(Box)(({ theme }) => ({
     justifyContent: 'center',
 }));
 
+// Renders the steps of a nested flow (subflow node or parallel branches) indented below its parent step
+const NestedTraceItems: React.FC<{ steps: DebugStep[]; depth: number }> = ({ steps, depth }) => (
+  <>
+    {steps.map((step) => (
+      <React.Fragment key={`${depth}-${step.stepIndex}`}>
+        <ListItem disablePadding sx={{ pl: depth * 2 }}>
+          <ListItemText
+            primary={`↳ ${step.stepIndex}: ${step.nodeName || step.nodeId}`}
+            secondary={`${step.nodeType} · ${step.actionTaken}`}
+            primaryTypographyProps={{ variant: 'caption' }}
+            secondaryTypographyProps={{ variant: 'caption' }}
+            sx={{ px: 2, my: 0 }}
+          />
+        </ListItem>
+        {step.childSteps && step.childSteps.length > 0 && (
+          <NestedTraceItems steps={step.childSteps} depth={depth + 1} />
+        )}
+      </React.Fragment>
+    ))}
+  </>
+);
 
 const DebuggerCanvas: React.FC<DebuggerCanvasProps> = ({
   debugState,
   conversationId,
   onStep,
   onContinue,
+  onRewind,
   onCancel,
   isLoading
 }) => {
@@ -111,6 +143,10 @@ const DebuggerCanvas: React.FC<DebuggerCanvasProps> = ({
   const [flowDefinition, setFlowDefinition] = useState<Flow | null>(null);
   const [flowLoading, setFlowLoading] = useState<boolean>(true);
   const [flowError, setFlowError] = useState<string | null>(null);
+  // Editable copies of the selected step's messages and variables for rewinding
+  const [rewindMessages, setRewindMessages] = useState<string>('');
+  const [rewindVariables, setRewindVariables] = useState<string>('');
+  const [rewindError, setRewindError] = useState<string | null>(null);
 
   // State for React Flow nodes and edges with correct explicit types
   const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]); // Use Node, not Node[]
@@ -258,6 +294,41 @@ const DebuggerCanvas: React.FC<DebuggerCanvasProps> = ({
 
   // Removed duplicated handleNextStep definition
 
+  // Loop guard counters as they were after the selected step
+  const loopCounters: LoopCounters | undefined = currentStepData?.stateAfter?.loopCounters;
+  // Budget limit that stopped the run, if any
+  const budgetExceeded: BudgetExceeded | undefined = currentStepData?.stateAfter?.budgetExceeded;
+  // Flow variables as they were after the selected step
+  const variables: FlowVariables | undefined = currentStepData?.stateAfter?.variables;
+
+  // Reset the rewind editors to the snapshot of the selected step
+  useEffect(() => {
+    setRewindMessages(JSON.stringify(currentStepData?.stateBefore?.messages || [], null, 2));
+    setRewindVariables(JSON.stringify(currentStepData?.stateBefore?.variables || {}, null, 2));
+    setRewindError(null);
+  }, [currentStepData]);
+
+  const handleRewindWithEdits = useCallback(() => {
+    if (!currentStepData) return;
+    try {
+      const messages = JSON.parse(rewindMessages) as FlujoChatMessage[];
+      const editedVariables = JSON.parse(rewindVariables) as FlowVariables;
+      if (!Array.isArray(messages)) {
+        setRewindError('Messages must be a JSON array.');
+        return;
+      }
+      if (typeof editedVariables !== 'object' || editedVariables === null || Array.isArray(editedVariables)) {
+        setRewindError('Variables must be a JSON object.');
+        return;
+      }
+      setRewindError(null);
+      log.info(`Rewinding to step ${currentStepIndex} with edited state`);
+      onRewind(currentStepIndex, { messages, variables: editedVariables });
+    } catch (error) {
+      setRewindError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [currentStepData, currentStepIndex, rewindMessages, rewindVariables, onRewind]);
+
 
   return (
     <DebuggerContainer elevation={2}>
@@ -270,14 +341,30 @@ const DebuggerCanvas: React.FC<DebuggerCanvasProps> = ({
           <Typography variant="subtitle2" gutterBottom>Execution Trace</Typography>
           <List dense disablePadding>
             {debugState.executionTrace?.map((step, index) => (
-              <ListItem key={step.stepIndex} disablePadding>
-                <ListItemButton
-                  selected={index === currentStepIndex}
-                  onClick={() => handleStepSelect(index)}
+              <React.Fragment key={step.stepIndex}>
+                <ListItem
+                  disablePadding
+                  secondaryAction={
+                    <Tooltip title="Rewind to here">
+                      <span>
+                        <IconButton edge="end" size="small" onClick={() => onRewind(index)} disabled={isLoading} aria-label="rewind to here">
+                          <HistoryIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  }
                 >
-                  <ListItemText primary={`${step.stepIndex}: ${step.nodeName || step.nodeId}`} secondary={step.nodeType} />
-                </ListItemButton>
-              </ListItem>
+                  <ListItemButton
+                    selected={index === currentStepIndex}
+                    onClick={() => handleStepSelect(index)}
+                  >
+                    <ListItemText primary={`${step.stepIndex}: ${step.nodeName || step.nodeId}`} secondary={step.nodeType} />
+                  </ListItemButton>
+                </ListItem>
+                {step.childSteps && step.childSteps.length > 0 && (
+                  <NestedTraceItems steps={step.childSteps} depth={1} />
+                )}
+              </React.Fragment>
             ))}
             {isLoading && ( // Show loading indicator at the end if stepping
                  <ListItem>
@@ -330,6 +417,21 @@ const DebuggerCanvas: React.FC<DebuggerCanvasProps> = ({
               <Typography variant="body2"><b>Type:</b> {currentStepData.nodeType}</Typography>
               <Typography variant="body2"><b>Timestamp:</b> {new Date(currentStepData.timestamp).toLocaleString()}</Typography>
               <Typography variant="body2"><b>Action Taken:</b> {currentStepData.actionTaken}</Typography>
+              {loopCounters && (
+                <Typography variant="body2">
+                  <b>Run Steps:</b> {loopCounters.steps}, <b>Node Visits:</b> {loopCounters.nodeVisits[currentStepData.nodeId] || 0}
+                </Typography>
+              )}
+              {loopCounters?.exceeded && (
+                <Typography variant="body2" color="error">
+                  <b>Loop Guard:</b> {loopCounters.exceeded.kind === 'maxSteps' ? 'step budget' : 'visit limit'} of {loopCounters.exceeded.limit} exceeded at {loopCounters.exceeded.nodeId} ({loopCounters.exceeded.policy})
+                </Typography>
+              )}
+              {budgetExceeded && (
+                <Typography variant="body2" color="warning.main">
+                  <b>Budget:</b> {budgetExceeded.limit} of {budgetExceeded.value} reached at {budgetExceeded.nodeId} (used {budgetExceeded.used})
+                </Typography>
+              )}
 
               {/* Accordion for Prep Result */}
               <Accordion sx={{ mt: 2, boxShadow: 'none', '&:before': { display: 'none' } }}>
@@ -371,6 +473,116 @@ const DebuggerCanvas: React.FC<DebuggerCanvasProps> = ({
                 </AccordionDetails>
               </Accordion>
 
+              {/* Accordion for the execution attempts of nodes with a retry policy */}
+              {currentStepData.attempts && currentStepData.attempts.length > 1 && (
+                <Accordion sx={{ boxShadow: 'none', '&:before': { display: 'none' } }}>
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ minHeight: '36px', '& .MuiAccordionSummary-content': { margin: '8px 0' } }}>
+                    <Typography variant="caption">Attempts ({currentStepData.attempts.length})</Typography>
+                  </AccordionSummary>
+                  <AccordionDetails sx={{ p: 0 }}>
+                    {currentStepData.attempts.map(attempt => (
+                      <Typography key={attempt.attempt} variant="body2" color={attempt.success ? 'inherit' : 'error'} sx={{ fontSize: '0.75rem' }}>
+                        #{attempt.attempt} {attempt.success ? 'succeeded' : `failed (${attempt.errorType}): ${attempt.error}`} after {attempt.durationMs} ms
+                      </Typography>
+                    ))}
+                  </AccordionDetails>
+                </Accordion>
+              )}
+
+              {/* Accordion for the compaction of the conversation before the model call */}
+              {currentStepData.execResultSnapshot?.contextCompaction && (
+                <Accordion sx={{ boxShadow: 'none', '&:before': { display: 'none' } }}>
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ minHeight: '36px', '& .MuiAccordionSummary-content': { margin: '8px 0' } }}>
+                    <Typography variant="caption" color="warning.main">Context Compacted ({currentStepData.execResultSnapshot.contextCompaction.strategy})</Typography>
+                  </AccordionSummary>
+                  <AccordionDetails sx={{ p: 0 }}>
+                    <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all', maxHeight: '200px', overflowY: 'auto', background: '#f5f5f5', padding: '8px', borderRadius: '4px', fontSize: '0.75rem', margin: 0 }}>
+                      {JSON.stringify(currentStepData.execResultSnapshot.contextCompaction, null, 2)}
+                    </pre>
+                  </AccordionDetails>
+                </Accordion>
+              )}
+
+              {/* Accordion for nested subflow / parallel branch steps */}
+              {currentStepData.childSteps && currentStepData.childSteps.length > 0 && (
+                <Accordion sx={{ boxShadow: 'none', '&:before': { display: 'none' } }}>
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ minHeight: '36px', '& .MuiAccordionSummary-content': { margin: '8px 0' } }}>
+                    <Typography variant="caption">Nested Steps ({currentStepData.childSteps.length})</Typography>
+                  </AccordionSummary>
+                  <AccordionDetails sx={{ p: 0 }}>
+                    <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all', maxHeight: '200px', overflowY: 'auto', background: '#f5f5f5', padding: '8px', borderRadius: '4px', fontSize: '0.75rem', margin: 0 }}>
+                      {JSON.stringify(currentStepData.childSteps.map(step => ({
+                        stepIndex: step.stepIndex,
+                        nodeId: step.nodeId,
+                        nodeName: step.nodeName,
+                        nodeType: step.nodeType,
+                        actionTaken: step.actionTaken,
+                        execResult: step.execResultSnapshot
+                      })), null, 2)}
+                    </pre>
+                  </AccordionDetails>
+                </Accordion>
+              )}
+
+              {/* Accordion for flow variables */}
+              {variables && Object.keys(variables).length > 0 && (
+                <Accordion sx={{ boxShadow: 'none', '&:before': { display: 'none' } }}>
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ minHeight: '36px', '& .MuiAccordionSummary-content': { margin: '8px 0' } }}>
+                    <Typography variant="caption">Variables ({Object.keys(variables).length})</Typography>
+                  </AccordionSummary>
+                  <AccordionDetails sx={{ p: 0 }}>
+                    <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all', maxHeight: '200px', overflowY: 'auto', background: '#f5f5f5', padding: '8px', borderRadius: '4px', fontSize: '0.75rem', margin: 0 }}>
+                      {JSON.stringify(variables, null, 2)}
+                    </pre>
+                  </AccordionDetails>
+                </Accordion>
+              )}
+
+              {/* Accordion for loop guard counters */}
+              {loopCounters && (
+                <Accordion sx={{ boxShadow: 'none', '&:before': { display: 'none' } }}>
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ minHeight: '36px', '& .MuiAccordionSummary-content': { margin: '8px 0' } }}>
+                    <Typography variant="caption">Loop Counters</Typography>
+                  </AccordionSummary>
+                  <AccordionDetails sx={{ p: 0 }}>
+                    <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all', maxHeight: '200px', overflowY: 'auto', background: '#f5f5f5', padding: '8px', borderRadius: '4px', fontSize: '0.75rem', margin: 0 }}>
+                      {JSON.stringify(loopCounters, null, 2)}
+                    </pre>
+                  </AccordionDetails>
+                </Accordion>
+              )}
+
+              {/* Accordion for rewinding to this step with edited messages or variables */}
+              <Accordion sx={{ boxShadow: 'none', '&:before': { display: 'none' } }}>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ minHeight: '36px', '& .MuiAccordionSummary-content': { margin: '8px 0' } }}>
+                  <Typography variant="caption">Rewind With Edits</Typography>
+                </AccordionSummary>
+                <AccordionDetails sx={{ p: 0, display: 'flex', flexDirection: 'column', gap: 1 }}>
+                  <TextField
+                    label="Messages"
+                    value={rewindMessages}
+                    onChange={(e) => setRewindMessages(e.target.value)}
+                    multiline
+                    maxRows={10}
+                    size="small"
+                    inputProps={{ style: { fontFamily: 'monospace', fontSize: '0.75rem' } }}
+                  />
+                  <TextField
+                    label="Variables"
+                    value={rewindVariables}
+                    onChange={(e) => setRewindVariables(e.target.value)}
+                    multiline
+                    maxRows={10}
+                    size="small"
+                    inputProps={{ style: { fontFamily: 'monospace', fontSize: '0.75rem' } }}
+                  />
+                  {rewindError && <Alert severity="error" sx={{ py: 0 }}>{rewindError}</Alert>}
+                  <Button variant="outlined" size="small" onClick={handleRewindWithEdits} disabled={isLoading}>
+                    Rewind to Here
+                  </Button>
+                </AccordionDetails>
+              </Accordion>
+
               {/* Accordion for State Before */}
               <Accordion sx={{ boxShadow: 'none', '&:before': { display: 'none' } }}>
                 <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ minHeight: '36px', '& .MuiAccordionSummary-content': { margin: '8px 0' } }}>
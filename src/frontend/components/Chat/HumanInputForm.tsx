@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import {
+  Paper,
+  Typography,
+  Box,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  Button,
+  Alert,
+} from '@mui/material';
+import PanToolIcon from '@mui/icons-material/PanTool';
+import SendIcon from '@mui/icons-material/Send';
+import type { PendingHumanInput, HumanInputFieldSchema } from '@/backend/execution/flow/types';
+
+interface HumanInputFormProps {
+  pendingInput: PendingHumanInput;
+  onSubmit: (values: Record<string, unknown>) => Promise<void>;
+  disabled?: boolean;
+}
+
+// Initial value of a field: its default, or an empty value of the right kind
+const initialValue = (field: HumanInputFieldSchema) =>
+  field.default ?? (field.type === 'boolean' ? false : '');
+
+/**
+ * Renders the form published by a human input node inline in the chat.
+ * The node's prompt is already part of the conversation, so only the fields are shown.
+ */
+const HumanInputForm: React.FC<HumanInputFormProps> = ({ pendingInput, onSubmit, disabled }) => {
+  const { schema } = pendingInput;
+  const [values, setValues] = useState<Record<string, unknown>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever a new form is published
+  useEffect(() => {
+    setValues(Object.fromEntries(
+      Object.entries(schema.properties).map(([key, field]) => [key, initialValue(field)])
+    ));
+    setError(null);
+  }, [pendingInput.nodeId, pendingInput.requestedAt, schema]);
+
+  const required = new Set(schema.required || []);
+  const missingRequired = Array.from(required).some(key => values[key] === undefined || values[key] === '');
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(values);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderField = (key: string, field: HumanInputFieldSchema) => {
+    const label = field.title || key;
+    const value = values[key];
+
+    if (field.type === 'boolean') {
+      return (
+        <FormControlLabel
+          key={key}
+          control={
+            <Checkbox
+              checked={value === true}
+              onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.checked }))}
+            />
+          }
+          label={label}
+        />
+      );
+    }
+
+    return (
+      <TextField
+        key={key}
+        select={!!field.enum}
+        type={!field.enum && (field.type === 'number' || field.type === 'integer') ? 'number' : 'text'}
+        label={label}
+        value={value ?? ''}
+        onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+        required={required.has(key)}
+        helperText={field.description}
+        multiline={!field.enum && field.multiline}
+        minRows={field.multiline ? 3 : undefined}
+        size="small"
+        fullWidth
+      >
+        {field.enum?.map(option => (
+          <MenuItem key={String(option)} value={option}>{String(option)}</MenuItem>
+        ))}
+      </TextField>
+    );
+  };
+
+  return (
+    <Paper
+      elevation={2}
+      sx={{ p: 2, mt: 2, border: '1px solid', borderColor: 'info.main', borderRadius: 2 }}
+    >
+      <Typography variant="h6" sx={{ mb: 2, display: 'flex', alignItems: 'center' }}>
+        <PanToolIcon sx={{ mr: 1 }} /> {schema.title || 'Input Required'}
+      </Typography>
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        {Object.entries(schema.properties).map(([key, field]) => renderField(key, field))}
+      </Box>
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>
+      )}
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+        <Button
+          variant="contained"
+          size="small"
+          startIcon={<SendIcon />}
+          onClick={handleSubmit}
+          disabled={disabled || submitting || missingRequired}
+        >
+          Submit
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default HumanInputForm;
@@ -9,6 +9,7 @@ import ChatHistory from './ChatHistory';
 import ChatMessages from './ChatMessages';
 import ChatInput from './ChatInput';
 import FlowSelector from './FlowSelector';
+import HumanInputForm from './HumanInputForm';
 import Spinner from '@/frontend/components/shared/Spinner';
 import { v4 as uuidv4 } from 'uuid';
 import OpenAI, { OpenAIError, APIError } from 'openai'; // Import APIError
@@ -17,11 +18,14 @@ import { createLogger } from '@/utils/logger';
 import axios, { AxiosResponse } from 'axios'; // Import axios for polling and AxiosResponse
 // Correctly import SharedState here
 import { ChatCompletionMetadata, FlujoChatMessage } from '@/shared/types/chat'; // Import the shared types
-import type { SharedState } from '@/backend/execution/flow/types'; // Import SharedState type from backend
-import { Flow, FlowNode } from '@/shared/types/flow'; // Import Flow and FlowNode types
+import type { SharedState, PendingHumanInput, FlowVariables } from '@/backend/execution/flow/types'; // Import SharedState type from backend
+import { Flow, FlowNode, FlowExecutionEventType, UsageTotals, UsageTracking } from '@/shared/types/flow'; // Import Flow and FlowNode types
 
 const log = createLogger('frontend/components/Chat/index');
 
+// Execution events after which the conversation state has changed
+const REFRESH_EVENT_TYPES: FlowExecutionEventType[] = ['node_finished', 'tool_result', 'approval_required', 'message_delta', 'message_discarded', 'completed', 'error'];
+
 // Define types for our chat data
 export interface Attachment {
   id: string;
@@ -43,6 +47,8 @@ export interface Conversation {
   flowId: string | null;
   createdAt: number;
   updatedAt: number;
+  pendingHumanInput?: PendingHumanInput; // Form a human input node is waiting on
+  usage?: UsageTracking; // Tokens and cost of the conversation's model calls
 }
 
 // Represents the summary item shown in the list
@@ -53,7 +59,8 @@ export interface ConversationListItem {
   flowId: string | null;
   createdAt: number;
   updatedAt: number;
-  status?: 'running' | 'awaiting_tool_approval' | 'paused_debug' | 'completed' | 'error'; // Added 'paused_debug'
+  status?: 'running' | 'awaiting_tool_approval' | 'awaiting_human_input' | 'paused_debug' | 'completed' | 'budget_exceeded' | 'error'; // Added 'paused_debug'
+  usage?: UsageTotals; // Tokens and cost of all model calls of the conversation
 }
 
 
@@ -84,12 +91,14 @@ const Chat: React.FC = () => {
   const [requireApproval, setRequireApproval] = useState<boolean>(false);
   const [executeInDebugger, setExecuteInDebugger] = useState<boolean>(false); // State for debugger checkbox
   const [pendingToolCalls, setPendingToolCalls] = useState<OpenAI.ChatCompletionMessageToolCall[] | null>(null);
+  const [pendingHumanInput, setPendingHumanInput] = useState<PendingHumanInput | null>(null);
   const [isDebugPaused, setIsDebugPaused] = useState<boolean>(false); // State to control UI split
   const [debugState, setDebugState] = useState<SharedState | null>(null); // State to hold debug data
 
   // Refs
   const openaiRef = useRef<OpenAI | null>(null);
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
 
   // --- Effects ---
 
@@ -182,6 +191,7 @@ const Chat: React.FC = () => {
       // TODO: Adapt if backend returns SharedState - map it to Conversation type here if needed
       // For now, assume the GET endpoint returns the Conversation structure (or compatible)
       setDetailedConversation(response.data);
+      setPendingHumanInput(response.data.pendingHumanInput || null);
       log.info('Fetched detailed conversation successfully', { conversationId: id });
     } catch (err: any) { // Use any for error checking
        log.error('Error fetching detailed conversation:', { conversationId: id, err });
@@ -562,7 +572,7 @@ const Chat: React.FC = () => {
           : c
       ).sort((a, b) => b.updatedAt - a.updatedAt)); // Re-sort
       return true; // Indicate debug state was handled
-    } else if (data.status === 'completed' || data.status === 'error') {
+    } else if (data.status === 'completed' || data.status === 'budget_exceeded' || data.status === 'error') {
       // Only hide the debugger panel if the execution is definitively finished or errored
       log.info(`API Response: Execution completed or errored (Status: ${data.status}). Hiding debugger panel.`, { conversationId });
       setIsDebugPaused(false);
@@ -613,10 +623,16 @@ const Chat: React.FC = () => {
       setPendingToolCalls(data.pendingToolCalls || []);
       setIsLoading(false); // Stop loading indicator
       stopPolling();
-    } else if (data.status === 'completed' || data.status === 'error') {
+    } else if (data.status === 'awaiting_human_input') {
+      log.info('API Response/Polling: Pausing for human input', { conversationId });
+      setPendingHumanInput(data.pendingHumanInput || null);
+      setIsLoading(false);
+      stopPolling();
+    } else if (data.status === 'completed' || data.status === 'budget_exceeded' || data.status === 'error') {
       log.info('API Response/Polling: Stopping due to final status', { conversationId, status: data.status });
       stopPolling();
       setIsLoading(false);
+      setPendingHumanInput(null);
       if (data.status === 'error') {
          // Handle OpenAI compatible error structure
          const errorMessage = data.error?.message || data.lastResponse?.error || 'Unknown error during execution';
@@ -628,12 +644,14 @@ const Chat: React.FC = () => {
     } else if (data.status === 'running' && !isDebugPaused) {
        // If status is running and we are NOT paused for debug, clear pending calls and continue polling/loading
        setPendingToolCalls(null);
+       setPendingHumanInput(null);
        if (!pollingIntervalRef.current) { // Restart polling if it stopped
           setIsLoading(true); // Ensure loading indicator is on
        }
     } else {
        // Other statuses or conditions
        setPendingToolCalls(null); // Clear pending calls for safety
+       setPendingHumanInput(data.pendingHumanInput || null); // Polled conversation data carries the pending form
     }
 
     // Update conversation list status, title, and flowId from standard response/polling with type assertion
@@ -687,8 +705,13 @@ const Chat: React.FC = () => {
     }
   }, [handleApiResponse, isDebugPaused]); // Add isDebugPaused dependency
 
-  // Function to stop polling
+  // Function to stop polling (and the execution event stream that drives it)
   const stopPolling = () => {
+    if (eventSourceRef.current) {
+      log.debug('Closing execution event stream');
+      eventSourceRef.current.close();
+      eventSourceRef.current = null;
+    }
     if (pollingIntervalRef.current) {
       log.debug('Stopping polling interval');
       clearInterval(pollingIntervalRef.current);
@@ -696,15 +719,37 @@ const Chat: React.FC = () => {
     }
   };
 
-  // Effect to manage polling based on isLoading and currentConversationId
+  // Effect to refresh the conversation while it runs: the server pushes execution events and
+  // the state is fetched when they arrive. Falls back to polling when the stream fails.
   useEffect(() => {
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
     if (isLoading && currentConversationId) {
-      // Start polling immediately and then set interval
       pollConversationState(currentConversationId);
-      pollingIntervalRef.current = setInterval(() => {
-        pollConversationState(currentConversationId);
-      }, 2000); // Poll every 2 seconds
-      log.debug('Polling started', { conversationId: currentConversationId });
+      // Bursts of events (e.g. several tool results) trigger a single fetch
+      const scheduleRefresh = () => {
+        if (refreshTimer) return;
+        refreshTimer = setTimeout(() => {
+          refreshTimer = null;
+          pollConversationState(currentConversationId);
+        }, 200);
+      };
+
+      const eventSource = new EventSource(`/v1/chat/conversations/${currentConversationId}/events`);
+      eventSourceRef.current = eventSource;
+      REFRESH_EVENT_TYPES.forEach(type => eventSource.addEventListener(type, scheduleRefresh));
+      eventSource.onerror = () => {
+        log.warn('Execution event stream failed, polling instead', { conversationId: currentConversationId });
+        eventSource.close();
+        if (eventSourceRef.current === eventSource) {
+          eventSourceRef.current = null;
+        }
+        if (!pollingIntervalRef.current) {
+          pollingIntervalRef.current = setInterval(() => {
+            pollConversationState(currentConversationId);
+          }, 2000); // Poll every 2 seconds
+        }
+      };
+      log.debug('Listening to execution events', { conversationId: currentConversationId });
     } else {
       // Stop polling if not loading or no conversation selected
       stopPolling();
@@ -712,6 +757,7 @@ const Chat: React.FC = () => {
 
     // Cleanup function to stop polling when component unmounts or dependencies change
     return () => {
+      if (refreshTimer) clearTimeout(refreshTimer);
       stopPolling();
     };
   }, [isLoading, currentConversationId, pollConversationState]); // Rerun effect when isLoading or currentConversationId changes
@@ -1117,6 +1163,30 @@ const Chat: React.FC = () => {
     handleToolResponse('reject', toolCallId);
   };
 
+  // Submit the values of a human input form, then resume the flow
+  const handleSubmitHumanInput = async (values: Record<string, unknown>) => {
+    if (!currentConversationId || !detailedConversation) return;
+    log.info('Submitting human input', { conversationId: currentConversationId, fields: Object.keys(values) });
+
+    try {
+      await axios.post(`/v1/chat/conversations/${currentConversationId}/respond`, {
+        action: 'submit_input',
+        values,
+      });
+    } catch (err) {
+      log.error('Error submitting human input', { conversationId: currentConversationId, err });
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        const details = err.response.data.details;
+        throw new Error(Array.isArray(details) ? details.join('; ') : err.response.data.error);
+      }
+      throw err;
+    }
+
+    setPendingHumanInput(null);
+    // The human input node consumes the stored values on the next step
+    await sendToChatCompletions(detailedConversation);
+  };
+
   // --- Debugger Control Handlers ---
   const handleDebugStep = async () => {
     if (!currentConversationId || !isDebugPaused) return;
@@ -1157,6 +1227,21 @@ const Chat: React.FC = () => {
     }
   };
 
+  const handleDebugRewind = async (stepIndex: number, edits?: { messages?: FlujoChatMessage[]; variables?: FlowVariables }) => {
+    if (!currentConversationId || !isDebugPaused) return;
+    log.info('Handling debug rewind request', { conversationId: currentConversationId, stepIndex });
+    setIsLoading(true); // Show loading while the step runs again
+    setError(null);
+    try {
+      const response = await axios.post(`/v1/chat/conversations/${currentConversationId}/debug/rewind`, { stepIndex, ...edits });
+      handleApiResponse(response, currentConversationId); // Process the response (updates state, status)
+    } catch (err) {
+      log.error('Error during debug rewind API call', { conversationId: currentConversationId, err });
+      setError(err instanceof Error ? err.message : 'Failed to rewind execution.');
+      setIsLoading(false); // Stop loading on error, the debugger stays on the current state
+    }
+  };
+
   // Handle Cancel Request (Also used by Debugger)
   const handleCancelRequest = async () => {
     if (!currentConversationId) return;
@@ -1251,6 +1336,15 @@ const Chat: React.FC = () => {
                 onRejectToolCall={handleRejectToolCall}
               />
 
+              {/* Form published by a human input node */}
+              {pendingHumanInput && (
+                <HumanInputForm
+                  pendingInput={pendingHumanInput}
+                  onSubmit={handleSubmitHumanInput}
+                  disabled={isLoading || isDebugPaused}
+                />
+              )}
+
               {/* Loading Indicator and Cancel Button */}
               {isLoading && (
                 <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', my: 2, gap: 2 }}>
@@ -1306,7 +1400,7 @@ const Chat: React.FC = () => {
           <ChatInput
             onSendMessage={handleSendMessage}
             // Disable if loading details, loading response, no flow selected (check both detailed and summary), OR awaiting approval
-            disabled={isLoadingDetails || isLoading || !(detailedConversation?.flowId || currentConversationSummary?.flowId) || !!pendingToolCalls || isDebugPaused} // Also disable input when paused
+            disabled={isLoadingDetails || isLoading || !(detailedConversation?.flowId || currentConversationSummary?.flowId) || !!pendingToolCalls || !!pendingHumanInput || isDebugPaused} // Also disable input when paused
             requireApproval={requireApproval}
             onRequireApprovalChange={setRequireApproval}
             executeInDebugger={executeInDebugger} // Pass debugger state
@@ -1329,6 +1423,7 @@ const Chat: React.FC = () => {
                <Box sx={{ mt: 2, display: 'flex', gap: 1 }}>
                    <Button variant="outlined" size="small" onClick={handleDebugStep} disabled={isLoading}>Next Step</Button>
                    <Button variant="contained" size="small" onClick={handleDebugContinue} disabled={isLoading}>Continue (Yolo)</Button>
+                   <Button variant="outlined" size="small" onClick={() => handleDebugRewind((debugState.executionTrace?.length || 0) - 1)} disabled={isLoading || !debugState.executionTrace?.length}>Rewind Last Step</Button>
                    <Button variant="outlined" color="secondary" size="small" onClick={handleCancelRequest} disabled={isLoading}>Cancel</Button>
                    {/* Add Previous button later */}
                </Box>
@@ -1337,7 +1432,7 @@ const Chat: React.FC = () => {
                    {JSON.stringify(debugState.executionTrace?.slice(-1)[0], null, 2)} {/* Show last trace step */}
                </pre>
             </Box>
-            {/* <DebuggerCanvas debugState={debugState} conversationId={currentConversationId} /> */}
+            {/* <DebuggerCanvas debugState={debugState} conversationId={currentConversationId} onRewind={handleDebugRewind} /> */}
           </Grid>
         )}
       </Grid> {/* End Main Content Grid */}
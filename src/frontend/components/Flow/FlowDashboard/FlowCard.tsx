@@ -19,12 +19,15 @@ import DeleteIcon from '@mui/icons-material/Delete';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import EditIcon from '@mui/icons-material/Edit';
 import { Flow } from '@/frontend/types/flow/flow';
+import { UsageTotals } from '@/shared/types/flow';
 import { createLogger } from '@/utils/logger';
 
 const log = createLogger('components/Flow/FlowDashboard/FlowCard');
 
 interface FlowCardProps {
   flow: Flow;
+  // Tokens and cost of the flow's conversations
+  usage?: UsageTotals;
   selected: boolean;
   onSelect: (flowId: string) => void;
   onDelete: (flowId: string) => void;
@@ -71,8 +74,12 @@ const PreviewArea = styled(Box)(({ theme }) => ({
   position: 'relative',
 }));
 
+// Cost in USD; small amounts keep more digits
+const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+
 const FlowCard = ({ 
   flow, 
+  usage,
   selected, 
   onSelect, 
   onDelete, 
@@ -128,7 +135,13 @@ const FlowCard = ({
                       fill={
                         node.data.type === 'start' ? '#4caf50' :
                         node.data.type === 'finish' ? '#f44336' :
-                        node.data.type === 'mcp' ? '#ff9800' : '#2196f3'
+                        node.data.type === 'mcp' ? '#ff9800' :
+                        node.data.type === 'condition' ? '#9c27b0' :
+                        node.data.type === 'subflow' ? '#607d8b' :
+                        node.data.type === 'parallel' ? '#3f51b5' :
+                        node.data.type === 'join' ? '#009688' :
+                        node.data.type === 'human_input' ? '#e91e63' :
+                        node.data.type === 'code' ? '#8bc34a' : '#2196f3'
                       }
                       opacity={0.7}
                     />
@@ -225,6 +238,19 @@ const FlowCard = ({
               sx={{ fontSize: '0.7rem', height: 20 }}
             />
           </Box>
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+            <Typography variant="caption" color="textSecondary">
+              Cost
+            </Typography>
+            <Tooltip title={usage
+              ? `${usage.total_tokens.toLocaleString()} tokens in ${usage.calls} model calls${usage.unpricedCalls > 0 ? `, ${usage.unpricedCalls} of them with models without pricing` : ''}`
+              : 'No model calls yet'}>
+              <Typography variant="caption" fontWeight="medium">
+                {usage ? `${formatCost(usage.cost)}${usage.unpricedCalls > 0 ? '+' : ''}` : '-'}
+              </Typography>
+            </Tooltip>
+          </Box>
         </CardContent>
       </CardActionArea>
       
@@ -17,7 +17,9 @@ import {
   ListItemText,
   Button,
   useTheme,
-  useMediaQuery
+  useMediaQuery,
+  Tabs,
+  Tab
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
 import SortIcon from '@mui/icons-material/Sort';
@@ -29,7 +31,10 @@ import UpdateIcon from '@mui/icons-material/Update';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import AddIcon from '@mui/icons-material/Add';
 import FlowCard, { FlowCardSkeleton } from './FlowCard';
+import ScheduleList from './ScheduleList';
 import { Flow } from '@/frontend/types/flow/flow';
+import { UsageTotals } from '@/shared/types/flow';
+import { flowService } from '@/frontend/services/flow';
 import { createLogger } from '@/utils/logger';
 
 const log = createLogger('components/Flow/FlowDashboard/FlowDashboard');
@@ -61,6 +66,13 @@ const FlowDashboard = ({
   const [sortOption, setSortOption] = useState<SortOption>('name-asc');
   const [viewMode, setViewMode] = useState<'grid' | 'compact'>('grid');
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [tab, setTab] = useState<'flows' | 'schedules'>('flows');
+  const [usageByFlow, setUsageByFlow] = useState<Record<string, UsageTotals>>({});
+
+  // Tokens and cost of the flows' conversations
+  useEffect(() => {
+    flowService.getUsageByFlow().then(setUsageByFlow);
+  }, [flows]);
   
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -139,6 +151,28 @@ const FlowDashboard = ({
     ));
   };
 
+  const tabs = (
+    <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 1 }}>
+      <Tab value="flows" label="Flows" />
+      <Tab value="schedules" label="Schedules" />
+    </Tabs>
+  );
+
+  // Scheduled runs of the flows
+  if (tab === 'schedules') {
+    return (
+      <Box sx={{ 
+        height: '100%', 
+        display: 'flex', 
+        flexDirection: 'column',
+        overflow: 'hidden',
+      }}>
+        {tabs}
+        <ScheduleList flows={flows} />
+      </Box>
+    );
+  }
+
   return (
     <Box sx={{ 
       height: '100%', 
@@ -146,6 +180,8 @@ const FlowDashboard = ({
       flexDirection: 'column',
       overflow: 'hidden',
     }}>
+      {tabs}
+      
       {/* Toolbar with search and actions */}
       <Paper elevation={1} sx={{ mb: 2, p: 1 }}>
         <Box sx={{ 
@@ -283,6 +319,7 @@ const FlowDashboard = ({
               >
                 <FlowCard
                   flow={flow}
+                  usage={usageByFlow[flow.id]}
                   selected={selectedFlow === flow.id}
                   onSelect={onSelectFlow}
                   onDelete={onDeleteFlow}
@@ -0,0 +1,301 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  IconButton,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Switch,
+  Chip,
+  Tooltip,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  CircularProgress,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { Flow } from '@/frontend/types/flow/flow';
+import { ScheduleTriggerInput, ScheduleTriggerStatus, ScheduleRunStatus } from '@/shared/types/scheduler';
+import { schedulerService } from '@/frontend/services/scheduler';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('components/Flow/FlowDashboard/ScheduleList');
+
+interface ScheduleListProps {
+  flows: Flow[];
+}
+
+const EMPTY_TRIGGER: ScheduleTriggerInput = {
+  name: '',
+  flowId: '',
+  cron: '0 9 * * *',
+  messageTemplate: 'Run for {{date}}',
+  approvalMode: 'require_approval',
+  enabled: true
+};
+
+const STATUS_COLORS: Record<ScheduleRunStatus, 'success' | 'warning' | 'error' | 'info'> = {
+  completed: 'success',
+  budget_exceeded: 'warning',
+  awaiting_tool_approval: 'warning',
+  awaiting_human_input: 'warning',
+  running: 'info',
+  error: 'error'
+};
+
+const formatTime = (time?: number) => (time ? new Date(time).toLocaleString() : '—');
+
+/**
+ * Schedules tab of the flow dashboard: cron triggers that run flows, with their next and last run
+ */
+const ScheduleList = ({ flows }: ScheduleListProps) => {
+  const [triggers, setTriggers] = useState<ScheduleTriggerStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ScheduleTriggerInput | null>(null);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [runningIds, setRunningIds] = useState<Set<string>>(new Set());
+
+  const loadTriggers = useCallback(async () => {
+    setIsLoading(true);
+    setTriggers(await schedulerService.listTriggers());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTriggers();
+  }, [loadTriggers]);
+
+  const flowName = (flowId: string) => flows.find(flow => flow.id === flowId)?.name || 'Deleted flow';
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const result = await schedulerService.saveTrigger(editing);
+    if (!result.success) {
+      setDialogError(result.error || 'Failed to save schedule');
+      return;
+    }
+    setEditing(null);
+    loadTriggers();
+  };
+
+  const handleToggle = async (trigger: ScheduleTriggerStatus) => {
+    const { name, flowId, cron, messageTemplate, approvalMode, id } = trigger;
+    const result = await schedulerService.saveTrigger({ id, name, flowId, cron, messageTemplate, approvalMode, enabled: !trigger.enabled });
+    if (!result.success) {
+      setError(result.error || 'Failed to update schedule');
+    }
+    loadTriggers();
+  };
+
+  const handleDelete = async (trigger: ScheduleTriggerStatus) => {
+    if (!window.confirm(`Delete the schedule "${trigger.name}"?`)) return;
+    const result = await schedulerService.deleteTrigger(trigger.id);
+    if (!result.success) {
+      setError(result.error || 'Failed to delete schedule');
+    }
+    loadTriggers();
+  };
+
+  const handleRunNow = async (trigger: ScheduleTriggerStatus) => {
+    log.info(`Running schedule ${trigger.name} now`);
+    setRunningIds(prev => new Set(prev).add(trigger.id));
+    const result = await schedulerService.runTrigger(trigger.id);
+    setRunningIds(prev => {
+      const next = new Set(prev);
+      next.delete(trigger.id);
+      return next;
+    });
+    if (!result.success) {
+      setError(result.error || 'Run failed');
+    }
+    loadTriggers();
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, height: '100%', overflow: 'auto', px: 1, pb: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="body2" color="textSecondary" sx={{ flex: 1 }}>
+          Flows run on these schedules in server local time. Each run starts a new conversation.
+        </Typography>
+        <IconButton size="small" onClick={loadTriggers}>
+          <RefreshIcon fontSize="small" />
+        </IconButton>
+        <Button
+          variant="contained"
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={() => {
+            setDialogError(null);
+            setEditing({ ...EMPTY_TRIGGER, flowId: flows[0]?.id || '' });
+          }}
+          disabled={flows.length === 0}
+        >
+          New Schedule
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>}
+
+      <Paper elevation={1}>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : triggers.length === 0 ? (
+          <Typography variant="body2" color="textSecondary" sx={{ p: 3, textAlign: 'center' }}>
+            No schedules yet.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Enabled</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Flow</TableCell>
+                <TableCell>Schedule</TableCell>
+                <TableCell>Next run</TableCell>
+                <TableCell>Last run</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {triggers.map(trigger => (
+                <TableRow key={trigger.id} hover>
+                  <TableCell>
+                    <Switch size="small" checked={trigger.enabled} onChange={() => handleToggle(trigger)} />
+                  </TableCell>
+                  <TableCell>
+                    {trigger.name}
+                    {trigger.approvalMode === 'require_approval' && (
+                      <Chip label="approval" size="small" variant="outlined" sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  <TableCell>{flowName(trigger.flowId)}</TableCell>
+                  <TableCell><code>{trigger.cron}</code></TableCell>
+                  <TableCell>{trigger.enabled ? formatTime(trigger.nextRunAt) : 'Disabled'}</TableCell>
+                  <TableCell>
+                    {trigger.lastRun ? (
+                      <Tooltip title={trigger.lastRun.error || (trigger.lastRun.conversationId ? `Conversation ${trigger.lastRun.conversationId}` : '')}>
+                        <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center', gap: 1 }}>
+                          {formatTime(trigger.lastRun.startedAt)}
+                          <Chip label={trigger.lastRun.status} size="small" color={STATUS_COLORS[trigger.lastRun.status] || 'info'} />
+                        </Box>
+                      </Tooltip>
+                    ) : 'Never'}
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Run now">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleRunNow(trigger)}
+                          disabled={trigger.isRunning || runningIds.has(trigger.id)}
+                        >
+                          {runningIds.has(trigger.id) ? <CircularProgress size={16} /> : <PlayArrowIcon fontSize="small" />}
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <IconButton
+                      size="small"
+                      onClick={() => {
+                        const { id, name, flowId, cron, messageTemplate, approvalMode, enabled } = trigger;
+                        setDialogError(null);
+                        setEditing({ id, name, flowId, cron, messageTemplate, approvalMode, enabled });
+                      }}
+                    >
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" color="error" onClick={() => handleDelete(trigger)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Paper>
+
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing?.id ? 'Edit Schedule' : 'New Schedule'}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+          {dialogError && <Alert severity="error">{dialogError}</Alert>}
+          {editing && (
+            <>
+              <TextField
+                label="Name"
+                size="small"
+                value={editing.name}
+                onChange={e => setEditing({ ...editing, name: e.target.value })}
+              />
+              <TextField
+                select
+                label="Flow"
+                size="small"
+                value={editing.flowId}
+                onChange={e => setEditing({ ...editing, flowId: e.target.value })}
+              >
+                {flows.map(flow => (
+                  <MenuItem key={flow.id} value={flow.id}>{flow.name}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Cron expression"
+                size="small"
+                value={editing.cron}
+                onChange={e => setEditing({ ...editing, cron: e.target.value })}
+                helperText='minute hour day-of-month month day-of-week, e.g. "0 9 * * mon-fri" or "@hourly"'
+              />
+              <TextField
+                label="Input message"
+                size="small"
+                multiline
+                minRows={3}
+                value={editing.messageTemplate}
+                onChange={e => setEditing({ ...editing, messageTemplate: e.target.value })}
+                helperText="{{date}}, {{time}}, {{datetime}} and {{lastRun}} are replaced when the flow runs"
+              />
+              <TextField
+                select
+                label="Tool calls"
+                size="small"
+                value={editing.approvalMode}
+                onChange={e => setEditing({ ...editing, approvalMode: e.target.value as ScheduleTriggerInput['approvalMode'] })}
+              >
+                <MenuItem value="require_approval">Wait for approval in the chat</MenuItem>
+                <MenuItem value="auto">Run without approval</MenuItem>
+              </TextField>
+              <FormControlLabel
+                control={<Switch checked={editing.enabled} onChange={e => setEditing({ ...editing, enabled: e.target.checked })} />}
+                label="Enabled"
+              />
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ScheduleList;
@@ -18,7 +18,7 @@ import {
 } from '@xyflow/react';
 import { styled, useTheme } from '@mui/material/styles';
 import { FlowNode, NodeType } from '@/frontend/types/flow/flow';
-import { StartNode, ProcessNode, FinishNode, MCPNode } from '../CustomNodes';
+import { StartNode, ProcessNode, FinishNode, MCPNode, ConditionNode, SubflowNode, ParallelNode, JoinNode, HumanInputNode, CodeNode } from '../CustomNodes';
 import ContextMenu from '../ContextMenu';
 import { CustomEdge, MCPEdge } from '../CustomEdges';
 import { CanvasProps, EditNodeEventDetail, NodeSelectionModalProps } from './types';
@@ -28,6 +28,7 @@ import { validateConnection, createEdgeFromConnection } from './utils/edgeUtils'
 import { findNodeById } from './utils/nodeUtils';
 import { CanvasToolbar } from './components/CanvasToolbar';
 import { CanvasControls } from './components/CanvasControls';
+import { ValidationPanel } from './components/ValidationPanel';
 import { createLogger } from '@/utils/logger';
 
 // Create a logger instance for this file
@@ -39,6 +40,12 @@ const nodeTypes = {
   process: ProcessNode,
   finish: FinishNode,
   mcp: MCPNode,
+  condition: ConditionNode,
+  subflow: SubflowNode,
+  parallel: ParallelNode,
+  join: JoinNode,
+  human_input: HumanInputNode,
+  code: CodeNode,
 };
 
 const edgeTypes = {
@@ -60,7 +67,7 @@ const NodeSelectionModal: React.FC<NodeSelectionModalProps> = ({
   // Helper function to determine valid target node types based on source node type and handle ID
   const getValidNodeTypes = (): Array<NodeType> => {
     if (!sourceNodeType || !sourceHandleId) {
-      return ['process', 'finish', 'mcp'] as Array<NodeType>;
+      return ['process', 'finish', 'mcp', 'condition', 'subflow', 'parallel', 'join', 'human_input', 'code'] as Array<NodeType>;
     }
     
     // If source is an MCP node, only allow connecting to process nodes
@@ -77,8 +84,8 @@ const NodeSelectionModal: React.FC<NodeSelectionModalProps> = ({
       return ['mcp'] as Array<NodeType>;
     }
     
-    // For normal connections from process or start nodes, allow process and finish nodes
-    return ['process', 'finish'] as Array<NodeType>;
+    // For normal connections from process, condition, subflow, parallel, join, human input, code or start nodes, allow all non-MCP nodes
+    return ['process', 'finish', 'condition', 'subflow', 'parallel', 'join', 'human_input', 'code'] as Array<NodeType>;
   };
   
   // Get valid node types based on source node type and handle ID
@@ -109,6 +116,36 @@ const NodeSelectionModal: React.FC<NodeSelectionModalProps> = ({
       label: 'MCP Node',
       description: 'Add functionality',
     },
+    {
+      type: 'condition',
+      label: 'Condition Node',
+      description: 'Route without a LLM',
+    },
+    {
+      type: 'subflow',
+      label: 'Subflow Node',
+      description: 'Run another flow',
+    },
+    {
+      type: 'parallel',
+      label: 'Parallel Node',
+      description: 'Run branches at the same time',
+    },
+    {
+      type: 'join',
+      label: 'Join Node',
+      description: 'Merge parallel branches',
+    },
+    {
+      type: 'human_input',
+      label: 'Human Input Node',
+      description: 'Ask the user for input',
+    },
+    {
+      type: 'code',
+      label: 'Code Node',
+      description: 'Transform data with JavaScript',
+    },
   ];
   
   // Filter node types based on validation
@@ -123,6 +160,18 @@ const NodeSelectionModal: React.FC<NodeSelectionModalProps> = ({
         return <div style={{ width: 24, height: 24, backgroundColor: theme.palette.success.main, borderRadius: '50%' }}></div>;
       case 'mcp':
         return <div style={{ width: 24, height: 24, backgroundColor: theme.palette.info.main, borderRadius: '50%' }}></div>;
+      case 'condition':
+        return <div style={{ width: 24, height: 24, backgroundColor: theme.palette.warning.main, borderRadius: '50%' }}></div>;
+      case 'subflow':
+        return <div style={{ width: 24, height: 24, backgroundColor: '#607D8B', borderRadius: '50%' }}></div>;
+      case 'parallel':
+        return <div style={{ width: 24, height: 24, backgroundColor: '#3F51B5', borderRadius: '50%' }}></div>;
+      case 'join':
+        return <div style={{ width: 24, height: 24, backgroundColor: '#009688', borderRadius: '50%' }}></div>;
+      case 'human_input':
+        return <div style={{ width: 24, height: 24, backgroundColor: '#E91E63', borderRadius: '50%' }}></div>;
+      case 'code':
+        return <div style={{ width: 24, height: 24, backgroundColor: '#8BC34A', borderRadius: '50%' }}></div>;
       default:
         return <div style={{ width: 24, height: 24, backgroundColor: theme.palette.secondary.main, borderRadius: '50%' }}></div>;
     }
@@ -164,6 +213,18 @@ const NodeSelectionModal: React.FC<NodeSelectionModalProps> = ({
                     ? theme.palette.secondary.main
                     : node.type === 'finish'
                     ? theme.palette.success.main
+                    : node.type === 'condition'
+                    ? theme.palette.warning.main
+                    : node.type === 'subflow'
+                    ? '#607D8B'
+                    : node.type === 'parallel'
+                    ? '#3F51B5'
+                    : node.type === 'join'
+                    ? '#009688'
+                    : node.type === 'human_input'
+                    ? '#E91E63'
+                    : node.type === 'code'
+                    ? '#8BC34A'
                     : theme.palette.info.main
                 }`,
                 cursor: 'pointer',
@@ -213,6 +274,8 @@ export const Canvas = forwardRef<HTMLDivElement, CanvasProps>((props, ref) => {
     onInit,
     reactFlowWrapper,
     onEditNode,
+    validation,
+    onDismissValidation,
   } = props;
 
   // Use custom hooks
@@ -232,6 +295,30 @@ export const Canvas = forwardRef<HTMLDivElement, CanvasProps>((props, ref) => {
 
   const flowContainerRef = useRef<HTMLDivElement | null>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance | null>(null);
+
+  // Highlight nodes and edges with validation issues; errors win over warnings
+  const { displayNodes, displayEdges } = useMemo(() => {
+    if (!validation) {
+      return { displayNodes: nodes, displayEdges: edges };
+    }
+    const severityById = new Map<string, 'error' | 'warning'>();
+    [...validation.warnings, ...validation.errors].forEach(issue => {
+      const id = issue.nodeId || issue.edgeId;
+      if (id) severityById.set(id, issue.severity);
+    });
+    return {
+      displayNodes: nodes.map(node => {
+        const severity = severityById.get(node.id);
+        if (!severity) return node;
+        const color = severity === 'error' ? theme.palette.error.main : theme.palette.warning.main;
+        return { ...node, style: { ...node.style, outline: `3px solid ${color}`, outlineOffset: 3, borderRadius: 8 } };
+      }),
+      displayEdges: edges.map(edge => {
+        const severity = severityById.get(edge.id);
+        return severity ? { ...edge, data: { ...edge.data, validationSeverity: severity } } : edge;
+      }),
+    };
+  }, [nodes, edges, validation, theme.palette.error.main, theme.palette.warning.main]);
   
   // State for connection tracking
   const [connectionStart, setConnectionStart] = useState<{
@@ -473,7 +560,13 @@ export const Canvas = forwardRef<HTMLDivElement, CanvasProps>((props, ref) => {
         // Determine the appropriate target handle based on node type
         const targetHandle = nodeType === 'process' ? 'process-top' : 
                             nodeType === 'finish' ? 'finish-top' : 
-                            nodeType === 'mcp' ? 'mcp-top' : '';
+                            nodeType === 'mcp' ? 'mcp-top' : 
+                            nodeType === 'condition' ? 'condition-top' : 
+                            nodeType === 'subflow' ? 'subflow-top' : 
+                            nodeType === 'parallel' ? 'parallel-top' : 
+                            nodeType === 'join' ? 'join-top' : 
+                            nodeType === 'human_input' ? 'human_input-top' : 
+                            nodeType === 'code' ? 'code-top' : '';
         
         // Create a connection from the source node to the new node
         const connection = {
@@ -537,8 +630,8 @@ export const Canvas = forwardRef<HTMLDivElement, CanvasProps>((props, ref) => {
       }}
     >
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayNodes}
+        edges={displayEdges}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
         defaultEdgeOptions={useMemo(() => ({
@@ -577,6 +670,17 @@ export const Canvas = forwardRef<HTMLDivElement, CanvasProps>((props, ref) => {
       >
         <CanvasToolbar flowContainerRef={flowContainerRef as React.RefObject<HTMLDivElement>} />
         <CanvasControls />
+        {validation && (
+          <ValidationPanel
+            validation={validation}
+            onSelectIssue={(issue) => {
+              if (issue.nodeId) {
+                reactFlowInstance?.fitView({ nodes: [{ id: issue.nodeId }], duration: 300, maxZoom: 1.2 });
+              }
+            }}
+            onDismiss={onDismissValidation}
+          />
+        )}
       </ReactFlow>
       
       <ContextMenu
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Panel } from '@xyflow/react';
+import { Paper, Typography, Box, IconButton, List, ListItemButton, ListItemIcon, ListItemText } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import { FlowValidationIssue, FlowValidationResult } from '@/shared/types/flow';
+
+interface ValidationPanelProps {
+  validation: FlowValidationResult;
+  onSelectIssue?: (issue: FlowValidationIssue) => void;
+  onDismiss?: () => void;
+}
+
+/**
+ * Lists the errors and warnings of the last flow validation on top of the canvas
+ */
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ validation, onSelectIssue, onDismiss }) => {
+  const issues = [...validation.errors, ...validation.warnings];
+
+  return (
+    <Panel position="top-left" style={{ margin: '10px' }}>
+      <Paper elevation={3} sx={{ width: 360, maxHeight: 300, overflow: 'auto' }}>
+        <Box display="flex" alignItems="center" justifyContent="space-between" sx={{ px: 1.5, pt: 1 }}>
+          <Typography variant="subtitle2">
+            {issues.length === 0
+              ? 'No problems found'
+              : `${validation.errors.length} error(s), ${validation.warnings.length} warning(s)`}
+          </Typography>
+          {onDismiss && (
+            <IconButton size="small" onClick={onDismiss} aria-label="dismiss validation results">
+              <CloseIcon fontSize="small" />
+            </IconButton>
+          )}
+        </Box>
+        <List dense>
+          {issues.map((issue, index) => (
+            <ListItemButton
+              key={`${issue.code}-${issue.nodeId || issue.edgeId || ''}-${index}`}
+              onClick={() => onSelectIssue?.(issue)}
+              disabled={!issue.nodeId}
+              sx={{ '&.Mui-disabled': { opacity: 1 } }}
+            >
+              <ListItemIcon sx={{ minWidth: 32 }}>
+                {issue.severity === 'error'
+                  ? <ErrorOutlineIcon fontSize="small" color="error" />
+                  : <WarningAmberIcon fontSize="small" color="warning" />}
+              </ListItemIcon>
+              <ListItemText primary={issue.message} primaryTypographyProps={{ variant: 'caption' }} />
+            </ListItemButton>
+          ))}
+        </List>
+      </Paper>
+    </Panel>
+  );
+};
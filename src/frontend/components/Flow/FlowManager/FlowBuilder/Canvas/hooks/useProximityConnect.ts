@@ -151,21 +151,33 @@ export function useProximityConnect(
   
   // Helper functions to determine valid source/target nodes
   function isValidSourceNode(nodeType: string): boolean {
-    // Start and Process nodes can be sources
+    // Start, Process, Condition, Subflow, Parallel, Join, Human Input and Code nodes can be sources
     // MCP nodes can be sources for Process nodes
-    return nodeType === 'start' || nodeType === 'process' || nodeType === 'mcp';
+    return nodeType === 'start' || nodeType === 'process' || nodeType === 'mcp' || nodeType === 'condition' || nodeType === 'subflow' || nodeType === 'parallel' || nodeType === 'join' || nodeType === 'human_input' || nodeType === 'code';
   }
   
   function isValidTargetNode(nodeType: string): boolean {
-    // Process and Finish nodes can be targets
+    // Process, Condition, Subflow, Parallel, Join, Human Input, Code and Finish nodes can be targets
     // MCP nodes can be targets for Process nodes
-    return nodeType === 'process' || nodeType === 'finish' || nodeType === 'mcp';
+    return nodeType === 'process' || nodeType === 'finish' || nodeType === 'mcp' || nodeType === 'condition' || nodeType === 'subflow' || nodeType === 'parallel' || nodeType === 'join' || nodeType === 'human_input' || nodeType === 'code';
   }
   
   // Helper functions to determine appropriate handles based on node types and positions
   function getSourceHandle(sourceType: string, targetType: string, sourcePos: any, targetPos: any): string {
     if (sourceType === 'start') {
       return 'start-bottom';
+    } else if (sourceType === 'condition') {
+      return 'condition-bottom';
+    } else if (sourceType === 'subflow') {
+      return 'subflow-bottom';
+    } else if (sourceType === 'parallel') {
+      return 'parallel-bottom';
+    } else if (sourceType === 'join') {
+      return 'join-bottom';
+    } else if (sourceType === 'human_input') {
+      return 'human_input-bottom';
+    } else if (sourceType === 'code') {
+      return 'code-bottom';
     } else if (sourceType === 'process') {
       if (targetType === 'mcp') {
         // For Process to MCP connections, choose left or right based on relative position
@@ -199,6 +211,18 @@ export function useProximityConnect(
   function getTargetHandle(targetType: string, sourceType: string, sourcePos: any, targetPos: any): string {
     if (targetType === 'finish') {
       return 'finish-top';
+    } else if (targetType === 'condition') {
+      return 'condition-top';
+    } else if (targetType === 'subflow') {
+      return 'subflow-top';
+    } else if (targetType === 'parallel') {
+      return 'parallel-top';
+    } else if (targetType === 'join') {
+      return 'join-top';
+    } else if (targetType === 'human_input') {
+      return 'human_input-top';
+    } else if (targetType === 'code') {
+      return 'code-top';
     } else if (targetType === 'process') {
       if (sourceType === 'mcp') {
         // For MCP to Process connections, choose left or right based on relative position
@@ -1,4 +1,5 @@
 import { FlowNode, NodeType } from '@/frontend/types/flow/flow';
+import { FlowValidationResult } from '@/shared/types/flow';
 import { 
   Edge, 
   NodeChange, 
@@ -17,6 +18,8 @@ export interface CanvasProps {
   onInit?: (reactFlowInstance: ReactFlowInstance) => void;
   reactFlowWrapper?: React.RefObject<HTMLDivElement | null>;
   onEditNode?: (node: FlowNode) => void;
+  validation?: FlowValidationResult | null;
+  onDismissValidation?: () => void;
 }
 
 export interface EditNodeEventDetail {
@@ -86,6 +86,10 @@ const CustomEdge: FC<EdgeProps> = ({
     strokeWidth: selected ? 3 : 2,
     stroke: selected 
       ? theme.palette.primary.main 
+      : data?.validationSeverity === 'error'
+      ? theme.palette.error.main // Highlighted by flow validation
+      : data?.validationSeverity === 'warning'
+      ? theme.palette.warning.main
       : theme.palette.text.secondary,
   };
 
@@ -83,6 +83,10 @@ const MCPEdge: FC<EdgeProps> = ({
     strokeWidth: selected ? 3 : 2,
     stroke: selected 
       ? theme.palette.info.light 
+      : data?.validationSeverity === 'error'
+      ? theme.palette.error.main // Highlighted by flow validation
+      : data?.validationSeverity === 'warning'
+      ? theme.palette.warning.main
       : theme.palette.info.main, // Use theme info color for MCP connections
   };
 
@@ -18,11 +18,18 @@ import SettingsIcon from '@mui/icons-material/Settings';
 import OutputIcon from '@mui/icons-material/Output';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import CallSplitIcon from '@mui/icons-material/CallSplit';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import ForkRightIcon from '@mui/icons-material/ForkRight';
+import CallMergeIcon from '@mui/icons-material/CallMerge';
+import PanToolIcon from '@mui/icons-material/PanTool';
+import CodeIcon from '@mui/icons-material/Code';
+import { NodeType } from '@/frontend/types/flow/flow';
 
 const NodeContainer = styled(Paper, {
   shouldForwardProp: (prop) => !['nodeType', 'selected'].includes(prop as string),
 })<{ 
-  nodeType: 'start' | 'process' | 'finish' | 'mcp';
+  nodeType: NodeType;
   selected?: boolean; 
 }>(({ theme, nodeType, selected }) => ({
   padding: theme.spacing(1.5),
@@ -36,6 +43,18 @@ const NodeContainer = styled(Paper, {
       ? theme.palette.secondary.main
       : nodeType === 'finish'
       ? theme.palette.success.main
+      : nodeType === 'condition'
+      ? theme.palette.warning.main
+      : nodeType === 'subflow'
+      ? '#607D8B' // Blue grey color hex value
+      : nodeType === 'parallel'
+      ? '#3F51B5' // Indigo color hex value
+      : nodeType === 'join'
+      ? '#009688' // Teal color hex value
+      : nodeType === 'human_input'
+      ? '#E91E63' // Pink color hex value
+      : nodeType === 'code'
+      ? '#8BC34A' // Light green color hex value
       : theme.palette.info.main
   }`,
   boxShadow: selected 
@@ -50,6 +69,18 @@ const NodeContainer = styled(Paper, {
         ? theme.palette.secondary.main
         : nodeType === 'finish'
         ? theme.palette.success.main
+        : nodeType === 'condition'
+        ? theme.palette.warning.main
+        : nodeType === 'subflow'
+        ? '#607D8B' // Blue grey color hex value
+        : nodeType === 'parallel'
+        ? '#3F51B5' // Indigo color hex value
+        : nodeType === 'join'
+        ? '#009688' // Teal color hex value
+        : nodeType === 'human_input'
+        ? '#E91E63' // Pink color hex value
+        : nodeType === 'code'
+        ? '#8BC34A' // Light green color hex value
         : theme.palette.info.main
     }, 0 3px 10px rgba(0,0,0,0.1)`
   }
@@ -57,7 +88,7 @@ const NodeContainer = styled(Paper, {
 
 const NodeHeader = styled(Box, {
   shouldForwardProp: (prop) => prop !== 'nodeType',
-})<{ nodeType: 'start' | 'process' | 'finish' | 'mcp' }>(({ theme, nodeType }) => ({
+})<{ nodeType: NodeType }>(({ theme, nodeType }) => ({
   display: 'flex',
   alignItems: 'center',
   justifyContent: 'space-between',
@@ -68,6 +99,18 @@ const NodeHeader = styled(Box, {
       ? theme.palette.secondary.light
       : nodeType === 'finish'
       ? theme.palette.success.light
+      : nodeType === 'condition'
+      ? theme.palette.warning.light
+      : nodeType === 'subflow'
+      ? '#90A4AE' // Lighter blue grey color for header border
+      : nodeType === 'parallel'
+      ? '#7986CB' // Lighter indigo color for header border
+      : nodeType === 'join'
+      ? '#4DB6AC' // Lighter teal color for header border
+      : nodeType === 'human_input'
+      ? '#F06292' // Lighter pink color for header border
+      : nodeType === 'code'
+      ? '#AED581' // Lighter light green color for header border
       : theme.palette.info.light
   }`,
   marginBottom: theme.spacing(1),
@@ -93,10 +136,10 @@ const PropertyRow = styled(Box)(({ theme }) => ({
 }));
 
 interface CustomNodeProps extends NodeProps {
-  nodeType: 'start' | 'process' | 'finish' | 'mcp';
+  nodeType: NodeType;
 }
 
-const getNodeIcon = (type: 'start' | 'process' | 'finish' | 'mcp') => {
+const getNodeIcon = (type: NodeType) => {
   switch (type) {
     case 'start':
       return <ChatIcon sx={{ color: '#795548' }} />; // Brown color for icon
@@ -106,12 +149,24 @@ const getNodeIcon = (type: 'start' | 'process' | 'finish' | 'mcp') => {
       return <OutputIcon color="success" />;
     case 'mcp':
       return <SettingsIcon color="info" />;
+    case 'condition':
+      return <CallSplitIcon color="warning" />;
+    case 'subflow':
+      return <AccountTreeIcon sx={{ color: '#607D8B' }} />;
+    case 'parallel':
+      return <ForkRightIcon sx={{ color: '#3F51B5' }} />;
+    case 'join':
+      return <CallMergeIcon sx={{ color: '#009688' }} />;
+    case 'human_input':
+      return <PanToolIcon sx={{ color: '#E91E63' }} />;
+    case 'code':
+      return <CodeIcon sx={{ color: '#8BC34A' }} />;
     default:
       return <ChatIcon sx={{ color: '#795548' }} />; // Brown color for icon
   }
 };
 
-const getNodeColor = (type: 'start' | 'process' | 'finish' | 'mcp', theme: any) => {
+const getNodeColor = (type: NodeType, theme: any) => {
   switch (type) {
     case 'start':
       return '#795548'; // Brown color hex value
@@ -121,6 +176,18 @@ const getNodeColor = (type: 'start' | 'process' | 'finish' | 'mcp', theme: any)
       return theme.palette.success.main;
     case 'mcp':
       return theme.palette.info.main;
+    case 'condition':
+      return theme.palette.warning.main;
+    case 'subflow':
+      return '#607D8B';
+    case 'parallel':
+      return '#3F51B5';
+    case 'join':
+      return '#009688';
+    case 'human_input':
+      return '#E91E63';
+    case 'code':
+      return '#8BC34A';
     default:
       return '#795548'; // Brown color hex value
   }
@@ -145,6 +212,60 @@ const getProcessHandleStyle = (theme: any) => ({
   borderWidth: 2
 });
 
+const getConditionHandleStyle = (theme: any) => ({
+  backgroundColor: theme.palette.warning.main,
+  borderColor: theme.palette.mode === 'dark' ? theme.palette.background.paper : 'white',
+  width: 16,
+  height: 16,
+  borderRadius: 8,
+  borderWidth: 2
+});
+
+const getSubflowHandleStyle = (theme: any) => ({
+  backgroundColor: '#607D8B',
+  borderColor: theme.palette.mode === 'dark' ? theme.palette.background.paper : 'white',
+  width: 16,
+  height: 16,
+  borderRadius: 8,
+  borderWidth: 2
+});
+
+const getParallelHandleStyle = (theme: any) => ({
+  backgroundColor: '#3F51B5',
+  borderColor: theme.palette.mode === 'dark' ? theme.palette.background.paper : 'white',
+  width: 16,
+  height: 16,
+  borderRadius: 8,
+  borderWidth: 2
+});
+
+const getJoinHandleStyle = (theme: any) => ({
+  backgroundColor: '#009688',
+  borderColor: theme.palette.mode === 'dark' ? theme.palette.background.paper : 'white',
+  width: 16,
+  height: 16,
+  borderRadius: 8,
+  borderWidth: 2
+});
+
+const getHumanInputHandleStyle = (theme: any) => ({
+  backgroundColor: '#E91E63',
+  borderColor: theme.palette.mode === 'dark' ? theme.palette.background.paper : 'white',
+  width: 16,
+  height: 16,
+  borderRadius: 8,
+  borderWidth: 2
+});
+
+const getCodeHandleStyle = (theme: any) => ({
+  backgroundColor: '#8BC34A',
+  borderColor: theme.palette.mode === 'dark' ? theme.palette.background.paper : 'white',
+  width: 16,
+  height: 16,
+  borderRadius: 8,
+  borderWidth: 2
+});
+
 const getMCPConnectionHandleStyle = (theme: any) => ({
   backgroundColor: theme.palette.primary.main,
   borderColor: theme.palette.mode === 'dark' ? theme.palette.background.paper : 'white',
@@ -254,6 +375,114 @@ const CustomNode = ({ data, nodeType, selected }: CustomNodeProps & { selected?:
           style={getProcessHandleStyle(theme)} 
         />
       );
+    } else if (nodeType === 'condition') {
+      // Condition nodes take one input and fan out to one edge per route
+      return (
+        <>
+          <Handle 
+            id="condition-top"
+            type="target" 
+            position={Position.Top} 
+            style={getConditionHandleStyle(theme)} 
+          />
+          <Handle 
+            id="condition-bottom"
+            type="source" 
+            position={Position.Bottom} 
+            style={getConditionHandleStyle(theme)} 
+          />
+        </>
+      );
+    } else if (nodeType === 'subflow') {
+      // Subflow nodes behave like a single step: one input, one output
+      return (
+        <>
+          <Handle 
+            id="subflow-top"
+            type="target" 
+            position={Position.Top} 
+            style={getSubflowHandleStyle(theme)} 
+          />
+          <Handle 
+            id="subflow-bottom"
+            type="source" 
+            position={Position.Bottom} 
+            style={getSubflowHandleStyle(theme)} 
+          />
+        </>
+      );
+    } else if (nodeType === 'parallel') {
+      // Parallel nodes take one input and start every outgoing branch at once
+      return (
+        <>
+          <Handle 
+            id="parallel-top"
+            type="target" 
+            position={Position.Top} 
+            style={getParallelHandleStyle(theme)} 
+          />
+          <Handle 
+            id="parallel-bottom"
+            type="source" 
+            position={Position.Bottom} 
+            style={getParallelHandleStyle(theme)} 
+          />
+        </>
+      );
+    } else if (nodeType === 'join') {
+      // Join nodes collect the branches of a parallel node and continue with one output
+      return (
+        <>
+          <Handle 
+            id="join-top"
+            type="target" 
+            position={Position.Top} 
+            style={getJoinHandleStyle(theme)} 
+          />
+          <Handle 
+            id="join-bottom"
+            type="source" 
+            position={Position.Bottom} 
+            style={getJoinHandleStyle(theme)} 
+          />
+        </>
+      );
+    } else if (nodeType === 'human_input') {
+      // Human input nodes wait for the user and continue with one output
+      return (
+        <>
+          <Handle 
+            id="human_input-top"
+            type="target" 
+            position={Position.Top} 
+            style={getHumanInputHandleStyle(theme)} 
+          />
+          <Handle 
+            id="human_input-bottom"
+            type="source" 
+            position={Position.Bottom} 
+            style={getHumanInputHandleStyle(theme)} 
+          />
+        </>
+      );
+    } else if (nodeType === 'code') {
+      // Code nodes run a snippet and continue with one output
+      return (
+        <>
+          <Handle 
+            id="code-top"
+            type="target" 
+            position={Position.Top} 
+            style={getCodeHandleStyle(theme)} 
+          />
+          <Handle 
+            id="code-bottom"
+            type="source" 
+            position={Position.Bottom} 
+            style={getCodeHandleStyle(theme)} 
+          />
+        </>
+      );
     }
     
     return null;
@@ -341,3 +570,27 @@ export const FinishNode = memo(function FinishNode(props: NodeProps) {
 export const MCPNode = memo(function MCPNode(props: NodeProps) {
   return <CustomNode {...props} nodeType="mcp" selected={props.selected} />;
 });
+
+export const ConditionNode = memo(function ConditionNode(props: NodeProps) {
+  return <CustomNode {...props} nodeType="condition" selected={props.selected} />;
+});
+
+export const SubflowNode = memo(function SubflowNode(props: NodeProps) {
+  return <CustomNode {...props} nodeType="subflow" selected={props.selected} />;
+});
+
+export const ParallelNode = memo(function ParallelNode(props: NodeProps) {
+  return <CustomNode {...props} nodeType="parallel" selected={props.selected} />;
+});
+
+export const JoinNode = memo(function JoinNode(props: NodeProps) {
+  return <CustomNode {...props} nodeType="join" selected={props.selected} />;
+});
+
+export const HumanInputNode = memo(function HumanInputNode(props: NodeProps) {
+  return <CustomNode {...props} nodeType="human_input" selected={props.selected} />;
+});
+
+export const CodeNode = memo(function CodeNode(props: NodeProps) {
+  return <CustomNode {...props} nodeType="code" selected={props.selected} />;
+});
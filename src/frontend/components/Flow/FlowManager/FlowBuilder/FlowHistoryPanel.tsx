@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemText,
+  Divider,
+  Button,
+  Chip,
+  Alert,
+  CircularProgress,
+  IconButton,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import RestoreIcon from '@mui/icons-material/Restore';
+import { Edge } from '@xyflow/react';
+import { Flow, FlowNode, FlowDiff, FlowElementDiff, FlowVersionSummary } from '@/shared/types/flow';
+import { flowService } from '@/frontend/services/flow';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('components/flow/FlowBuilder/FlowHistoryPanel.tsx');
+
+interface FlowHistoryPanelProps {
+  open: boolean;
+  flowId?: string;
+  onClose: () => void;
+  // Called with the restored flow and the version number it was saved as
+  onRestore: (flow: Flow, version: number) => void;
+}
+
+const nodeLabel = (node: FlowNode) => node.data?.label || node.id;
+const edgeLabel = (edge: Edge) => `${edge.source} → ${edge.target}`;
+
+// One section (nodes or edges) of a diff
+function DiffSection<T>({ title, diff, label }: { title: string; diff: FlowElementDiff<T>; label: (element: T) => string }) {
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    return null;
+  }
+  return (
+    <Box sx={{ mb: 1 }}>
+      <Typography variant="subtitle2">{title}</Typography>
+      {diff.added.map((element, index) => (
+        <Typography key={`added-${index}`} variant="body2" color="success.main">+ {label(element)}</Typography>
+      ))}
+      {diff.removed.map((element, index) => (
+        <Typography key={`removed-${index}`} variant="body2" color="error.main">− {label(element)}</Typography>
+      ))}
+      {diff.changed.map(change => (
+        <Typography key={`changed-${change.id}`} variant="body2" color="warning.main">
+          ~ {label(change.after)}: {change.fields.join(', ')}
+        </Typography>
+      ))}
+    </Box>
+  );
+}
+
+/**
+ * Drawer listing the saved versions of a flow. Selecting a version shows what changed
+ * between it and the latest version, and lets the user restore it.
+ */
+export const FlowHistoryPanel = ({ open, flowId, onClose, onRestore }: FlowHistoryPanelProps) => {
+  const [versions, setVersions] = useState<FlowVersionSummary[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<FlowDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    if (!flowId) return;
+    setLoading(true);
+    setError(null);
+    const loaded = await flowService.listVersions(flowId);
+    setVersions([...loaded].reverse()); // Newest first
+    setLoading(false);
+  }, [flowId]);
+
+  // Reload the history every time the panel opens, since saves add versions
+  useEffect(() => {
+    if (open) {
+      setSelectedVersion(null);
+      setDiff(null);
+      loadVersions();
+    }
+  }, [open, loadVersions]);
+
+  const latestVersion = versions[0]?.version;
+
+  const handleSelect = async (version: number) => {
+    if (!flowId) return;
+    setSelectedVersion(version);
+    setDiff(null);
+    if (version === latestVersion) return;
+    const result = await flowService.diffVersions(flowId, version, latestVersion);
+    if (!result) {
+      setError(`Failed to compare version ${version} with the latest version`);
+      return;
+    }
+    setDiff(result);
+  };
+
+  const handleRestore = async () => {
+    if (!flowId || selectedVersion === null) return;
+    log.info(`Restoring flow ${flowId} to version ${selectedVersion}`);
+    setRestoring(true);
+    const result = await flowService.restoreVersion(flowId, selectedVersion);
+    setRestoring(false);
+    if (!result.success || !result.flow) {
+      setError(result.error || 'Failed to restore version');
+      return;
+    }
+    onRestore(result.flow, result.version ?? selectedVersion);
+    onClose();
+  };
+
+  const isEmptyDiff = diff && !diff.nameChanged
+    && [diff.nodes, diff.edges].every(d => d.added.length === 0 && d.removed.length === 0 && d.changed.length === 0);
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: 420, p: 2, display: 'flex', flexDirection: 'column', height: '100%' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ flex: 1 }}>Version History</Typography>
+          <IconButton size="small" onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        {!flowId && (
+          <Alert severity="info">Save the flow to start its version history.</Alert>
+        )}
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 1 }}>{error}</Alert>
+        )}
+        {loading && <CircularProgress size={24} sx={{ alignSelf: 'center', my: 2 }} />}
+        {flowId && !loading && versions.length === 0 && (
+          <Typography variant="body2" color="text.secondary">No versions recorded yet.</Typography>
+        )}
+
+        <List dense sx={{ flex: 1, overflowY: 'auto' }}>
+          {versions.map(version => (
+            <ListItemButton
+              key={version.version}
+              selected={version.version === selectedVersion}
+              onClick={() => handleSelect(version.version)}
+            >
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <span>Version {version.version}</span>
+                    {version.version === latestVersion && <Chip label="current" size="small" color="primary" />}
+                    {version.restoredFrom !== undefined && <Chip label={`from v${version.restoredFrom}`} size="small" />}
+                  </Box>
+                }
+                secondary={[
+                  new Date(version.createdAt).toLocaleString(),
+                  version.author,
+                  version.message,
+                  `${version.nodeCount} nodes, ${version.edgeCount} edges`
+                ].filter(Boolean).join(' · ')}
+              />
+            </ListItemButton>
+          ))}
+        </List>
+
+        {selectedVersion !== null && selectedVersion !== latestVersion && (
+          <>
+            <Divider sx={{ my: 1 }} />
+            <Typography variant="subtitle1" gutterBottom>
+              Changes from version {selectedVersion} to {latestVersion}
+            </Typography>
+            <Box sx={{ maxHeight: 240, overflowY: 'auto', mb: 1 }}>
+              {!diff && <CircularProgress size={20} />}
+              {diff?.nameChanged && (
+                <Typography variant="body2">Renamed: {diff.nameChanged.from} → {diff.nameChanged.to}</Typography>
+              )}
+              {diff && <DiffSection title="Nodes" diff={diff.nodes} label={nodeLabel} />}
+              {diff && <DiffSection title="Edges" diff={diff.edges} label={edgeLabel} />}
+              {isEmptyDiff && (
+                <Typography variant="body2" color="text.secondary">No differences.</Typography>
+              )}
+            </Box>
+            <Button
+              variant="contained"
+              startIcon={<RestoreIcon />}
+              onClick={handleRestore}
+              disabled={restoring}
+            >
+              Restore Version {selectedVersion}
+            </Button>
+          </>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default FlowHistoryPanel;
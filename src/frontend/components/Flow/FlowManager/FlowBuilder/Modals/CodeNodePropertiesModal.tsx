@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Box,
+  IconButton,
+  Divider,
+  Alert,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { FlowNode } from '@/frontend/types/flow/flow';
+import RetrySettings from './RetrySettings';
+
+interface CodeNodePropertiesModalProps {
+  open: boolean;
+  node: FlowNode | null;
+  onClose: () => void;
+  onSave: (nodeId: string, data: any) => void;
+}
+
+// Mirrors the defaults applied by the backend code node
+const DEFAULT_TIMEOUT_MS = 1000;
+const DEFAULT_MEMORY_LIMIT_MB = 32;
+
+const CODE_PLACEHOLDER = `// Last assistant message as upper case text
+const last = messages.filter(m => m.role === 'assistant').pop();
+return { message: String(last?.content ?? '').toUpperCase(), variables: { shouted: true } };`;
+
+export const CodeNodePropertiesModal = ({ open, node, onClose, onSave }: CodeNodePropertiesModalProps) => {
+  // Clone node data to avoid direct mutation
+  const [nodeData, setNodeData] = useState<{
+    label: string;
+    type: string;
+    description?: string;
+    properties: Record<string, any>;
+  } | null>(null);
+
+  useEffect(() => {
+    if (node) {
+      setNodeData({
+        ...node.data,
+        properties: {
+          timeoutMs: DEFAULT_TIMEOUT_MS,
+          memoryLimitMb: DEFAULT_MEMORY_LIMIT_MB,
+          ...node.data.properties
+        }
+      });
+    }
+  }, [node, open]);
+
+  const updateProperty = (key: string, value: unknown) => {
+    setNodeData(prev => prev ? { ...prev, properties: { ...prev.properties, [key]: value } } : null);
+  };
+
+  const handleSave = () => {
+    if (node && nodeData) {
+      onSave(node.id, nodeData);
+      onClose();
+    }
+  };
+
+  if (!node || !nodeData) return null;
+
+  const timeoutMs = Number(nodeData.properties.timeoutMs);
+  const memoryLimitMb = Number(nodeData.properties.memoryLimitMb);
+  const hasInvalidLimits = !(timeoutMs > 0) || !(memoryLimitMb >= 8);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderTop: 5,
+          borderColor: '#8BC34A',
+          width: '900px',
+          maxWidth: '95vw',
+          maxHeight: '90vh',
+        }
+      }}
+    >
+      <DialogTitle component="div">
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">
+            {nodeData.label || 'Code Node'} Properties
+          </Typography>
+          <IconButton edge="end" color="inherit" onClick={onClose} aria-label="close">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <Divider />
+
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, p: 3, overflow: 'auto' }}>
+        <TextField
+          label="Node Label"
+          value={nodeData.label}
+          onChange={(e) => setNodeData(prev => prev ? { ...prev, label: e.target.value } : null)}
+          fullWidth
+          size="small"
+          sx={{ mt: 1 }}
+        />
+
+        <Alert severity="info">
+          The snippet is the body of an async function. <code>messages</code>, <code>variables</code> and{' '}
+          <code>lastResponse</code> are available. Return a string to add it as an assistant message, or an
+          object <code>{'{ message, variables }'}</code> to also update flow variables. Timers, network and
+          file access are not available.
+        </Alert>
+
+        <TextField
+          label="Code"
+          value={nodeData.properties.code || ''}
+          onChange={(e) => updateProperty('code', e.target.value)}
+          placeholder={CODE_PLACEHOLDER}
+          fullWidth
+          multiline
+          minRows={12}
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.875rem' } }}
+        />
+
+        <Box display="flex" gap={2}>
+          <TextField
+            label="Timeout (ms)"
+            type="number"
+            value={nodeData.properties.timeoutMs ?? ''}
+            onChange={(e) => updateProperty('timeoutMs', e.target.value === '' ? '' : Number(e.target.value))}
+            size="small"
+            fullWidth
+            inputProps={{ min: 1 }}
+          />
+          <TextField
+            label="Memory limit (MB)"
+            type="number"
+            value={nodeData.properties.memoryLimitMb ?? ''}
+            onChange={(e) => updateProperty('memoryLimitMb', e.target.value === '' ? '' : Number(e.target.value))}
+            size="small"
+            fullWidth
+            inputProps={{ min: 8 }}
+            helperText="At least 8 MB"
+          />
+        </Box>
+
+        <RetrySettings properties={nodeData.properties} onChange={updateProperty} />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          color="primary"
+          disabled={hasInvalidLimits}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CodeNodePropertiesModal;
@@ -0,0 +1,308 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Box,
+  IconButton,
+  Divider,
+  Paper,
+  MenuItem,
+  Alert,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import { Edge } from '@xyflow/react';
+import { FlowNode } from '@/frontend/types/flow/flow';
+import type { ConditionRule, ConditionSource, ConditionOperator } from '@/backend/execution/flow/types';
+import LoopGuardSettings from './LoopGuardSettings';
+
+interface ConditionNodePropertiesModalProps {
+  open: boolean;
+  node: FlowNode | null;
+  onClose: () => void;
+  onSave: (nodeId: string, data: any) => void;
+  flowEdges: Edge[];
+  flowNodes: FlowNode[];
+}
+
+const SOURCE_OPTIONS: Array<{ value: ConditionSource; label: string }> = [
+  { value: 'lastMessage', label: 'Last message' },
+  { value: 'lastUserMessage', label: 'Last user message' },
+  { value: 'lastAssistantMessage', label: 'Last assistant message' },
+  { value: 'lastResponse', label: 'Last response (JSON path)' },
+  { value: 'messageCount', label: 'Message count' },
+];
+
+const OPERATOR_OPTIONS: Array<{ value: ConditionOperator; label: string }> = [
+  { value: 'matches', label: 'matches regex' },
+  { value: 'contains', label: 'contains' },
+  { value: 'equals', label: 'equals' },
+  { value: 'notEquals', label: 'does not equal' },
+  { value: 'exists', label: 'exists' },
+  { value: 'gt', label: 'greater than' },
+  { value: 'lt', label: 'less than' },
+];
+
+export const ConditionNodePropertiesModal = ({ open, node, onClose, onSave, flowEdges, flowNodes }: ConditionNodePropertiesModalProps) => {
+  // Clone node data to avoid direct mutation
+  const [nodeData, setNodeData] = useState<{
+    label: string;
+    type: string;
+    description?: string;
+    properties: Record<string, any>;
+  } | null>(null);
+
+  const [rules, setRules] = useState<ConditionRule[]>([]);
+  const [defaultTargetNodeId, setDefaultTargetNodeId] = useState<string>('');
+
+  useEffect(() => {
+    if (node) {
+      setNodeData({
+        ...node.data,
+        properties: { ...node.data.properties }
+      });
+      setRules((node.data.properties?.rules || []).map((rule: ConditionRule) => ({ ...rule })));
+      setDefaultTargetNodeId(node.data.properties?.defaultTargetNodeId || '');
+    }
+  }, [node, open]);
+
+  // Routes can only point at nodes this node is connected to
+  const connectedNodes = useMemo(() => {
+    if (!node) return [];
+    const targetIds = flowEdges
+      .filter(edge => edge.source === node.id && edge.data?.edgeType !== 'mcp')
+      .map(edge => edge.target);
+    return flowNodes.filter(n => targetIds.includes(n.id));
+  }, [node, flowEdges, flowNodes]);
+
+  const updateRule = (index: number, changes: Partial<ConditionRule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    setRules(prev => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        source: 'lastMessage',
+        operator: 'contains',
+        value: '',
+        targetNodeId: connectedNodes[0]?.id || '',
+      },
+    ]);
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const moveRuleUp = (index: number) => {
+    if (index === 0) return;
+    setRules(prev => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (node && nodeData) {
+      const updatedNodeData = {
+        ...nodeData,
+        properties: {
+          ...nodeData.properties,
+          rules,
+          defaultTargetNodeId: defaultTargetNodeId || undefined,
+        }
+      };
+      onSave(node.id, updatedNodeData);
+      onClose();
+    }
+  };
+
+  if (!node || !nodeData) return null;
+
+  const unconnectedTargets = [
+    ...rules.map(rule => rule.targetNodeId),
+    ...(defaultTargetNodeId ? [defaultTargetNodeId] : []),
+  ].filter(id => id && !connectedNodes.some(n => n.id === id));
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderTop: 5,
+          borderColor: 'warning.main',
+          width: '900px',
+          maxWidth: '95vw',
+          maxHeight: '90vh',
+        }
+      }}
+    >
+      <DialogTitle component="div">
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">
+            {nodeData.label || 'Condition Node'} Properties
+          </Typography>
+          <IconButton edge="end" color="inherit" onClick={onClose} aria-label="close">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <Divider />
+
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, p: 3, overflow: 'auto' }}>
+        <TextField
+          label="Node Label"
+          value={nodeData.label}
+          onChange={(e) => setNodeData(prev => prev ? { ...prev, label: e.target.value } : null)}
+          fullWidth
+          size="small"
+        />
+
+        <Typography variant="body2" color="text.secondary">
+          Rules are evaluated from top to bottom. The first matching rule decides which connected node runs next.
+          No model is called for this decision.
+        </Typography>
+
+        {connectedNodes.length === 0 && (
+          <Alert severity="info">Connect this node to the nodes it should route to before adding rules.</Alert>
+        )}
+        {unconnectedTargets.length > 0 && (
+          <Alert severity="warning">Some routes point to nodes that are no longer connected to this node.</Alert>
+        )}
+
+        {rules.map((rule, index) => (
+          <Paper key={rule.id} variant="outlined" sx={{ p: 2 }}>
+            <Box display="flex" gap={1} alignItems="center" flexWrap="wrap">
+              <Typography variant="subtitle2" sx={{ minWidth: 24 }}>{index + 1}.</Typography>
+              <TextField
+                select
+                label="Source"
+                size="small"
+                value={rule.source}
+                onChange={(e) => updateRule(index, { source: e.target.value as ConditionSource })}
+                sx={{ minWidth: 200 }}
+              >
+                {SOURCE_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+              {rule.source === 'lastResponse' && (
+                <TextField
+                  label="Path"
+                  size="small"
+                  placeholder="$.result.status"
+                  value={rule.path || ''}
+                  onChange={(e) => updateRule(index, { path: e.target.value })}
+                  sx={{ minWidth: 160 }}
+                />
+              )}
+              <TextField
+                select
+                label="Operator"
+                size="small"
+                value={rule.operator}
+                onChange={(e) => updateRule(index, { operator: e.target.value as ConditionOperator })}
+                sx={{ minWidth: 160 }}
+              >
+                {OPERATOR_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+              {rule.operator !== 'exists' && (
+                <TextField
+                  label={rule.operator === 'matches' ? 'Pattern' : 'Value'}
+                  size="small"
+                  value={rule.value || ''}
+                  onChange={(e) => updateRule(index, { value: e.target.value })}
+                  sx={{ flex: 1, minWidth: 140 }}
+                />
+              )}
+              {rule.operator === 'matches' && (
+                <TextField
+                  label="Flags"
+                  size="small"
+                  value={rule.flags || ''}
+                  onChange={(e) => updateRule(index, { flags: e.target.value })}
+                  sx={{ width: 80 }}
+                />
+              )}
+              <TextField
+                select
+                label="Route to"
+                size="small"
+                value={rule.targetNodeId}
+                onChange={(e) => updateRule(index, { targetNodeId: e.target.value })}
+                sx={{ minWidth: 180 }}
+              >
+                {connectedNodes.map(target => (
+                  <MenuItem key={target.id} value={target.id}>{target.data.label}</MenuItem>
+                ))}
+              </TextField>
+              <IconButton size="small" onClick={() => moveRuleUp(index)} disabled={index === 0} aria-label="move up">
+                <ArrowUpwardIcon fontSize="small" />
+              </IconButton>
+              <IconButton size="small" onClick={() => removeRule(index)} aria-label="remove rule">
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          </Paper>
+        ))}
+
+        <Box>
+          <Button startIcon={<AddIcon />} onClick={addRule} disabled={connectedNodes.length === 0}>
+            Add Rule
+          </Button>
+        </Box>
+
+        <TextField
+          select
+          label="Default route (no rule matched)"
+          size="small"
+          value={defaultTargetNodeId}
+          onChange={(e) => setDefaultTargetNodeId(e.target.value)}
+          helperText="Without a default route, the flow stops with an error when no rule matches."
+        >
+          <MenuItem value="">
+            <em>None</em>
+          </MenuItem>
+          {connectedNodes.map(target => (
+            <MenuItem key={target.id} value={target.id}>{target.data.label}</MenuItem>
+          ))}
+        </TextField>
+
+        <LoopGuardSettings
+          nodeId={node.id}
+          properties={nodeData.properties}
+          onChange={(key, value) => setNodeData(prev => prev ? { ...prev, properties: { ...prev.properties, [key]: value } } : null)}
+          flowEdges={flowEdges}
+          flowNodes={flowNodes}
+        />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" color="primary">
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ConditionNodePropertiesModal;
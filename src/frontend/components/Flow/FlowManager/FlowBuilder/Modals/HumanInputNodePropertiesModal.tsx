@@ -0,0 +1,349 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Box,
+  IconButton,
+  Divider,
+  Paper,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  Alert,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { FlowNode } from '@/frontend/types/flow/flow';
+import type { HumanInputSchema, HumanInputFieldSchema, HumanInputInjection } from '@/backend/execution/flow/types';
+
+interface HumanInputNodePropertiesModalProps {
+  open: boolean;
+  node: FlowNode | null;
+  onClose: () => void;
+  onSave: (nodeId: string, data: any) => void;
+}
+
+// Editable form field; converted to and from the JSON schema stored on the node
+interface FieldDraft {
+  id: string;
+  key: string;
+  title: string;
+  type: HumanInputFieldSchema['type'];
+  description: string;
+  // Comma separated list of allowed values, empty for free input
+  options: string;
+  required: boolean;
+  multiline: boolean;
+}
+
+const TYPE_OPTIONS: Array<{ value: HumanInputFieldSchema['type']; label: string }> = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'integer', label: 'Whole number' },
+  { value: 'boolean', label: 'Yes / No' },
+];
+
+const INJECT_OPTIONS: Array<{ value: HumanInputInjection; label: string; description: string }> = [
+  { value: 'message', label: 'User message', description: 'The values are added to the conversation as a user message.' },
+  { value: 'variable', label: 'Flow variable', description: 'The values are stored as an object in a flow variable.' },
+];
+
+const toDrafts = (schema?: HumanInputSchema): FieldDraft[] =>
+  Object.entries(schema?.properties || {}).map(([key, field]) => ({
+    id: crypto.randomUUID(),
+    key,
+    title: field.title || '',
+    type: field.type,
+    description: field.description || '',
+    options: (field.enum || []).join(', '),
+    required: (schema?.required || []).includes(key),
+    multiline: !!field.multiline,
+  }));
+
+const toSchema = (title: string, drafts: FieldDraft[]): HumanInputSchema => {
+  const properties: Record<string, HumanInputFieldSchema> = {};
+  for (const draft of drafts) {
+    const options = draft.options.split(',').map(option => option.trim()).filter(Boolean);
+    properties[draft.key] = {
+      type: draft.type,
+      ...(draft.title ? { title: draft.title } : {}),
+      ...(draft.description ? { description: draft.description } : {}),
+      ...(options.length > 0 && draft.type !== 'boolean'
+        ? { enum: draft.type === 'string' ? options : options.map(Number) }
+        : {}),
+      ...(draft.multiline && draft.type === 'string' && options.length === 0 ? { multiline: true } : {}),
+    };
+  }
+  return {
+    type: 'object',
+    ...(title ? { title } : {}),
+    properties,
+    required: drafts.filter(draft => draft.required).map(draft => draft.key),
+  };
+};
+
+export const HumanInputNodePropertiesModal = ({ open, node, onClose, onSave }: HumanInputNodePropertiesModalProps) => {
+  // Clone node data to avoid direct mutation
+  const [nodeData, setNodeData] = useState<{
+    label: string;
+    type: string;
+    description?: string;
+    properties: Record<string, any>;
+  } | null>(null);
+  const [formTitle, setFormTitle] = useState('');
+  const [fields, setFields] = useState<FieldDraft[]>([]);
+
+  useEffect(() => {
+    if (node) {
+      setNodeData({
+        ...node.data,
+        properties: {
+          injectAs: 'message',
+          ...node.data.properties
+        }
+      });
+      setFormTitle(node.data.properties?.schema?.title || '');
+      setFields(toDrafts(node.data.properties?.schema));
+    }
+  }, [node, open]);
+
+  const updateProperty = (key: string, value: unknown) => {
+    setNodeData(prev => prev ? { ...prev, properties: { ...prev.properties, [key]: value } } : null);
+  };
+
+  const updateField = (index: number, changes: Partial<FieldDraft>) => {
+    setFields(prev => prev.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const addField = () => {
+    setFields(prev => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        key: `field${prev.length + 1}`,
+        title: '',
+        type: 'string',
+        description: '',
+        options: '',
+        required: true,
+        multiline: false,
+      },
+    ]);
+  };
+
+  const removeField = (index: number) => {
+    setFields(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    if (node && nodeData) {
+      const updatedNodeData = {
+        ...nodeData,
+        properties: {
+          ...nodeData.properties,
+          schema: fields.length > 0 ? toSchema(formTitle, fields) : undefined,
+        }
+      };
+      onSave(node.id, updatedNodeData);
+      onClose();
+    }
+  };
+
+  if (!node || !nodeData) return null;
+
+  const keys = fields.map(field => field.key);
+  const hasInvalidKeys = keys.some((key, index) => !key || keys.indexOf(key) !== index);
+  const isVariable = nodeData.properties.injectAs === 'variable';
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderTop: 5,
+          borderColor: '#E91E63',
+          width: '900px',
+          maxWidth: '95vw',
+          maxHeight: '90vh',
+        }
+      }}
+    >
+      <DialogTitle component="div">
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">
+            {nodeData.label || 'Human Input Node'} Properties
+          </Typography>
+          <IconButton edge="end" color="inherit" onClick={onClose} aria-label="close">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <Divider />
+
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, p: 3, overflow: 'auto' }}>
+        <TextField
+          label="Node Label"
+          value={nodeData.label}
+          onChange={(e) => setNodeData(prev => prev ? { ...prev, label: e.target.value } : null)}
+          fullWidth
+          size="small"
+          sx={{ mt: 1 }}
+        />
+
+        <TextField
+          label="Prompt"
+          value={nodeData.properties.prompt || ''}
+          onChange={(e) => updateProperty('prompt', e.target.value)}
+          placeholder="Which of the proposed plans should we go with?"
+          fullWidth
+          multiline
+          minRows={2}
+          size="small"
+          helperText="Shown in the chat as an assistant message, right above the form."
+        />
+
+        <Typography variant="subtitle1">
+          Form
+        </Typography>
+
+        <TextField
+          label="Form title"
+          value={formTitle}
+          onChange={(e) => setFormTitle(e.target.value)}
+          placeholder="Input Required"
+          fullWidth
+          size="small"
+        />
+
+        {fields.length === 0 && (
+          <Alert severity="info">Without fields, the user is asked for a single free-text response.</Alert>
+        )}
+        {hasInvalidKeys && (
+          <Alert severity="warning">Every field needs a unique key.</Alert>
+        )}
+
+        {fields.map((field, index) => (
+          <Paper key={field.id} variant="outlined" sx={{ p: 2 }}>
+            <Box display="flex" gap={1} alignItems="center" flexWrap="wrap">
+              <TextField
+                label="Key"
+                size="small"
+                value={field.key}
+                onChange={(e) => updateField(index, { key: e.target.value.replace(/\s+/g, '_') })}
+                sx={{ width: 140 }}
+              />
+              <TextField
+                label="Label"
+                size="small"
+                value={field.title}
+                onChange={(e) => updateField(index, { title: e.target.value })}
+                sx={{ flex: 1, minWidth: 140 }}
+              />
+              <TextField
+                select
+                label="Type"
+                size="small"
+                value={field.type}
+                onChange={(e) => updateField(index, { type: e.target.value as HumanInputFieldSchema['type'] })}
+                sx={{ minWidth: 140 }}
+              >
+                {TYPE_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+              <IconButton size="small" onClick={() => removeField(index)} aria-label="remove field">
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+            <Box display="flex" gap={1} alignItems="center" flexWrap="wrap" sx={{ mt: 1 }}>
+              {field.type !== 'boolean' && (
+                <TextField
+                  label="Options"
+                  size="small"
+                  value={field.options}
+                  onChange={(e) => updateField(index, { options: e.target.value })}
+                  placeholder="Plan A, Plan B"
+                  helperText="Comma separated. Leave empty for free input."
+                  sx={{ flex: 1, minWidth: 200 }}
+                />
+              )}
+              <TextField
+                label="Help text"
+                size="small"
+                value={field.description}
+                onChange={(e) => updateField(index, { description: e.target.value })}
+                sx={{ flex: 1, minWidth: 200 }}
+              />
+              <FormControlLabel
+                control={<Checkbox checked={field.required} onChange={(e) => updateField(index, { required: e.target.checked })} />}
+                label="Required"
+              />
+              {field.type === 'string' && !field.options && (
+                <FormControlLabel
+                  control={<Checkbox checked={field.multiline} onChange={(e) => updateField(index, { multiline: e.target.checked })} />}
+                  label="Multi-line"
+                />
+              )}
+            </Box>
+          </Paper>
+        ))}
+
+        <Box>
+          <Button startIcon={<AddIcon />} onClick={addField}>
+            Add Field
+          </Button>
+        </Box>
+
+        <TextField
+          select
+          label="Submitted values become"
+          value={nodeData.properties.injectAs}
+          onChange={(e) => updateProperty('injectAs', e.target.value)}
+          fullWidth
+          size="small"
+          helperText={INJECT_OPTIONS.find(option => option.value === nodeData.properties.injectAs)?.description}
+        >
+          {INJECT_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </TextField>
+
+        {isVariable && (
+          <TextField
+            label="Variable name"
+            value={nodeData.properties.variableName || ''}
+            onChange={(e) => updateProperty('variableName', e.target.value.trim())}
+            fullWidth
+            size="small"
+          />
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          color="primary"
+          disabled={hasInvalidKeys || (isVariable && !nodeData.properties.variableName)}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default HumanInputNodePropertiesModal;
@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Box,
+  IconButton,
+  Divider,
+  MenuItem,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { FlowNode } from '@/frontend/types/flow/flow';
+import { Model } from '@/shared/types/model';
+import { modelService } from '@/frontend/services/model';
+import { createLogger } from '@/utils/logger';
+import type { JoinStrategy } from '@/backend/execution/flow/types';
+
+// Create a logger instance for this file
+const log = createLogger('components/flow/FlowBuilder/Modals/JoinNodePropertiesModal.tsx');
+
+interface JoinNodePropertiesModalProps {
+  open: boolean;
+  node: FlowNode | null;
+  onClose: () => void;
+  onSave: (nodeId: string, data: any) => void;
+}
+
+const STRATEGY_OPTIONS: Array<{ value: JoinStrategy; label: string; description: string }> = [
+  { value: 'concat', label: 'Concatenate', description: 'All branch answers, one section per branch.' },
+  { value: 'first', label: 'First to finish', description: 'Only the answer of the fastest branch.' },
+  { value: 'mergePrompt', label: 'Merge with a model', description: 'A model combines the branch answers into one.' },
+];
+
+export const JoinNodePropertiesModal = ({ open, node, onClose, onSave }: JoinNodePropertiesModalProps) => {
+  // Clone node data to avoid direct mutation
+  const [nodeData, setNodeData] = useState<{
+    label: string;
+    type: string;
+    description?: string;
+    properties: Record<string, any>;
+  } | null>(null);
+  const [models, setModels] = useState<Model[]>([]);
+
+  useEffect(() => {
+    if (node) {
+      setNodeData({
+        ...node.data,
+        properties: {
+          strategy: 'concat',
+          ...node.data.properties
+        }
+      });
+    }
+  }, [node, open]);
+
+  // Load models when the modal opens
+  useEffect(() => {
+    if (!open) return;
+    modelService.loadModels()
+      .then(setModels)
+      .catch(error => log.warn('Failed to load models:', error));
+  }, [open]);
+
+  const updateProperty = (key: string, value: unknown) => {
+    setNodeData(prev => prev ? { ...prev, properties: { ...prev.properties, [key]: value } } : null);
+  };
+
+  const handleSave = () => {
+    if (node && nodeData) {
+      onSave(node.id, nodeData);
+      onClose();
+    }
+  };
+
+  if (!node || !nodeData) return null;
+
+  const isMergePrompt = nodeData.properties.strategy === 'mergePrompt';
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderTop: 5,
+          borderColor: '#009688',
+          maxWidth: '95vw',
+          maxHeight: '90vh',
+        }
+      }}
+    >
+      <DialogTitle component="div">
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">
+            {nodeData.label || 'Join Node'} Properties
+          </Typography>
+          <IconButton edge="end" color="inherit" onClick={onClose} aria-label="close">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <Divider />
+
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, p: 3 }}>
+        <TextField
+          label="Node Label"
+          value={nodeData.label}
+          onChange={(e) => setNodeData(prev => prev ? { ...prev, label: e.target.value } : null)}
+          fullWidth
+          size="small"
+          sx={{ mt: 1 }}
+        />
+
+        <TextField
+          select
+          label="Merge strategy"
+          value={nodeData.properties.strategy}
+          onChange={(e) => updateProperty('strategy', e.target.value)}
+          fullWidth
+          size="small"
+          helperText={STRATEGY_OPTIONS.find(option => option.value === nodeData.properties.strategy)?.description}
+        >
+          {STRATEGY_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </TextField>
+
+        {isMergePrompt && (
+          <>
+            <TextField
+              select
+              label="Model"
+              value={nodeData.properties.boundModel || ''}
+              onChange={(e) => updateProperty('boundModel', e.target.value)}
+              fullWidth
+              size="small"
+            >
+              {models.map(model => (
+                <MenuItem key={model.id} value={model.id}>{model.displayName || model.name}</MenuItem>
+              ))}
+            </TextField>
+
+            <TextField
+              label="Merge prompt"
+              value={nodeData.properties.mergePrompt || ''}
+              onChange={(e) => updateProperty('mergePrompt', e.target.value)}
+              placeholder="Combine the following answers into a single, coherent response."
+              fullWidth
+              multiline
+              minRows={4}
+              size="small"
+              helperText="Sent as system prompt. The branch answers follow as the user message."
+            />
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          color="primary"
+          disabled={isMergePrompt && !nodeData.properties.boundModel}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default JoinNodePropertiesModal;
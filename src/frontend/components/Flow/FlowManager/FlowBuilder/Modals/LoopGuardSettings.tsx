@@ -0,0 +1,83 @@
+"use client";
+
+import React from 'react';
+import { Box, TextField, MenuItem, Typography } from '@mui/material';
+import { Edge } from '@xyflow/react';
+import { FlowNode } from '@/frontend/types/flow/flow';
+import type { LoopGuardPolicy } from '@/backend/execution/flow/types';
+
+interface LoopGuardSettingsProps {
+  nodeId: string;
+  properties: Record<string, any>;
+  onChange: (key: string, value: unknown) => void;
+  flowEdges: Edge[];
+  flowNodes: FlowNode[];
+}
+
+const POLICY_OPTIONS: Array<{ value: LoopGuardPolicy; label: string }> = [
+  { value: 'error', label: 'Stop with an error' },
+  { value: 'fallback', label: 'Follow a fallback edge' },
+  { value: 'finish', label: 'Go to the finish node' },
+];
+
+/**
+ * Visit limit settings for nodes that can be part of a handoff loop.
+ */
+export const LoopGuardSettings = ({ nodeId, properties, onChange, flowEdges, flowNodes }: LoopGuardSettingsProps) => {
+  const outgoingEdges = flowEdges
+    .filter(edge => edge.source === nodeId && edge.data?.edgeType !== 'mcp')
+    .map(edge => ({
+      id: edge.id,
+      label: flowNodes.find(n => n.id === edge.target)?.data.label || edge.target
+    }));
+
+  const policy: LoopGuardPolicy = properties.onMaxVisitsExceeded || 'error';
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="subtitle1">
+        Loop Guard
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <TextField
+          type="number"
+          label="Maximum visits per run"
+          value={properties.maxVisits ?? ''}
+          placeholder="Unlimited"
+          onChange={(e) => onChange('maxVisits', e.target.value ? Math.max(1, parseInt(e.target.value, 10) || 1) : undefined)}
+          size="small"
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          select
+          label="When exceeded"
+          value={policy}
+          onChange={(e) => onChange('onMaxVisitsExceeded', e.target.value)}
+          size="small"
+          sx={{ flex: 1 }}
+          disabled={!properties.maxVisits}
+        >
+          {POLICY_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </TextField>
+      </Box>
+      {policy === 'fallback' && properties.maxVisits && (
+        <TextField
+          select
+          label="Fallback edge"
+          value={properties.fallbackEdgeId || ''}
+          onChange={(e) => onChange('fallbackEdgeId', e.target.value)}
+          size="small"
+          helperText={outgoingEdges.length === 0 ? 'Connect this node to another node first.' : undefined}
+        >
+          {outgoingEdges.map(edge => (
+            <MenuItem key={edge.id} value={edge.id}>{edge.label}</MenuItem>
+          ))}
+        </TextField>
+      )}
+    </Box>
+  );
+};
+
+export default LoopGuardSettings;
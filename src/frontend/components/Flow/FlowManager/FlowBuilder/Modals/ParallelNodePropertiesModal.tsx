@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Box,
+  IconButton,
+  Divider,
+  MenuItem,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { FlowNode } from '@/frontend/types/flow/flow';
+
+interface ParallelNodePropertiesModalProps {
+  open: boolean;
+  node: FlowNode | null;
+  onClose: () => void;
+  onSave: (nodeId: string, data: any) => void;
+  flowNodes: FlowNode[];
+}
+
+export const ParallelNodePropertiesModal = ({ open, node, onClose, onSave, flowNodes }: ParallelNodePropertiesModalProps) => {
+  // Clone node data to avoid direct mutation
+  const [nodeData, setNodeData] = useState<{
+    label: string;
+    type: string;
+    description?: string;
+    properties: Record<string, any>;
+  } | null>(null);
+
+  useEffect(() => {
+    if (node) {
+      setNodeData({
+        ...node.data,
+        properties: { ...node.data.properties }
+      });
+    }
+  }, [node, open]);
+
+  const updateProperty = (key: string, value: unknown) => {
+    setNodeData(prev => prev ? { ...prev, properties: { ...prev.properties, [key]: value } } : null);
+  };
+
+  const handleSave = () => {
+    if (node && nodeData) {
+      onSave(node.id, nodeData);
+      onClose();
+    }
+  };
+
+  if (!node || !nodeData) return null;
+
+  const joinNodes = flowNodes.filter(flowNode => flowNode.type === 'join');
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderTop: 5,
+          borderColor: '#3F51B5',
+          maxWidth: '95vw',
+          maxHeight: '90vh',
+        }
+      }}
+    >
+      <DialogTitle component="div">
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">
+            {nodeData.label || 'Parallel Node'} Properties
+          </Typography>
+          <IconButton edge="end" color="inherit" onClick={onClose} aria-label="close">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <Divider />
+
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, p: 3 }}>
+        <TextField
+          label="Node Label"
+          value={nodeData.label}
+          onChange={(e) => setNodeData(prev => prev ? { ...prev, label: e.target.value } : null)}
+          fullWidth
+          size="small"
+          sx={{ mt: 1 }}
+        />
+
+        <Typography variant="body2" color="text.secondary">
+          Every outgoing edge starts a branch. All branches run at the same time on a copy of the
+          conversation and stop when they reach the join node.
+        </Typography>
+
+        <TextField
+          select
+          label="Join node"
+          value={nodeData.properties.joinNodeId || ''}
+          onChange={(e) => updateProperty('joinNodeId', e.target.value || undefined)}
+          fullWidth
+          size="small"
+          helperText="Leave empty to use the first join node reachable from the branches."
+        >
+          <MenuItem value="">
+            <em>Detect automatically</em>
+          </MenuItem>
+          {joinNodes.map(joinNode => (
+            <MenuItem key={joinNode.id} value={joinNode.id}>{joinNode.data.label}</MenuItem>
+          ))}
+        </TextField>
+
+        <TextField
+          type="number"
+          label="Maximum steps per branch"
+          value={nodeData.properties.maxBranchSteps ?? ''}
+          placeholder="25"
+          onChange={(e) => updateProperty('maxBranchSteps', e.target.value ? Math.max(1, parseInt(e.target.value, 10) || 1) : undefined)}
+          fullWidth
+          size="small"
+          helperText="A branch fails if it has not reached the join node after this many steps."
+        />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" color="primary">
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ParallelNodePropertiesModal;
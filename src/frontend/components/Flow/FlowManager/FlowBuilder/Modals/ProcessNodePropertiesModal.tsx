@@ -11,7 +11,8 @@ import {
     Grid,
     Typography,
     Tabs,
-    Tab
+    Tab,
+    TextField
 } from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
 import { FlowNode } from '@/frontend/types/flow/flow';
@@ -28,6 +29,12 @@ import ServerTools from './ProcessNodePropertiesModal/ServerTools/ServerTools';
 import AgentTools from './ProcessNodePropertiesModal/ServerTools/AgentTools'; // Adjusted path
 import PromptTemplateEditor from './ProcessNodePropertiesModal/PromptTemplateEditor'; // Adjusted path
 import NodeProperties from './ProcessNodePropertiesModal/NodeProperties'; // Adjusted path
+import LoopGuardSettings from './LoopGuardSettings';
+import RetrySettings from './RetrySettings';
+import OutputSchemaSettings from './ProcessNodePropertiesModal/OutputSchemaSettings';
+import VariableSettings from './ProcessNodePropertiesModal/VariableSettings';
+import ContextSettings from './ProcessNodePropertiesModal/ContextSettings';
+import ModelFallbackEditor from '@/frontend/components/shared/ModelFallbackEditor';
 import { getNodeProperties } from './ProcessNodePropertiesModal/utils'; // Adjusted path
 import { createLogger } from '@/utils/logger';
 
@@ -41,6 +48,7 @@ export const ProcessNodePropertiesModal = ({ open, node, onClose, onSave, flowEd
   const [excludeModelPrompt, setExcludeModelPrompt] = useState(false);
   const [excludeStartNodePrompt, setExcludeStartNodePrompt] = useState(false);
   const [activeTab, setActiveTab] = useState<string>('server');
+  const [isOutputSchemaValid, setIsOutputSchemaValid] = useState(true);
 
   const { models, isLoadingModels, loadError, handleModelSelect, handleUnbindModel } = useModelManagement(
     open,
@@ -223,6 +231,17 @@ export const ProcessNodePropertiesModal = ({ open, node, onClose, onSave, flowEd
                 isModelBound={isModelBound}
                 handleUnbindModel={handleUnbindModel}
               />
+              {isModelBound && (
+                <Box sx={{ mt: 2 }}>
+                  <ModelFallbackEditor
+                    value={nodeData.properties.modelFallback}
+                    onChange={(value) => handlePropertyChange('modelFallback', value)}
+                    models={models}
+                    excludeModelId={selectedModelId}
+                    helperText="Tried in this order when the bound model fails. Replaces the fallback models of the bound model."
+                  />
+                </Box>
+              )}
             </Box>
             <Box sx={{ mb: 3 }}>
               {/* Tabs for Server Tools and Agent Tools */}
@@ -266,6 +285,60 @@ export const ProcessNodePropertiesModal = ({ open, node, onClose, onSave, flowEd
             <Box>
               <NodeProperties nodeData={nodeData} handlePropertyChange={handlePropertyChange} properties={properties} />
             </Box>
+            <Box sx={{ mt: 3 }}>
+              <LoopGuardSettings
+                nodeId={node.id}
+                properties={nodeData.properties}
+                onChange={handlePropertyChange}
+                flowEdges={flowEdges}
+                flowNodes={flowNodes}
+              />
+            </Box>
+            <Box sx={{ mt: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <Typography variant="subtitle1">
+                Timeout
+              </Typography>
+              <TextField
+                type="number"
+                label="Execution timeout (ms)"
+                value={nodeData.properties.executionTimeoutMs ?? ''}
+                placeholder="No timeout"
+                onChange={(e) => handlePropertyChange('executionTimeoutMs', e.target.value ? Math.max(1000, parseInt(e.target.value, 10) || 1000) : undefined)}
+                size="small"
+                helperText="Model and tool calls still running after this time are aborted and the node fails."
+              />
+            </Box>
+            <Box sx={{ mt: 3 }}>
+              <RetrySettings
+                properties={nodeData.properties}
+                onChange={handlePropertyChange}
+                showToolFailures
+              />
+            </Box>
+            <Box sx={{ mt: 3 }}>
+              <OutputSchemaSettings
+                key={nodeData.id}
+                open={open}
+                properties={nodeData.properties}
+                onChange={handlePropertyChange}
+                onValidityChange={setIsOutputSchemaValid}
+              />
+            </Box>
+            <Box sx={{ mt: 3 }}>
+              <VariableSettings
+                key={nodeData.id}
+                open={open}
+                properties={nodeData.properties}
+                onChange={handlePropertyChange}
+              />
+            </Box>
+            <Box sx={{ mt: 3 }}>
+              <ContextSettings
+                properties={nodeData.properties}
+                onChange={handlePropertyChange}
+                models={models}
+              />
+            </Box>
           </Grid>
 
           <Grid item xs={6} sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
@@ -288,7 +361,7 @@ export const ProcessNodePropertiesModal = ({ open, node, onClose, onSave, flowEd
 
       <DialogActions>
         <Button onClick={onClose}>Cancel</Button>
-        <Button onClick={handleSave} variant="contained" color="primary">
+        <Button onClick={handleSave} variant="contained" color="primary" disabled={!isOutputSchemaValid}>
           Save Changes
         </Button>
       </DialogActions>
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Box, TextField, Typography, MenuItem } from '@mui/material';
+import { Model } from '@/shared/types/model';
+import type { ContextCompactionSettings, ContextCompactionStrategy } from '@/backend/execution/flow/types';
+
+interface ContextSettingsProps {
+  properties: Record<string, any>;
+  onChange: (key: string, value: unknown) => void;
+  models: Model[];
+}
+
+const STRATEGY_OPTIONS: Array<{ value: ContextCompactionStrategy; label: string }> = [
+  { value: 'drop_oldest', label: 'Drop the oldest messages' },
+  { value: 'truncate_tool_results', label: 'Shorten tool results' },
+  { value: 'summarize', label: 'Summarize older messages' },
+  { value: 'none', label: 'Do not compact' },
+];
+
+// Matches the defaults of ContextCompactionUtility
+const DEFAULT_RESERVE_TOKENS = 1024;
+const DEFAULT_KEEP_RECENT_MESSAGES = 6;
+const DEFAULT_MAX_TOOL_RESULT_TOKENS = 500;
+
+const toNumber = (value: string, min: number) => (value ? Math.max(min, parseInt(value, 10) || min) : undefined);
+
+/**
+ * How a process node shortens a conversation that does not fit into the context length of its model.
+ */
+const ContextSettings: React.FC<ContextSettingsProps> = ({ properties, onChange, models }) => {
+  const settings: ContextCompactionSettings = properties.contextCompaction || { strategy: 'drop_oldest' };
+
+  const updateSettings = (changes: Partial<ContextCompactionSettings>) => {
+    const next = { ...settings, ...changes };
+    // The default strategy without any other setting is the same as no settings
+    const isDefault = next.strategy === 'drop_oldest' && Object.values(next).filter(value => value !== undefined).length === 1;
+    onChange('contextCompaction', isDefault ? undefined : next);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="subtitle1">
+        Context
+      </Typography>
+      <TextField
+        select
+        label="When the conversation exceeds the context length"
+        value={settings.strategy}
+        onChange={(e) => updateSettings({ strategy: e.target.value as ContextCompactionStrategy })}
+        size="small"
+        helperText="The oldest messages are dropped after the other strategies if the conversation still does not fit."
+      >
+        {STRATEGY_OPTIONS.map(option => (
+          <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+        ))}
+      </TextField>
+      {settings.strategy === 'summarize' && (
+        <>
+          <TextField
+            select
+            label="Summarizer model"
+            value={settings.summarizerModel || ''}
+            onChange={(e) => updateSettings({ summarizerModel: e.target.value || undefined })}
+            size="small"
+            helperText="Writes the summary of older messages. Defaults to the bound model."
+          >
+            <MenuItem value=""><em>Bound model</em></MenuItem>
+            {models.map(model => (
+              <MenuItem key={model.id} value={model.id}>{model.displayName || model.name}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            type="number"
+            label="Recent messages kept verbatim"
+            value={settings.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES}
+            onChange={(e) => updateSettings({ keepRecentMessages: toNumber(e.target.value, 1) })}
+            size="small"
+          />
+        </>
+      )}
+      {settings.strategy === 'truncate_tool_results' && (
+        <TextField
+          type="number"
+          label="Shorten tool results to (tokens)"
+          value={settings.maxToolResultTokens ?? DEFAULT_MAX_TOOL_RESULT_TOKENS}
+          onChange={(e) => updateSettings({ maxToolResultTokens: toNumber(e.target.value, 1) })}
+          size="small"
+          helperText="Tool results are shortened starting with the oldest, until the conversation fits."
+        />
+      )}
+      {settings.strategy !== 'none' && (
+        <>
+          <TextField
+            type="number"
+            label="Tokens reserved for the answer"
+            value={settings.reserveTokens ?? DEFAULT_RESERVE_TOKENS}
+            onChange={(e) => updateSettings({ reserveTokens: toNumber(e.target.value, 0) })}
+            size="small"
+          />
+          <TextField
+            type="number"
+            label="Token budget"
+            value={settings.maxContextTokens ?? ''}
+            placeholder="Context length of the model"
+            onChange={(e) => updateSettings({ maxContextTokens: toNumber(e.target.value, 1) })}
+            size="small"
+            helperText="Compacts below the model's context length, e.g. to keep requests small."
+          />
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ContextSettings;
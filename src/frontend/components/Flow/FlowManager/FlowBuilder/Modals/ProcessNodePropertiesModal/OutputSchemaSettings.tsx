@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { Box, TextField, Typography, FormControlLabel, Switch } from '@mui/material';
+
+interface OutputSchemaSettingsProps {
+  open: boolean;
+  properties: Record<string, any>;
+  onChange: (key: string, value: unknown) => void;
+  onValidityChange: (valid: boolean) => void;
+}
+
+const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "summary": { "type": "string" },
+    "priority": { "type": "string", "enum": ["low", "medium", "high"] }
+  },
+  "required": ["summary", "priority"]
+}`;
+
+const DEFAULT_MAX_RETRIES = 2;
+
+/**
+ * JSON Schema the final answer of a process node has to match.
+ * The schema is edited as text and stored on the node as an object.
+ */
+const OutputSchemaSettings: React.FC<OutputSchemaSettingsProps> = ({ open, properties, onChange, onValidityChange }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [schemaText, setSchemaText] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  // Load the stored schema when the modal opens (the parent remounts this per node)
+  useEffect(() => {
+    if (open) {
+      setEnabled(!!properties.outputSchema);
+      setSchemaText(properties.outputSchema ? JSON.stringify(properties.outputSchema, null, 2) : '');
+      setParseError(null);
+      onValidityChange(true);
+    }
+  }, [open]);
+
+  const applySchemaText = (text: string) => {
+    setSchemaText(text);
+    try {
+      const parsed = JSON.parse(text);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('The schema must be a JSON object');
+      }
+      setParseError(null);
+      onValidityChange(true);
+      onChange('outputSchema', parsed);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : String(error));
+      onValidityChange(false);
+    }
+  };
+
+  const handleToggle = (checked: boolean) => {
+    setEnabled(checked);
+    if (checked) {
+      applySchemaText(schemaText || EXAMPLE_SCHEMA);
+    } else {
+      setParseError(null);
+      onValidityChange(true);
+      onChange('outputSchema', undefined);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="subtitle1">
+        Structured Output
+      </Typography>
+      <FormControlLabel
+        control={<Switch checked={enabled} onChange={(e) => handleToggle(e.target.checked)} />}
+        label="Require the answer to match a JSON Schema"
+      />
+      {enabled && (
+        <>
+          <TextField
+            label="Output JSON Schema"
+            value={schemaText}
+            onChange={(e) => applySchemaText(e.target.value)}
+            multiline
+            minRows={8}
+            fullWidth
+            error={!!parseError}
+            helperText={parseError || 'Sent as response_format where the provider supports it. The answer is always validated.'}
+            InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.875rem' } }}
+          />
+          <TextField
+            type="number"
+            label="Retries on invalid output"
+            value={properties.outputMaxRetries ?? DEFAULT_MAX_RETRIES}
+            onChange={(e) => onChange('outputMaxRetries', Math.max(0, parseInt(e.target.value, 10) || 0))}
+            size="small"
+            helperText="The model is re-prompted with the validation errors before the node fails."
+          />
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default OutputSchemaSettings;
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Box, TextField, Typography, Button, IconButton } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+
+interface VariableSettingsProps {
+  open: boolean;
+  properties: Record<string, any>;
+  onChange: (key: string, value: unknown) => void;
+}
+
+interface ToolMappingDraft {
+  id: string;
+  tool: string;
+  variable: string;
+}
+
+const toDrafts = (mapping?: Record<string, string>): ToolMappingDraft[] =>
+  Object.entries(mapping || {}).map(([tool, variable]) => ({ id: crypto.randomUUID(), tool, variable }));
+
+const toMapping = (drafts: ToolMappingDraft[]): Record<string, string> | undefined => {
+  const complete = drafts.filter(draft => draft.tool && draft.variable);
+  return complete.length > 0
+    ? Object.fromEntries(complete.map(draft => [draft.tool, draft.variable]))
+    : undefined;
+};
+
+/**
+ * Flow variables written by a process node: its validated structured output and
+ * the results of selected tools. Other nodes reference them as ${var:name}.
+ */
+const VariableSettings: React.FC<VariableSettingsProps> = ({ open, properties, onChange }) => {
+  const [mappings, setMappings] = useState<ToolMappingDraft[]>([]);
+
+  // Load the stored mappings when the modal opens (the parent remounts this per node)
+  useEffect(() => {
+    if (open) {
+      setMappings(toDrafts(properties.toolResultVariables));
+    }
+  }, [open]);
+
+  const updateMappings = (next: ToolMappingDraft[]) => {
+    setMappings(next);
+    onChange('toolResultVariables', toMapping(next));
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="subtitle1">
+        Variables
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        Reference flow variables in any prompt as {'${var:name}'} or {'${var:name.field}'}.
+      </Typography>
+      <TextField
+        label="Store structured output in variable"
+        value={properties.outputVariable || ''}
+        onChange={(e) => onChange('outputVariable', e.target.value.trim() || undefined)}
+        size="small"
+        disabled={!properties.outputSchema}
+        helperText={properties.outputSchema ? undefined : 'Requires an output JSON Schema.'}
+      />
+      {mappings.map((mapping, index) => (
+        <Box key={mapping.id} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <TextField
+            label="Tool name"
+            value={mapping.tool}
+            onChange={(e) => updateMappings(mappings.map((m, i) => (i === index ? { ...m, tool: e.target.value.trim() } : m)))}
+            size="small"
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            label="Variable"
+            value={mapping.variable}
+            onChange={(e) => updateMappings(mappings.map((m, i) => (i === index ? { ...m, variable: e.target.value.trim() } : m)))}
+            size="small"
+            sx={{ flex: 1 }}
+          />
+          <IconButton size="small" onClick={() => updateMappings(mappings.filter((_, i) => i !== index))} aria-label="remove mapping">
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+      <Box>
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() => setMappings(prev => [...prev, { id: crypto.randomUUID(), tool: '', variable: '' }])}
+        >
+          Store Tool Result
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default VariableSettings;
@@ -0,0 +1,116 @@
+"use client";
+
+import React from 'react';
+import { Box, TextField, Typography, FormControlLabel, Checkbox, Switch, FormGroup, FormLabel } from '@mui/material';
+import type { RetryPolicy, RetryableErrorType } from '@/backend/execution/flow/types';
+
+interface RetrySettingsProps {
+  properties: Record<string, any>;
+  onChange: (key: string, value: unknown) => void;
+  // Only nodes that request tool calls can retry them
+  showToolFailures?: boolean;
+}
+
+const ERROR_TYPE_OPTIONS: Array<{ value: RetryableErrorType; label: string }> = [
+  { value: 'model', label: 'Model errors' },
+  { value: 'mcp', label: 'MCP errors' },
+  { value: 'tool', label: 'Tool errors' },
+  { value: 'timeout', label: 'Timeouts' },
+  { value: 'node', label: 'Other node errors' },
+];
+
+// Matches the defaults of RetryNode
+const DEFAULT_RETRY_ON: RetryableErrorType[] = ['model', 'mcp', 'timeout'];
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+
+/**
+ * Retry policy settings for nodes built on RetryNode.
+ */
+export const RetrySettings = ({ properties, onChange, showToolFailures = false }: RetrySettingsProps) => {
+  const policy: RetryPolicy = properties.retry || {};
+  const retryOn = policy.retryOn ?? DEFAULT_RETRY_ON;
+  const enabled = (policy.maxAttempts ?? 1) > 1;
+
+  const updatePolicy = (changes: Partial<RetryPolicy>) => {
+    const next = { ...policy, ...changes };
+    onChange('retry', (next.maxAttempts ?? 1) > 1 ? next : undefined);
+  };
+
+  const toggleErrorType = (type: RetryableErrorType, checked: boolean) => {
+    updatePolicy({ retryOn: checked ? [...retryOn, type] : retryOn.filter(t => t !== type) });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="subtitle1">
+        Retries
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <TextField
+          type="number"
+          label="Maximum attempts"
+          value={policy.maxAttempts ?? 1}
+          onChange={(e) => updatePolicy({ maxAttempts: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+          size="small"
+          sx={{ flex: 1 }}
+          helperText="1 disables retries"
+        />
+        <TextField
+          type="number"
+          label="Backoff (ms)"
+          value={policy.backoffMs ?? 0}
+          onChange={(e) => updatePolicy({ backoffMs: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          size="small"
+          sx={{ flex: 1 }}
+          disabled={!enabled}
+        />
+        <TextField
+          type="number"
+          label="Backoff multiplier"
+          value={policy.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER}
+          onChange={(e) => updatePolicy({ backoffMultiplier: Math.max(1, parseFloat(e.target.value) || 1) })}
+          size="small"
+          sx={{ flex: 1 }}
+          disabled={!enabled}
+          inputProps={{ step: 0.5 }}
+        />
+      </Box>
+      <Box>
+        <FormLabel component="legend" disabled={!enabled}>Retry on</FormLabel>
+        <FormGroup row>
+          {ERROR_TYPE_OPTIONS.map(option => (
+            <FormControlLabel
+              key={option.value}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={retryOn.includes(option.value)}
+                  onChange={(e) => toggleErrorType(option.value, e.target.checked)}
+                  disabled={!enabled}
+                />
+              }
+              label={option.label}
+            />
+          ))}
+        </FormGroup>
+      </Box>
+      {showToolFailures && (
+        <FormControlLabel
+          control={
+            <Switch
+              checked={!!policy.retryToolFailures}
+              onChange={(e) => updatePolicy({ retryToolFailures: e.target.checked })}
+              disabled={!enabled}
+            />
+          }
+          label="Retry failed tool calls with the same attempts and backoff"
+        />
+      )}
+      <Typography variant="body2" color="text.secondary">
+        All attempts share the node&apos;s execution timeout and are listed in the debugger.
+      </Typography>
+    </Box>
+  );
+};
+
+export default RetrySettings;
@@ -12,9 +12,11 @@ import {
   Box,
   IconButton,
   Divider,
+  MenuItem,
 } from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
 import { FlowNode } from '@/frontend/types/flow/flow';
+import type { ConversationBudget } from '@/backend/execution/flow/types';
 import PromptBuilder from '@/frontend/components/shared/PromptBuilder';
 
 interface StartNodePropertiesModalProps {
@@ -78,8 +80,20 @@ export const StartNodePropertiesModal = ({ open, node, onClose, onSave }: StartN
     });
   };
 
+  const updateProperty = (key: string, value: unknown) => {
+    setNodeData(prev => prev ? { ...prev, properties: { ...prev.properties, [key]: value } } : null);
+  };
+
+  const updateBudget = (limit: keyof ConversationBudget, value: string, parse: (value: string) => number) => {
+    const parsed = value ? parse(value) : undefined;
+    const budget: ConversationBudget = { ...nodeData?.properties.budget, [limit]: parsed && parsed > 0 ? parsed : undefined };
+    updateProperty('budget', Object.values(budget).some(limitValue => limitValue !== undefined) ? budget : undefined);
+  };
+
   if (!node || !nodeData) return null;
 
+  const budget: ConversationBudget = nodeData.properties.budget || {};
+
   return (
     <Dialog 
       open={open} 
@@ -112,10 +126,95 @@ export const StartNodePropertiesModal = ({ open, node, onClose, onSave }: StartN
       
       <DialogContent sx={{ display: 'flex', flexDirection: 'column', p: 3, overflow: 'auto', height: 'calc(90vh - 130px)' }}>
         <Box sx={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+          <Typography variant="h6" gutterBottom>
+            Run Limits
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            <TextField
+              type="number"
+              label="Maximum steps per run"
+              value={nodeData.properties.maxSteps ?? ''}
+              placeholder="Unlimited"
+              onChange={(e) => updateProperty('maxSteps', e.target.value ? Math.max(1, parseInt(e.target.value, 10) || 1) : undefined)}
+              size="small"
+              sx={{ flex: 1 }}
+              helperText="Every executed node counts as a step, including tool call rounds."
+            />
+            <TextField
+              select
+              label="When exceeded"
+              value={nodeData.properties.onMaxStepsExceeded || 'error'}
+              onChange={(e) => updateProperty('onMaxStepsExceeded', e.target.value)}
+              size="small"
+              sx={{ flex: 1 }}
+              disabled={!nodeData.properties.maxSteps}
+            >
+              <MenuItem value="error">Stop with an error</MenuItem>
+              <MenuItem value="finish">Go to the finish node</MenuItem>
+            </TextField>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            <TextField
+              type="number"
+              label="Flow timeout (ms)"
+              value={nodeData.properties.flowTimeoutMs ?? ''}
+              placeholder="No timeout"
+              onChange={(e) => updateProperty('flowTimeoutMs', e.target.value ? Math.max(1000, parseInt(e.target.value, 10) || 1000) : undefined)}
+              size="small"
+              sx={{ flex: 1 }}
+              helperText="Deadline for processing one request. The running node is aborted when it passes."
+            />
+          </Box>
+          <Typography variant="subtitle1" gutterBottom>
+            Conversation Budget
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            Checked before each node across all runs of a conversation. When a limit is reached the flow goes to the finish node with a message explaining why. API callers can set lower limits with metadata.budget.
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            <TextField
+              type="number"
+              label="Maximum tokens"
+              value={budget.maxTokens ?? ''}
+              placeholder="Unlimited"
+              onChange={(e) => updateBudget('maxTokens', e.target.value, value => parseInt(value, 10))}
+              size="small"
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              type="number"
+              label="Maximum cost (USD)"
+              value={budget.maxCost ?? ''}
+              placeholder="Unlimited"
+              onChange={(e) => updateBudget('maxCost', e.target.value, value => parseFloat(value))}
+              size="small"
+              sx={{ flex: 1 }}
+              inputProps={{ step: 0.01, min: 0 }}
+              helperText="Only models with pricing count."
+            />
+            <TextField
+              type="number"
+              label="Maximum tool calls"
+              value={budget.maxToolCalls ?? ''}
+              placeholder="Unlimited"
+              onChange={(e) => updateBudget('maxToolCalls', e.target.value, value => parseInt(value, 10))}
+              size="small"
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              type="number"
+              label="Maximum model calls"
+              value={budget.maxModelCalls ?? ''}
+              placeholder="Unlimited"
+              onChange={(e) => updateBudget('maxModelCalls', e.target.value, value => parseInt(value, 10))}
+              size="small"
+              sx={{ flex: 1 }}
+            />
+          </Box>
           <Typography variant="h6" gutterBottom>
             Prompt Template
           </Typography>
-          <Box sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', height: 'calc(100% - 40px)' }}>
+          <Box sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', minHeight: 0 }}>
             <PromptBuilder 
               value={promptTemplate} 
               onChange={handlePromptChange}
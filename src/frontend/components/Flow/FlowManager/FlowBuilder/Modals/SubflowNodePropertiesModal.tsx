@@ -0,0 +1,186 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Box,
+  IconButton,
+  Divider,
+  MenuItem,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { Flow, FlowNode } from '@/frontend/types/flow/flow';
+import type { SubflowMessageInheritance } from '@/backend/execution/flow/types';
+import RetrySettings from './RetrySettings';
+
+interface SubflowNodePropertiesModalProps {
+  open: boolean;
+  node: FlowNode | null;
+  onClose: () => void;
+  onSave: (nodeId: string, data: any) => void;
+  allFlows: Flow[];
+  currentFlowId?: string;
+}
+
+const INHERITANCE_OPTIONS: Array<{ value: SubflowMessageInheritance; label: string }> = [
+  { value: 'lastUser', label: 'Last user message' },
+  { value: 'lastN', label: 'Last N messages' },
+  { value: 'all', label: 'Whole conversation' },
+  { value: 'none', label: 'Nothing' },
+];
+
+export const SubflowNodePropertiesModal = ({ open, node, onClose, onSave, allFlows, currentFlowId }: SubflowNodePropertiesModalProps) => {
+  // Clone node data to avoid direct mutation
+  const [nodeData, setNodeData] = useState<{
+    label: string;
+    type: string;
+    description?: string;
+    properties: Record<string, any>;
+  } | null>(null);
+
+  useEffect(() => {
+    if (node) {
+      setNodeData({
+        ...node.data,
+        properties: {
+          inheritMessages: 'lastUser',
+          ...node.data.properties
+        }
+      });
+    }
+  }, [node, open]);
+
+  const updateProperty = (key: string, value: unknown) => {
+    setNodeData(prev => prev ? { ...prev, properties: { ...prev.properties, [key]: value } } : null);
+  };
+
+  const handleSave = () => {
+    if (node && nodeData) {
+      onSave(node.id, nodeData);
+      onClose();
+    }
+  };
+
+  if (!node || !nodeData) return null;
+
+  // A flow cannot run itself; deeper cycles are rejected when the flow is saved
+  const selectableFlows = allFlows.filter(flow => flow.id !== currentFlowId);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderTop: 5,
+          borderColor: '#607D8B',
+          maxWidth: '95vw',
+          maxHeight: '90vh',
+        }
+      }}
+    >
+      <DialogTitle component="div">
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">
+            {nodeData.label || 'Subflow Node'} Properties
+          </Typography>
+          <IconButton edge="end" color="inherit" onClick={onClose} aria-label="close">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <Divider />
+
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, p: 3 }}>
+        <TextField
+          label="Node Label"
+          value={nodeData.label}
+          onChange={(e) => setNodeData(prev => prev ? { ...prev, label: e.target.value } : null)}
+          fullWidth
+          size="small"
+          sx={{ mt: 1 }}
+        />
+
+        <TextField
+          select
+          label="Flow to run"
+          value={nodeData.properties.flowId || ''}
+          onChange={(e) => updateProperty('flowId', e.target.value)}
+          fullWidth
+          size="small"
+          helperText="The subflow runs on its own conversation state. Its final answer is added to this conversation."
+        >
+          {selectableFlows.map(flow => (
+            <MenuItem key={flow.id} value={flow.id}>{flow.name}</MenuItem>
+          ))}
+        </TextField>
+
+        <TextField
+          select
+          label="Messages passed to the subflow"
+          value={nodeData.properties.inheritMessages}
+          onChange={(e) => updateProperty('inheritMessages', e.target.value)}
+          fullWidth
+          size="small"
+        >
+          {INHERITANCE_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </TextField>
+
+        {nodeData.properties.inheritMessages === 'lastN' && (
+          <TextField
+            type="number"
+            label="Number of messages"
+            value={nodeData.properties.inheritCount ?? 1}
+            onChange={(e) => updateProperty('inheritCount', Math.max(1, parseInt(e.target.value, 10) || 1))}
+            fullWidth
+            size="small"
+          />
+        )}
+
+        <TextField
+          type="number"
+          label="Maximum steps"
+          value={nodeData.properties.maxSteps ?? ''}
+          placeholder="50"
+          onChange={(e) => updateProperty('maxSteps', e.target.value ? Math.max(1, parseInt(e.target.value, 10) || 1) : undefined)}
+          fullWidth
+          size="small"
+          helperText="The subflow fails if it has not finished after this many steps."
+        />
+
+        <TextField
+          type="number"
+          label="Execution timeout (ms)"
+          value={nodeData.properties.executionTimeoutMs ?? ''}
+          placeholder="No timeout"
+          onChange={(e) => updateProperty('executionTimeoutMs', e.target.value ? Math.max(1000, parseInt(e.target.value, 10) || 1000) : undefined)}
+          fullWidth
+          size="small"
+          helperText="The subflow node fails if the nested run takes longer."
+        />
+
+        <RetrySettings properties={nodeData.properties} onChange={updateProperty} />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" color="primary" disabled={!nodeData.properties.flowId}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SubflowNodePropertiesModal;
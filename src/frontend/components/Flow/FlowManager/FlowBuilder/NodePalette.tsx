@@ -7,6 +7,12 @@ import { createLogger } from '@/utils/logger';
 import { NodeType } from '@/frontend/types/flow/flow';
 import SettingsIcon from '@mui/icons-material/Settings';
 import OutputIcon from '@mui/icons-material/Output';
+import CallSplitIcon from '@mui/icons-material/CallSplit';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import ForkRightIcon from '@mui/icons-material/ForkRight';
+import CallMergeIcon from '@mui/icons-material/CallMerge';
+import PanToolIcon from '@mui/icons-material/PanTool';
+import CodeIcon from '@mui/icons-material/Code';
 
 // Create a logger instance for this file
 const log = createLogger('components/flow/FlowBuilder/NodePalette.tsx');
@@ -34,6 +40,18 @@ const NodeItem = styled(Paper, {
       ? theme.palette.secondary.main
       : nodeType === 'finish'
       ? theme.palette.success.main
+      : nodeType === 'condition'
+      ? theme.palette.warning.main
+      : nodeType === 'subflow'
+      ? '#607D8B'
+      : nodeType === 'parallel'
+      ? '#3F51B5'
+      : nodeType === 'join'
+      ? '#009688'
+      : nodeType === 'human_input'
+      ? '#E91E63'
+      : nodeType === 'code'
+      ? '#8BC34A'
       : theme.palette.info.main
   }`,
   boxShadow: theme.shadows[2],
@@ -45,6 +63,18 @@ const NodeItem = styled(Paper, {
         ? theme.palette.secondary.main
         : nodeType === 'finish'
         ? theme.palette.success.main
+        : nodeType === 'condition'
+        ? theme.palette.warning.main
+        : nodeType === 'subflow'
+        ? '#607D8B'
+        : nodeType === 'parallel'
+        ? '#3F51B5'
+        : nodeType === 'join'
+        ? '#009688'
+        : nodeType === 'human_input'
+        ? '#E91E63'
+        : nodeType === 'code'
+        ? '#8BC34A'
         : theme.palette.info.main
     }, 0 3px 10px rgba(0,0,0,0.1)`
   },
@@ -64,6 +94,18 @@ const NodeHeader = styled(Box, {
       ? theme.palette.secondary.light
       : nodeType === 'finish'
       ? theme.palette.success.light
+      : nodeType === 'condition'
+      ? theme.palette.warning.light
+      : nodeType === 'subflow'
+      ? '#90A4AE'
+      : nodeType === 'parallel'
+      ? '#7986CB'
+      : nodeType === 'join'
+      ? '#4DB6AC'
+      : nodeType === 'human_input'
+      ? '#F06292'
+      : nodeType === 'code'
+      ? '#AED581'
       : theme.palette.info.light
   }`,
   marginBottom: theme.spacing(1),
@@ -97,6 +139,36 @@ const nodeTypes: Array<{
     label: 'MCP Node',
     description: 'Add functionality',
   },
+  {
+    type: 'condition',
+    label: 'Condition Node',
+    description: 'Route without a LLM',
+  },
+  {
+    type: 'subflow',
+    label: 'Subflow Node',
+    description: 'Run another flow',
+  },
+  {
+    type: 'parallel',
+    label: 'Parallel Node',
+    description: 'Run branches at the same time',
+  },
+  {
+    type: 'join',
+    label: 'Join Node',
+    description: 'Merge parallel branches',
+  },
+  {
+    type: 'human_input',
+    label: 'Human Input Node',
+    description: 'Ask the user for input',
+  },
+  {
+    type: 'code',
+    label: 'Code Node',
+    description: 'Transform data with JavaScript',
+  },
 ];
 
 // Helper function to get the appropriate icon for each node type
@@ -108,6 +180,18 @@ const getNodeIcon = (type: NodeType) => {
       return <OutputIcon color="success" />;
     case 'mcp':
       return <SettingsIcon color="info" />;
+    case 'condition':
+      return <CallSplitIcon color="warning" />;
+    case 'subflow':
+      return <AccountTreeIcon sx={{ color: '#607D8B' }} />;
+    case 'parallel':
+      return <ForkRightIcon sx={{ color: '#3F51B5' }} />;
+    case 'join':
+      return <CallMergeIcon sx={{ color: '#009688' }} />;
+    case 'human_input':
+      return <PanToolIcon sx={{ color: '#E91E63' }} />;
+    case 'code':
+      return <CodeIcon sx={{ color: '#8BC34A' }} />;
     default:
       return <SettingsIcon color="secondary" />;
   }
@@ -38,7 +38,7 @@ import {
 } from '@xyflow/react';
 // eslint-disable-next-line import/named
 import { v4 as uuidv4 } from 'uuid';
-import { Flow, FlowNode, HistoryEntry } from '@/shared/types/flow';
+import { Flow, FlowNode, HistoryEntry, FlowValidationResult } from '@/shared/types/flow';
 import { flowService } from '@/frontend/services/flow';
 import { Canvas } from './Canvas/index';
 import { NodePalette } from './NodePalette';
@@ -47,9 +47,18 @@ import ProcessNodePropertiesModal from './Modals/ProcessNodePropertiesModal';
 import MCPNodePropertiesModal from './Modals/MCPNodePropertiesModal';
 import StartNodePropertiesModal from './Modals/StartNodePropertiesModal';
 import FinishNodePropertiesModal from './Modals/FinishNodePropertiesModal';
+import ConditionNodePropertiesModal from './Modals/ConditionNodePropertiesModal';
+import SubflowNodePropertiesModal from './Modals/SubflowNodePropertiesModal';
+import ParallelNodePropertiesModal from './Modals/ParallelNodePropertiesModal';
+import JoinNodePropertiesModal from './Modals/JoinNodePropertiesModal';
+import HumanInputNodePropertiesModal from './Modals/HumanInputNodePropertiesModal';
+import CodeNodePropertiesModal from './Modals/CodeNodePropertiesModal';
+import FlowHistoryPanel from './FlowHistoryPanel';
 import SaveIcon from '@mui/icons-material/Save';
 import UndoIcon from '@mui/icons-material/Undo';
 import RedoIcon from '@mui/icons-material/Redo';
+import RuleIcon from '@mui/icons-material/Rule';
+import HistoryIcon from '@mui/icons-material/History';
 
 const FlowBuilderContainer = styled(Box)({
   display: 'flex',
@@ -82,6 +91,8 @@ const MainContent = styled(Box)({
 interface FlowBuilderProps {
   initialFlow?: Flow;
   onSave: (flow: Flow) => void;
+  // Called after a version from the flow's history was restored and saved
+  onRestore?: (flow: Flow, version: number) => void;
   onDelete: (flowId: string) => void;
   allFlows: Flow[];
   onSelectFlow?: (flowId: string | null) => void;
@@ -90,7 +101,7 @@ interface FlowBuilderProps {
 // Dialog types for save/copy/rename
 type DialogType = 'none' | 'duplicate' | 'rename' | 'unsaved';
 
-export const FlowBuilder = ({ initialFlow, onSave, onDelete, allFlows, onSelectFlow }: FlowBuilderProps) => {
+export const FlowBuilder = ({ initialFlow, onSave, onRestore, onDelete, allFlows, onSelectFlow }: FlowBuilderProps) => {
   log.debug('FlowBuilder rendered with initialFlow:', initialFlow);
 
   const [nodes, setNodes] = useState<FlowNode[]>(initialFlow?.nodes || []);
@@ -110,7 +121,16 @@ export const FlowBuilder = ({ initialFlow, onSave, onDelete, allFlows, onSelectF
   const [mcpModalOpen, setMcpModalOpen] = useState(false);
   const [startModalOpen, setStartModalOpen] = useState(false);
   const [finishModalOpen, setFinishModalOpen] = useState(false);
+  const [conditionModalOpen, setConditionModalOpen] = useState(false);
+  const [subflowModalOpen, setSubflowModalOpen] = useState(false);
+  const [parallelModalOpen, setParallelModalOpen] = useState(false);
+  const [joinModalOpen, setJoinModalOpen] = useState(false);
+  const [humanInputModalOpen, setHumanInputModalOpen] = useState(false);
+  const [codeModalOpen, setCodeModalOpen] = useState(false);
   const [nodeToEdit, setNodeToEdit] = useState<FlowNode | null>(null);
+  const [validation, setValidation] = useState<FlowValidationResult | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [historyPanelOpen, setHistoryPanelOpen] = useState(false);
   
   // History for undo/redo functionality
   const [history, setHistory] = useState<HistoryEntry[]>([]);
@@ -251,6 +271,21 @@ export const FlowBuilder = ({ initialFlow, onSave, onDelete, allFlows, onSelectF
     setFlowNameError(validateFlowName(newName));
   };
 
+  // Validate the flow as it is in the editor (saved or not) and show the results on the canvas
+  const handleValidate = useCallback(async (flowToValidate?: Flow) => {
+    const flow: Flow = flowToValidate || {
+      id: initialFlow?.id || 'unsaved',
+      name: flowName,
+      nodes,
+      edges,
+    };
+    log.debug(`handleValidate: Validating flow "${flow.name}"`);
+    setIsValidating(true);
+    const result = await flowService.validateFlow(flow);
+    setIsValidating(false);
+    setValidation(result);
+  }, [initialFlow, flowName, nodes, edges]);
+
   // Handle save flow
   const handleSave = useCallback(() => {
     log.debug(`handleSave: Attempting to save flow "${flowName}"`);
@@ -300,7 +335,8 @@ export const FlowBuilder = ({ initialFlow, onSave, onDelete, allFlows, onSelectF
     log.info(`handleSave: Saving flow "${flowName}" with ${flowNodes.length} nodes and ${edges.length} edges`);
     onSave(flow);
     setHasUnsavedChanges(false);
-  }, [flowName, nodes, edges, initialFlow, onSave, allFlows]);
+    handleValidate(flow);
+  }, [flowName, nodes, edges, initialFlow, onSave, allFlows, handleValidate]);
 
   // Handle flow selection with unsaved changes check
   const handleFlowSelection = useCallback((flowId: string | null) => {
@@ -513,6 +549,12 @@ export const FlowBuilder = ({ initialFlow, onSave, onDelete, allFlows, onSelectF
     setMcpModalOpen(false);
     setStartModalOpen(false);
     setFinishModalOpen(false);
+    setConditionModalOpen(false);
+    setSubflowModalOpen(false);
+    setParallelModalOpen(false);
+    setJoinModalOpen(false);
+    setHumanInputModalOpen(false);
+    setCodeModalOpen(false);
     setNodeToEdit(null);
     log.debug(`handleNodeUpdate: Closed property modals`);
   }, []);
@@ -528,6 +570,18 @@ export const FlowBuilder = ({ initialFlow, onSave, onDelete, allFlows, onSelectF
       setStartModalOpen(true);
     } else if (node.data.type === 'finish') {
       setFinishModalOpen(true);
+    } else if (node.data.type === 'condition') {
+      setConditionModalOpen(true);
+    } else if (node.data.type === 'subflow') {
+      setSubflowModalOpen(true);
+    } else if (node.data.type === 'parallel') {
+      setParallelModalOpen(true);
+    } else if (node.data.type === 'join') {
+      setJoinModalOpen(true);
+    } else if (node.data.type === 'human_input') {
+      setHumanInputModalOpen(true);
+    } else if (node.data.type === 'code') {
+      setCodeModalOpen(true);
     } else {
       setProcessModalOpen(true);
     }
@@ -664,6 +718,28 @@ export const FlowBuilder = ({ initialFlow, onSave, onDelete, allFlows, onSelectF
               <RedoIcon />
             </IconButton>
             
+            <Divider orientation="vertical" flexItem />
+            
+            <Button 
+              variant="outlined" 
+              color="primary" 
+              onClick={() => handleValidate()}
+              startIcon={<RuleIcon />}
+              disabled={isValidating}
+            >
+              Validate
+            </Button>
+            
+            <Button 
+              variant="outlined" 
+              color="primary" 
+              onClick={() => setHistoryPanelOpen(true)}
+              startIcon={<HistoryIcon />}
+              disabled={!initialFlow}
+            >
+              History
+            </Button>
+            
             <Box sx={{ flex: 1 }} />
           </ToolbarContainer>
           
@@ -679,11 +755,20 @@ export const FlowBuilder = ({ initialFlow, onSave, onDelete, allFlows, onSelectF
               onInit={onInit}
               reactFlowWrapper={reactFlowWrapper}
               onEditNode={openNodeProperties}
+              validation={validation}
+              onDismissValidation={() => setValidation(null)}
             />
           </Box>
         </MainContent>
       </ReactFlowProvider>
       
+      <FlowHistoryPanel
+        open={historyPanelOpen}
+        flowId={initialFlow?.id}
+        onClose={() => setHistoryPanelOpen(false)}
+        onRestore={(flow, version) => onRestore?.(flow, version)}
+      />
+      
       {/* Node Properties Modals */}
       <ProcessNodePropertiesModal 
         open={processModalOpen}
@@ -716,6 +801,53 @@ export const FlowBuilder = ({ initialFlow, onSave, onDelete, allFlows, onSelectF
         onSave={handleNodeUpdate}
       />
       
+      <ConditionNodePropertiesModal
+        open={conditionModalOpen}
+        node={nodeToEdit}
+        onClose={() => setConditionModalOpen(false)}
+        onSave={handleNodeUpdate}
+        flowEdges={edges}
+        flowNodes={nodes}
+      />
+      
+      <SubflowNodePropertiesModal
+        open={subflowModalOpen}
+        node={nodeToEdit}
+        onClose={() => setSubflowModalOpen(false)}
+        onSave={handleNodeUpdate}
+        allFlows={allFlows}
+        currentFlowId={initialFlow?.id}
+      />
+      
+      <ParallelNodePropertiesModal
+        open={parallelModalOpen}
+        node={nodeToEdit}
+        onClose={() => setParallelModalOpen(false)}
+        onSave={handleNodeUpdate}
+        flowNodes={nodes}
+      />
+      
+      <JoinNodePropertiesModal
+        open={joinModalOpen}
+        node={nodeToEdit}
+        onClose={() => setJoinModalOpen(false)}
+        onSave={handleNodeUpdate}
+      />
+      
+      <HumanInputNodePropertiesModal
+        open={humanInputModalOpen}
+        node={nodeToEdit}
+        onClose={() => setHumanInputModalOpen(false)}
+        onSave={handleNodeUpdate}
+      />
+      
+      <CodeNodePropertiesModal
+        open={codeModalOpen}
+        node={nodeToEdit}
+        onClose={() => setCodeModalOpen(false)}
+        onSave={handleNodeUpdate}
+      />
+      
       {/* Dialog for Copy/Rename/Unsaved Changes */}
       <Dialog open={dialogOpen} onClose={handleDialogClose}>
         <DialogTitle>
@@ -22,8 +22,10 @@ import { Link as LinkIcon, Cancel as CancelIcon } from '@mui/icons-material';
 import { useStorage } from '@/frontend/contexts/StorageContext';
 import PromptBuilder, { PromptBuilderRef } from '@/frontend/components/shared/PromptBuilder';
 import { Model } from '@/shared/types';
+import { ModelPricing } from '@/shared/types/model';
 import { ModelProvider, PROVIDER_INFO } from '@/shared/types/model/provider';
 import { modelService } from '@/frontend/services/model';
+import ModelFallbackEditor from '@/frontend/components/shared/ModelFallbackEditor';
 
 const log = createLogger('frontend/components/models/modal');
 
@@ -47,12 +49,17 @@ export const ModelModal = ({ open, model, onSave, onClose }: ModelModalProps) =>
   const [showBindModal, setShowBindModal] = useState(false);
   const [openRouterModels, setOpenRouterModels] = useState<Array<{id: string, name: string, description?: string}>>([]);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
+  // Configured models, offered as fallbacks
+  const [fallbackCandidates, setFallbackCandidates] = useState<Model[]>([]);
   const promptBuilderRef = useRef<PromptBuilderRef>(null);
 
   // Clear models list when modal opens
   useEffect(() => {
     if (open) {
       setOpenRouterModels([]);
+      modelService.loadModels()
+        .then(setFallbackCandidates)
+        .catch(error => log.warn('Failed to load models for fallbacks', error));
     }
   }, [open]);
 
@@ -193,6 +200,15 @@ export const ModelModal = ({ open, model, onSave, onClose }: ModelModalProps) =>
     setErrors(prev => ({ ...prev, [field]: '' }));
   };
 
+  // Without any price the model's calls are not included in cost totals
+  const handlePricingChange = (field: keyof ModelPricing, value: string) => {
+    setFormState(prev => {
+      const pricing = { ...prev.pricing, [field]: value === '' ? undefined : Math.max(0, parseFloat(value) || 0) };
+      const hasPrice = pricing.inputPerMillion !== undefined || pricing.outputPerMillion !== undefined;
+      return { ...prev, pricing: hasPrice ? pricing : undefined };
+    });
+  };
+
   const handleBindApiKey = () => {
     setShowBindModal(true);
   };
@@ -251,6 +267,9 @@ export const ModelModal = ({ open, model, onSave, onClose }: ModelModalProps) =>
         provider: formState.provider!,
         promptTemplate: formState.promptTemplate,
         temperature: formState.temperature,
+        contextLength: formState.contextLength,
+        pricing: formState.pricing,
+        fallback: formState.fallback,
       } as Model);
 
       if (result.success) {
@@ -488,6 +507,49 @@ export const ModelModal = ({ open, model, onSave, onClose }: ModelModalProps) =>
                   onChange={(e) => handleChange('temperature', e.target.value)}
                   helperText="Value between 0 and 1. Lower values make output more deterministic."
                 />
+
+                <TextField
+                  margin="dense"
+                  label="Context Length (tokens)"
+                  fullWidth
+                  type="number"
+                  inputProps={{ min: 1, step: 1 }}
+                  value={formState.contextLength ?? ''}
+                  placeholder="Unknown"
+                  onChange={(e) => setFormState(prev => ({ ...prev, contextLength: e.target.value ? Math.max(1, parseInt(e.target.value, 10) || 1) : undefined }))}
+                  helperText="Maximum tokens of a request. Process nodes compact longer conversations to fit."
+                />
+
+                <Box sx={{ display: 'flex', gap: 2 }}>
+                  <TextField
+                    margin="dense"
+                    label="Input Price (USD / 1M tokens)"
+                    fullWidth
+                    type="number"
+                    inputProps={{ min: 0, step: 0.01 }}
+                    value={formState.pricing?.inputPerMillion ?? ''}
+                    onChange={(e) => handlePricingChange('inputPerMillion', e.target.value)}
+                  />
+                  <TextField
+                    margin="dense"
+                    label="Output Price (USD / 1M tokens)"
+                    fullWidth
+                    type="number"
+                    inputProps={{ min: 0, step: 0.01 }}
+                    value={formState.pricing?.outputPerMillion ?? ''}
+                    onChange={(e) => handlePricingChange('outputPerMillion', e.target.value)}
+                  />
+                </Box>
+
+                <Box sx={{ mt: 2 }}>
+                  <ModelFallbackEditor
+                    value={formState.fallback}
+                    onChange={(fallback) => setFormState(prev => ({ ...prev, fallback }))}
+                    models={fallbackCandidates}
+                    excludeModelId={model.id}
+                    helperText="Tried in this order when a call to this model fails, unless the process node sets its own."
+                  />
+                </Box>
               </Box>
             </Grid>
             
@@ -0,0 +1,94 @@
+"use client";
+
+import React from 'react';
+import { Autocomplete, Box, Checkbox, Chip, FormControlLabel, FormGroup, FormLabel, TextField } from '@mui/material';
+import { Model, ModelFallbackErrorClass, ModelFallbackSettings, MODEL_FALLBACK_ERROR_CLASSES } from '@/shared/types/model';
+
+interface ModelFallbackEditorProps {
+  value?: ModelFallbackSettings;
+  onChange: (value: ModelFallbackSettings | undefined) => void;
+  models: Model[];
+  // The model the fallbacks stand in for, which cannot be its own fallback
+  excludeModelId?: string;
+  helperText?: string;
+}
+
+const ERROR_CLASS_LABELS: Record<ModelFallbackErrorClass, string> = {
+  server_error: 'Server errors (5xx)',
+  rate_limit: 'Rate limits (429)',
+  content_filter: 'Content filter',
+};
+
+/**
+ * Ordered list of fallback models and the failures that move on to the next one.
+ */
+export const ModelFallbackEditor = ({ value, onChange, models, excludeModelId, helperText }: ModelFallbackEditorProps) => {
+  const selectedIds = value?.models || [];
+  const on = value?.on?.length ? value.on : MODEL_FALLBACK_ERROR_CLASSES;
+  const modelLabel = (id: string) => {
+    const model = models.find(m => m.id === id);
+    return model ? model.displayName || model.name : id;
+  };
+
+  const update = (changes: Partial<ModelFallbackSettings>) => {
+    const next: ModelFallbackSettings = { models: selectedIds, ...value, ...changes };
+    // All error classes is the default
+    if (next.on && next.on.length === MODEL_FALLBACK_ERROR_CLASSES.length) {
+      delete next.on;
+    }
+    onChange(next.models.length > 0 ? next : undefined);
+  };
+
+  const toggleErrorClass = (errorClass: ModelFallbackErrorClass, checked: boolean) => {
+    const next = checked ? [...on, errorClass] : on.filter(c => c !== errorClass);
+    // At least one failure has to trigger the fallback
+    if (next.length > 0) {
+      update({ on: MODEL_FALLBACK_ERROR_CLASSES.filter(c => next.includes(c)) });
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Autocomplete
+        multiple
+        size="small"
+        options={models.map(model => model.id).filter(id => id !== excludeModelId)}
+        value={selectedIds}
+        onChange={(_, ids) => update({ models: ids })}
+        getOptionLabel={modelLabel}
+        renderTags={(ids, getTagProps) => ids.map((id, index) => (
+          <Chip {...getTagProps({ index })} key={id} size="small" label={`${index + 1}. ${modelLabel(id)}`} />
+        ))}
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            label="Fallback models"
+            placeholder={selectedIds.length ? '' : 'None'}
+            helperText={helperText || 'Tried in this order when a model call fails.'}
+          />
+        )}
+      />
+      <Box>
+        <FormLabel component="legend" disabled={selectedIds.length === 0}>Fall back on</FormLabel>
+        <FormGroup row>
+          {MODEL_FALLBACK_ERROR_CLASSES.map(errorClass => (
+            <FormControlLabel
+              key={errorClass}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={on.includes(errorClass)}
+                  onChange={(e) => toggleErrorClass(errorClass, e.target.checked)}
+                  disabled={selectedIds.length === 0}
+                />
+              }
+              label={ERROR_CLASS_LABELS[errorClass]}
+            />
+          ))}
+        </FormGroup>
+      </Box>
+    </Box>
+  );
+};
+
+export default ModelFallbackEditor;
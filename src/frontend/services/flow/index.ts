@@ -2,7 +2,7 @@
 
 // eslint-disable-next-line import/named
 import { v4 as uuidv4 } from 'uuid';
-import { Flow, FlowNode, HistoryEntry } from '@/shared/types/flow';
+import { Flow, FlowNode, HistoryEntry, FlowValidationResult, FlowVersion, FlowVersionSummary, FlowDiff, UsageTotals } from '@/shared/types/flow';
 import { Edge } from '@xyflow/react';
 import { createLogger } from '@/utils/logger';
 
@@ -98,7 +98,7 @@ class FlowService {
   /**
    * Save a flow (create new or update existing)
    */
-  async saveFlow(flow: Flow): Promise<{ success: boolean; error?: string }> {
+  async saveFlow(flow: Flow, message?: string): Promise<{ success: boolean; error?: string; validation?: FlowValidationResult; version?: number }> {
     log.debug('saveFlow: Entering method', { 
       flowId: flow.id, 
       flowName: flow.name,
@@ -118,7 +118,8 @@ class FlowService {
         },
         body: JSON.stringify({
           action,
-          flow
+          flow,
+          message
         })
       });
       
@@ -151,8 +152,8 @@ class FlowService {
         }
       }
       
-      log.debug('saveFlow: Flow saved successfully', { flowId: flow.id });
-      return { success: true };
+      log.debug('saveFlow: Flow saved successfully', { flowId: flow.id, version: data.version });
+      return { success: true, validation: data.validation, version: data.version };
     } catch (error) {
       log.warn('saveFlow: Failed to save flow:', error);
       return { 
@@ -162,6 +163,41 @@ class FlowService {
     }
   }
 
+  /**
+   * Validate a flow without saving it
+   */
+  async validateFlow(flow: Flow): Promise<FlowValidationResult | null> {
+    log.debug('validateFlow: Entering method', { flowId: flow.id });
+    try {
+      const response = await fetch('/api/flow', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'validateFlow',
+          flow
+        })
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to validate flow');
+      }
+      
+      log.debug('validateFlow: Flow validated', { 
+        flowId: flow.id, 
+        errors: data.validation?.errors.length, 
+        warnings: data.validation?.warnings.length 
+      });
+      return data.validation;
+    } catch (error) {
+      log.warn('validateFlow: Failed to validate flow:', error);
+      return null;
+    }
+  }
+
   /**
    * Delete a flow by ID
    */
@@ -213,6 +249,151 @@ class FlowService {
     }
   }
 
+  /**
+   * List the version history of a flow, oldest first
+   */
+  async listVersions(flowId: string): Promise<FlowVersionSummary[]> {
+    log.debug('listVersions: Entering method', { flowId });
+    try {
+      const response = await fetch(`/api/flow?action=listVersions&id=${encodeURIComponent(flowId)}`);
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to list flow versions');
+      }
+      
+      log.debug('listVersions: Loaded versions from API', { flowId, count: data.versions?.length });
+      return data.versions || [];
+    } catch (error) {
+      log.warn(`listVersions: Failed to list versions of flow ${flowId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a version of a flow with its content
+   */
+  async getVersion(flowId: string, version: number): Promise<FlowVersion | null> {
+    log.debug('getVersion: Entering method', { flowId, version });
+    try {
+      const response = await fetch(`/api/flow?action=getVersion&id=${encodeURIComponent(flowId)}&version=${version}`);
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to get flow version');
+      }
+      
+      return data.version;
+    } catch (error) {
+      log.warn(`getVersion: Failed to get version ${version} of flow ${flowId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Compare two versions of a flow; without `toVersion` the latest version is used
+   */
+  async diffVersions(flowId: string, fromVersion: number, toVersion?: number): Promise<FlowDiff | null> {
+    log.debug('diffVersions: Entering method', { flowId, fromVersion, toVersion });
+    try {
+      const params = new URLSearchParams({ action: 'diffVersions', id: flowId, from: String(fromVersion) });
+      if (toVersion !== undefined) {
+        params.set('to', String(toVersion));
+      }
+      const response = await fetch(`/api/flow?${params.toString()}`);
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to compare flow versions');
+      }
+      
+      return data.diff;
+    } catch (error) {
+      log.warn(`diffVersions: Failed to compare versions of flow ${flowId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Restore a flow to an earlier version. The restored content is saved as a new version.
+   */
+  async restoreVersion(flowId: string, version: number): Promise<{ success: boolean; error?: string; flow?: Flow; version?: number }> {
+    log.debug('restoreVersion: Entering method', { flowId, version });
+    try {
+      const response = await fetch('/api/flow', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'restoreVersion',
+          id: flowId,
+          version
+        })
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        return { 
+          success: false, 
+          error: data.error || 'Failed to restore flow version' 
+        };
+      }
+      
+      // Update cache
+      if (this.flowsCache) {
+        const existingFlowIndex = this.flowsCache.findIndex(f => f.id === flowId);
+        if (existingFlowIndex >= 0) {
+          this.flowsCache[existingFlowIndex] = data.flow;
+        } else {
+          this.flowsCache.push(data.flow);
+        }
+      }
+      
+      log.debug('restoreVersion: Flow restored successfully', { flowId, version, newVersion: data.version });
+      return { success: true, flow: data.flow, version: data.version };
+    } catch (error) {
+      log.warn('restoreVersion: Failed to restore flow version:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Failed to restore flow version' 
+      };
+    }
+  }
+
+  /**
+   * Tokens and cost of the model calls of each flow, summed over its conversations
+   */
+  async getUsageByFlow(): Promise<Record<string, UsageTotals>> {
+    log.debug('getUsageByFlow: Entering method');
+    try {
+      const response = await fetch('/v1/chat/conversations');
+      const data = await response.json();
+
+      if (!response.ok || !Array.isArray(data)) {
+        throw new Error(data.error || 'Failed to list conversations');
+      }
+
+      const usageByFlow: Record<string, UsageTotals> = {};
+      for (const conversation of data as Array<{ flowId: string | null; usage?: UsageTotals }>) {
+        if (!conversation.flowId || !conversation.usage) {
+          continue;
+        }
+        const totals = usageByFlow[conversation.flowId] ??= {
+          prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: 0, calls: 0, unpricedCalls: 0, toolCalls: 0
+        };
+        (Object.keys(totals) as Array<keyof UsageTotals>).forEach(key => {
+          totals[key] += conversation.usage![key] || 0;
+        });
+      }
+      return usageByFlow;
+    } catch (error) {
+      log.warn('getUsageByFlow: Failed to load the usage of the flows:', error);
+      return {};
+    }
+  }
+
   /**
    * Create a new node of the specified type at the given position
    */
@@ -223,7 +404,7 @@ class FlowService {
       type,
       position,
       data: {
-        label: `${type === 'mcp' ? 'MCP' : type.charAt(0).toUpperCase() + type.slice(1)} Node`,
+        label: `${type === 'mcp' ? 'MCP' : type.split('_').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' ')} Node`,
         type,
         properties: {},
       },
@@ -0,0 +1,85 @@
+'use client';
+
+import { ScheduleTriggerInput, ScheduleTriggerStatus, ScheduleRun } from '@/shared/types/scheduler';
+import { createLogger } from '@/utils/logger';
+
+// Create a logger instance for this file
+const log = createLogger('frontend/services/scheduler/index');
+
+/**
+ * SchedulerService class provides a client-side API for the schedule triggers
+ * This service makes API calls to the server-side API layer
+ */
+class SchedulerService {
+  /**
+   * List all triggers with their next and last run
+   */
+  async listTriggers(): Promise<ScheduleTriggerStatus[]> {
+    log.debug('listTriggers: Entering method');
+    try {
+      const response = await fetch('/api/scheduler?action=listTriggers');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to list triggers');
+      }
+
+      log.debug('listTriggers: Loaded triggers from API', { count: data.triggers?.length });
+      return data.triggers || [];
+    } catch (error) {
+      log.warn('listTriggers: Failed to list triggers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a trigger, or update it when `trigger.id` is set
+   */
+  async saveTrigger(trigger: ScheduleTriggerInput): Promise<{ success: boolean; error?: string; trigger?: ScheduleTriggerStatus }> {
+    log.debug('saveTrigger: Entering method', { triggerId: trigger.id, name: trigger.name });
+    return this.post({ action: 'saveTrigger', trigger }, 'Failed to save trigger');
+  }
+
+  /**
+   * Delete a trigger by ID
+   */
+  async deleteTrigger(triggerId: string): Promise<{ success: boolean; error?: string }> {
+    log.debug('deleteTrigger: Entering method', { triggerId });
+    return this.post({ action: 'deleteTrigger', id: triggerId }, 'Failed to delete trigger');
+  }
+
+  /**
+   * Run a trigger now. Resolves when the run has finished or stopped for approval.
+   */
+  async runTrigger(triggerId: string): Promise<{ success: boolean; error?: string; run?: ScheduleRun }> {
+    log.debug('runTrigger: Entering method', { triggerId });
+    return this.post({ action: 'runTrigger', id: triggerId }, 'Failed to run trigger');
+  }
+
+  private async post<T extends { success: boolean; error?: string }>(body: Record<string, unknown>, fallbackError: string): Promise<T> {
+    try {
+      const response = await fetch('/api/scheduler', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { ...data, success: false, error: data.error || fallbackError };
+      }
+      return data;
+    } catch (error) {
+      log.warn(`${body.action}: Request failed:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : fallbackError
+      } as T;
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService();
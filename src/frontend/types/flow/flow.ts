@@ -18,7 +18,7 @@ export interface Flow {
   input?: NodeType;
 }
 
-export type NodeType = 'start' | 'process' | 'finish' | 'mcp';
+export type NodeType = 'start' | 'process' | 'finish' | 'mcp' | 'condition' | 'subflow' | 'parallel' | 'join' | 'human_input' | 'code';
 
 export interface FlowContextType {
   flows: Flow[];
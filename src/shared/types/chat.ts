@@ -31,6 +31,30 @@ export interface ChatCompletionMetadata {
    * Used when editing messages to resume execution from a specific node.
    */
   processNodeId?: string;
+
+  /**
+   * Initial flow variables as a JSON-encoded object, e.g. '{"customerId":"42"}'.
+   * Merged into the conversation's variables before the flow runs.
+   */
+  variables?: string;
+
+  /**
+   * Spending limits of the conversation as a JSON-encoded object, e.g. '{"maxCost":0.5,"maxToolCalls":20}'.
+   * Keys: maxTokens, maxCost (USD), maxToolCalls, maxModelCalls. Kept for the following requests.
+   */
+  budget?: string;
+
+  /**
+   * Name of a fixture to record the conversation's model and tool calls into (db/fixtures/<name>.json).
+   * Set it on the first request of a conversation; later requests keep recording into the same fixture.
+   */
+  flujorecord?: string;
+
+  /**
+   * Name of a recorded fixture to serve the conversation's model and tool calls from, without
+   * calling providers or MCP servers. Requests that differ from the recording fail.
+   */
+  flujoreplay?: string;
 }
 
 import OpenAI from 'openai';
@@ -51,4 +75,7 @@ export type FlujoChatMessage = OpenAI.ChatCompletionMessageParam & {
   
   /** The ID of the process node that generated or handled this message */
   processNodeId?: string;
+
+  /** The ID of the model that generated this message; a fallback model when the node's model failed */
+  modelId?: string;
 };
@@ -0,0 +1,55 @@
+/**
+ * Events emitted while a conversation runs. `seq` increases by one per event of a conversation,
+ * so a client that reconnects can ask for the events after the last one it saw.
+ */
+interface FlowExecutionEventBase {
+  conversationId: string;
+  seq: number;
+  timestamp: number;
+}
+
+export interface ExecutionToolCall {
+  id: string;
+  name: string;
+  // JSON encoded, as the model produced them
+  arguments: string;
+}
+
+export interface ExecutionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // In USD, when the models used have pricing
+  cost?: number;
+}
+
+export type FlowExecutionEventPayload =
+  | { type: 'node_started'; nodeId: string; nodeType: string; label?: string }
+  | { type: 'node_finished'; nodeId: string; nodeType: string; action: string; durationMs: number; error?: string }
+  | { type: 'tool_call_started'; toolCall: ExecutionToolCall }
+  | { type: 'tool_result'; toolCallId: string; name: string; content: string; isError: boolean }
+  | { type: 'approval_required'; toolCalls: ExecutionToolCall[] }
+  // Text added to an assistant message, token by token while the model streams its answer.
+  // Answers that were not streamed (e.g. replayed from a fixture) arrive as a single delta.
+  | { type: 'message_delta'; messageId: string; nodeId?: string; delta: string }
+  // The text streamed for an assistant message will not become part of the conversation: its model
+  // call failed and a fallback model answers under a new message ID. Clients drop the text.
+  | { type: 'message_discarded'; messageId: string; nodeId?: string }
+  // A process node shortened the conversation to fit it into the context of its model
+  | { type: 'context_compacted'; nodeId: string; strategy: string; tokensBefore: number; tokensAfter: number; removedMessages: number }
+  // The run stopped without an error. `status` tells whether the conversation finished, was stopped
+  // by its budget or waits for tool approval, human input or the debugger. `finishReason`,
+  // `toolCalls` and `usage` are those of the chat completion response.
+  | {
+      type: 'completed';
+      status: 'completed' | 'budget_exceeded' | 'awaiting_tool_approval' | 'awaiting_human_input' | 'paused_debug';
+      content?: string | null;
+      finishReason?: string;
+      toolCalls?: ExecutionToolCall[];
+      usage?: ExecutionUsage;
+    }
+  | { type: 'error'; message: string; code?: string };
+
+export type FlowExecutionEvent = FlowExecutionEventBase & FlowExecutionEventPayload;
+
+export type FlowExecutionEventType = FlowExecutionEvent['type'];
@@ -1,2 +1,5 @@
 export * from './flow';
 export * from './response';
+export * from './validation';
+export * from './version';
+export * from './events';
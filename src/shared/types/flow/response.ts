@@ -1,5 +1,6 @@
 import OpenAI from 'openai';
 import { Flow } from './flow';
+import type { FlowValidationResult } from './validation';
 
 /**
  * Base response interface for flow service operations
@@ -14,6 +15,10 @@ export interface FlowServiceResponse {
  */
 export interface FlowOperationResponse extends FlowServiceResponse {
   flow?: Flow;
+  // Lint results, returned when a flow is saved
+  validation?: FlowValidationResult;
+  // Version number of the saved flow in its history
+  version?: number;
 }
 
 /**
@@ -80,6 +85,33 @@ export interface MessageResult {
   [key: string]: unknown;
 }
 
+/**
+ * Tokens and cost of a set of model calls
+ */
+export interface UsageTotals {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // In USD, for the calls of models with pricing
+  cost: number;
+  calls: number;
+  // Calls of models without pricing, not included in `cost`
+  unpricedCalls: number;
+  // Tool calls the models requested
+  toolCalls: number;
+}
+
+/**
+ * Usage of a conversation, attributed to its nodes and models
+ */
+export interface UsageTracking {
+  total: UsageTotals;
+  // Usage of the latest run, i.e. the latest chat completion request
+  run: UsageTotals;
+  byNode: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
 /**
  * Node execution tracker entry
  */
@@ -99,6 +131,8 @@ export interface NodeExecutionTrackerEntry {
   modelDisplayName?: string;
   modelTechnicalName?: string;
   allowedTools?: string;
+  // Model calls of this step
+  usage?: UsageTotals;
 }
 
 /**
@@ -0,0 +1,46 @@
+import { FlowServiceResponse } from './response';
+
+export type FlowValidationSeverity = 'error' | 'warning';
+
+export type FlowValidationCode =
+  | 'NO_START_NODE'
+  | 'MULTIPLE_START_NODES'
+  | 'DANGLING_EDGE'
+  | 'UNREACHABLE_NODE'
+  | 'NO_REACHABLE_FINISH'
+  | 'MISSING_MODEL'
+  | 'MISSING_SERVER'
+  | 'INVALID_ROUTE'
+  | 'MISSING_SUBFLOW'
+  | 'MISSING_JOIN'
+  | 'ORPHAN_JOIN'
+  | 'INVALID_FALLBACK_EDGE'
+  | 'MISSING_VARIABLE'
+  | 'MISSING_CODE'
+  | 'INVALID_OUTPUT_SCHEMA'
+  | 'INVALID_VARIABLE_NAME';
+
+/**
+ * A single problem found in a flow. Errors stop the flow from running correctly,
+ * warnings point at configurations that are probably unintended.
+ */
+export interface FlowValidationIssue {
+  code: FlowValidationCode;
+  severity: FlowValidationSeverity;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+export interface FlowValidationResult {
+  valid: boolean;
+  errors: FlowValidationIssue[];
+  warnings: FlowValidationIssue[];
+}
+
+/**
+ * Response interface for flow validation
+ */
+export interface FlowValidationResponse extends FlowServiceResponse {
+  validation?: FlowValidationResult;
+}
@@ -0,0 +1,68 @@
+import { Edge } from '@xyflow/react';
+import { Flow, FlowNode } from './flow';
+import { FlowServiceResponse } from './response';
+
+/**
+ * A saved state of a flow. Versions are numbered from 1 per flow and never change once written.
+ */
+export interface FlowVersion {
+  flowId: string;
+  version: number;
+  createdAt: number;
+  author?: string;
+  message?: string;
+  // Version whose content was restored by this save
+  restoredFrom?: number;
+  flow: Flow;
+}
+
+// Version list entry without the flow content
+export type FlowVersionSummary = Omit<FlowVersion, 'flow'> & {
+  name: string;
+  nodeCount: number;
+  edgeCount: number;
+};
+
+// Author and message stored with the version a save creates
+export interface FlowVersionMeta {
+  author?: string;
+  message?: string;
+  restoredFrom?: number;
+}
+
+export interface FlowElementChange<T> {
+  id: string;
+  before: T;
+  after: T;
+  // Top-level fields that differ, with node data properties listed as `properties.<name>`
+  fields: string[];
+}
+
+export interface FlowElementDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: FlowElementChange<T>[];
+}
+
+/**
+ * Node and edge level differences between two versions of a flow
+ */
+export interface FlowDiff {
+  fromVersion: number;
+  toVersion: number;
+  nameChanged?: { from: string; to: string };
+  nodes: FlowElementDiff<FlowNode>;
+  edges: FlowElementDiff<Edge>;
+}
+
+export interface FlowVersionListResponse extends FlowServiceResponse {
+  versions?: FlowVersionSummary[];
+}
+
+export interface FlowVersionResponse extends FlowServiceResponse {
+  version?: FlowVersion;
+}
+
+export interface FlowDiffResponse extends FlowServiceResponse {
+  diff?: FlowDiff;
+}
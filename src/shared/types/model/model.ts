@@ -13,4 +13,29 @@ export interface Model {
     reasoningSchema?: string;
     temperature?: string;
     functionCallingSchema?: string;
+    // Maximum number of tokens of a request, process nodes compact longer conversations
+    contextLength?: number;
+    // Prices used for cost accounting
+    pricing?: ModelPricing;
+    // Models tried in order when a call to this model fails, unless the process node sets its own
+    fallback?: ModelFallbackSettings;
+  }
+
+// Provider failures a model call can fall back from: HTTP 5xx, HTTP 429, and
+// answers blocked by the provider's content filter
+export type ModelFallbackErrorClass = 'server_error' | 'rate_limit' | 'content_filter';
+
+export const MODEL_FALLBACK_ERROR_CLASSES: ModelFallbackErrorClass[] = ['server_error', 'rate_limit', 'content_filter'];
+
+export interface ModelFallbackSettings {
+    // IDs of the models to try, in order
+    models: string[];
+    // Failures that move on to the next model, all of them by default
+    on?: ModelFallbackErrorClass[];
+  }
+
+// Prices in USD per million tokens
+export interface ModelPricing {
+    inputPerMillion?: number;
+    outputPerMillion?: number;
   }
@@ -0,0 +1,62 @@
+/**
+ * How a scheduled run handles tool calls: 'auto' runs them without asking, 'require_approval'
+ * stops the conversation at the first tool call until it is approved in the chat.
+ */
+export type ScheduleApprovalMode = 'auto' | 'require_approval';
+
+// Conversation status after a scheduled run returned, or 'error' when the run failed
+export type ScheduleRunStatus = 'completed' | 'budget_exceeded' | 'awaiting_tool_approval' | 'awaiting_human_input' | 'running' | 'error';
+
+export interface ScheduleRun {
+  startedAt: number;
+  finishedAt?: number;
+  // Whether the run was started by the schedule or by "Run now"
+  manual?: boolean;
+  conversationId?: string;
+  status: ScheduleRunStatus;
+  error?: string;
+}
+
+/**
+ * A trigger that runs a flow on a cron schedule
+ */
+export interface ScheduleTrigger {
+  id: string;
+  name: string;
+  flowId: string;
+  // Five field cron expression (minute hour day-of-month month day-of-week) in server local time
+  cron: string;
+  // First user message of each run; {{date}}, {{time}}, {{datetime}} and {{lastRun}} are filled in
+  messageTemplate: string;
+  approvalMode: ScheduleApprovalMode;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+  lastRun?: ScheduleRun;
+}
+
+// Fields a client sends to create or update a trigger
+export type ScheduleTriggerInput = Omit<ScheduleTrigger, 'id' | 'createdAt' | 'updatedAt' | 'lastRun'> & { id?: string };
+
+// Trigger as listed, with the time of its next run (undefined when disabled or never due)
+export type ScheduleTriggerStatus = ScheduleTrigger & {
+  nextRunAt?: number;
+  isRunning: boolean;
+};
+
+export interface SchedulerServiceResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface ScheduleTriggerListResponse extends SchedulerServiceResponse {
+  triggers?: ScheduleTriggerStatus[];
+}
+
+export interface ScheduleTriggerResponse extends SchedulerServiceResponse {
+  trigger?: ScheduleTriggerStatus;
+}
+
+export interface ScheduleRunResponse extends SchedulerServiceResponse {
+  run?: ScheduleRun;
+}
@@ -11,7 +11,9 @@ export enum StorageKey {
   GLOBAL_ENV_VARS = 'global_env_vars',
   CURRENT_CONVERSATION_ID = 'current_conversation_id',
   SELECTED_FLOW_ID = 'selected_flow_id',
-  SPEECH_SETTINGS = 'speech_settings'
+  SPEECH_SETTINGS = 'speech_settings',
+  SCHEDULE_TRIGGERS = 'schedule_triggers',
+  WEBHOOK_TRIGGERS = 'webhook_triggers'
 }
 
 export const StorageKeys = {
@@ -25,6 +27,8 @@ export const StorageKeys = {
   CURRENT_CONVERSATION_ID: StorageKey.CURRENT_CONVERSATION_ID,
   SELECTED_FLOW_ID: StorageKey.SELECTED_FLOW_ID,
   SPEECH_SETTINGS: StorageKey.SPEECH_SETTINGS,
+  SCHEDULE_TRIGGERS: StorageKey.SCHEDULE_TRIGGERS,
+  WEBHOOK_TRIGGERS: StorageKey.WEBHOOK_TRIGGERS,
 } as const;
 
 /**
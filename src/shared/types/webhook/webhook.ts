@@ -0,0 +1,67 @@
+import { ScheduleApprovalMode } from '../scheduler';
+
+/**
+ * 'async' answers 202 as soon as the conversation started; 'sync' waits until the flow
+ * stops (Finish node, approval or error) and answers with the final message.
+ */
+export type WebhookMode = 'async' | 'sync';
+
+/**
+ * An inbound webhook that starts a conversation for a flow. Requests must be signed with
+ * the trigger's secret: header `X-Flujo-Timestamp: <Unix seconds>` and header
+ * `X-Flujo-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">`.
+ */
+export interface WebhookTrigger {
+  id: string;
+  name: string;
+  flowId: string;
+  secret: string;
+  // Initial user message; {{payload}} is the whole JSON body, {{payload.a.b[0]}} a value in it
+  messageTemplate: string;
+  // Flow variable name -> path into the payload, e.g. { "customer": "data.customer.name" }
+  variables: Record<string, string>;
+  mode: WebhookMode;
+  approvalMode: ScheduleApprovalMode;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Trigger as listed, without its secret
+export type WebhookTriggerSummary = Omit<WebhookTrigger, 'secret'>;
+
+// Fields a client sends to create or update a trigger; the secret is generated by the server
+export type WebhookTriggerInput = Omit<WebhookTrigger, 'id' | 'secret' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+export type WebhookInvocationStatus = 'rejected' | 'running' | 'completed' | 'budget_exceeded' | 'awaiting_tool_approval' | 'awaiting_human_input' | 'error';
+
+export interface WebhookInvocation {
+  id: string;
+  triggerId: string;
+  receivedAt: number;
+  finishedAt?: number;
+  status: WebhookInvocationStatus;
+  // HTTP status the caller received
+  httpStatus: number;
+  conversationId?: string;
+  error?: string;
+  // Start of the request body, for troubleshooting
+  payloadPreview?: string;
+}
+
+export interface WebhookServiceResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface WebhookTriggerListResponse extends WebhookServiceResponse {
+  triggers?: WebhookTriggerSummary[];
+}
+
+export interface WebhookTriggerResponse extends WebhookServiceResponse {
+  trigger?: WebhookTrigger;
+}
+
+export interface WebhookInvocationListResponse extends WebhookServiceResponse {
+  invocations?: WebhookInvocation[];
+}